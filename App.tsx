@@ -1,7 +1,14 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { useAuth } from './contexts/AuthContext';
 import { useCandidates } from './contexts/CandidatesContext';
-import { Candidate, StageId, View, StageChangeInfo } from './types';
+import { useSearch } from './contexts/SearchContext';
+import { useToast } from './contexts/ToastContext';
+import { Candidate, StageId, View, StageChangeInfo, BackupData, CandidateApplication, KanbanFilters, AdvancedFilter, SavedView, KanbanViewState } from './types';
+import { canOpenSettings } from './utils/permissionUtils';
+import { normalizePersianName, toLatinDigits } from './utils/candidateUtils';
+import { matchesAdvancedFilter, encodeViewState, decodeViewState, DEFAULT_VIEW_STATE } from './utils/filterUtils';
+import { generateId } from './utils/idUtils';
+import { savedViewService } from './services/savedViewService';
 
 import Header from './components/layout/Header';
 import Tabs from './components/layout/Tabs';
@@ -16,18 +23,25 @@ import StageChangeCommunicationModal from './components/modals/StageChangeCommun
 import DashboardSummary from './components/dashboard/DashboardSummary';
 import LoginScreen from './components/auth/LoginScreen';
 import KanbanControls from './components/kanban/KanbanControls';
+import SearchResultsPanel from './components/kanban/SearchResultsPanel';
 import CommunicationModal from './components/modals/CommunicationModal';
 import ResumeViewerModal from './components/modals/ResumeViewerModal';
 import BulkCommunicationModal from './components/modals/BulkCommunicationModal';
 import AiInsightsModal from './components/modals/AiInsightsModal';
 import ChangePasswordModal from './components/modals/ChangePasswordModal';
+import RestoreModal from './components/modals/RestoreModal';
+import ImportCandidatesModal from './components/modals/ImportCandidatesModal';
+import ExportCandidatesModal from './components/modals/ExportCandidatesModal';
+import BulkResumeIntakeModal from './components/modals/BulkResumeIntakeModal';
 import { useSettings } from './contexts/SettingsContext';
 
 
 const App: React.FC = () => {
-  const { user, isAuthLoading } = useAuth();
-  const { candidates, addCandidate, updateCandidate, updateCandidateStage } = useCandidates();
-  const { geminiApiKey } = useSettings();
+  const { user, isAuthLoading, can } = useAuth();
+  const { addToast } = useToast();
+  const { candidates, applications, addCandidate, updateCandidate, updateCandidateStage } = useCandidates();
+  const { geminiApiKey, customFields } = useSettings();
+  const { search } = useSearch();
   const [activeView, setActiveView] = useState<View>('dashboard');
   
   // Modal States
@@ -52,49 +66,110 @@ const App: React.FC = () => {
   const [bulkCommConfig, setBulkCommConfig] = useState<{ isOpen: boolean; candidates: Candidate[] }>({ isOpen: false, candidates: [] });
   const [isAiInsightsModalOpen, setAiInsightsModalOpen] = useState(false);
   const [isChangePasswordModalOpen, setChangePasswordModalOpen] = useState(false);
+  const [backupToRestore, setBackupToRestore] = useState<BackupData | null>(null);
+  const [isImportModalOpen, setImportModalOpen] = useState(false);
+  const [isResumeIntakeOpen, setResumeIntakeOpen] = useState(false);
+  const [exportConfig, setExportConfig] = useState<{ isOpen: boolean; items: CandidateApplication[]; listName: string }>({ isOpen: false, items: [], listName: '' });
 
   // State to auto-expand a candidate in TestView
   const [initialExpandedInTests, setInitialExpandedInTests] = useState<string | null>(null);
   
-  // Filter and Sort States
-  const [filters, setFilters] = useState({ search: '', position: '', source: '' });
-  const [sortBy, setSortBy] = useState('createdAt');
+  // Filter and Sort States, restored from the `view` URL parameter so that reloads and shared links keep them
+  const [initialViewState] = useState<KanbanViewState>(() => {
+    const encoded = new URLSearchParams(window.location.search).get('view');
+    return (encoded && decodeViewState(encoded)) || DEFAULT_VIEW_STATE;
+  });
+  const [filters, setFilters] = useState<KanbanFilters>(initialViewState.filters);
+  const [advancedFilter, setAdvancedFilter] = useState<AdvancedFilter>(initialViewState.advanced);
+  const [sortBy, setSortBy] = useState(initialViewState.sortBy);
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
 
-  const handleFilterChange = (newFilters: Partial<typeof filters>) => {
+  const viewState = useMemo<KanbanViewState>(() => ({ filters, advanced: advancedFilter, sortBy }), [filters, advancedFilter, sortBy]);
+  const activeSavedView = useMemo(() => {
+    const current = JSON.stringify(viewState);
+    return savedViews.find(view => JSON.stringify(view.state) === current);
+  }, [savedViews, viewState]);
+
+  useEffect(() => {
+    setSavedViews(user ? savedViewService.getViews(user.username) : []);
+  }, [user?.username]);
+
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    if (JSON.stringify(viewState) === JSON.stringify(DEFAULT_VIEW_STATE)) {
+      url.searchParams.delete('view');
+    } else {
+      url.searchParams.set('view', encodeViewState(viewState));
+    }
+    window.history.replaceState(null, '', url);
+  }, [viewState]);
+
+  const handleFilterChange = (newFilters: Partial<KanbanFilters>) => {
       setFilters(prev => ({ ...prev, ...newFilters }));
+      // Relevance is only offered while searching
+      if (newFilters.search !== undefined && !newFilters.search.trim() && sortBy === 'relevance') setSortBy('createdAt');
   };
 
-  const filteredAndSortedCandidates = useMemo(() => {
-    let processedCandidates = [...candidates];
+  // Ranked full-text matches, null while the search box is empty
+  const searchResults = useMemo(() => filters.search.trim() ? search(filters.search) : null, [filters.search, search]);
+
+  const filteredAndSortedApplications = useMemo(() => {
+    let processedApplications = [...applications];
+    const searchRanks = new Map((searchResults || []).map((result, rank) => [result.candidateId, rank]));
 
     // Filtering
-    if (filters.search) {
-        processedCandidates = processedCandidates.filter(c => 
-            c.name.toLowerCase().includes(filters.search.toLowerCase())
-        );
+    if (advancedFilter.groups.length > 0) {
+        processedApplications = processedApplications.filter(item => matchesAdvancedFilter(item, advancedFilter, customFields));
+    }
+    if (searchResults) {
+        processedApplications = processedApplications.filter(({ candidate }) => searchRanks.has(candidate.id));
     }
     if (filters.position) {
-        processedCandidates = processedCandidates.filter(c => c.position === filters.position);
+        processedApplications = processedApplications.filter(({ application }) => application.jobPositionId === filters.position);
     }
     if (filters.source) {
-        processedCandidates = processedCandidates.filter(c => c.source === filters.source);
+        processedApplications = processedApplications.filter(({ candidate }) => candidate.source === filters.source);
+    }
+    if (filters.tag) {
+        processedApplications = processedApplications.filter(({ candidate }) => (candidate.tags || []).includes(filters.tag));
+    }
+    // Profile filters: candidates without the profile field do not match
+    if (filters.skill) {
+        const skill = normalizePersianName(filters.skill);
+        processedApplications = processedApplications.filter(({ candidate }) =>
+            (candidate.profile?.skills || []).some(s => normalizePersianName(s).includes(skill))
+        );
+    }
+    if (filters.minExperience) {
+        const minYears = Number(toLatinDigits(filters.minExperience));
+        processedApplications = processedApplications.filter(({ candidate }) => (candidate.profile?.yearsOfExperience ?? -1) >= minYears);
+    }
+    if (filters.location) {
+        const location = normalizePersianName(filters.location);
+        processedApplications = processedApplications.filter(({ candidate }) => normalizePersianName(candidate.profile?.location).includes(location));
+    }
+    if (filters.militaryServiceStatus) {
+        processedApplications = processedApplications.filter(({ candidate }) => candidate.profile?.militaryServiceStatus === filters.militaryServiceStatus);
     }
 
     // Sorting
-    processedCandidates.sort((a, b) => {
+    processedApplications.sort((a, b) => {
         switch (sortBy) {
             case 'name':
-                return a.name.localeCompare(b.name, 'fa');
+                return a.candidate.name.localeCompare(b.candidate.name, 'fa');
             case 'rating':
-                return b.rating - a.rating;
+                return b.application.rating - a.application.rating;
+            case 'relevance':
+                if (searchResults) return searchRanks.get(a.candidate.id)! - searchRanks.get(b.candidate.id)!;
+                return new Date(b.application.createdAt).getTime() - new Date(a.application.createdAt).getTime();
             case 'createdAt':
             default:
-                return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+                return new Date(b.application.createdAt).getTime() - new Date(a.application.createdAt).getTime();
         }
     });
     
-    return processedCandidates;
-}, [candidates, filters, sortBy]);
+    return processedApplications;
+}, [applications, filters, advancedFilter, customFields, sortBy, searchResults]);
 
   const candidateToView = useMemo(() => {
     return candidateToViewId ? candidates.find(c => c.id === candidateToViewId) : null;
@@ -102,12 +177,20 @@ const App: React.FC = () => {
 
 
   const handleOpenAddModal = (stage?: StageId) => {
+    if (!can('candidate:create')) {
+      addToast('شما دسترسی لازم برای افزودن متقاضی را ندارید.', 'error');
+      return;
+    }
     setCandidateToEdit(null);
     setInitialStage(stage || 'inbox');
     setAddEditModalOpen(true);
   };
 
   const handleOpenEditModal = (candidate: Candidate) => {
+    if (!can('candidate:edit')) {
+      addToast('شما دسترسی لازم برای ویرایش متقاضی را ندارید.', 'error');
+      return;
+    }
     setCandidateToViewId(null);
     setDetailsModalOpen(false);
     setCandidateToEdit(candidate);
@@ -133,12 +216,16 @@ const App: React.FC = () => {
   };
 
   const handleStageChangeRequest = (info: StageChangeInfo) => {
+    if (!can('candidate:stage')) {
+      addToast('شما دسترسی لازم برای تغییر مرحله را ندارید.', 'error');
+      return;
+    }
     setStageChangeInfo(info);
   };
 
   const handleConfirmStageChange = () => {
     if (stageChangeInfo) {
-      updateCandidateStage(stageChangeInfo.candidate.id, stageChangeInfo.newStage.id);
+      updateCandidateStage(stageChangeInfo.candidate.id, stageChangeInfo.newStage.id, stageChangeInfo.applicationId);
     }
     setStageChangeInfo(null); // Close modal
   };
@@ -170,6 +257,37 @@ const App: React.FC = () => {
     setBulkCommConfig({ isOpen: true, candidates: candidates });
   };
 
+  const handleOpenExportModal = (items: CandidateApplication[], listName: string) => {
+    setExportConfig({ isOpen: true, items, listName });
+  };
+
+  const updateSavedViews = (views: SavedView[]) => {
+    if (!user) return;
+    savedViewService.saveViews(user.username, views);
+    setSavedViews(views);
+  };
+
+  const handleApplyView = (view: SavedView) => {
+    setFilters(view.state.filters);
+    setAdvancedFilter(view.state.advanced);
+    setSortBy(view.state.sortBy);
+  };
+
+  // A view with the same name is replaced after confirmation.
+  const handleSaveView = (name: string) => {
+    const existing = savedViews.find(view => view.name === name);
+    if (existing && !window.confirm(`نمای «${name}» از قبل وجود دارد. جایگزین شود؟`)) return;
+    const view: SavedView = { id: existing?.id || generateId(), name, state: viewState, createdAt: new Date().toISOString() };
+    updateSavedViews(existing ? savedViews.map(v => v.id === existing.id ? view : v) : [...savedViews, view]);
+    addToast(`نمای «${name}» ذخیره شد.`, 'success');
+  };
+
+  const handleDeleteView = (id: string) => {
+    const view = savedViews.find(v => v.id === id);
+    if (!view || !window.confirm(`نمای «${view.name}» حذف شود؟`)) return;
+    updateSavedViews(savedViews.filter(v => v.id !== id));
+  };
+
   const renderView = () => {
     switch (activeView) {
       case 'tests':
@@ -177,7 +295,7 @@ const App: React.FC = () => {
       case 'calendar':
         return <CalendarView onViewDetails={handleOpenDetailsModal} />;
       case 'archive':
-        return <ArchiveView onViewDetails={handleOpenDetailsModal} />;
+        return <ArchiveView onViewDetails={handleOpenDetailsModal} onExport={can('data:export') ? items => handleOpenExportModal(items, 'آرشیو متقاضیان') : undefined} />;
       case 'dashboard':
       default:
         return (
@@ -187,9 +305,19 @@ const App: React.FC = () => {
               onFilterChange={handleFilterChange}
               sortBy={sortBy}
               onSortChange={setSortBy}
+              onExport={can('data:export') ? () => handleOpenExportModal(filteredAndSortedApplications, activeSavedView ? `نمای «${activeSavedView.name}»` : 'فهرست متقاضیان') : undefined}
+              advanced={advancedFilter}
+              onAdvancedChange={setAdvancedFilter}
+              savedViews={savedViews}
+              activeViewId={activeSavedView?.id}
+              onApplyView={handleApplyView}
+              onSaveView={handleSaveView}
+              onDeleteView={handleDeleteView}
             />
+            {searchResults && <SearchResultsPanel query={filters.search} results={searchResults} onViewDetails={handleOpenDetailsModal} />}
             <KanbanBoard 
-              candidates={filteredAndSortedCandidates}
+              applications={filteredAndSortedApplications}
+              jobPositionId={filters.position || undefined}
               onEdit={handleOpenEditModal} 
               onViewDetails={handleOpenDetailsModal} 
               onStageChangeRequest={handleStageChangeRequest}
@@ -211,8 +339,17 @@ const App: React.FC = () => {
     return <LoginScreen />;
   }
 
+  // Default and admin-set passwords must be replaced before any data is shown
+  if (user.mustChangePassword) {
+    return (
+      <div className="min-h-screen bg-gray-100">
+        <ChangePasswordModal isOpen isForced onClose={() => {}} />
+      </div>
+    );
+  }
+
   // A safe way to get the version, defaulting if not defined during build
-  const appVersion = process.env.APP_VERSION || '1.1.0';
+  const appVersion = process.env.APP_VERSION || '1.6.0';
 
   return (
     <>
@@ -231,10 +368,13 @@ const App: React.FC = () => {
           onAddCandidateClick={() => handleOpenAddModal()}
           onOpenBulkCommModal={handleOpenBulkCommModal}
           onChangePasswordClick={() => setChangePasswordModalOpen(true)}
+          onRestoreFileLoaded={setBackupToRestore}
+          onImportClick={() => setImportModalOpen(true)}
+          onResumeIntakeClick={() => setResumeIntakeOpen(true)}
         />
         <Tabs activeView={activeView} setActiveView={handleViewChange} />
         <main className="p-4 md:p-6 lg:p-8 flex-grow">
-            {activeView === 'dashboard' && <DashboardSummary candidates={candidates} onOpenAiInsights={() => setAiInsightsModalOpen(true)} />}
+            {activeView === 'dashboard' && <DashboardSummary applications={applications} onOpenAiInsights={() => setAiInsightsModalOpen(true)} />}
             {renderView()}
         </main>
       </div>
@@ -262,7 +402,7 @@ const App: React.FC = () => {
         onOpenCommunicationModal={handleOpenCommunicationModal}
         onViewResume={handleOpenResumeViewer}
       />
-      {user?.isAdmin && (
+      {canOpenSettings(user) && (
         <SettingsModal 
             isOpen={isSettingsModalOpen}
             onClose={() => setSettingsModalOpen(false)}
@@ -301,6 +441,25 @@ const App: React.FC = () => {
         isOpen={isChangePasswordModalOpen}
         onClose={() => setChangePasswordModalOpen(false)}
       />
+      <RestoreModal
+        isOpen={!!backupToRestore}
+        onClose={() => setBackupToRestore(null)}
+        backup={backupToRestore}
+      />
+      <ImportCandidatesModal
+        isOpen={isImportModalOpen}
+        onClose={() => setImportModalOpen(false)}
+      />
+      <BulkResumeIntakeModal
+        isOpen={isResumeIntakeOpen}
+        onClose={() => setResumeIntakeOpen(false)}
+      />
+      <ExportCandidatesModal
+        isOpen={exportConfig.isOpen}
+        onClose={() => setExportConfig({ isOpen: false, items: [], listName: '' })}
+        items={exportConfig.items}
+        listName={exportConfig.listName}
+      />
     </>
   );
 };
@@ -1,21 +1,34 @@
 import React from 'react';
 import { useCandidates } from '../../contexts/CandidatesContext';
-import { Candidate } from '../../types';
+import { Candidate, CandidateApplication } from '../../types';
+import { ARCHIVE_STAGE_ID } from '../../constants';
 import StarRating from '../ui/StarRating';
 
 interface ArchiveViewProps {
   onViewDetails: (candidate: Candidate) => void;
+  onExport?: (items: CandidateApplication[]) => void;
 }
 
-const ArchiveView: React.FC<ArchiveViewProps> = ({ onViewDetails }) => {
-  const { candidates, unarchiveCandidate } = useCandidates();
+const ArchiveView: React.FC<ArchiveViewProps> = ({ onViewDetails, onExport }) => {
+  const { applications, unarchiveCandidate } = useCandidates();
 
-  const archivedCandidates = candidates.filter(c => c.stage === 'archived');
+  // Any application can be archived, not only the primary one
+  const archivedApplications = applications.filter(({ application }) => application.stage === ARCHIVE_STAGE_ID);
 
   return (
     <div className="bg-white p-4 sm:p-6 rounded-lg shadow-sm">
-      <h2 className="text-2xl font-bold text-gray-800 mb-6">آرشیو متقاضیان</h2>
-      {archivedCandidates.length === 0 ? (
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold text-gray-800">آرشیو متقاضیان</h2>
+        {onExport && archivedApplications.length > 0 && (
+          <button
+            onClick={() => onExport(archivedApplications)}
+            className="text-sm bg-emerald-600 hover:bg-emerald-700 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+          >
+            خروجی اکسل / CSV
+          </button>
+        )}
+      </div>
+      {archivedApplications.length === 0 ? (
         <p className="text-center text-gray-500 py-10">هیچ متقاضی آرشیو شده‌ای وجود ندارد.</p>
       ) : (
         <div className="overflow-x-auto">
@@ -23,22 +36,24 @@ const ArchiveView: React.FC<ArchiveViewProps> = ({ onViewDetails }) => {
             <thead className="bg-gray-50">
               <tr>
                 <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">نام</th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">موقعیت شغلی</th>
                 <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">منبع</th>
                 <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">امتیاز</th>
                 <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">عملیات</th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {archivedCandidates.map((candidate) => (
-                <tr key={candidate.id}>
+              {archivedApplications.map(({ candidate, application }) => (
+                <tr key={application.id}>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{candidate.name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{application.positionTitle}</td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{candidate.source}</td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <StarRating rating={candidate.rating} readOnly />
+                    <StarRating rating={application.rating} readOnly />
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-4 space-x-reverse">
                     <button onClick={() => onViewDetails(candidate)} className="text-[var(--color-primary-600)] hover:text-[var(--color-primary-900)]">مشاهده جزئیات</button>
-                    <button onClick={() => unarchiveCandidate(candidate.id)} className="text-green-600 hover:text-green-900">خروج از آرشیو</button>
+                    <button onClick={() => unarchiveCandidate(candidate.id, application.id)} className="text-green-600 hover:text-green-900">خروج از آرشیو</button>
                   </td>
                 </tr>
               ))}
@@ -1,19 +1,22 @@
 import React, { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
+import { encryptionService } from '../../services/encryptionService';
 
 const LoginScreen: React.FC = () => {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  const [dataPassphrase, setDataPassphrase] = useState('');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const { login } = useAuth();
+  const isDataEncrypted = encryptionService.isEnabled();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
     setIsLoading(true);
     try {
-      await login(username, password);
+      await login(username, password, isDataEncrypted ? dataPassphrase : undefined);
     } catch (err: any) {
       setError(err.message || 'خطایی رخ داد.');
     } finally {
@@ -59,6 +62,23 @@ const LoginScreen: React.FC = () => {
                 onChange={(e) => setPassword(e.target.value)}
               />
             </div>
+            {isDataEncrypted && (
+              <div>
+                <label htmlFor="dataPassphrase" className="sr-only">عبارت رمز داده‌ها</label>
+                <input
+                  id="dataPassphrase"
+                  name="dataPassphrase"
+                  type="password"
+                  autoComplete="off"
+                  required
+                  className="relative block w-full px-3 py-3 text-gray-900 placeholder-gray-500 border border-gray-300 rounded-md appearance-none focus:outline-none focus:ring-[var(--color-primary-500)] focus:border-[var(--color-primary-500)] focus:z-10 sm:text-sm"
+                  placeholder="عبارت رمز داده‌ها"
+                  value={dataPassphrase}
+                  onChange={(e) => setDataPassphrase(e.target.value)}
+                />
+                <p className="text-xs text-gray-500 mt-1">داده‌های این سامانه رمزنگاری شده‌اند و بدون این عبارت قابل خواندن نیستند.</p>
+              </div>
+            )}
           </div>
           
           {error && <p className="text-sm text-center text-red-600">{error}</p>}
@@ -77,6 +97,7 @@ const LoginScreen: React.FC = () => {
             <p>راهنمایی:</p>
             <p>ادمین: `admin` / `adminpassword`</p>
             <p>کارشناس: `hr` / `hrpassword`</p>
+            <p className="text-xs mt-1">رمز حساب‌های پیش‌فرض در اولین ورود باید تغییر کند.</p>
         </div>
       </div>
     </div>
@@ -0,0 +1,61 @@
+import React, { useState, useEffect } from 'react';
+import Modal from '../ui/Modal';
+
+interface ReauthModalProps {
+  isOpen: boolean;
+  actionLabel: string;
+  onConfirm: (password: string) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+// Asks the logged-in user for their password again before a sensitive action.
+const ReauthModal: React.FC<ReauthModalProps> = ({ isOpen, actionLabel, onConfirm, onCancel }) => {
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setPassword('');
+      setError('');
+      setIsChecking(false);
+    }
+  }, [isOpen]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsChecking(true);
+    const confirmed = await onConfirm(password);
+    setIsChecking(false);
+    if (!confirmed) {
+      setError('رمز عبور اشتباه است.');
+      setPassword('');
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onCancel} title="تایید هویت">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-gray-700">برای «{actionLabel}» لطفا رمز عبور خود را دوباره وارد کنید.</p>
+        <input
+          type="password"
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          autoComplete="current-password"
+          required
+          autoFocus
+          className="block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3"
+        />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <div className="flex justify-end gap-4 pt-2">
+          <button type="button" onClick={onCancel} className="bg-gray-200 text-gray-800 py-2 px-6 rounded-lg hover:bg-gray-300">انصراف</button>
+          <button type="submit" disabled={isChecking || !password} className="bg-[var(--color-primary-600)] text-white py-2 px-6 rounded-lg disabled:bg-gray-400">
+            {isChecking ? 'در حال بررسی...' : 'تایید'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default ReauthModal;
@@ -1,7 +1,9 @@
 import React, { useState, useMemo } from 'react';
 import { useCandidates } from '../../contexts/CandidatesContext';
+import { useAuth } from '../../contexts/AuthContext';
 import { Candidate } from '../../types';
 import { getJobColor } from '../../utils/colorUtils';
+import { findInterviewConflicts, flattenInterviews } from '../../utils/interviewUtils';
 
 // Let TypeScript know about the global persianDate object
 declare const persianDate: any;
@@ -11,14 +13,25 @@ interface CalendarViewProps {
 }
 
 const CalendarView: React.FC<CalendarViewProps> = ({ onViewDetails }) => {
-  const { candidates } = useCandidates();
+  const { applications } = useCandidates();
+  const { users } = useAuth();
   const [currentDate, setCurrentDate] = useState(() => new persianDate());
+  const [interviewerFilter, setInterviewerFilter] = useState('');
 
-  const candidatesWithInterview = useMemo(() => 
-    candidates.filter(c => c.interviewDate && (c.stage.includes('interview') || c.stage === 'hired')),
-    [candidates]
+  // Interviews of rejected or archived applications are no longer relevant
+  const scheduledInterviews = useMemo(() =>
+    flattenInterviews(applications.filter(({ application: a }) => a.stage !== 'rejected' && a.stage !== 'archived')),
+    [applications]
   );
 
+  // Interviews double-booking an interviewer or a room
+  const conflictingIds = useMemo(() => new Set(
+    scheduledInterviews.filter(({ interview }) => findInterviewConflicts(interview, scheduledInterviews).length > 0).map(({ interview }) => interview.id)
+  ), [scheduledInterviews]);
+
+  const userName = (username: string) => users[username]?.name || username;
+  const interviewerOptions = Object.values(users).filter(u => u.role !== 'viewer');
+
   const monthData = useMemo(() => {
     const month = currentDate.month();
     const year = currentDate.year();
@@ -36,16 +49,16 @@ const CalendarView: React.FC<CalendarViewProps> = ({ onViewDetails }) => {
     setCurrentDate(currentDate.clone().add('months', amount));
   };
   
-  const getCandidatesForDay = (day: number) => {
+  const getInterviewsForDay = (day: number) => {
       const dateStr = `${monthData.year}/${String(monthData.month).padStart(2, '0')}/${String(day).padStart(2, '0')}`;
-      return candidatesWithInterview
-        .filter(c => c.interviewDate === dateStr)
-        .sort((a, b) => {
-          // Sort by interview time, putting candidates without a time at the end
-          if (a.interviewTime && b.interviewTime) {
-            return a.interviewTime.localeCompare(b.interviewTime);
+      return scheduledInterviews
+        .filter(({ interview }) => interview.date === dateStr && (!interviewerFilter || interview.interviewers.includes(interviewerFilter)))
+        .sort(({ interview: a }, { interview: b }) => {
+          // Sort by interview time, putting interviews without a time at the end
+          if (a.time && b.time) {
+            return a.time.localeCompare(b.time);
           }
-          return a.interviewTime ? -1 : 1;
+          return a.time ? -1 : 1;
         });
   };
 
@@ -53,7 +66,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({ onViewDetails }) => {
 
   return (
     <div className="bg-white p-4 sm:p-6 rounded-lg shadow-sm">
-      <div className="flex justify-between items-center mb-6">
+      <div className="flex justify-between items-center mb-4">
         <button onClick={() => changeMonth(-1)} className="p-2 rounded-full hover:bg-gray-200 transition-colors">
             <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
         </button>
@@ -62,30 +75,43 @@ const CalendarView: React.FC<CalendarViewProps> = ({ onViewDetails }) => {
             <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
         </button>
       </div>
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4 text-sm">
+        <select value={interviewerFilter} onChange={e => setInterviewerFilter(e.target.value)} className="border border-gray-300 bg-white rounded-md py-1 px-2">
+          <option value="">همه مصاحبه‌گران</option>
+          {interviewerOptions.map(u => <option key={u.username} value={u.username}>{u.name}</option>)}
+        </select>
+        {conflictingIds.size > 0 && (
+          <span className="text-red-600">{conflictingIds.size} مصاحبه با تداخل مصاحبه‌گر یا محل</span>
+        )}
+      </div>
       <div className="grid grid-cols-7 gap-1 text-center">
         {weekDays.map(day => <div key={day} className="font-bold text-gray-600 p-2">{day}</div>)}
         {monthData.blanks.map(blank => <div key={`blank-${blank}`} className="border rounded-md border-gray-100"></div>)}
         {monthData.days.map(day => {
-            const dayCandidates = getCandidatesForDay(day);
+            const dayInterviews = getInterviewsForDay(day);
             const isToday = new persianDate().format('YYYY/MM/DD') === `${monthData.year}/${String(monthData.month).padStart(2, '0')}/${String(day).padStart(2, '0')}`;
             return (
                 <div key={day} className="border rounded-md border-gray-200 bg-gray-50 p-2 min-h-[120px] flex flex-col">
                     <span className={`w-8 h-8 flex items-center justify-center rounded-full text-sm ${isToday ? 'bg-[var(--color-primary-600)] text-white font-bold' : ''}`}>{day}</span>
                     <div className="flex-grow mt-1 space-y-1 overflow-y-auto kanban-cards pr-1"> {/* Re-using kanban-cards for custom scrollbar */}
-                        {dayCandidates.map(c => {
-                          const jobColor = getJobColor(c.position);
+                        {dayInterviews.map(({ candidate: c, application, interview }) => {
+                          const jobColor = getJobColor(application.positionTitle);
+                          const hasConflict = conflictingIds.has(interview.id);
                           return (
                             <div 
-                              key={c.id} 
+                              key={interview.id} 
                               onClick={() => onViewDetails(c)} 
-                              className="bg-white text-right p-1.5 rounded-md cursor-pointer hover:shadow-md transition-shadow border-r-4"
+                              title={hasConflict ? 'تداخل با مصاحبه دیگر' : undefined}
+                              className={`text-right p-1.5 rounded-md cursor-pointer hover:shadow-md transition-shadow border-r-4 ${hasConflict ? 'bg-red-50 ring-1 ring-red-400' : 'bg-white'}`}
                               style={{ borderColor: jobColor }}
                             >
                                 <div className="flex justify-between items-center">
                                     <span className="text-xs font-bold text-gray-800 truncate pr-1">{c.name}</span>
-                                    {c.interviewTime && <span className="text-xs font-semibold text-white bg-[var(--color-primary-500)] px-1.5 py-0.5 rounded">{c.interviewTime}</span>}
+                                    {interview.time && <span className={`text-xs font-semibold text-white px-1.5 py-0.5 rounded ${hasConflict ? 'bg-red-500' : 'bg-[var(--color-primary-500)]'}`}>{interview.time}</span>}
                                 </div>
-                                <p className="text-[10px] text-gray-500 mt-1 truncate pr-1">{c.position}</p>
+                                <p className="text-[10px] text-gray-500 mt-1 truncate pr-1">{application.positionTitle} - {interview.durationMinutes} دقیقه</p>
+                                {interview.interviewers.length > 0 && <p className="text-[10px] text-gray-500 truncate pr-1">{interview.interviewers.map(userName).join('، ')}</p>}
+                                {interview.location && <p className="text-[10px] text-gray-500 truncate pr-1">{interview.location}</p>}
                             </div>
                           )
                         })}
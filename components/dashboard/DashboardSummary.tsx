@@ -1,10 +1,10 @@
 import React from 'react';
-import { Candidate } from '../../types';
+import { CandidateApplication } from '../../types';
 import { UserIcon, CalendarIcon, BriefcaseIcon, SparklesIcon } from '../ui/Icons';
 import { useSettings } from '../../contexts/SettingsContext';
 
 interface DashboardSummaryProps {
-  candidates: Candidate[];
+  applications: CandidateApplication[];
   onOpenAiInsights: () => void;
 }
 
@@ -31,36 +31,37 @@ const StatCard: React.FC<StatCardProps> = ({ icon, label, value, color, textColo
 );
 
 
-const DashboardSummary: React.FC<DashboardSummaryProps> = ({ candidates, onOpenAiInsights }) => {
+const DashboardSummary: React.FC<DashboardSummaryProps> = ({ applications, onOpenAiInsights }) => {
     const { geminiApiKey } = useSettings();
     const apiKeySet = !!geminiApiKey;
 
     const stats = React.useMemo(() => {
-        const activeCandidates = candidates.filter(c => !['hired', 'rejected', 'archived'].includes(c.stage));
+        // Counts are per application, so a person applying to two positions is counted in both pipelines.
+        const activeApplications = applications.filter(({ application }) => !['hired', 'rejected', 'archived'].includes(application.stage));
 
         const oneWeekAgo = new Date();
         oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
-        const newThisWeek = activeCandidates.filter(c => new Date(c.createdAt) >= oneWeekAgo).length;
+        const newThisWeek = activeApplications.filter(({ application }) => new Date(application.createdAt) >= oneWeekAgo).length;
 
         const today = new persianDate();
         const startOfWeek = today.clone().startOf('week');
         const endOfWeek = today.clone().endOf('week');
 
-        const interviewsThisWeek = candidates.filter(c => {
-            if (!c.interviewDate) return false;
+        const interviewsThisWeek = applications.filter(({ application }) => {
+            if (!application.interviewDate) return false;
             try {
                 // The date format is YYYY/MM/DD
-                const interviewPDate = new persianDate(c.interviewDate.split('/').map(Number));
+                const interviewPDate = new persianDate(application.interviewDate.split('/').map(Number));
                 return interviewPDate.isBetween(startOfWeek, endOfWeek, 'day', '[]');
             } catch {
                 return false;
             }
         }).length;
         
-        const offersExtended = candidates.filter(c => c.stage === 'hired').length;
+        const offersExtended = applications.filter(({ application }) => application.stage === 'hired').length;
         
-        const sourceCounts: { [key: string]: number } = activeCandidates.reduce((acc, c) => {
-            acc[c.source] = (acc[c.source] || 0) + 1;
+        const sourceCounts: { [key: string]: number } = activeApplications.reduce((acc, { candidate }) => {
+            acc[candidate.source] = (acc[candidate.source] || 0) + 1;
             return acc;
         }, {} as { [key: string]: number });
 
@@ -76,7 +77,7 @@ const DashboardSummary: React.FC<DashboardSummaryProps> = ({ candidates, onOpenA
         const maxSourceCount = topSources.length > 0 ? Math.max(...topSources.map(([,count]) => count)) : 0;
 
         return {
-            activeCount: activeCandidates.length,
+            activeCount: activeApplications.length,
             newThisWeek,
             interviewsThisWeek,
             offersExtended,
@@ -86,9 +87,9 @@ const DashboardSummary: React.FC<DashboardSummaryProps> = ({ candidates, onOpenA
                 percentage: maxSourceCount > 0 ? (count / maxSourceCount) * 100 : 0
             }))
         };
-    }, [candidates]);
+    }, [applications]);
     
-    if (candidates.length === 0) {
+    if (applications.length === 0) {
         return null; // Don't show summary if there are no candidates
     }
 
@@ -96,7 +97,7 @@ const DashboardSummary: React.FC<DashboardSummaryProps> = ({ candidates, onOpenA
         <div className="mb-8">
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
                 <StatCard 
-                    label="متقاضیان فعال" 
+                    label="درخواست‌های فعال" 
                     value={stats.activeCount} 
                     color="bg-blue-100"
                     textColor="text-blue-600"
@@ -0,0 +1,209 @@
+import React from 'react';
+import { AdvancedFilter, CustomFieldDefinition, FilterCondition, FilterConditionType, FilterGroup, FilterMatch, TagDefinition, TestResult } from '../../types';
+import { FILTER_CONDITION_LABELS, TEST_STATUS_LABELS } from '../../constants';
+import { useSettings } from '../../contexts/SettingsContext';
+import { createFilterCondition, createFilterGroup } from '../../utils/filterUtils';
+import { toLatinDigits } from '../../utils/candidateUtils';
+import KamaDatePicker from '../ui/KamaDatePicker';
+
+interface FilterBuilderProps {
+  advanced: AdvancedFilter;
+  onChange: (advanced: AdvancedFilter) => void;
+}
+
+const inputClass = "border border-gray-300 bg-white rounded-md shadow-sm py-1 px-2 text-sm focus:outline-none focus:ring-[var(--color-primary-500)] focus:border-[var(--color-primary-500)]";
+
+const MatchSelect: React.FC<{ value: FilterMatch; onChange: (match: FilterMatch) => void; allLabel: string; anyLabel: string }> = ({ value, onChange, allLabel, anyLabel }) => (
+  <select value={value} onChange={e => onChange(e.target.value as FilterMatch)} className={inputClass}>
+    <option value="all">{allLabel}</option>
+    <option value="any">{anyLabel}</option>
+  </select>
+);
+
+const parseRating = (value: string): number | undefined => {
+  if (!value.trim()) return undefined;
+  const rating = Number(toLatinDigits(value));
+  return Number.isFinite(rating) ? Math.min(5, Math.max(0, rating)) : undefined;
+};
+
+const parseNumber = (value: string): number | undefined => {
+  if (!value.trim()) return undefined;
+  const number = Number(toLatinDigits(value));
+  return Number.isFinite(number) ? number : undefined;
+};
+
+type CustomFieldCondition = Extract<FilterCondition, { type: 'customField' }>;
+
+const CustomFieldConditionEditor: React.FC<{ condition: CustomFieldCondition; customFields: CustomFieldDefinition[]; onChange: (condition: FilterCondition) => void }> = ({ condition, customFields, onChange }) => {
+  const field = customFields.find(f => f.id === condition.fieldId);
+
+  const renderValueEditor = () => {
+    if (!field) return null;
+    switch (field.type) {
+      case 'number':
+        return (
+          <>
+            <input type="number" placeholder="از" value={condition.min ?? ''} onChange={e => onChange({ ...condition, min: parseNumber(e.target.value) })} className={`${inputClass} w-24`} />
+            <input type="number" placeholder="تا" value={condition.max ?? ''} onChange={e => onChange({ ...condition, max: parseNumber(e.target.value) })} className={`${inputClass} w-24`} />
+          </>
+        );
+      case 'date':
+        return (
+          <>
+            <span className="text-sm text-gray-600">از</span>
+            <KamaDatePicker value={condition.from || ''} onChange={date => onChange({ ...condition, from: date || undefined })} />
+            <span className="text-sm text-gray-600">تا</span>
+            <KamaDatePicker value={condition.to || ''} onChange={date => onChange({ ...condition, to: date || undefined })} />
+          </>
+        );
+      case 'boolean':
+        return (
+          <select value={condition.value === undefined ? '' : String(condition.value)} onChange={e => onChange({ ...condition, value: e.target.value === '' ? undefined : e.target.value === 'true' })} className={inputClass}>
+            <option value="">هر مقدار</option>
+            <option value="true">بله</option>
+            <option value="false">خیر</option>
+          </select>
+        );
+      case 'select':
+        return (
+          <select value={condition.text || ''} onChange={e => onChange({ ...condition, text: e.target.value || undefined })} className={inputClass}>
+            <option value="">هر مقدار</option>
+            {(field.options || []).map(option => <option key={option} value={option}>{option}</option>)}
+          </select>
+        );
+      case 'text':
+      case 'url':
+        return <input type="text" placeholder="شامل متن" value={condition.text || ''} onChange={e => onChange({ ...condition, text: e.target.value })} className={inputClass} />;
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {/* Values of the previous field do not apply to another field type */}
+      <select value={condition.fieldId} onChange={e => onChange({ id: condition.id, type: 'customField', fieldId: e.target.value })} className={inputClass}>
+        <option value="">انتخاب فیلد</option>
+        {customFields.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+      </select>
+      {renderValueEditor()}
+    </div>
+  );
+};
+
+const ConditionEditor: React.FC<{ condition: FilterCondition; tags: TagDefinition[]; customFields: CustomFieldDefinition[]; onChange: (condition: FilterCondition) => void }> = ({ condition, tags, customFields, onChange }) => {
+  switch (condition.type) {
+    case 'rating':
+      return (
+        <div className="flex items-center gap-2">
+          <input type="number" min="0" max="5" placeholder="از" value={condition.min ?? ''} onChange={e => onChange({ ...condition, min: parseRating(e.target.value) })} className={`${inputClass} w-20`} />
+          <input type="number" min="0" max="5" placeholder="تا" value={condition.max ?? ''} onChange={e => onChange({ ...condition, max: parseRating(e.target.value) })} className={`${inputClass} w-20`} />
+        </div>
+      );
+    case 'createdAt':
+      return (
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-gray-600">از</span>
+          <KamaDatePicker value={condition.from || ''} onChange={date => onChange({ ...condition, from: date || undefined })} />
+          <span className="text-sm text-gray-600">تا</span>
+          <KamaDatePicker value={condition.to || ''} onChange={date => onChange({ ...condition, to: date || undefined })} />
+        </div>
+      );
+    case 'interview':
+      return (
+        <select value={condition.scheduled ? 'yes' : 'no'} onChange={e => onChange({ ...condition, scheduled: e.target.value === 'yes' })} className={inputClass}>
+          <option value="yes">زمان‌بندی شده</option>
+          <option value="no">زمان‌بندی نشده</option>
+        </select>
+      );
+    case 'hasResume':
+      return (
+        <select value={condition.value ? 'yes' : 'no'} onChange={e => onChange({ ...condition, value: e.target.value === 'yes' })} className={inputClass}>
+          <option value="yes">دارد</option>
+          <option value="no">ندارد</option>
+        </select>
+      );
+    case 'testStatus':
+      return (
+        <select value={condition.status} onChange={e => onChange({ ...condition, status: e.target.value as TestResult['status'] })} className={inputClass}>
+          {(Object.keys(TEST_STATUS_LABELS) as TestResult['status'][]).map(status => <option key={status} value={status}>{TEST_STATUS_LABELS[status]}</option>)}
+        </select>
+      );
+    case 'tag':
+      return (
+        <select value={condition.tag} onChange={e => onChange({ ...condition, tag: e.target.value })} className={inputClass}>
+          <option value="">انتخاب برچسب</option>
+          {tags.map(tag => <option key={tag.id} value={tag.id}>{tag.name}</option>)}
+        </select>
+      );
+    case 'contact':
+      return <input type="text" placeholder="بخشی از ایمیل یا شماره تلفن" value={condition.text} onChange={e => onChange({ ...condition, text: e.target.value })} className={inputClass} />;
+    case 'customField':
+      return <CustomFieldConditionEditor condition={condition} customFields={customFields} onChange={onChange} />;
+  }
+};
+
+const FilterBuilder: React.FC<FilterBuilderProps> = ({ advanced, onChange }) => {
+  const { tags, customFields } = useSettings();
+
+  const updateGroup = (groupId: string, changes: Partial<FilterGroup>) => {
+    onChange({ ...advanced, groups: advanced.groups.map(g => g.id === groupId ? { ...g, ...changes } : g) });
+  };
+
+  const updateCondition = (group: FilterGroup, condition: FilterCondition) => {
+    updateGroup(group.id, { conditions: group.conditions.map(c => c.id === condition.id ? condition : c) });
+  };
+
+  const removeCondition = (group: FilterGroup, conditionId: string) => {
+    const conditions = group.conditions.filter(c => c.id !== conditionId);
+    // A group without conditions is removed so that it does not match everything silently
+    if (conditions.length === 0) {
+      onChange({ ...advanced, groups: advanced.groups.filter(g => g.id !== group.id) });
+    } else {
+      updateGroup(group.id, { conditions });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {advanced.groups.length > 1 && (
+        <div className="flex items-center gap-2 text-sm text-gray-700">
+          <span>نمایش متقاضیانی که با</span>
+          <MatchSelect value={advanced.match} onChange={match => onChange({ ...advanced, match })} allLabel="همه گروه‌ها" anyLabel="حداقل یکی از گروه‌ها" />
+          <span>مطابقت دارند.</span>
+        </div>
+      )}
+      {advanced.groups.map((group, index) => (
+        <div key={group.id} className="border border-gray-200 rounded-lg p-3 bg-white space-y-2">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-2 text-sm text-gray-700">
+              <span className="font-semibold">گروه {index + 1}:</span>
+              <MatchSelect value={group.match} onChange={match => updateGroup(group.id, { match })} allLabel="همه شرایط (و)" anyLabel="حداقل یک شرط (یا)" />
+            </div>
+            <button onClick={() => onChange({ ...advanced, groups: advanced.groups.filter(g => g.id !== group.id) })} className="text-sm text-red-500 hover:text-red-700">حذف گروه</button>
+          </div>
+          {group.conditions.map(condition => (
+            <div key={condition.id} className="flex flex-wrap items-center gap-2">
+              <select
+                value={condition.type}
+                onChange={e => updateCondition(group, { ...createFilterCondition(e.target.value as FilterConditionType), id: condition.id })}
+                className={inputClass}
+              >
+                {(Object.keys(FILTER_CONDITION_LABELS) as FilterConditionType[]).map(type => <option key={type} value={type}>{FILTER_CONDITION_LABELS[type]}</option>)}
+              </select>
+              <ConditionEditor condition={condition} tags={tags} customFields={customFields} onChange={updated => updateCondition(group, updated)} />
+              <button onClick={() => removeCondition(group, condition.id)} className="text-sm text-gray-400 hover:text-red-600" title="حذف شرط">✕</button>
+            </div>
+          ))}
+          <button onClick={() => updateGroup(group.id, { conditions: [...group.conditions, createFilterCondition('rating')] })} className="text-sm text-[var(--color-primary-600)] hover:underline">+ افزودن شرط</button>
+        </div>
+      ))}
+      <div className="flex gap-4">
+        <button onClick={() => onChange({ ...advanced, groups: [...advanced.groups, createFilterGroup()] })} className="text-sm text-[var(--color-primary-600)] hover:underline">+ افزودن گروه شرط</button>
+        {advanced.groups.length > 0 && (
+          <button onClick={() => onChange({ ...advanced, groups: [] })} className="text-sm text-gray-500 hover:underline">پاک کردن همه شرایط</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FilterBuilder;
@@ -15,12 +15,15 @@ import {
   useSortable
 } from '@dnd-kit/sortable';
 import { useSettings } from '../../contexts/SettingsContext';
-import { Candidate, StageId, StageChangeInfo, KanbanStage } from '../../types';
+import { useToast } from '../../contexts/ToastContext';
+import { Candidate, StageId, StageChangeInfo, KanbanStage, CandidateApplication } from '../../types';
+import { getPositionTitle } from '../../utils/applicationUtils';
 import KanbanColumn from './KanbanColumn';
 import KanbanCard from './KanbanCard';
 
 interface KanbanBoardProps {
-  candidates: Candidate[];
+  applications: CandidateApplication[];
+  jobPositionId?: string; // Shows this position's pipeline; all pipelines combined when empty
   onViewDetails: (candidate: Candidate) => void;
   onEdit: (candidate: Candidate) => void;
   onStageChangeRequest: (info: StageChangeInfo) => void;
@@ -49,8 +52,9 @@ const SortableKanbanColumn: React.FC<{ stage: KanbanStage; children: React.React
 };
 
 
-const KanbanBoard: React.FC<KanbanBoardProps> = ({ candidates, onViewDetails, onEdit, onStageChangeRequest }) => {
-  const { stages, setStageOrder } = useSettings();
+const KanbanBoard: React.FC<KanbanBoardProps> = ({ applications, jobPositionId, onViewDetails, onEdit, onStageChangeRequest }) => {
+  const { stages, setStageOrder, companyProfile, getStagesForPosition, getAllPipelineStages } = useSettings();
+  const { addToast } = useToast();
   const [activeId, setActiveId] = useState<string | null>(null);
 
   const sensors = useSensors(
@@ -61,7 +65,7 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({ candidates, onViewDetails, on
     })
   );
 
-  const kanbanStages = stages.filter(s => s.id !== 'archived');
+  const kanbanStages = (jobPositionId ? getStagesForPosition(jobPositionId) : getAllPipelineStages()).filter(s => s.id !== 'archived');
 
   const handleDragStart = (event: DragStartEvent) => {
     setActiveId(event.active.id as string);
@@ -81,28 +85,40 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({ candidates, onViewDetails, on
         const oldIndex = kanbanStages.findIndex(s => s.id === activeId);
         const newIndex = kanbanStages.findIndex(s => s.id === overId);
         const reorderedStages = arrayMove(kanbanStages, oldIndex, newIndex);
-        setStageOrder(reorderedStages);
+        if (jobPositionId) {
+          setStageOrder(reorderedStages, jobPositionId);
+        } else {
+          // The combined board only reorders the default pipeline
+          setStageOrder(reorderedStages.filter(s => stages.some(g => g.id === s.id)));
+        }
       }
       return;
     }
 
     // Handle Card Dragging
-    const candidate = active.data.current?.candidate as Candidate | undefined;
+    const item = active.data.current?.item as CandidateApplication | undefined;
     const newStageId = over.id as StageId;
-    const newStage = stages.find(s => s.id === newStageId);
+    const newStage = kanbanStages.find(s => s.id === newStageId);
 
-    if (candidate && newStage && candidate.stage !== newStageId) {
-      onStageChangeRequest({ candidate, newStage });
+    if (item && newStage && item.application.stage !== newStageId) {
+      const { candidate, application } = item;
+      if (!getStagesForPosition(application.jobPositionId).some(s => s.id === newStageId)) {
+        addToast('این مرحله در پایپ‌لاین این موقعیت شغلی وجود ندارد.', 'error');
+        return;
+      }
+      // Messages for this stage change should mention the dragged application's position
+      const candidateForMessage: Candidate = { ...candidate, position: getPositionTitle(application, companyProfile.jobPositions) };
+      onStageChangeRequest({ candidate: candidateForMessage, newStage, applicationId: application.id });
     }
   };
 
-  const candidatesByStage = kanbanStages.reduce((acc, stage) => {
-    acc[stage.id] = candidates.filter((c) => c.stage === stage.id);
+  const applicationsByStage = kanbanStages.reduce((acc, stage) => {
+    acc[stage.id] = applications.filter(({ application }) => application.stage === stage.id);
     return acc;
-  }, {} as Record<StageId, Candidate[]>);
+  }, {} as Record<StageId, CandidateApplication[]>);
 
-  const activeCandidate = activeId && activeId.startsWith('cand_') ? candidates.find(c => c.id === activeId) : null;
-  const activeStage = activeId && !activeId.startsWith('cand_') ? kanbanStages.find(s => s.id === activeId) : null;
+  const activeItem = activeId && activeId.startsWith('app_') ? applications.find(a => a.application.id === activeId) : null;
+  const activeStage = activeId && !activeId.startsWith('app_') ? kanbanStages.find(s => s.id === activeId) : null;
 
   return (
     <DndContext sensors={sensors} onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
@@ -116,7 +132,7 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({ candidates, onViewDetails, on
                 <KanbanColumn
                   id={stage.id}
                   title={stage.title}
-                  candidates={candidatesByStage[stage.id] || []}
+                  applications={applicationsByStage[stage.id] || []}
                   onViewDetails={onViewDetails}
                   onEdit={onEdit}
                 />
@@ -126,13 +142,13 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({ candidates, onViewDetails, on
         </div>
       </div>
       <DragOverlay>
-        {activeCandidate ? (
-          <KanbanCard candidate={activeCandidate} onViewDetails={() => {}} onEdit={() => {}} />
+        {activeItem ? (
+          <KanbanCard item={activeItem} onViewDetails={() => {}} onEdit={() => {}} />
         ) : activeStage ? (
            <KanbanColumn
               id={activeStage.id}
               title={activeStage.title}
-              candidates={candidatesByStage[activeStage.id] || []}
+              applications={applicationsByStage[activeStage.id] || []}
               onViewDetails={() => {}}
               onEdit={() => {}}
             />
@@ -1,33 +1,47 @@
 import React from 'react';
 import { useDraggable } from '@dnd-kit/core';
-import { Candidate } from '../../types';
+import { Candidate, CandidateApplication, ConsentType } from '../../types';
+import { CONSENT_LABELS } from '../../constants';
+import { useSettings } from '../../contexts/SettingsContext';
+import { getPositionTitle } from '../../utils/applicationUtils';
 import StarRating from '../ui/StarRating';
+import TagChips from '../ui/TagChips';
 import { getJobColor } from '../../utils/colorUtils';
 import { WhatsappIcon } from '../ui/Icons';
+import { normalizePhone } from '../../utils/candidateUtils';
+import { canMessage, hasConsent } from '../../utils/consentUtils';
 
 declare const persianDate: any;
 
 interface KanbanCardProps {
-  candidate: Candidate;
+  item: CandidateApplication;
   onViewDetails: (candidate: Candidate) => void;
   onEdit: (candidate: Candidate) => void;
 }
 
-const KanbanCard: React.FC<KanbanCardProps> = ({ candidate, onViewDetails, onEdit }) => {
+const KanbanCard: React.FC<KanbanCardProps> = ({ item, onViewDetails, onEdit }) => {
+  const { candidate, application } = item;
+  const { companyProfile } = useSettings();
   const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
-    id: candidate.id,
-    data: { candidate },
+    id: application.id,
+    data: { item },
   });
 
-  const jobColor = getJobColor(candidate.position);
+  const positionTitle = getPositionTitle(application, companyProfile.jobPositions);
+  const jobColor = getJobColor(positionTitle);
 
   const style = transform ? {
     transform: `translate3d(${transform.x}px, ${transform.y}px, 0)`,
     borderRight: `5px solid ${jobColor}`,
   } : { borderRight: `5px solid ${jobColor}` };
   
-  const hasTestResult = candidate.testResults && candidate.testResults.some(r => r.file);
-  const whatsappNumber = candidate.phone ? candidate.phone.replace(/[^0-9]/g, '').replace(/^0/, '98') : '';
+  const hasTestResult = application.testResults && application.testResults.some(r => r.file);
+  const whatsappNumber = normalizePhone(candidate.phone);
+  const consentTypes = Object.keys(CONSENT_LABELS) as ConsentType[];
+  const grantedCount = consentTypes.filter(type => hasConsent(candidate, type)).length;
+  const consentColor = !hasConsent(candidate, 'dataProcessing') ? 'text-red-500'
+    : grantedCount === consentTypes.length ? 'text-green-500' : 'text-amber-500';
+  const consentTitle = consentTypes.map(type => `${CONSENT_LABELS[type]}: ${hasConsent(candidate, type) ? 'دارد' : 'ندارد'}`).join('\n');
 
   const handleCardClick = (e: React.MouseEvent<HTMLDivElement>) => {
     // Check if the click target or its parent is an actionable link (email, whatsapp)
@@ -47,19 +61,19 @@ const KanbanCard: React.FC<KanbanCardProps> = ({ candidate, onViewDetails, onEdi
   };
   
   const getFormattedInterviewDate = () => {
-    if (!candidate.interviewDate) return '';
+    if (!application.interviewDate) return '';
     try {
-        const [year, month, day] = candidate.interviewDate.split('/').map(Number);
+        const [year, month, day] = application.interviewDate.split('/').map(Number);
         const pDate = new persianDate([year, month, day]);
-        if (candidate.interviewTime) {
-            const [hour, minute] = candidate.interviewTime.split(':').map(Number);
+        if (application.interviewTime) {
+            const [hour, minute] = application.interviewTime.split(':').map(Number);
             pDate.hour(hour).minute(minute);
             return pDate.format('D MMMM، ساعت HH:mm');
         }
         return pDate.format('D MMMM');
     } catch(e) {
         console.error("Error formatting Persian date:", e);
-        return candidate.interviewDate;
+        return application.interviewDate;
     }
   };
   const formattedInterviewDate = getFormattedInterviewDate();
@@ -77,7 +91,7 @@ const KanbanCard: React.FC<KanbanCardProps> = ({ candidate, onViewDetails, onEdi
         <div className="flex justify-between items-start">
             <h3 className="font-bold w-full truncate pr-2">{candidate.name}</h3>
             <div className="flex items-center gap-2 flex-shrink-0">
-                {candidate.interviewTimeChanged && (
+                {application.interviewTimeChanged && (
                     <span title="زمان مصاحبه تغییر کرده، اطلاع‌رسانی کنید" className="text-amber-500">
                         <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="currentColor" viewBox="0 0 16 16"><path d="M8 16a2 2 0 0 0 2-2H6a2 2 0 0 0 2 2zM8 1.918l-.797.161A4.002 4.002 0 0 0 4 6c0 .628-.134 2.197-.459 3.742-.16.767-.376 1.566-.663 2.258h10.244c-.287-.692-.502-1.49-.663-2.258C12.134 8.197 12 6.628 12 6a4.002 4.002 0 0 0-3.203-3.92L8 1.917zM14.22 12c.223.447.481.801.78 1H1c.299-.199.557-.553.78-1C2.68 10.2 3 6.88 3 6c0-2.42 1.72-4.44 4.005-4.901a1 1 0 1 1 1.99 0A5.002 5.002 0 0 1 13 6c0 .88.32 4.2 1.22 6z"/></svg>
                     </span>
@@ -87,6 +101,9 @@ const KanbanCard: React.FC<KanbanCardProps> = ({ candidate, onViewDetails, onEdi
                         <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path d="M9 2a1 1 0 000 2h2a1 1 0 100-2H9z" /><path fillRule="evenodd" d="M4 5a2 2 0 012-2h8a2 2 0 012 2v10a2 2 0 01-2 2H6a2 2 0 01-2-2V5zm3 4a1 1 0 000 2h2a1 1 0 100-2H7zm3 0a1 1 0 000 2h2a1 1 0 100-2h-2z" clipRule="evenodd" /></svg>
                     </span>
                 )}
+                <span title={consentTitle} className={consentColor} aria-label="وضعیت رضایت‌ها">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M2.166 4.999A11.954 11.954 0 0010 1.944 11.954 11.954 0 0017.834 5c.11.65.166 1.32.166 2.001 0 5.225-3.34 9.67-8 11.317C5.34 16.67 2 12.225 2 7c0-.682.057-1.35.166-2.001zm11.541 3.708a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" /></svg>
+                </span>
                  <button 
                     data-action="edit"
                     className="text-gray-400 hover:text-[var(--color-primary-600)] transition-colors"
@@ -98,14 +115,19 @@ const KanbanCard: React.FC<KanbanCardProps> = ({ candidate, onViewDetails, onEdi
         </div>
         
         {/* Job Position */}
-        <p className="text-sm font-medium text-[var(--color-primary-600)] mb-2">{candidate.position || 'بدون موقعیت'}</p>
+        <p className="text-sm font-medium text-[var(--color-primary-600)] mb-2">{positionTitle || 'بدون موقعیت'}</p>
+        {candidate.tags && candidate.tags.length > 0 && (
+            <div className="mb-2"><TagChips tagIds={candidate.tags} readOnly size="sm" /></div>
+        )}
 
         {/* Contact Info */}
         <div className="border-t border-gray-200 mt-2 pt-2 text-xs text-gray-600 space-y-1">
-            <p className="truncate">ایمیل: <a href={`mailto:${candidate.email}`} className="text-[var(--color-primary-600)] hover:underline" data-action="email">{candidate.email}</a></p>
+            <p className="truncate">ایمیل: {canMessage(candidate, 'email')
+                ? <a href={`mailto:${candidate.email}`} className="text-[var(--color-primary-600)] hover:underline" data-action="email">{candidate.email}</a>
+                : <span>{candidate.email}</span>}</p>
             <div className="flex justify-between items-center">
                 <p>موبایل: <span dir="ltr">{candidate.phone || 'ندارد'}</span></p>
-                {candidate.phone && (
+                {candidate.phone && canMessage(candidate, 'whatsapp') && (
                     <a href={`https://wa.me/${whatsappNumber}`} target="_blank" rel="noopener noreferrer" className="text-green-500 hover:text-green-600" title="ارسال پیام در واتس‌اپ" data-action="whatsapp">
                        <WhatsappIcon className="w-5 h-5" />
                     </a>
@@ -115,7 +137,7 @@ const KanbanCard: React.FC<KanbanCardProps> = ({ candidate, onViewDetails, onEdi
         
         {/* Rating and Interview */}
         <div className="flex justify-between items-end mt-2">
-            {candidate.rating > 0 && <StarRating rating={candidate.rating} readOnly />}
+            {application.rating > 0 && <StarRating rating={application.rating} readOnly />}
             {formattedInterviewDate && (
                 <p className="text-xs text-green-700 font-semibold bg-green-100 px-2 py-1 rounded">مصاحبه: {formattedInterviewDate}</p>
             )}
@@ -1,51 +1,138 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { AdvancedFilter, KanbanFilters, MilitaryServiceStatus, SavedView } from '../../types';
+import { MILITARY_SERVICE_LABELS } from '../../constants';
 import { useSettings } from '../../contexts/SettingsContext';
+import { isPositionOpenForCandidates } from '../../utils/applicationUtils';
+import { countFilterConditions } from '../../utils/filterUtils';
+import FilterBuilder from './FilterBuilder';
 
 interface KanbanControlsProps {
-  filters: { search: string; position: string; source: string; };
-  onFilterChange: (newFilters: Partial<{ search: string; position: string; source: string; }>) => void;
+  filters: KanbanFilters;
+  onFilterChange: (newFilters: Partial<KanbanFilters>) => void;
   sortBy: string;
   onSortChange: (newSortBy: string) => void;
+  onExport?: () => void; // Exports the applications that match the current filters
+  advanced: AdvancedFilter;
+  onAdvancedChange: (advanced: AdvancedFilter) => void;
+  savedViews: SavedView[];
+  activeViewId?: string; // The saved view that equals the current filters, if any
+  onApplyView: (view: SavedView) => void;
+  onSaveView: (name: string) => void;
+  onDeleteView: (id: string) => void;
 }
 
-const KanbanControls: React.FC<KanbanControlsProps> = ({ filters, onFilterChange, sortBy, onSortChange }) => {
-  const { sources, companyProfile } = useSettings();
-  const jobPositions = companyProfile.jobPositions;
+const KanbanControls: React.FC<KanbanControlsProps> = ({
+  filters, onFilterChange, sortBy, onSortChange, onExport, advanced, onAdvancedChange, savedViews, activeViewId, onApplyView, onSaveView, onDeleteView,
+}) => {
+  const { sources, companyProfile, tags } = useSettings();
+  const jobPositions = companyProfile.jobPositions.filter(isPositionOpenForCandidates);
+  const activeProfileFilters = [filters.skill, filters.minExperience, filters.location, filters.militaryServiceStatus].filter(Boolean).length;
+  const [showProfileFilters, setShowProfileFilters] = useState(activeProfileFilters > 0);
+  const conditionCount = countFilterConditions(advanced);
+  const [showFilterBuilder, setShowFilterBuilder] = useState(conditionCount > 0);
+  const [viewName, setViewName] = useState('');
+  const inputClass = "w-full border border-gray-300 bg-white rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-[var(--color-primary-500)] focus:border-[var(--color-primary-500)] sm:text-sm";
 
   return (
-    <div className="bg-white/80 backdrop-blur-sm p-4 rounded-lg shadow-sm mb-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 items-center">
-      <input
-        type="text"
-        placeholder="جستجوی نام..."
-        value={filters.search}
-        onChange={(e) => onFilterChange({ search: e.target.value })}
-        className="w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-[var(--color-primary-500)] focus:border-[var(--color-primary-500)] sm:text-sm"
-      />
-      <select
-        value={filters.position}
-        onChange={(e) => onFilterChange({ position: e.target.value })}
-        className="w-full border border-gray-300 bg-white rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-[var(--color-primary-500)] focus:border-[var(--color-primary-500)] sm:text-sm"
-      >
-        <option value="">همه موقعیت‌ها</option>
-        {jobPositions.map(job => <option key={job.id} value={job.title}>{job.title}</option>)}
-      </select>
-      <select
-        value={filters.source}
-        onChange={(e) => onFilterChange({ source: e.target.value })}
-        className="w-full border border-gray-300 bg-white rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-[var(--color-primary-500)] focus:border-[var(--color-primary-500)] sm:text-sm"
-      >
-        <option value="">همه منابع</option>
-        {sources.map(source => <option key={source} value={source}>{source}</option>)}
-      </select>
-      <select
-        value={sortBy}
-        onChange={(e) => onSortChange(e.target.value)}
-        className="w-full border border-gray-300 bg-white rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-[var(--color-primary-500)] focus:border-[var(--color-primary-500)] sm:text-sm"
-      >
-        <option value="createdAt">جدیدترین</option>
-        <option value="name">نام (الفبا)</option>
-        <option value="rating">بیشترین امتیاز</option>
-      </select>
+    <div className="mb-6">
+      <div className={`bg-white/80 backdrop-blur-sm p-4 rounded-lg shadow-sm grid grid-cols-1 sm:grid-cols-2 ${onExport ? 'lg:grid-cols-7' : 'lg:grid-cols-6'} gap-4 items-center`}>
+        <input
+          type="text"
+          placeholder="جستجو در نام، رزومه، یادداشت‌ها..."
+          value={filters.search}
+          onChange={(e) => onFilterChange({ search: e.target.value })}
+          className="w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-[var(--color-primary-500)] focus:border-[var(--color-primary-500)] sm:text-sm"
+        />
+        <select
+          value={filters.position}
+          onChange={(e) => onFilterChange({ position: e.target.value })}
+          className="w-full border border-gray-300 bg-white rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-[var(--color-primary-500)] focus:border-[var(--color-primary-500)] sm:text-sm"
+        >
+          <option value="">همه موقعیت‌ها</option>
+          {jobPositions.map(job => <option key={job.id} value={job.id}>{job.title}</option>)}
+        </select>
+        <select
+          value={filters.source}
+          onChange={(e) => onFilterChange({ source: e.target.value })}
+          className="w-full border border-gray-300 bg-white rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-[var(--color-primary-500)] focus:border-[var(--color-primary-500)] sm:text-sm"
+        >
+          <option value="">همه منابع</option>
+          {sources.map(source => <option key={source} value={source}>{source}</option>)}
+        </select>
+        <select value={filters.tag} onChange={(e) => onFilterChange({ tag: e.target.value })} className={inputClass}>
+          <option value="">همه برچسب‌ها</option>
+          {tags.map(tag => <option key={tag.id} value={tag.id}>{tag.name}</option>)}
+        </select>
+        <select
+          value={sortBy}
+          onChange={(e) => onSortChange(e.target.value)}
+          className="w-full border border-gray-300 bg-white rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-[var(--color-primary-500)] focus:border-[var(--color-primary-500)] sm:text-sm"
+        >
+          <option value="createdAt">جدیدترین</option>
+          <option value="name">نام (الفبا)</option>
+          <option value="rating">بیشترین امتیاز</option>
+          {filters.search.trim() && <option value="relevance">مرتبط‌ترین</option>}
+        </select>
+        {onExport && (
+          <button onClick={onExport} className="w-full text-sm bg-emerald-600 hover:bg-emerald-700 text-white font-bold py-2 px-4 rounded-lg transition-colors">
+            خروجی اکسل / CSV
+          </button>
+        )}
+        <div className="flex flex-col items-start gap-1 sm:col-span-2 lg:col-span-1">
+          <button onClick={() => setShowProfileFilters(show => !show)} className="text-sm text-[var(--color-primary-600)] hover:underline">
+            {showProfileFilters ? 'بستن فیلترهای پروفایل' : 'فیلترهای پروفایل'}{activeProfileFilters > 0 && ` (${activeProfileFilters})`}
+          </button>
+          <button onClick={() => setShowFilterBuilder(show => !show)} className="text-sm text-[var(--color-primary-600)] hover:underline">
+            {showFilterBuilder ? 'بستن فیلتر پیشرفته' : 'فیلتر پیشرفته'}{conditionCount > 0 && ` (${conditionCount})`}
+          </button>
+        </div>
+      </div>
+      <div className="mt-2 flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={activeViewId || ''}
+          onChange={(e) => {
+            const view = savedViews.find(v => v.id === e.target.value);
+            if (view) onApplyView(view);
+          }}
+          className="border border-gray-300 bg-white rounded-md shadow-sm py-1 px-2"
+        >
+          <option value="">{savedViews.length > 0 ? 'نماهای ذخیره‌شده...' : 'نمای ذخیره‌شده‌ای وجود ندارد'}</option>
+          {savedViews.map(view => <option key={view.id} value={view.id}>{view.name}</option>)}
+        </select>
+        {activeViewId && (
+          <button onClick={() => onDeleteView(activeViewId)} className="text-red-500 hover:text-red-700">حذف نما</button>
+        )}
+        <input
+          type="text"
+          placeholder="نام نمای جدید"
+          value={viewName}
+          onChange={(e) => setViewName(e.target.value)}
+          className="border border-gray-300 bg-white rounded-md shadow-sm py-1 px-2"
+        />
+        <button
+          onClick={() => { onSaveView(viewName.trim()); setViewName(''); }}
+          disabled={!viewName.trim()}
+          className="bg-[var(--color-primary-600)] text-white py-1 px-3 rounded-md hover:bg-[var(--color-primary-700)] disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          ذخیره نمای فعلی
+        </button>
+      </div>
+      {showFilterBuilder && (
+        <div className="mt-2 bg-white/80 backdrop-blur-sm p-4 rounded-lg shadow-sm">
+          <FilterBuilder advanced={advanced} onChange={onAdvancedChange} />
+        </div>
+      )}
+      {showProfileFilters && (
+        <div className="mt-2 bg-white/80 backdrop-blur-sm p-4 rounded-lg shadow-sm grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 items-center">
+          <input type="text" placeholder="مهارت..." value={filters.skill} onChange={(e) => onFilterChange({ skill: e.target.value })} className={inputClass} />
+          <input type="number" min="0" placeholder="حداقل سال‌های سابقه" value={filters.minExperience} onChange={(e) => onFilterChange({ minExperience: e.target.value })} className={inputClass} />
+          <input type="text" placeholder="محل سکونت..." value={filters.location} onChange={(e) => onFilterChange({ location: e.target.value })} className={inputClass} />
+          <select value={filters.militaryServiceStatus} onChange={(e) => onFilterChange({ militaryServiceStatus: e.target.value as MilitaryServiceStatus | '' })} className={inputClass}>
+            <option value="">همه وضعیت‌های خدمت</option>
+            {(Object.keys(MILITARY_SERVICE_LABELS) as MilitaryServiceStatus[]).map(status => <option key={status} value={status}>{MILITARY_SERVICE_LABELS[status]}</option>)}
+          </select>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Candidate, SearchResult } from '../../types';
+import { SEARCH_FIELD_LABELS } from '../../constants';
+import { useCandidates } from '../../contexts/CandidatesContext';
+import { useSearch } from '../../contexts/SearchContext';
+
+interface SearchResultsPanelProps {
+  query: string;
+  results: SearchResult[];
+  onViewDetails: (candidate: Candidate) => void;
+}
+
+const MAX_SHOWN_RESULTS = 8;
+
+const SearchResultsPanel: React.FC<SearchResultsPanelProps> = ({ query, results, onViewDetails }) => {
+  const { candidates } = useCandidates();
+  const { getSnippet, pendingResumes } = useSearch();
+  const shown = results.slice(0, MAX_SHOWN_RESULTS);
+
+  return (
+    <div className="mb-6 bg-white/80 backdrop-blur-sm p-4 rounded-lg shadow-sm">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+        <h3 className="font-bold text-gray-800">{results.length > 0 ? `${results.length} نتیجه برای «${query}»` : `نتیجه‌ای برای «${query}» یافت نشد.`}</h3>
+        {pendingResumes > 0 && <span className="text-xs text-gray-500">در حال پردازش متن {pendingResumes} رزومه...</span>}
+      </div>
+      <ul className="divide-y divide-gray-200">
+        {shown.map(result => {
+          const candidate = candidates.find(c => c.id === result.candidateId);
+          if (!candidate) return null;
+          return (
+            <li key={result.candidateId}>
+              <button onClick={() => onViewDetails(candidate)} className="w-full text-right py-2 px-1 hover:bg-gray-50 rounded">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-gray-800">{candidate.name}</span>
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">{SEARCH_FIELD_LABELS[result.field]}</span>
+                </div>
+                <p className="text-sm text-gray-600 mt-1">
+                  {getSnippet(result, query).map((part, i) => part.highlight
+                    ? <mark key={i} className="bg-yellow-200 rounded px-0.5">{part.text}</mark>
+                    : <span key={i}>{part.text}</span>)}
+                </p>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      {results.length > shown.length && (
+        <p className="text-xs text-gray-500 mt-2">{results.length - shown.length} نتیجه دیگر روی تابلو نمایش داده شده است.</p>
+      )}
+    </div>
+  );
+};
+
+export default SearchResultsPanel;
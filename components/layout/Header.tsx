@@ -2,8 +2,11 @@ import React from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useCandidates } from '../../contexts/CandidatesContext';
 import { useToast } from '../../contexts/ToastContext';
-import { Candidate } from '../../types';
-import { migrationService } from '../../services/migrationService';
+import { Candidate, BackupData } from '../../types';
+import { backupService } from '../../services/backupService';
+import { downloadBlob } from '../../utils/fileUtils';
+import { toLatinDigits } from '../../utils/candidateUtils';
+import { canOpenSettings } from '../../utils/permissionUtils';
 
 declare const persianDate: any;
 
@@ -12,38 +15,35 @@ interface HeaderProps {
     onAddCandidateClick: () => void;
     onOpenBulkCommModal: (candidates: Candidate[]) => void;
     onChangePasswordClick: () => void;
+    onRestoreFileLoaded: (backup: BackupData) => void;
+    onImportClick: () => void;
+    onResumeIntakeClick: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ onSettingsClick, onAddCandidateClick, onOpenBulkCommModal, onChangePasswordClick }) => {
-  const { user, logout } = useAuth();
-  const { candidates, setCandidates } = useCandidates();
+const Header: React.FC<HeaderProps> = ({ onSettingsClick, onAddCandidateClick, onOpenBulkCommModal, onChangePasswordClick, onRestoreFileLoaded, onImportClick, onResumeIntakeClick }) => {
+  const { user, logout, can, logAudit } = useAuth();
+  const { candidates } = useCandidates();
   const { addToast } = useToast();
   const restoreInputRef = React.useRef<HTMLInputElement>(null);
 
-  const handleBackup = () => {
+  const handleBackup = async () => {
     if (candidates.length === 0) {
       addToast('هیچ داده‌ای برای پشتیبان‌گیری وجود ندارد.', 'error');
       return;
     }
-    const appVersion = process.env.APP_VERSION || '1.1.0';
-    const backupData = {
-        version: appVersion,
-        createdAt: new Date().toISOString(),
-        candidates: candidates
-    };
-
-    const dataStr = JSON.stringify(backupData, null, 2);
-    const dataBlob = new Blob([dataStr], { type: 'application/json' });
-    const url = URL.createObjectURL(dataBlob);
-    const link = document.createElement('a');
-    link.href = url;
-    const date = new Date().toISOString().slice(0, 10);
-    link.download = `recruitment_backup_v${appVersion}_${date}.json`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-    addToast('پشتیبان‌گیری با موفقیت انجام شد.', 'success');
+    try {
+      const appVersion = process.env.APP_VERSION || '1.6.0';
+      // Non-admins only export the candidates they can see, without user accounts
+      const backupData = await backupService.createBackup(appVersion, user?.isAdmin ? undefined : candidates.map(c => c.id));
+      const dataBlob = new Blob([JSON.stringify(backupData)], { type: 'application/json' });
+      const date = new Date().toISOString().slice(0, 10);
+      downloadBlob(dataBlob, `recruitment_backup_v${appVersion}_${date}.json`);
+      logAudit('data:backup', `${backupData.candidates.length} متقاضی${user?.isAdmin ? '' : ' (محدود به دسترسی کاربر)'}`);
+      addToast('پشتیبان‌گیری با موفقیت انجام شد.', 'success');
+    } catch (error) {
+      console.error("Backup error:", error);
+      addToast('خطا در تهیه فایل پشتیبان.', 'error');
+    }
   };
 
   const handleRestoreClick = () => {
@@ -59,33 +59,10 @@ const Header: React.FC<HeaderProps> = ({ onSettingsClick, onAddCandidateClick, o
       try {
         const text = e.target?.result;
         if (typeof text !== 'string') throw new Error('File content is not valid');
-        
-        const data = JSON.parse(text);
-        let candidatesToRestore: Candidate[];
-        let backupVersion = '1.0.0'; // Default for old format
-
-        if (Array.isArray(data)) {
-            // Old backup format: just an array of candidates
-            candidatesToRestore = data;
-        } else if (data && data.candidates && data.version) {
-            // New backup format with metadata
-            candidatesToRestore = data.candidates;
-            backupVersion = data.version;
-        } else {
-            throw new Error('فرمت فایل پشتیبان ناشناخته است.');
-        }
-
-        // Migrate data structure to the current version if needed
-        const migratedCandidates = migrationService.migrate(candidatesToRestore, backupVersion);
-
-        // Basic validation after potential migration
-        if (!Array.isArray(migratedCandidates) || !migratedCandidates.every(c => c.id && c.name && c.stage)) {
-            throw new Error('فایل پشتیبان پس از مهاجرت، معتبر نیست.');
-        }
 
-        setCandidates(migratedCandidates);
-        // Toast is shown within the setCandidates function from the context
-        
+        // Detects the backup format and migrates every section to the current version
+        // The user then chooses between merging and replacing in the restore modal.
+        onRestoreFileLoaded(backupService.parseBackup(JSON.parse(text)));
       } catch (error: any) {
         addToast(error.message || 'خطا در بازیابی فایل. لطفاً از معتبر بودن فایل اطمینان حاصل کنید.', 'error');
         console.error("Restore error:", error);
@@ -95,13 +72,6 @@ const Header: React.FC<HeaderProps> = ({ onSettingsClick, onAddCandidateClick, o
     event.target.value = ''; // Reset input
   };
   
-  // Helper function to convert Persian/Arabic numerals to Latin, making date parsing reliable.
-  const toLatinDigits = (s: string) => {
-    if (!s) return '';
-    return s.replace(/[۰-۹]/g, d => '۰۱۲۳۴۵۶۷۸۹'.indexOf(d).toString())
-            .replace(/[٠-٩]/g, d => '٠١٢٣٤٥٦٧٨٩'.indexOf(d).toString());
-  };
-
   const handleBulkReminder = () => {
     try {
         // Use string comparison for robustness, as persianDate object comparison can be tricky.
@@ -149,23 +119,39 @@ const Header: React.FC<HeaderProps> = ({ onSettingsClick, onAddCandidateClick, o
     <header className="bg-white shadow-md p-4 flex flex-wrap justify-between items-center sticky top-0 z-30 gap-4">
       <div className="flex items-center gap-4">
         <h1 className="text-xl md:text-2xl font-bold text-gray-800">داشبورد استخدام</h1>
+        {can('candidate:create') && (
         <button onClick={onAddCandidateClick} className="text-sm bg-[var(--color-primary-600)] hover:bg-[var(--color-primary-700)] text-white font-bold py-2 px-4 rounded-lg transition-colors flex items-center gap-2">
             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" /></svg>
             <span>افزودن سریع</span>
         </button>
+        )}
       </div>
       
       <div className="flex items-center gap-2 flex-wrap">
-        <button onClick={handleBulkReminder} className="text-sm bg-amber-500 hover:bg-amber-600 text-white font-bold py-2 px-4 rounded-lg transition-colors">یادآور گروهی</button>
-        <button onClick={handleBackup} className="text-sm bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded-lg transition-colors">پشتیبان‌گیری</button>
-        <input type="file" id="restore-input" ref={restoreInputRef} className="hidden" accept=".json" onChange={handleRestore} />
-        <button onClick={handleRestoreClick} className="text-sm bg-green-500 hover:bg-green-600 text-white font-bold py-2 px-4 rounded-lg transition-colors">بازیابی</button>
+        {can('message:bulk') && (
+            <button onClick={handleBulkReminder} className="text-sm bg-amber-500 hover:bg-amber-600 text-white font-bold py-2 px-4 rounded-lg transition-colors">یادآور گروهی</button>
+        )}
+        {can('candidate:create') && (
+            <>
+                <button onClick={onImportClick} className="text-sm bg-indigo-500 hover:bg-indigo-600 text-white font-bold py-2 px-4 rounded-lg transition-colors">ورود از فایل</button>
+                <button onClick={onResumeIntakeClick} className="text-sm bg-purple-500 hover:bg-purple-600 text-white font-bold py-2 px-4 rounded-lg transition-colors">دریافت گروهی رزومه</button>
+            </>
+        )}
+        {can('data:backup') && (
+            <button onClick={handleBackup} className="text-sm bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded-lg transition-colors">پشتیبان‌گیری</button>
+        )}
+        {can('data:restore') && (
+            <>
+                <input type="file" id="restore-input" ref={restoreInputRef} className="hidden" accept=".json" onChange={handleRestore} />
+                <button onClick={handleRestoreClick} className="text-sm bg-green-500 hover:bg-green-600 text-white font-bold py-2 px-4 rounded-lg transition-colors">بازیابی</button>
+            </>
+        )}
       </div>
       
       <div className="flex items-center gap-4">
         {user && <span className="text-sm text-gray-600 font-medium">خوش آمدید، {user.name}</span>}
         <button onClick={onChangePasswordClick} className="text-sm text-gray-600 hover:text-gray-900 font-medium p-2 rounded-lg hover:bg-gray-100 transition-colors">تغییر رمز</button>
-        {user?.isAdmin && (
+        {canOpenSettings(user) && (
             <button onClick={onSettingsClick} className="text-sm bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg transition-colors">تنظیمات</button>
         )}
         <button onClick={logout} className="text-sm bg-red-500 hover:bg-red-600 text-white font-bold py-2 px-4 rounded-lg transition-colors">خروج</button>
@@ -1,12 +1,22 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Candidate, StageId } from '../../types';
-import { DEFAULT_SOURCES } from '../../constants';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Candidate, CandidateProfile, ConsentType, CustomFieldValue, StageId } from '../../types';
+import { CONSENT_LABELS, CONSENT_SOURCES, DEFAULT_SOURCES, DUPLICATE_REASON_LABELS } from '../../constants';
 import Modal from '../ui/Modal';
 import StarRating from '../ui/StarRating';
+import TagChips from '../ui/TagChips';
+import CustomFieldInput from '../ui/CustomFieldInput';
 import { useSettings } from '../../contexts/SettingsContext';
-import KamaDatePicker from '../ui/KamaDatePicker';
 import { aiService } from '../../services/aiService';
 import { useToast } from '../../contexts/ToastContext';
+import { useCandidates } from '../../contexts/CandidatesContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { findDuplicates } from '../../utils/candidateUtils';
+import { SUPPORTED_DOCUMENT_ACCEPT } from '../../utils/documentUtils';
+import { isPositionOpenForCandidates } from '../../utils/applicationUtils';
+import { hasConsent, updateConsents } from '../../utils/consentUtils';
+import { cleanCustomFieldValues, validateCustomFieldValues } from '../../utils/customFieldUtils';
+
+const NO_CONSENTS: Record<ConsentType, boolean> = { dataProcessing: false, talentPool: false, whatsapp: false };
 
 interface AddEditCandidateModalProps {
   isOpen: boolean;
@@ -17,10 +27,11 @@ interface AddEditCandidateModalProps {
 }
 
 const AddEditCandidateModal: React.FC<AddEditCandidateModalProps> = ({ isOpen, onClose, onSave, candidateToEdit, initialStage }) => {
-  const { sources, companyProfile, stages, geminiApiKey } = useSettings();
+  const { sources, companyProfile, getStagesForPosition, geminiApiKey, customFields } = useSettings();
   const { addToast } = useToast();
+  const { candidates } = useCandidates();
+  const { user } = useAuth();
   const availableSources = sources.length > 0 ? sources : DEFAULT_SOURCES;
-  const kanbanStages = stages.filter(s => s.id !== 'archived');
   const resumeInputRef = useRef<HTMLInputElement>(null);
   
   const [name, setName] = useState('');
@@ -30,11 +41,21 @@ const AddEditCandidateModal: React.FC<AddEditCandidateModalProps> = ({ isOpen, o
   const [source, setSource] = useState(availableSources[0]);
   const [stage, setStage] = useState<StageId>('inbox');
   const [rating, setRating] = useState(0);
-  const [interviewDate, setInterviewDate] = useState('');
-  const [interviewTime, setInterviewTime] = useState('');
   const [resumeFile, setResumeFile] = useState<File | undefined>();
   const [isParsing, setIsParsing] = useState(false);
+  const [parsedProfile, setParsedProfile] = useState<CandidateProfile | undefined>();
+  const [consents, setConsents] = useState<Record<ConsentType, boolean>>(NO_CONSENTS);
+  const [consentSource, setConsentSource] = useState(CONSENT_SOURCES[0]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [customFieldValues, setCustomFieldValues] = useState<Record<string, CustomFieldValue | undefined>>({});
   const apiKeySet = !!geminiApiKey;
+  const selectedJobId = companyProfile.jobPositions.find(j => j.title === position)?.id;
+  const kanbanStages = getStagesForPosition(selectedJobId).filter(s => s.id !== 'archived');
+
+  const duplicates = useMemo(() => {
+    if (!name && !email && !phone) return [];
+    return findDuplicates({ id: candidateToEdit?.id, name, email, phone }, candidates);
+  }, [name, email, phone, candidateToEdit, candidates]);
 
   useEffect(() => {
     if (candidateToEdit) {
@@ -45,21 +66,29 @@ const AddEditCandidateModal: React.FC<AddEditCandidateModalProps> = ({ isOpen, o
       setSource(candidateToEdit.source);
       setStage(candidateToEdit.stage);
       setRating(candidateToEdit.rating);
-      setInterviewDate(candidateToEdit.interviewDate || '');
-      setInterviewTime(candidateToEdit.interviewTime || '');
+      setConsents({
+        dataProcessing: hasConsent(candidateToEdit, 'dataProcessing'),
+        talentPool: hasConsent(candidateToEdit, 'talentPool'),
+        whatsapp: hasConsent(candidateToEdit, 'whatsapp'),
+      });
+      setTags(candidateToEdit.tags || []);
+      setCustomFieldValues(candidateToEdit.customFields || {});
     } else {
       setName('');
       setEmail('');
       setPhone('');
-      setPosition(companyProfile.jobPositions.length > 0 ? companyProfile.jobPositions[0].title : '');
+      setPosition(companyProfile.jobPositions.find(isPositionOpenForCandidates)?.title || '');
       setSource(availableSources[0]);
       setStage(initialStage || 'inbox');
       setRating(0);
-      setInterviewDate('');
-      setInterviewTime('');
+      setConsents(NO_CONSENTS);
+      setTags([]);
+      setCustomFieldValues({});
     }
+    setConsentSource(CONSENT_SOURCES[0]);
     setResumeFile(undefined);
     setIsParsing(false);
+    setParsedProfile(undefined);
     if (resumeInputRef.current) {
         resumeInputRef.current.value = '';
     }
@@ -67,16 +96,30 @@ const AddEditCandidateModal: React.FC<AddEditCandidateModalProps> = ({ isOpen, o
   
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (duplicates.length > 0 && !window.confirm(`این متقاضی مشابه ${duplicates.map(d => d.candidate.name).join('، ')} است. آیا با این وجود ذخیره شود؟`)) {
+      return;
+    }
+    // Values of fields deleted since are kept as they are
+    const cleanedCustomFields = cleanCustomFieldValues(customFieldValues);
+    const customFieldError = validateCustomFieldValues(cleanedCustomFields || {}, customFields);
+    if (customFieldError) {
+      addToast(customFieldError, 'error');
+      return;
+    }
     const newCandidate: Candidate = {
       id: candidateToEdit?.id || `cand_${Date.now()}`,
       createdAt: candidateToEdit?.createdAt || new Date().toISOString(),
       history: candidateToEdit?.history || [],
       comments: candidateToEdit?.comments || [],
+      applications: candidateToEdit?.applications || [],
       ...candidateToEdit,
       name, email, phone, position, source, stage, rating,
-      interviewDate: interviewDate || undefined,
-      interviewTime: interviewTime || undefined,
       hasResume: !!resumeFile || candidateToEdit?.hasResume,
+      // Extracted values replace the stored ones; fields the resume did not mention are kept
+      profile: parsedProfile ? { ...candidateToEdit?.profile, ...parsedProfile } : candidateToEdit?.profile,
+      consents: updateConsents(candidateToEdit?.consents, consents, consentSource, user?.name || ''),
+      tags: tags.length > 0 ? tags : undefined,
+      customFields: cleanedCustomFields,
     };
     onSave(newCandidate, resumeFile);
     onClose();
@@ -88,10 +131,6 @@ const AddEditCandidateModal: React.FC<AddEditCandidateModalProps> = ({ isOpen, o
       }
   };
 
-  const handleDateChange = (date: string) => {
-    setInterviewDate(date);
-  };
-
   const handleParseResume = async () => {
     if (!resumeFile || !geminiApiKey) return;
     setIsParsing(true);
@@ -101,6 +140,7 @@ const AddEditCandidateModal: React.FC<AddEditCandidateModalProps> = ({ isOpen, o
         if (parsedData.name) setName(parsedData.name);
         if (parsedData.email) setEmail(parsedData.email);
         if (parsedData.phone) setPhone(parsedData.phone);
+        setParsedProfile(parsedData.profile);
         addToast('اطلاعات با موفقیت از رزومه استخراج شد.', 'success');
     } catch (error: any) {
         addToast(error.message || 'خطا در تحلیل رزومه.', 'error');
@@ -123,7 +163,9 @@ const AddEditCandidateModal: React.FC<AddEditCandidateModalProps> = ({ isOpen, o
             <label htmlFor="position" className="block text-sm font-medium text-gray-700">موقعیت شغلی</label>
             <select id="position" value={position} onChange={e => setPosition(e.target.value)} required className="mt-1 block w-full border border-gray-300 bg-white rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-[var(--color-primary-500)] focus:border-[var(--color-primary-500)] sm:text-sm">
                 <option value="" disabled>یک موقعیت انتخاب کنید</option>
-                {companyProfile.jobPositions.map(job => (
+                {companyProfile.jobPositions
+                    .filter(job => isPositionOpenForCandidates(job) || job.title === candidateToEdit?.position)
+                    .map(job => (
                     <option key={job.id} value={job.title}>{job.title}</option>
                 ))}
             </select>
@@ -150,20 +192,10 @@ const AddEditCandidateModal: React.FC<AddEditCandidateModalProps> = ({ isOpen, o
               ))}
             </select>
           </div>
-           <div className="md:col-span-2 grid grid-cols-2 gap-4">
-              <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">تاریخ مصاحبه</label>
-                  <KamaDatePicker value={interviewDate} onChange={handleDateChange} />
-              </div>
-              <div>
-                  <label htmlFor="interviewTime" className="block text-sm font-medium text-gray-700 mb-1">ساعت مصاحبه</label>
-                  <input type="time" id="interviewTime" value={interviewTime} onChange={e => setInterviewTime(e.target.value)} className="mt-1 block w-full border border-gray-300 rounded-lg shadow-sm py-3 px-3 focus:outline-none focus:ring-[var(--color-primary-500)] focus:border-[var(--color-primary-500)] sm:text-sm" />
-              </div>
-           </div>
            <div className="md:col-span-2">
-                <label className="block text-sm font-medium text-gray-700">رزومه (PDF)</label>
+                <label className="block text-sm font-medium text-gray-700">رزومه (PDF، Word یا تصویر)</label>
                 <div className="mt-1 flex items-center gap-4">
-                    <input ref={resumeInputRef} type="file" onChange={handleFileChange} accept=".pdf" className="text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-[var(--color-primary-50)] file:text-[var(--color-primary-700)] hover:file:bg-[var(--color-primary-100)]"/>
+                    <input ref={resumeInputRef} type="file" onChange={handleFileChange} accept={SUPPORTED_DOCUMENT_ACCEPT} className="text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-[var(--color-primary-50)] file:text-[var(--color-primary-700)] hover:file:bg-[var(--color-primary-100)]"/>
                     <button type="button" onClick={handleParseResume} disabled={!resumeFile || isParsing || !apiKeySet} title={!apiKeySet ? "ویژگی هوش مصنوعی غیرفعال است. لطفاً کلید API را تنظیم کنید." : "تکمیل خودکار با AI"} className="px-4 py-2 text-sm font-semibold bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed">
                         {isParsing ? 'در حال پردازش...' : 'تکمیل خودکار با AI ✨'}
                     </button>
@@ -174,7 +206,56 @@ const AddEditCandidateModal: React.FC<AddEditCandidateModalProps> = ({ isOpen, o
               <label className="block text-sm font-medium text-gray-700 mb-1">امتیاز</label>
               <StarRating rating={rating} onRatingChange={setRating} />
            </div>
+           <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">برچسب‌ها</label>
+              <TagChips tagIds={tags} onChange={setTags} />
+           </div>
+           {customFields.map(field => (
+              <div key={field.id}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+                  <CustomFieldInput field={field} value={customFieldValues[field.id]} onChange={value => setCustomFieldValues(prev => ({ ...prev, [field.id]: value }))} />
+              </div>
+           ))}
+           <div className="md:col-span-2 p-4 border border-gray-200 rounded-lg">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                  <span className="text-sm font-medium text-gray-700">رضایت‌های متقاضی</span>
+                  <label className="flex items-center gap-2 text-sm text-gray-600">
+                      نحوه دریافت تغییرات:
+                      <select value={consentSource} onChange={e => setConsentSource(e.target.value)} className="border border-gray-300 bg-white rounded-md py-1 px-2 text-sm">
+                          {CONSENT_SOURCES.map(s => <option key={s} value={s}>{s}</option>)}
+                      </select>
+                  </label>
+              </div>
+              <div className="space-y-2">
+                  {(Object.keys(CONSENT_LABELS) as ConsentType[]).map(type => {
+                      const record = candidateToEdit?.consents?.[type];
+                      return (
+                          <label key={type} className="flex items-center gap-2 text-sm text-gray-700">
+                              <input type="checkbox" checked={consents[type]} onChange={e => setConsents(prev => ({ ...prev, [type]: e.target.checked }))} className="rounded border-gray-300 text-[var(--color-primary-600)]" />
+                              {CONSENT_LABELS[type]}
+                              {record && (
+                                  <span className="text-xs text-gray-400">
+                                      ({record.granted ? 'ثبت' : 'لغو'} در {new Date(record.timestamp).toLocaleDateString('fa-IR')} - {record.source}{record.recordedBy ? ` - ${record.recordedBy}` : ''})
+                                  </span>
+                              )}
+                          </label>
+                      );
+                  })}
+              </div>
+           </div>
         </div>
+        {duplicates.length > 0 && (
+          <div className="p-3 bg-amber-50 border border-amber-300 rounded-lg text-sm text-amber-800">
+            <p className="font-semibold mb-1">احتمال ثبت تکراری:</p>
+            <ul className="list-disc list-inside space-y-1">
+              {duplicates.map(({ candidate, reasons }) => (
+                <li key={candidate.id}>
+                  {candidate.name} ({candidate.source}) - {reasons.map(r => DUPLICATE_REASON_LABELS[r]).join('، ')}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
         <div className="flex justify-end gap-4 pt-4">
           <button type="button" onClick={onClose} className="bg-gray-200 text-gray-800 py-2 px-6 rounded-lg hover:bg-gray-300 transition-colors">انصراف</button>
           <button type="submit" className="bg-[var(--color-primary-600)] text-white py-2 px-6 rounded-lg hover:bg-[var(--color-primary-700)] transition-colors">ذخیره</button>
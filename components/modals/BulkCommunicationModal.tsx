@@ -6,6 +6,8 @@ import { templateService } from '../../services/templateService';
 import { useToast } from '../../contexts/ToastContext';
 import { useSettings } from '../../contexts/SettingsContext';
 import { EmailIcon, WhatsappIcon } from '../ui/Icons';
+import { normalizePhone } from '../../utils/candidateUtils';
+import { canMessage } from '../../utils/consentUtils';
 
 interface BulkCommunicationModalProps {
   isOpen: boolean;
@@ -19,7 +21,7 @@ const BulkCommunicationModal: React.FC<BulkCommunicationModalProps> = ({
   candidates,
 }) => {
   const { templates } = useTemplates();
-  const { companyProfile } = useSettings();
+  const { companyProfile, customFields } = useSettings();
   const { addToast } = useToast();
   
   const [selectedTemplateId, setSelectedTemplateId] = useState('');
@@ -65,25 +67,35 @@ const BulkCommunicationModal: React.FC<BulkCommunicationModalProps> = ({
         return;
     }
 
-    addToast(`در حال آماده‌سازی ${candidates.length} پیام. لطفاً منتظر بمانید...`, 'success');
+    const recipients = candidates.filter(c => canMessage(c, platform));
+    const skippedCount = candidates.length - recipients.length;
+    if (recipients.length === 0) {
+        addToast("هیچ‌یک از متقاضیان انتخاب‌شده برای این روش ارتباطی رضایت نداده‌اند.", "error");
+        return;
+    }
+    if (skippedCount > 0) {
+        addToast(`${skippedCount} متقاضی به دلیل نداشتن رضایت ثبت‌شده نادیده گرفته شد.`, 'error');
+    }
+
+    addToast(`در حال آماده‌سازی ${recipients.length} پیام. لطفاً منتظر بمانید...`, 'success');
     
     let successCount = 0;
     
     // Use a loop with a delay to avoid browser popup blockers
-    for (const candidate of candidates) {
+    for (const candidate of recipients) {
         const placeholders = {
             companyName: companyProfile.name,
             companyAddress: companyProfile.address,
             companyWebsite: companyProfile.website,
         };
-        const personalizedMessage = templateService.replacePlaceholders(message, candidate, placeholders);
+        const personalizedMessage = templateService.replacePlaceholders(message, candidate, placeholders, customFields);
 
         if (platform === 'email') {
             const subject = `یادآوری مصاحبه از طرف ${companyProfile.name}`;
             window.open(`mailto:${candidate.email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(personalizedMessage)}`, '_blank');
             successCount++;
         } else { // whatsapp
-            const whatsappNumber = candidate.phone ? candidate.phone.replace(/[^0-9]/g, '').replace(/^0/, '98') : '';
+            const whatsappNumber = normalizePhone(candidate.phone);
             if (whatsappNumber) {
                 window.open(`https://wa.me/${whatsappNumber}?text=${encodeURIComponent(personalizedMessage)}`, '_blank');
                 successCount++;
@@ -103,6 +115,8 @@ const BulkCommunicationModal: React.FC<BulkCommunicationModalProps> = ({
   };
   
   const title = `ارسال پیام گروهی (${candidates.length} نفر)`;
+  const withoutEmailConsent = candidates.filter(c => !canMessage(c, 'email')).length;
+  const withoutWhatsappConsent = candidates.filter(c => !canMessage(c, 'whatsapp')).length;
 
   return (
     <Modal isOpen={isOpen} onClose={onClose} title={title}>
@@ -140,6 +154,12 @@ const BulkCommunicationModal: React.FC<BulkCommunicationModalProps> = ({
             />
         </div>
         
+        {(withoutEmailConsent > 0 || withoutWhatsappConsent > 0) && (
+          <div className="p-3 bg-amber-50 border border-amber-300 rounded-lg text-sm text-amber-800">
+            متقاضیان بدون رضایت ثبت‌شده نادیده گرفته می‌شوند: {withoutEmailConsent} نفر برای ایمیل و {withoutWhatsappConsent} نفر برای واتس‌اپ.
+          </div>
+        )}
+
         <div className="p-3 bg-yellow-50 border border-yellow-200 text-yellow-800 text-sm rounded-md">
            <strong>توجه:</strong> این عملیات چندین پنجره/تب جدید باز خواهد کرد. لطفاً مطمئن شوید مرورگر شما اجازه باز شدن پاپ‌آپ‌ها را می‌دهد.
         </div>
@@ -0,0 +1,275 @@
+import React, { useState, useEffect, useRef } from 'react';
+import Modal from '../ui/Modal';
+import { Candidate, CandidateProfile } from '../../types';
+import { DEFAULT_SOURCES, DUPLICATE_REASON_LABELS } from '../../constants';
+import { aiService } from '../../services/aiService';
+import { useCandidates } from '../../contexts/CandidatesContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { useToast } from '../../contexts/ToastContext';
+import { findDuplicates, toLatinDigits } from '../../utils/candidateUtils';
+import { isPositionOpenForCandidates } from '../../utils/applicationUtils';
+import { generateId } from '../../utils/idUtils';
+import { runRateLimited } from '../../utils/queueUtils';
+import { getDocumentKind, SUPPORTED_DOCUMENT_ACCEPT } from '../../utils/documentUtils';
+
+interface BulkResumeIntakeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type IntakeStatus = 'queued' | 'parsing' | 'parsed' | 'failed';
+
+interface IntakeItem {
+  id: string;
+  file: File;
+  status: IntakeStatus;
+  error?: string;
+  name: string;
+  email: string;
+  phone: string;
+  profile?: CandidateProfile;
+  include: boolean;
+}
+
+// At most 12 starts per minute, below the Gemini free tier limit of 15 requests per minute, which leaves room
+// for retrying failed files and for other AI features used at the same time
+const PARSE_RATE_LIMIT = { concurrency: 2, minIntervalMs: 5000 };
+
+const STATUS_LABELS: Record<IntakeStatus, { label: string; className: string }> = {
+  queued: { label: 'در صف', className: 'text-gray-500' },
+  parsing: { label: 'در حال تحلیل...', className: 'text-blue-600' },
+  parsed: { label: 'تحلیل شد', className: 'text-green-600' },
+  failed: { label: 'ناموفق', className: 'text-red-600' },
+};
+
+const BulkResumeIntakeModal: React.FC<BulkResumeIntakeModalProps> = ({ isOpen, onClose }) => {
+  const { candidates, importCandidates } = useCandidates();
+  const { companyProfile, sources, geminiApiKey } = useSettings();
+  const { addToast } = useToast();
+  const availableSources = sources.length > 0 ? sources : DEFAULT_SOURCES;
+  const openPositions = companyProfile.jobPositions.filter(isPositionOpenForCandidates);
+
+  const [items, setItems] = useState<IntakeItem[]>([]);
+  const [position, setPosition] = useState('');
+  const [source, setSource] = useState(availableSources[0]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  // Changes whenever the dialog opens or closes, which stops a running parse queue
+  const sessionRef = useRef(0);
+
+  useEffect(() => {
+    sessionRef.current++;
+    if (isOpen) {
+      setItems([]);
+      setPosition(openPositions[0]?.title || '');
+      setSource(availableSources[0]);
+      setIsParsing(false);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  const updateItem = (id: string, changes: Partial<IntakeItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  const addFiles = (files: FileList | null) => {
+    if (!files) return;
+    const all = Array.from(files);
+    const supported = all.filter(f => getDocumentKind(f));
+    if (supported.length < all.length) {
+      addToast(`${all.length - supported.length} فایل با قالب پشتیبانی‌نشده نادیده گرفته شد.`, 'error');
+    }
+    setItems(prev => [
+      ...prev,
+      ...supported.map(file => ({ id: generateId(), file, status: 'queued' as IntakeStatus, name: '', email: '', phone: '', include: true })),
+    ]);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(e.dataTransfer.files);
+  };
+
+  const parseItem = async (apiKey: string, item: IntakeItem) => {
+    updateItem(item.id, { status: 'parsing', error: undefined });
+    try {
+      const parsed = await aiService.parseResume(apiKey, item.file);
+      // Values the user already typed are kept
+      setItems(prev => prev.map(i => i.id === item.id ? {
+        ...i,
+        status: 'parsed',
+        name: i.name || parsed.name || '',
+        email: i.email || parsed.email || '',
+        phone: i.phone || toLatinDigits(parsed.phone || ''),
+        profile: parsed.profile,
+      } : i));
+    } catch (error: any) {
+      updateItem(item.id, { status: 'failed', error: error.message });
+    }
+  };
+
+  const handleStartParsing = async () => {
+    const pending = items.filter(item => item.status === 'queued' || item.status === 'failed');
+    if (pending.length === 0 || !geminiApiKey) return;
+    const session = sessionRef.current;
+    setIsParsing(true);
+    await runRateLimited(pending, item => parseItem(geminiApiKey, item), PARSE_RATE_LIMIT, () => sessionRef.current !== session);
+    setIsParsing(false);
+  };
+
+  const getDuplicates = (item: IntakeItem) => {
+    if (!item.name && !item.email && !item.phone) return [];
+    return findDuplicates({ name: item.name, email: item.email, phone: item.phone }, candidates);
+  };
+
+  const isComplete = (item: IntakeItem) => !!item.name.trim() && !!(item.email.trim() || item.phone.trim());
+  const readyItems = items.filter(item => item.include && isComplete(item));
+
+  const handleCreate = async () => {
+    if (!position) {
+      addToast('لطفا موقعیت شغلی را انتخاب کنید.', 'error');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const createdAt = new Date().toISOString();
+      const resumeFiles: Record<string, File> = {};
+      const newCandidates: Candidate[] = readyItems.map(item => {
+        const id = `cand_${Date.now()}_${item.id}`;
+        resumeFiles[id] = item.file;
+        return {
+          id, createdAt, position, source,
+          name: item.name.trim(),
+          email: item.email.trim(),
+          phone: toLatinDigits(item.phone.trim()),
+          ...(item.profile ? { profile: item.profile } : {}),
+          stage: 'inbox',
+          rating: 0,
+          history: [],
+          comments: [],
+          applications: [],
+        };
+      });
+      const count = await importCandidates(newCandidates, 'دریافت گروهی رزومه', resumeFiles);
+      if (count > 0) {
+        addToast(`${count} متقاضی با رزومه ایجاد شد.`, 'success');
+        onClose();
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const parsedCount = items.filter(item => item.status === 'parsed').length;
+  const failedCount = items.filter(item => item.status === 'failed').length;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="دریافت گروهی رزومه" size="xl">
+      <div className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="intake-position" className="block text-sm font-medium text-gray-700">موقعیت شغلی برای همه</label>
+            <select id="intake-position" value={position} onChange={e => setPosition(e.target.value)} className="mt-1 block w-full border border-gray-300 bg-white rounded-md shadow-sm py-2 px-3 sm:text-sm">
+              <option value="" disabled>یک موقعیت انتخاب کنید</option>
+              {openPositions.map(job => <option key={job.id} value={job.title}>{job.title}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="intake-source" className="block text-sm font-medium text-gray-700">منبع برای همه</label>
+            <select id="intake-source" value={source} onChange={e => setSource(e.target.value)} className="mt-1 block w-full border border-gray-300 bg-white rounded-md shadow-sm py-2 px-3 sm:text-sm">
+              {availableSources.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+          </div>
+        </div>
+
+        <div
+          onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${isDragging ? 'border-[var(--color-primary-500)] bg-[var(--color-primary-50)]' : 'border-gray-300'}`}
+        >
+          <p className="text-sm text-gray-600 mb-2">فایل‌های رزومه (PDF، Word یا تصویر) را اینجا رها کنید یا</p>
+          <label className="inline-block cursor-pointer text-sm font-semibold text-[var(--color-primary-700)] hover:underline">
+            انتخاب فایل‌ها
+            <input type="file" multiple accept={SUPPORTED_DOCUMENT_ACCEPT} className="hidden" onChange={e => { addFiles(e.target.files); e.target.value = ''; }} />
+          </label>
+        </div>
+
+        {!geminiApiKey && (
+          <p className="text-sm text-amber-700 bg-amber-50 border border-amber-300 rounded-lg p-3">
+            کلید API هوش مصنوعی تنظیم نشده است؛ اطلاعات را می‌توانید به صورت دستی در جدول وارد کنید.
+          </p>
+        )}
+
+        {items.length > 0 && (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex gap-3 text-sm">
+                <span className="text-gray-600">{items.length} فایل</span>
+                <span className="text-green-700">تحلیل‌شده: {parsedCount}</span>
+                {failedCount > 0 && <span className="text-red-600">ناموفق: {failedCount}</span>}
+              </div>
+              <button type="button" onClick={handleStartParsing} disabled={!geminiApiKey || isParsing || items.every(i => i.status === 'parsed')} className="px-4 py-2 text-sm font-semibold bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed">
+                {isParsing ? 'در حال تحلیل...' : failedCount > 0 ? 'تحلیل فایل‌های باقی‌مانده و ناموفق ✨' : 'تحلیل با AI ✨'}
+              </button>
+            </div>
+            <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-100 sticky top-0">
+                  <tr>
+                    <th className="px-2 py-2"></th>
+                    <th className="px-2 py-2 text-right font-medium text-gray-600">فایل</th>
+                    <th className="px-2 py-2 text-right font-medium text-gray-600">وضعیت</th>
+                    <th className="px-2 py-2 text-right font-medium text-gray-600">نام</th>
+                    <th className="px-2 py-2 text-right font-medium text-gray-600">ایمیل</th>
+                    <th className="px-2 py-2 text-right font-medium text-gray-600">تلفن</th>
+                    <th className="px-2 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {items.map(item => {
+                    const duplicates = getDuplicates(item);
+                    const disabled = item.status === 'parsing';
+                    return (
+                      <tr key={item.id} className="border-t border-gray-200 align-top">
+                        <td className="px-2 py-2">
+                          <input type="checkbox" checked={item.include} onChange={e => updateItem(item.id, { include: e.target.checked })} className="rounded border-gray-300" aria-label="ایجاد متقاضی" />
+                        </td>
+                        <td className="px-2 py-2 text-gray-700 max-w-[12rem] truncate" title={item.file.name}>{item.file.name}</td>
+                        <td className="px-2 py-2">
+                          <span className={STATUS_LABELS[item.status].className} title={item.error}>{STATUS_LABELS[item.status].label}</span>
+                          {duplicates.length > 0 && (
+                            <p className="text-xs text-amber-700 mt-1">
+                              مشابه {duplicates.map(({ candidate, reasons }) => `${candidate.name} (${reasons.map(r => DUPLICATE_REASON_LABELS[r]).join('، ')})`).join('؛ ')}
+                            </p>
+                          )}
+                        </td>
+                        <td className="px-2 py-2"><input type="text" value={item.name} disabled={disabled} onChange={e => updateItem(item.id, { name: e.target.value })} className="w-full border border-gray-300 rounded-md py-1 px-2" /></td>
+                        <td className="px-2 py-2"><input type="email" value={item.email} disabled={disabled} onChange={e => updateItem(item.id, { email: e.target.value })} className="w-full border border-gray-300 rounded-md py-1 px-2" dir="ltr" /></td>
+                        <td className="px-2 py-2"><input type="tel" value={item.phone} disabled={disabled} onChange={e => updateItem(item.id, { phone: e.target.value })} className="w-full border border-gray-300 rounded-md py-1 px-2" dir="ltr" /></td>
+                        <td className="px-2 py-2">
+                          <button type="button" onClick={() => setItems(prev => prev.filter(i => i.id !== item.id))} disabled={disabled} className="text-red-500 hover:text-red-700 disabled:text-gray-300" aria-label={`حذف ${item.file.name}`}>✕</button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end gap-4 pt-4">
+          <button type="button" onClick={onClose} className="bg-gray-200 text-gray-800 py-2 px-6 rounded-lg hover:bg-gray-300 transition-colors">انصراف</button>
+          <button type="button" onClick={handleCreate} disabled={readyItems.length === 0 || isParsing || isSaving} className="bg-[var(--color-primary-600)] text-white py-2 px-6 rounded-lg hover:bg-[var(--color-primary-700)] transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed">
+            {isSaving ? 'در حال ذخیره...' : `ایجاد ${readyItems.length} متقاضی`}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default BulkResumeIntakeModal;
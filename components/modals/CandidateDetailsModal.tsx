@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { Candidate, Comment, StageChangeInfo } from '../../types';
+import { USER_ROLE_LABELS } from '../../constants';
 import Modal from '../ui/Modal';
 import StarRating from '../ui/StarRating';
 import { useCandidates } from '../../contexts/CandidatesContext';
@@ -7,11 +8,15 @@ import { useAuth } from '../../contexts/AuthContext';
 import { dbService } from '../../services/dbService';
 import { useToast } from '../../contexts/ToastContext';
 import { useSettings } from '../../contexts/SettingsContext';
-import KamaDatePicker from '../ui/KamaDatePicker';
 import ProcessTimeline from '../ui/ProcessTimeline';
-import { useTemplates } from '../../contexts/TemplateContext';
-import { templateService } from '../../services/templateService';
-import { EmailIcon, WhatsappIcon } from '../ui/Icons';
+import { findDuplicates } from '../../utils/candidateUtils';
+import MergeCandidatesModal from './MergeCandidatesModal';
+import CandidateProfilePanel from '../ui/CandidateProfilePanel';
+import TagChips from '../ui/TagChips';
+import ScorecardPanel from '../ui/ScorecardPanel';
+import InterviewSchedulePanel from '../ui/InterviewSchedulePanel';
+import { getPositionTitle, isPositionOpenForCandidates } from '../../utils/applicationUtils';
+import { formatCustomFieldValue, getCustomFieldEntries } from '../../utils/customFieldUtils';
 
 declare const persianDate: any;
 
@@ -27,36 +32,60 @@ interface CandidateDetailsModalProps {
 }
 
 const CandidateDetailsModal: React.FC<CandidateDetailsModalProps> = ({ isOpen, onClose, candidate, onEdit, onStageChangeRequest, onNavigateToTests, onOpenCommunicationModal, onViewResume }) => {
-  const { addComment, updateCandidate, addCustomHistoryEntry } = useCandidates();
-  const { companyProfile, stages } = useSettings();
-  const { templates } = useTemplates();
-  const { user } = useAuth();
+  const { candidates, updateCandidate, addComment, addCustomHistoryEntry, addApplication, updateApplication, removeApplication, anonymizeCandidate } = useCandidates();
+  const { companyProfile, stages, getStagesForPosition, customFields } = useSettings();
+  const { user, users, can, requireReauth } = useAuth();
   const { addToast } = useToast();
   
   const [newComment, setNewComment] = useState('');
   const [isLoadingResume, setIsLoadingResume] = useState(false);
   const [customHistoryEvent, setCustomHistoryEvent] = useState('');
-  const [interviewDate, setInterviewDate] = useState('');
-  const [interviewTime, setInterviewTime] = useState('');
+  const [isMergeModalOpen, setMergeModalOpen] = useState(false);
+  const [selectedApplicationId, setSelectedApplicationId] = useState('');
+  const [newApplicationJobId, setNewApplicationJobId] = useState('');
+
+  const duplicates = useMemo(() => {
+    return candidate ? findDuplicates(candidate, candidates) : [];
+  }, [candidate, candidates]);
 
-  const emailReminderTemplate = useMemo(() => {
-    return templates.find(t => t.id === 'tpl_email_invite_reminder');
-  }, [templates]);
-  const whatsappReminderTemplate = useMemo(() => {
-    return templates.find(t => t.id === 'tpl_whatsapp_invite_reminder');
-  }, [templates]);
-  
   useEffect(() => {
     if (isOpen && candidate) {
         setNewComment('');
         setCustomHistoryEvent('');
-        setInterviewDate(candidate.interviewDate || '');
-        setInterviewTime(candidate.interviewTime || '');
+        const application = candidate.applications.find(a => a.id === selectedApplicationId) || candidate.applications[0];
+        setSelectedApplicationId(application?.id || '');
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isOpen, candidate]);
 
   if (!candidate) return null;
 
+  // Interview management works on the application selected in the applications list
+  const selectedApplication = candidate.applications.find(a => a.id === selectedApplicationId) || candidate.applications[0];
+  const interviewerOptions = Object.values(users).filter(u => u.role !== 'viewer');
+  const availableJobPositions = companyProfile.jobPositions.filter(j => isPositionOpenForCandidates(j) && !candidate.applications.some(a => a.jobPositionId === j.id));
+
+  const handleSelectApplication = (applicationId: string) => {
+    setSelectedApplicationId(applicationId);
+  };
+
+  const handleApplicationStageChange = (applicationId: string, stageId: string) => {
+    const application = candidate.applications.find(a => a.id === applicationId);
+    const newStage = getStagesForPosition(application?.jobPositionId).find(s => s.id === stageId);
+    if (!application || !newStage) return;
+    onStageChangeRequest({
+      candidate: { ...candidate, position: getPositionTitle(application, companyProfile.jobPositions) },
+      newStage,
+      applicationId,
+    });
+  };
+
+  const handleAddApplication = () => {
+    if (!newApplicationJobId) return;
+    addApplication(candidate.id, newApplicationJobId);
+    setNewApplicationJobId('');
+  };
+
   const handleAddComment = () => {
     if (newComment.trim() && user) {
       const comment: Comment = {
@@ -77,22 +106,12 @@ const CandidateDetailsModal: React.FC<CandidateDetailsModalProps> = ({ isOpen, o
       }
   }
 
-  const handleUpdateInterview = () => {
-      if (!interviewDate) {
-        addToast('لطفا تاریخ را انتخاب کنید.', 'error');
-        return;
-      }
-      updateCandidate({ ...candidate, interviewDate, interviewTime });
-      addToast('تاریخ مصاحبه ثبت/ویرایش شد.', 'success');
-  };
-  
-  const handleRemoveInterview = () => {
-      updateCandidate({ ...candidate, interviewDate: undefined, interviewTime: undefined });
-      setInterviewDate('');
-      setInterviewTime('');
-      addToast('تاریخ مصاحبه حذف شد.', 'success');
+  const handleToggleInterviewer = (username: string) => {
+      const current = selectedApplication.interviewers || [];
+      const interviewers = current.includes(username) ? current.filter(u => u !== username) : [...current, username];
+      updateApplication(candidate.id, selectedApplication.id, { interviewers });
   };
-  
+
   const handleViewResume = async () => {
     if (!candidate.hasResume) return;
     setIsLoadingResume(true);
@@ -110,134 +129,130 @@ const CandidateDetailsModal: React.FC<CandidateDetailsModalProps> = ({ isOpen, o
     }
   };
 
+  const handleForgetCandidate = async () => {
+    if (!window.confirm('نام، ایمیل، تلفن، یادداشت‌ها، رزومه و فایل‌های آزمون این متقاضی برای همیشه حذف می‌شوند و فقط آمار فرایند استخدام و شناسه پرونده در گزارش ممیزی باقی می‌ماند. ادامه می‌دهید؟')) return;
+    if (!(await requireReauth('حذف اطلاعات شخصی متقاضی'))) return;
+    await anonymizeCandidate(candidate.id);
+  };
+
   const formatTimestamp = (ts: string) => {
     const date = new Date(ts);
     return new persianDate(date).format('dddd D MMMM YYYY ساعت HH:mm');
   };
   
-  const handleAddToGoogleCalendar = () => {
-    if (!interviewDate || !interviewTime) {
-      addToast('لطفا ابتدا تاریخ و ساعت مصاحبه را مشخص کنید.', 'error');
-      return;
-    }
-    try {
-      const [year, month, day] = interviewDate.split('/').map(Number);
-      const [hour, minute] = interviewTime.split(':').map(Number);
-      
-      const pDate = new persianDate([year, month, day]).hour(hour).minute(minute);
-      const gDate = pDate.toDate();
-      
-      const startTime = new Date(gDate.getTime());
-      const endTime = new Date(startTime.getTime() + 60 * 60 * 1000); // Assume 1 hour duration
-      
-      const toGoogleISO = (date: Date) => date.toISOString().replace(/-|:|\.\d+/g, '');
-      
-      const calendarUrl = new URL('https://www.google.com/calendar/render');
-      calendarUrl.searchParams.append('action', 'TEMPLATE');
-      calendarUrl.searchParams.append('text', `مصاحبه: ${candidate.name} برای ${candidate.position}`);
-      calendarUrl.searchParams.append('dates', `${toGoogleISO(startTime)}/${toGoogleISO(endTime)}`);
-      calendarUrl.searchParams.append('details', `مصاحبه با ${candidate.name} برای موقعیت شغلی ${candidate.position}.\n\nایمیل: ${candidate.email}\nتلفن: ${candidate.phone}`);
-      calendarUrl.searchParams.append('location', companyProfile.address);
-      
-      window.open(calendarUrl.toString(), '_blank');
-    } catch (error) {
-        console.error("Error creating Google Calendar link:", error);
-        addToast('خطا در ساخت لینک تقویم گوگل. از صحیح بودن فرمت تاریخ و ساعت اطمینان حاصل کنید.', 'error');
-    }
-  };
-
-  const handleSendReminder = (platform: 'email' | 'whatsapp') => {
-    if (!candidate || !interviewDate) {
-      addToast('لطفا ابتدا تاریخ مصاحبه را مشخص کنید.', 'error');
-      return;
-    }
-    
-    const placeholders = {
-        companyName: companyProfile.name,
-        companyAddress: companyProfile.address,
-        companyWebsite: companyProfile.website,
-    };
-
-    if (platform === 'email') {
-        if (emailReminderTemplate) {
-            const emailMessage = templateService.replacePlaceholders(emailReminderTemplate.content, candidate, placeholders);
-            window.open(`mailto:${candidate.email}?subject=یادآوری مصاحبه&body=${encodeURIComponent(emailMessage)}`);
-            addToast('یادآور ایمیل آماده ارسال شد.', 'success');
-            addCustomHistoryEntry(candidate.id, 'یادآور مصاحبه (ایمیل) ارسال شد');
-        } else {
-            addToast('قالب ایمیل یادآوری یافت نشد.', 'error');
-        }
-    } else { // whatsapp
-        const whatsappNumber = candidate.phone ? candidate.phone.replace(/[^0-9]/g, '').replace(/^0/, '98') : '';
-        if (whatsappReminderTemplate && whatsappNumber) {
-            const whatsappMessage = templateService.replacePlaceholders(whatsappReminderTemplate.content, candidate, placeholders);
-            window.open(`https://wa.me/${whatsappNumber}?text=${encodeURIComponent(whatsappMessage)}`, '_blank');
-            addToast('یادآور واتسپ آماده ارسال شد.', 'success');
-            addCustomHistoryEntry(candidate.id, 'یادآور مصاحبه (واتسپ) ارسال شد');
-        } else {
-             if (!whatsappReminderTemplate) addToast('قالب واتسپ یادآوری یافت نشد.', 'error');
-             if (!whatsappNumber) addToast('شماره واتسپ نامعتبر است.', 'error');
-        }
-    }
-  };
-
-
   return (
     <>
       <Modal isOpen={isOpen} onClose={onClose} title={`جزئیات متقاضی: ${candidate.name}`}>
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Main Content */}
           <div className="lg:col-span-2 space-y-6">
+              {duplicates.length > 0 && (
+                <div className="p-3 bg-amber-50 border border-amber-300 rounded-lg text-sm text-amber-800 flex justify-between items-center gap-2">
+                  <span>پرونده‌های احتمالاً تکراری: {duplicates.map(d => d.candidate.name).join('، ')}</span>
+                  <button onClick={() => setMergeModalOpen(true)} className="text-amber-900 font-bold underline whitespace-nowrap">بررسی و ادغام</button>
+                </div>
+              )}
+              {candidate.anonymizedAt && (
+                <div className="p-3 bg-gray-100 border border-gray-300 rounded-lg text-sm text-gray-700">
+                  اطلاعات شخصی این متقاضی در تاریخ {formatTimestamp(candidate.anonymizedAt)} حذف شده است.
+                </div>
+              )}
               {/* Basic Info */}
               <div className="grid grid-cols-2 md:grid-cols-3 gap-4 p-4 bg-gray-100 rounded-lg">
                 <div><p className="text-sm text-gray-500">ایمیل</p><p className="font-medium truncate">{candidate.email}</p></div>
                 <div><p className="text-sm text-gray-500">تلفن</p><p className="font-medium">{candidate.phone}</p></div>
                 <div><p className="text-sm text-gray-500">منبع</p><p className="font-medium">{candidate.source}</p></div>
-                <div className="col-span-2 md:col-span-3"><p className="text-sm text-gray-500">امتیاز</p><StarRating rating={candidate.rating} readOnly /></div>
+                {getCustomFieldEntries(candidate, customFields).map(({ field, value }) => (
+                  <div key={field.id}>
+                    <p className="text-sm text-gray-500">{field.label}</p>
+                    {field.type === 'url'
+                      ? <a href={String(value)} target="_blank" rel="noopener noreferrer" dir="ltr" className="font-medium text-[var(--color-primary-600)] hover:underline truncate block">{String(value)}</a>
+                      : <p className="font-medium">{formatCustomFieldValue(field, value)}</p>}
+                  </div>
+                ))}
+                <div className="col-span-2 md:col-span-3">
+                  <p className="text-sm text-gray-500 mb-1">برچسب‌ها</p>
+                  {can('candidate:edit') && !candidate.anonymizedAt
+                    ? <TagChips tagIds={candidate.tags} onChange={tags => updateCandidate({ ...candidate, tags: tags.length > 0 ? tags : undefined })} />
+                    : <TagChips tagIds={candidate.tags} readOnly />}
+                </div>
               </div>
 
-              {/* Interview Management */}
+              <CandidateProfilePanel candidate={candidate} canEdit={can('candidate:edit') && !candidate.anonymizedAt} />
+
+              {/* Applications */}
               <div className="p-4 bg-gray-100 rounded-lg space-y-3">
-                  <h4 className="font-bold text-gray-800 mb-2">مدیریت مصاحبه</h4>
-                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                      <div>
-                           <label className="block text-sm font-medium text-gray-700 mb-1">تاریخ مصاحبه</label>
-                           <KamaDatePicker value={interviewDate} onChange={setInterviewDate} />
+                  <h4 className="font-bold text-gray-800 mb-2">درخواست‌ها</h4>
+                  {candidate.applications.map(application => (
+                      <div
+                        key={application.id}
+                        onClick={() => handleSelectApplication(application.id)}
+                        className={`p-3 bg-white rounded-lg border cursor-pointer flex flex-wrap items-center gap-3 ${application.id === selectedApplication?.id ? 'border-[var(--color-primary-500)]' : 'border-gray-200'}`}
+                      >
+                          <span className="font-semibold flex-grow">{getPositionTitle(application, companyProfile.jobPositions) || 'بدون موقعیت'}</span>
+                          <select
+                            value={application.stage}
+                            onClick={e => e.stopPropagation()}
+                            onChange={e => handleApplicationStageChange(application.id, e.target.value)}
+                            className="border border-gray-300 bg-white rounded-md py-1 px-2 text-sm"
+                          >
+                              {getStagesForPosition(application.jobPositionId).map(s => <option key={s.id} value={s.id}>{s.title}</option>)}
+                          </select>
+                          <StarRating rating={application.rating} onRatingChange={rating => updateApplication(candidate.id, application.id, { rating })} />
+                          {candidate.applications.length > 1 && (
+                              <button onClick={e => { e.stopPropagation(); removeApplication(candidate.id, application.id); }} className="text-red-500 hover:text-red-700 text-sm">حذف</button>
+                          )}
                       </div>
-                      <div>
-                           <label className="block text-sm font-medium text-gray-700 mb-1">ساعت مصاحبه</label>
-                           <input type="time" value={interviewTime} onChange={e => setInterviewTime(e.target.value)} className="w-full border rounded-lg shadow-sm p-3 text-gray-800 bg-white focus:ring-2 focus:ring-[var(--color-primary-500)] focus:border-[var(--color-primary-500)] border-gray-300"/>
+                  ))}
+                  {availableJobPositions.length > 0 && (
+                      <div className="flex gap-2">
+                          <select value={newApplicationJobId} onChange={e => setNewApplicationJobId(e.target.value)} className="flex-grow border border-gray-300 bg-white rounded-md shadow-sm py-2 px-3 sm:text-sm">
+                              <option value="">درخواست برای موقعیت دیگر...</option>
+                              {availableJobPositions.map(job => <option key={job.id} value={job.id}>{job.title}</option>)}
+                          </select>
+                          <button onClick={handleAddApplication} disabled={!newApplicationJobId} className="bg-[var(--color-primary-600)] text-white py-2 px-4 rounded-lg hover:bg-[var(--color-primary-700)] disabled:bg-gray-400">افزودن</button>
+                      </div>
+                  )}
+              </div>
+
+              {/* Interview Management */}
+              <div className="p-4 bg-gray-100 rounded-lg space-y-3">
+                  <h4 className="font-bold text-gray-800 mb-2">
+                    مدیریت مصاحبه
+                    {candidate.applications.length > 1 && selectedApplication && (
+                      <span className="text-sm font-normal text-gray-500"> - {getPositionTitle(selectedApplication, companyProfile.jobPositions)}</span>
+                    )}
+                  </h4>
+                  <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">مصاحبه‌گران</label>
+                      <div className="flex flex-wrap gap-3 text-sm">
+                          {interviewerOptions.map(u => (
+                              <label key={u.username} className="flex items-center gap-1">
+                                  <input
+                                    type="checkbox"
+                                    checked={(selectedApplication?.interviewers || []).includes(u.username)}
+                                    onChange={() => handleToggleInterviewer(u.username)}
+                                    disabled={!can('candidate:edit')}
+                                  />
+                                  {u.name} <span className="text-xs text-gray-500">({USER_ROLE_LABELS[u.role]})</span>
+                              </label>
+                          ))}
                       </div>
                   </div>
-                  <div className="space-y-2 pt-2">
-                        <div className="grid grid-cols-2 gap-2">
-                            <button onClick={handleUpdateInterview} className="text-white bg-green-500 hover:bg-green-600 rounded-lg py-2 text-sm">ذخیره تاریخ</button>
-                            <button onClick={handleRemoveInterview} className="text-gray-700 bg-gray-200 hover:bg-gray-300 rounded-lg py-2 text-sm">حذف تاریخ</button>
-                        </div>
-                        <div className="border-t border-gray-300 my-2"></div>
-                        <p className="text-sm font-medium text-center text-gray-600">ارسال یادآور</p>
-                        <div className="grid grid-cols-2 gap-2">
-                            <button onClick={() => handleSendReminder('email')} disabled={!interviewDate || !emailReminderTemplate} className="text-white bg-amber-500 hover:bg-amber-600 rounded-lg py-2 text-sm flex items-center justify-center gap-2 disabled:bg-gray-400 disabled:cursor-not-allowed">
-                                <EmailIcon className="w-5 h-5"/>
-                                <span>ایمیل</span>
-                            </button>
-                             <button onClick={() => handleSendReminder('whatsapp')} disabled={!interviewDate || !whatsappReminderTemplate || !candidate.phone} className="text-white bg-teal-500 hover:bg-teal-600 rounded-lg py-2 text-sm flex items-center justify-center gap-2 disabled:bg-gray-400 disabled:cursor-not-allowed">
-                                <WhatsappIcon className="w-5 h-5"/>
-                                <span>واتسپ</span>
-                            </button>
-                        </div>
-                        <div className="border-t border-gray-300 my-2"></div>
-                        <button onClick={handleAddToGoogleCalendar} disabled={!interviewDate || !interviewTime} className="w-full text-white bg-sky-500 hover:bg-sky-600 rounded-lg py-2 text-sm disabled:bg-gray-400 disabled:cursor-not-allowed">افزودن به تقویم گوگل</button>
-                  </div>
+                  {selectedApplication && <InterviewSchedulePanel candidate={candidate} application={selectedApplication} />}
               </div>
 
+              {selectedApplication && <ScorecardPanel candidate={candidate} application={selectedApplication} />}
+
              {/* Process Timeline */}
               <div className="p-4 bg-[var(--color-primary-50)] rounded-lg">
                   <h4 className="font-bold text-[var(--color-primary-800)] mb-3">فرآیند استخدام</h4>
                   <ProcessTimeline 
-                      stages={stages.filter(s => s.id !== 'archived' && s.id !== 'rejected' && s.id !== 'hired')}
-                      candidate={candidate}
-                      onStageChangeRequest={onStageChangeRequest}
+                      stages={getStagesForPosition(selectedApplication?.jobPositionId).filter(s => s.id !== 'archived' && s.id !== 'rejected' && s.id !== 'hired')}
+                      candidate={{ ...candidate, stage: selectedApplication?.stage || candidate.stage }}
+                      onStageChangeRequest={info => selectedApplication
+                        ? handleApplicationStageChange(selectedApplication.id, info.newStage.id)
+                        : onStageChangeRequest(info)}
                   />
                   <p className="text-xs text-gray-500 mt-2 text-center">برای تغییر مرحله، آیکون متقاضی را روی مرحله مورد نظر بکشید و رها کنید.</p>
               </div>
@@ -291,6 +306,9 @@ const CandidateDetailsModal: React.FC<CandidateDetailsModalProps> = ({ isOpen, o
                           {isLoadingResume ? 'در حال بارگذاری...' : 'مشاهده رزومه'}
                       </button>
                    )}
+                   {!candidate.anonymizedAt && (
+                      <button onClick={() => setMergeModalOpen(true)} className="w-full text-white bg-amber-600 hover:bg-amber-700 rounded-lg py-2 transition-colors">ادغام پرونده تکراری</button>
+                   )}
                    <div className="border-t pt-3 mt-3 space-y-3 border-gray-300">
                       <button onClick={() => onOpenCommunicationModal(candidate)} className="w-full text-white bg-sky-600 hover:bg-sky-700 rounded-lg py-2 transition-colors flex items-center justify-center gap-2">
                         <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
@@ -299,10 +317,20 @@ const CandidateDetailsModal: React.FC<CandidateDetailsModalProps> = ({ isOpen, o
                         <span>ارسال پیام سفارشی</span>
                       </button>
                    </div>
+                   {can('candidate:delete') && !candidate.anonymizedAt && (
+                      <div className="border-t pt-3 mt-3 border-gray-300">
+                        <button onClick={handleForgetCandidate} className="w-full text-red-700 bg-red-100 hover:bg-red-200 rounded-lg py-2 transition-colors text-sm">حذف اطلاعات شخصی (حق فراموشی)</button>
+                      </div>
+                   )}
               </div>
           </div>
         </div>
       </Modal>
+      <MergeCandidatesModal
+        isOpen={isMergeModalOpen}
+        onClose={() => setMergeModalOpen(false)}
+        candidate={candidate}
+      />
     </>
   );
 };
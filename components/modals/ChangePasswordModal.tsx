@@ -2,14 +2,16 @@ import React, { useState } from 'react';
 import Modal from '../ui/Modal';
 import { useAuth } from '../../contexts/AuthContext';
 import { useToast } from '../../contexts/ToastContext';
+import { authService } from '../../services/authService';
 
 interface ChangePasswordModalProps {
   isOpen: boolean;
   onClose: () => void;
+  isForced?: boolean; // The user has to change the password before using the app
 }
 
-const ChangePasswordModal: React.FC<ChangePasswordModalProps> = ({ isOpen, onClose }) => {
-  const { user, changePassword } = useAuth();
+const ChangePasswordModal: React.FC<ChangePasswordModalProps> = ({ isOpen, onClose, isForced = false }) => {
+  const { user, changePassword, passwordPolicy, logout } = useAuth();
   const { addToast } = useToast();
   const [oldPassword, setOldPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
@@ -26,8 +28,9 @@ const ChangePasswordModal: React.FC<ChangePasswordModalProps> = ({ isOpen, onClo
       addToast('رمز عبور جدید و تایید آن مطابقت ندارند.', 'error');
       return;
     }
-    if (newPassword.length < 6) {
-        addToast('رمز عبور جدید باید حداقل ۶ کاراکتر باشد.', 'error');
+    const policyErrors = authService.validatePassword(newPassword, passwordPolicy);
+    if (policyErrors.length > 0) {
+        addToast(`رمز عبور جدید باید شامل ${policyErrors.join('، ')} باشد.`, 'error');
         return;
     }
     if (!user) return;
@@ -36,7 +39,7 @@ const ChangePasswordModal: React.FC<ChangePasswordModalProps> = ({ isOpen, onClo
     try {
       await changePassword(user.username, oldPassword, newPassword);
       addToast('رمز عبور با موفقیت تغییر کرد.', 'success');
-      onClose();
+      if (!isForced) onClose();
     } catch (err) {
       // Toast for error is already shown in context
     } finally {
@@ -58,8 +61,13 @@ const ChangePasswordModal: React.FC<ChangePasswordModalProps> = ({ isOpen, onClo
   }, [isOpen]);
 
   return (
-    <Modal isOpen={isOpen} onClose={onClose} title="تغییر رمز عبور">
+    <Modal isOpen={isOpen} onClose={isForced ? logout : onClose} title={isForced ? 'تغییر رمز عبور الزامی است' : 'تغییر رمز عبور'}>
       <form onSubmit={handleSubmit} className="space-y-4">
+        {isForced && (
+          <p className="p-3 bg-amber-50 border border-amber-300 rounded-lg text-sm text-amber-800">
+            رمز عبور شما موقت یا پیش‌فرض است. برای ادامه، یک رمز عبور جدید انتخاب کنید.
+          </p>
+        )}
         <div>
           <label className="block text-sm font-medium text-gray-700">رمز عبور فعلی</label>
           <input
@@ -79,6 +87,12 @@ const ChangePasswordModal: React.FC<ChangePasswordModalProps> = ({ isOpen, onClo
             required
             className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3"
           />
+          <ul className="mt-2 text-xs space-y-1">
+            {authService.validatePassword('', passwordPolicy).map(rule => {
+              const met = !authService.validatePassword(newPassword, passwordPolicy).includes(rule);
+              return <li key={rule} className={met ? 'text-green-600' : 'text-gray-500'}>{met ? '✓' : '•'} {rule}</li>;
+            })}
+          </ul>
         </div>
         <div>
           <label className="block text-sm font-medium text-gray-700">تکرار رمز عبور جدید</label>
@@ -91,7 +105,7 @@ const ChangePasswordModal: React.FC<ChangePasswordModalProps> = ({ isOpen, onClo
           />
         </div>
         <div className="flex justify-end gap-4 pt-4">
-          <button type="button" onClick={onClose} className="bg-gray-200 text-gray-800 py-2 px-6 rounded-lg hover:bg-gray-300">انصراف</button>
+          <button type="button" onClick={isForced ? logout : onClose} className="bg-gray-200 text-gray-800 py-2 px-6 rounded-lg hover:bg-gray-300">{isForced ? 'خروج' : 'انصراف'}</button>
           <button type="submit" disabled={isChanging} className="bg-[var(--color-primary-600)] text-white py-2 px-6 rounded-lg disabled:bg-gray-400">
             {isChanging ? 'در حال تغییر...' : 'تغییر رمز'}
           </button>
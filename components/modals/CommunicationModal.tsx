@@ -6,6 +6,8 @@ import { templateService } from '../../services/templateService';
 import { useToast } from '../../contexts/ToastContext';
 import { useSettings } from '../../contexts/SettingsContext';
 import { EmailIcon, WhatsappIcon } from '../ui/Icons';
+import { normalizePhone } from '../../utils/candidateUtils';
+import { describeMissingConsents } from '../../utils/consentUtils';
 
 interface CommunicationModalProps {
   isOpen: boolean;
@@ -19,7 +21,7 @@ const CommunicationModal: React.FC<CommunicationModalProps> = ({
   candidate,
 }) => {
   const { templates } = useTemplates();
-  const { companyProfile, stages } = useSettings();
+  const { companyProfile, stages, getAllPipelineStages, customFields } = useSettings();
   const { addToast } = useToast();
   
   const [selectedTemplateId, setSelectedTemplateId] = useState('');
@@ -48,7 +50,7 @@ const CommunicationModal: React.FC<CommunicationModalProps> = ({
     }
     const template = templates.find(t => t.id === selectedTemplateId);
     if (template) {
-      const currentStage = stages.find(s => s.id === candidate.stage);
+      const currentStage = getAllPipelineStages().find(s => s.id === candidate.stage);
       const finalMessage = templateService.replacePlaceholders(
         template.content,
         candidate,
@@ -58,13 +60,24 @@ const CommunicationModal: React.FC<CommunicationModalProps> = ({
             companyAddress: companyProfile.address,
             companyWebsite: companyProfile.website,
             stageName: currentStage?.title || candidate.stage,
-        }
+        },
+        customFields
       );
       setMessage(finalMessage);
     }
-  }, [selectedTemplateId, templates, candidate, position, companyProfile, stages]);
+    // getAllPipelineStages is derived from companyProfile and stages
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedTemplateId, templates, candidate, position, companyProfile, stages, customFields]);
+
+  const emailBlockedReason = describeMissingConsents(candidate, 'email');
+  const whatsappBlockedReason = describeMissingConsents(candidate, 'whatsapp');
 
   const handleSend = (platform: 'email' | 'whatsapp') => {
+    const blockedReason = platform === 'email' ? emailBlockedReason : whatsappBlockedReason;
+    if (blockedReason) {
+        addToast(blockedReason, 'error');
+        return;
+    }
     if (!message.trim()) {
         addToast("پیام نمی‌تواند خالی باشد.", "error");
         return;
@@ -75,7 +88,7 @@ const CommunicationModal: React.FC<CommunicationModalProps> = ({
         window.open(`mailto:${candidate.email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(message)}`, '_blank');
         addToast(`ایمیل برای ${candidate.name} آماده ارسال شد.`, 'success');
     } else { // whatsapp
-        const whatsappNumber = candidate.phone ? candidate.phone.replace(/[^0-9]/g, '').replace(/^0/, '98') : '';
+        const whatsappNumber = normalizePhone(candidate.phone);
         if (whatsappNumber) {
             window.open(`https://wa.me/${whatsappNumber}?text=${encodeURIComponent(message)}`, '_blank');
             addToast(`پیام واتسپ برای ${candidate.name} آماده ارسال شد.`, 'success');
@@ -138,13 +151,21 @@ const CommunicationModal: React.FC<CommunicationModalProps> = ({
             />
         </div>
 
+        {(emailBlockedReason || whatsappBlockedReason) && (
+          <div className="p-3 bg-amber-50 border border-amber-300 rounded-lg text-sm text-amber-800 space-y-1">
+            {emailBlockedReason && <p>ایمیل: {emailBlockedReason}</p>}
+            {whatsappBlockedReason && <p>واتس‌اپ: {whatsappBlockedReason}</p>}
+            <p className="text-xs">رضایت‌ها را از فرم ویرایش متقاضی ثبت کنید.</p>
+          </div>
+        )}
+
         <div className="flex justify-end gap-4 pt-4">
           <button type="button" onClick={onClose} className="bg-gray-200 text-gray-800 py-2 px-6 rounded-lg hover:bg-gray-300 transition-colors">انصراف</button>
-          <button type="button" onClick={() => handleSend('whatsapp')} disabled={!candidate.phone} className="bg-teal-600 text-white py-2 px-6 rounded-lg hover:bg-teal-700 flex items-center gap-2 disabled:bg-gray-400 disabled:cursor-not-allowed">
+          <button type="button" onClick={() => handleSend('whatsapp')} disabled={!candidate.phone || !!whatsappBlockedReason} title={whatsappBlockedReason || undefined} className="bg-teal-600 text-white py-2 px-6 rounded-lg hover:bg-teal-700 flex items-center gap-2 disabled:bg-gray-400 disabled:cursor-not-allowed">
             <WhatsappIcon className="w-5 h-5"/>
             <span>ارسال با واتسپ</span>
           </button>
-          <button type="button" onClick={() => handleSend('email')} className="bg-sky-600 text-white py-2 px-6 rounded-lg hover:bg-sky-700 flex items-center gap-2">
+          <button type="button" onClick={() => handleSend('email')} disabled={!!emailBlockedReason} title={emailBlockedReason || undefined} className="bg-sky-600 text-white py-2 px-6 rounded-lg hover:bg-sky-700 flex items-center gap-2 disabled:bg-gray-400 disabled:cursor-not-allowed">
             <EmailIcon className="w-5 h-5"/>
             <span>ارسال با ایمیل</span>
           </button>
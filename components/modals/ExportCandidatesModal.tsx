@@ -0,0 +1,102 @@
+import React, { useState, useEffect } from 'react';
+import Modal from '../ui/Modal';
+import { CandidateApplication, ExportColumn, ExportFormat } from '../../types';
+import { exportService, EXPORT_COLUMN_LABELS, DEFAULT_EXPORT_COLUMNS } from '../../services/exportService';
+import { useSettings } from '../../contexts/SettingsContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../../contexts/ToastContext';
+import { downloadBlob } from '../../utils/fileUtils';
+
+interface ExportCandidatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: CandidateApplication[];
+  // Describes the exported list, e.g. the active filters; used in the file name and audit log
+  listName: string;
+}
+
+const ALL_COLUMNS = Object.keys(EXPORT_COLUMN_LABELS) as ExportColumn[];
+
+const ExportCandidatesModal: React.FC<ExportCandidatesModalProps> = ({ isOpen, onClose, items, listName }) => {
+  const { companyProfile, getStagesForPosition, customFields } = useSettings();
+  const { logAudit } = useAuth();
+  const { addToast } = useToast();
+  const [columns, setColumns] = useState<ExportColumn[]>(DEFAULT_EXPORT_COLUMNS);
+  const [customFieldIds, setCustomFieldIds] = useState<string[]>([]);
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+
+  useEffect(() => {
+    if (isOpen) {
+      setColumns(DEFAULT_EXPORT_COLUMNS);
+      setCustomFieldIds([]);
+    }
+  }, [isOpen]);
+
+  const toggleColumn = (column: ExportColumn) => {
+    // Keeps the order of ALL_COLUMNS regardless of the order of clicks
+    setColumns(prev => ALL_COLUMNS.filter(c => c === column ? !prev.includes(c) : prev.includes(c)));
+  };
+
+  const toggleCustomField = (id: string) => {
+    setCustomFieldIds(prev => prev.includes(id) ? prev.filter(f => f !== id) : [...prev, id]);
+  };
+
+  const handleExport = () => {
+    try {
+      // Custom columns follow the order of the field definitions
+      const exportedFields = customFields.filter(field => customFieldIds.includes(field.id));
+      const file = exportService.createFile(items, columns, format, { jobPositions: companyProfile.jobPositions, getStagesForPosition, customFields: exportedFields });
+      const date = new Date().toISOString().slice(0, 10);
+      downloadBlob(file, `candidates_${date}.${format}`);
+      logAudit('data:export', `${items.length} ردیف از ${listName} (${format.toUpperCase()})`);
+      addToast('فایل خروجی آماده شد.', 'success');
+      onClose();
+    } catch (error: any) {
+      console.error("Export error:", error);
+      addToast(error.message || 'خطا در ساخت فایل خروجی.', 'error');
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`خروجی ${listName} (${items.length} ردیف)`}>
+      <div className="space-y-6">
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-2">ستون‌ها</p>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+            {ALL_COLUMNS.map(column => (
+              <label key={column} className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={columns.includes(column)} onChange={() => toggleColumn(column)} className="rounded border-gray-300" />
+                {EXPORT_COLUMN_LABELS[column]}
+              </label>
+            ))}
+            {customFields.map(field => (
+              <label key={field.id} className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={customFieldIds.includes(field.id)} onChange={() => toggleCustomField(field.id)} className="rounded border-gray-300" />
+                {field.label}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-2">قالب فایل</p>
+          <div className="flex gap-6">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="radio" name="export-format" checked={format === 'xlsx'} onChange={() => setFormat('xlsx')} />
+              اکسل (XLSX)
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="radio" name="export-format" checked={format === 'csv'} onChange={() => setFormat('csv')} />
+              CSV
+            </label>
+          </div>
+        </div>
+        <div className="flex justify-end gap-4 pt-4">
+          <button type="button" onClick={onClose} className="bg-gray-200 text-gray-800 py-2 px-6 rounded-lg hover:bg-gray-300 transition-colors">انصراف</button>
+          <button type="button" onClick={handleExport} disabled={columns.length + customFieldIds.length === 0 || items.length === 0} className="bg-[var(--color-primary-600)] text-white py-2 px-6 rounded-lg hover:bg-[var(--color-primary-700)] transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed">دریافت فایل</button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default ExportCandidatesModal;
@@ -0,0 +1,224 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import Modal from '../ui/Modal';
+import { ImportColumnMapping, ImportField } from '../../types';
+import { CANDIDATE_FIELD_LABELS, DEFAULT_SOURCES, DUPLICATE_REASON_LABELS } from '../../constants';
+import { importService, IMPORT_FIELDS } from '../../services/importService';
+import { useCandidates } from '../../contexts/CandidatesContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { useToast } from '../../contexts/ToastContext';
+
+interface ImportCandidatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type ImportStep = 'upload' | 'mapping' | 'review';
+
+const REQUIRED_FIELDS: ImportField[] = ['name', 'position'];
+const FIELD_HINTS: Partial<Record<ImportField, string>> = {
+  stage: 'عنوان مرحله؛ خالی = صندوق ورودی',
+  source: 'خالی = اولین منبع',
+  rating: '۰ تا ۵',
+  interviewDate: 'شمسی، مثل 1403/05/20',
+  interviewTime: 'مثل 14:30',
+};
+const PREVIEW_ROWS = 3;
+
+const ImportCandidatesModal: React.FC<ImportCandidatesModalProps> = ({ isOpen, onClose }) => {
+  const { candidates, importCandidates } = useCandidates();
+  const { companyProfile, sources, getStagesForPosition } = useSettings();
+  const { addToast } = useToast();
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setStep('upload');
+      setFileName('');
+      setHeaders([]);
+      setRows([]);
+      setMapping({});
+      setSkipDuplicates(true);
+    }
+  }, [isOpen]);
+
+  const results = useMemo(() => {
+    if (step !== 'review') return [];
+    return importService.validateRows(rows, mapping, {
+      jobPositions: companyProfile.jobPositions,
+      sources: sources.length > 0 ? sources : DEFAULT_SOURCES,
+      getStagesForPosition,
+      existingCandidates: candidates,
+    });
+    // getStagesForPosition is derived from companyProfile
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [step, rows, mapping, companyProfile, sources, candidates]);
+
+  const invalidCount = results.filter(r => !r.candidate).length;
+  const duplicateCount = results.filter(r => r.candidate && r.duplicates.length > 0).length;
+  const toImport = results.filter(r => r.candidate && !(skipDuplicates && r.duplicates.length > 0));
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsReading(true);
+    try {
+      const [headerRow, ...dataRows] = await importService.readFile(file);
+      if (!headerRow || dataRows.length === 0) {
+        addToast('فایل خالی است یا فقط سطر عنوان دارد.', 'error');
+        return;
+      }
+      setFileName(file.name);
+      setHeaders(headerRow.map((h, i) => h.trim() || `ستون ${i + 1}`));
+      setRows(dataRows);
+      setMapping(importService.guessMapping(headerRow));
+      setStep('mapping');
+    } catch (error: any) {
+      console.error("Import file error:", error);
+      addToast(error.message || 'خطا در خواندن فایل.', 'error');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const count = await importCandidates(toImport.map(r => r.candidate!), fileName);
+      if (count > 0) {
+        addToast(`${count} متقاضی با موفقیت وارد شد.`, 'success');
+        onClose();
+      }
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const missingRequired = REQUIRED_FIELDS.filter(field => mapping[field] === undefined);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="ورود متقاضیان از فایل" size="xl">
+      {step === 'upload' && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            یک فایل CSV یا اکسل (XLSX) انتخاب کنید. سطر اول باید عنوان ستون‌ها باشد. در مرحله بعد ستون‌ها را به فیلدهای متقاضی نسبت می‌دهید.
+          </p>
+          <input type="file" accept=".csv,.txt,.xlsx,.xls" onChange={handleFileChange} disabled={isReading} className="text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-[var(--color-primary-50)] file:text-[var(--color-primary-700)] hover:file:bg-[var(--color-primary-100)]" />
+          {isReading && <p className="text-sm text-gray-500">در حال خواندن فایل...</p>}
+        </div>
+      )}
+
+      {step === 'mapping' && (
+        <div className="space-y-6">
+          <p className="text-sm text-gray-600">{fileName}: {rows.length} ردیف داده. ستون مربوط به هر فیلد را انتخاب کنید.</p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {IMPORT_FIELDS.map(field => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-gray-700">
+                  {CANDIDATE_FIELD_LABELS[field]}{REQUIRED_FIELDS.includes(field) && <span className="text-red-500"> *</span>}
+                </label>
+                <select value={mapping[field] ?? ''} onChange={e => handleMappingChange(field, e.target.value)} className="mt-1 block w-full border border-gray-300 bg-white rounded-md shadow-sm py-2 px-3 sm:text-sm">
+                  <option value="">— وارد نشود —</option>
+                  {headers.map((header, index) => <option key={index} value={index}>{header}</option>)}
+                </select>
+                {FIELD_HINTS[field] && <p className="text-xs text-gray-400 mt-1">{FIELD_HINTS[field]}</p>}
+              </div>
+            ))}
+          </div>
+          <div className="overflow-x-auto">
+            <p className="text-sm font-medium text-gray-700 mb-2">پیش‌نمایش</p>
+            <table className="min-w-full text-sm border border-gray-200">
+              <thead className="bg-gray-100">
+                <tr>{headers.map((header, index) => <th key={index} className="px-3 py-2 text-right font-medium text-gray-600">{header}</th>)}</tr>
+              </thead>
+              <tbody>
+                {rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                  <tr key={rowIndex} className="border-t border-gray-200">
+                    {headers.map((_, index) => <td key={index} className="px-3 py-2 text-gray-700 whitespace-nowrap">{row[index]}</td>)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {missingRequired.length > 0 && (
+            <p className="text-sm text-red-600">ستون این فیلدها باید انتخاب شود: {missingRequired.map(f => CANDIDATE_FIELD_LABELS[f]).join('، ')}</p>
+          )}
+          <div className="flex justify-end gap-4 pt-4">
+            <button type="button" onClick={() => setStep('upload')} className="bg-gray-200 text-gray-800 py-2 px-6 rounded-lg hover:bg-gray-300 transition-colors">فایل دیگر</button>
+            <button type="button" onClick={() => setStep('review')} disabled={missingRequired.length > 0} className="bg-[var(--color-primary-600)] text-white py-2 px-6 rounded-lg hover:bg-[var(--color-primary-700)] transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed">بررسی ردیف‌ها</button>
+          </div>
+        </div>
+      )}
+
+      {step === 'review' && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-3 text-sm">
+            <span className="px-3 py-1 rounded-full bg-green-100 text-green-800">معتبر: {results.length - invalidCount}</span>
+            <span className="px-3 py-1 rounded-full bg-red-100 text-red-800">دارای خطا: {invalidCount}</span>
+            <span className="px-3 py-1 rounded-full bg-amber-100 text-amber-800">احتمال تکراری: {duplicateCount}</span>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={skipDuplicates} onChange={e => setSkipDuplicates(e.target.checked)} className="rounded border-gray-300" />
+            ردیف‌هایی که احتمالاً تکراری هستند وارد نشوند
+          </label>
+          <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-100 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-right font-medium text-gray-600">ردیف</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-600">نام</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-600">وضعیت</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map(result => (
+                  <tr key={result.rowNumber} className="border-t border-gray-200 align-top">
+                    <td className="px-3 py-2 text-gray-500">{result.rowNumber}</td>
+                    <td className="px-3 py-2 text-gray-800">{result.candidate?.name || (mapping.name !== undefined && rows[result.rowNumber - 2][mapping.name]) || '—'}</td>
+                    <td className="px-3 py-2">
+                      {result.errors.length > 0 ? (
+                        <ul className="text-red-600 space-y-1">{result.errors.map((error, i) => <li key={i}>{error}</li>)}</ul>
+                      ) : result.duplicates.length > 0 ? (
+                        <span className="text-amber-700">
+                          مشابه {result.duplicates.map(({ candidate, reasons }) =>
+                            `${candidate.name}${candidates.some(c => c.id === candidate.id) ? '' : ' (در همین فایل)'} - ${reasons.map(r => DUPLICATE_REASON_LABELS[r]).join('، ')}`
+                          ).join('؛ ')}
+                        </span>
+                      ) : (
+                        <span className="text-green-700">آماده ورود</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex justify-end gap-4 pt-4">
+            <button type="button" onClick={() => setStep('mapping')} className="bg-gray-200 text-gray-800 py-2 px-6 rounded-lg hover:bg-gray-300 transition-colors">بازگشت به نگاشت ستون‌ها</button>
+            <button type="button" onClick={handleImport} disabled={toImport.length === 0 || isImporting} className="bg-[var(--color-primary-600)] text-white py-2 px-6 rounded-lg hover:bg-[var(--color-primary-700)] transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed">
+              {isImporting ? 'در حال ورود...' : `ورود ${toImport.length} متقاضی`}
+            </button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default ImportCandidatesModal;
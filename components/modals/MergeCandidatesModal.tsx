@@ -0,0 +1,126 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import Modal from '../ui/Modal';
+import { Candidate } from '../../types';
+import { useCandidates } from '../../contexts/CandidatesContext';
+import { CANDIDATE_FIELD_LABELS, DUPLICATE_REASON_LABELS } from '../../constants';
+import { findDuplicates, getConflictingFields, formatFieldValue } from '../../utils/candidateUtils';
+
+interface MergeCandidatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  candidate: Candidate; // The record that survives the merge
+}
+
+const MergeCandidatesModal: React.FC<MergeCandidatesModalProps> = ({ isOpen, onClose, candidate }) => {
+  const { candidates, mergeDuplicateCandidates } = useCandidates();
+  const [duplicateId, setDuplicateId] = useState('');
+  const [fieldsFromDuplicate, setFieldsFromDuplicate] = useState<(keyof Candidate)[]>([]);
+  const [isMerging, setIsMerging] = useState(false);
+
+  const suggestions = useMemo(() => findDuplicates(candidate, candidates), [candidate, candidates]);
+  const otherCandidates = useMemo(() => {
+    return candidates.filter(c => c.id !== candidate.id && !c.anonymizedAt).sort((a, b) => a.name.localeCompare(b.name, 'fa'));
+  }, [candidate, candidates]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDuplicateId(suggestions[0]?.candidate.id || '');
+      setFieldsFromDuplicate([]);
+      setIsMerging(false);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  const duplicate = candidates.find(c => c.id === duplicateId);
+  const conflictingFields = duplicate ? getConflictingFields(candidate, duplicate) : [];
+
+  const toggleField = (field: keyof Candidate, fromDuplicate: boolean) => {
+    setFieldsFromDuplicate(prev => fromDuplicate ? [...prev, field] : prev.filter(f => f !== field));
+  };
+
+  const handleMerge = async () => {
+    if (!duplicate) return;
+    setIsMerging(true);
+    await mergeDuplicateCandidates(candidate.id, duplicate.id, fieldsFromDuplicate);
+    setIsMerging(false);
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`ادغام پرونده تکراری: ${candidate.name}`} size="large">
+      <div className="space-y-6">
+        {suggestions.length > 0 ? (
+          <div className="space-y-2">
+            <h3 className="font-bold text-gray-800">موارد تکراری احتمالی</h3>
+            {suggestions.map(({ candidate: match, reasons }) => (
+              <label key={match.id} className={`flex justify-between items-center p-3 border rounded-lg cursor-pointer ${duplicateId === match.id ? 'border-[var(--color-primary-500)] bg-white' : 'border-gray-200'}`}>
+                <span>
+                  <input type="radio" name="duplicate" className="ml-2" checked={duplicateId === match.id} onChange={() => { setDuplicateId(match.id); setFieldsFromDuplicate([]); }} />
+                  <span className="font-semibold">{match.name}</span>
+                  <span className="text-xs text-gray-500 mr-2">{match.source} | {match.position}</span>
+                </span>
+                <span className="text-xs text-amber-700">{reasons.map(r => DUPLICATE_REASON_LABELS[r]).join('، ')}</span>
+              </label>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">هیچ پرونده تکراری خودکار یافت نشد. می‌توانید پرونده را به صورت دستی انتخاب کنید.</p>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">انتخاب دستی پرونده تکراری</label>
+          <select value={duplicateId} onChange={e => { setDuplicateId(e.target.value); setFieldsFromDuplicate([]); }} className="w-full border border-gray-300 bg-white rounded-md shadow-sm py-2 px-3 sm:text-sm">
+            <option value="">یک متقاضی انتخاب کنید</option>
+            {otherCandidates.map(c => <option key={c.id} value={c.id}>{c.name} - {c.email || c.phone}</option>)}
+          </select>
+        </div>
+
+        {duplicate && (
+          <div className="space-y-3">
+            {conflictingFields.length > 0 ? (
+              <table className="w-full text-sm bg-white border rounded-lg">
+                <thead>
+                  <tr className="text-gray-500">
+                    <th className="text-right p-2">فیلد</th>
+                    <th className="text-right p-2">این پرونده</th>
+                    <th className="text-right p-2">پرونده تکراری</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {conflictingFields.map(field => {
+                    const fromDuplicate = fieldsFromDuplicate.includes(field);
+                    return (
+                      <tr key={field} className="border-t">
+                        <td className="p-2 font-medium">{CANDIDATE_FIELD_LABELS[field] || field}</td>
+                        <td className="p-2">
+                          <label><input type="radio" className="ml-1" checked={!fromDuplicate} onChange={() => toggleField(field, false)} />{formatFieldValue(candidate[field])}</label>
+                        </td>
+                        <td className="p-2">
+                          <label><input type="radio" className="ml-1" checked={fromDuplicate} onChange={() => toggleField(field, true)} />{formatFieldValue(duplicate[field])}</label>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-sm text-gray-600">اطلاعات اصلی دو پرونده یکسان است.</p>
+            )}
+            <p className="text-xs text-gray-500">
+              تاریخچه، یادداشت‌ها و نتایج آزمون هر دو پرونده ترکیب می‌شوند. در صورت نبود رزومه در این پرونده، رزومه پرونده تکراری منتقل می‌شود. پرونده تکراری پس از ادغام حذف خواهد شد.
+            </p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 border-t">
+          <button onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300">انصراف</button>
+          <button onClick={handleMerge} disabled={!duplicate || isMerging} className="px-4 py-2 bg-[var(--color-primary-600)] text-white rounded-md hover:bg-[var(--color-primary-700)] disabled:bg-gray-400">
+            {isMerging ? 'در حال ادغام...' : 'ادغام پرونده‌ها'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default MergeCandidatesModal;
@@ -0,0 +1,198 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import Modal from '../ui/Modal';
+import { BackupData, Candidate, MergePreviewItem, MergeResolution, TagDefinition, CustomFieldDefinition } from '../../types';
+import { backupService } from '../../services/backupService';
+import { dbService } from '../../services/dbService';
+import { useCandidates } from '../../contexts/CandidatesContext';
+import { useToast } from '../../contexts/ToastContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { CANDIDATE_FIELD_LABELS, TAGS_KEY, CUSTOM_FIELDS_KEY } from '../../constants';
+import { formatFieldValue } from '../../utils/candidateUtils';
+
+interface RestoreModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  backup: BackupData | null;
+}
+
+type RestoreMode = 'merge' | 'replace';
+
+const MATCH_LABELS = { id: 'شناسه', email: 'ایمیل', phone: 'تلفن' };
+
+const RestoreModal: React.FC<RestoreModalProps> = ({ isOpen, onClose, backup }) => {
+  const { reloadCandidates } = useCandidates();
+  const { addToast } = useToast();
+  const { can, requireReauth, logAudit } = useAuth();
+  const { importTags, importCustomFields } = useSettings();
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [resolutions, setResolutions] = useState<Record<string, MergeResolution>>({});
+  const [isRestoring, setIsRestoring] = useState(false);
+  // The merge is planned against every stored record, as applyMerge writes into them, not only those visible to the user
+  const [storedCandidates, setStoredCandidates] = useState<Candidate[]>([]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setMode('merge');
+      setResolutions({});
+      setIsRestoring(false);
+      dbService.getAllCandidates()
+        .then(setStoredCandidates)
+        .catch(error => console.error("Failed to load candidates for the merge preview", error));
+    }
+  }, [isOpen]);
+
+  const preview = useMemo<MergePreviewItem[]>(() => {
+    return backup ? backupService.planMerge(storedCandidates, backup.candidates) : [];
+  }, [backup, storedCandidates]);
+
+  const added = preview.filter(item => item.kind === 'added');
+  const updated = preview.filter(item => item.kind === 'updated');
+  const conflicts = preview.filter(item => item.kind === 'conflict');
+  const unchanged = preview.filter(item => item.kind === 'unchanged');
+
+  const setAllResolutions = (side: MergeResolution) => {
+    setResolutions(Object.fromEntries(conflicts.map(item => [item.incoming.id, side])));
+  };
+
+  const handleConfirm = async () => {
+    if (!backup) return;
+    if (!can('data:restore')) {
+      addToast('شما دسترسی لازم برای بازیابی پشتیبان را ندارید.', 'error');
+      return;
+    }
+    if (!(await requireReauth('بازیابی فایل پشتیبان'))) return;
+    setIsRestoring(true);
+    try {
+      if (mode === 'replace') {
+        await backupService.restoreBackup(backup);
+        logAudit('data:restore', `جایگزینی کامل با پشتیبان ${backup.createdAt} (${backup.candidates.length} متقاضی)`);
+        // Settings, templates, theme and users are read from storage on startup, so reload to apply them.
+        addToast('داده‌ها با موفقیت بازیابی شدند. برنامه مجدداً بارگذاری می‌شود...', 'success');
+        setTimeout(() => window.location.reload(), 1500);
+        return;
+      }
+      await backupService.applyMerge(backup, resolutions);
+      // Current settings are kept, but tags and custom fields used by the merged candidates are added so their ids resolve.
+      const backupTags = backup.storage?.[TAGS_KEY];
+      if (Array.isArray(backupTags)) importTags(backupTags as TagDefinition[]);
+      const backupFields = backup.storage?.[CUSTOM_FIELDS_KEY];
+      if (Array.isArray(backupFields)) importCustomFields(backupFields as CustomFieldDefinition[]);
+      logAudit('data:restore', `ادغام پشتیبان ${backup.createdAt}: ${added.length} جدید، ${updated.length + conflicts.length} به‌روزرسانی`);
+      await reloadCandidates();
+      addToast(`ادغام انجام شد: ${added.length} مورد جدید، ${updated.length + conflicts.length} مورد به‌روزرسانی شد.`, 'success');
+      onClose();
+    } catch (error: any) {
+      console.error("Restore error:", error);
+      addToast(error.message || 'خطا در بازیابی فایل پشتیبان.', 'error');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (!backup) return null;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="بازیابی فایل پشتیبان" size="large">
+      <div className="space-y-6">
+        <div className="text-sm text-gray-600">
+          نسخه فایل: <span className="font-mono">{backup.version}</span>
+          {' | '}
+          تعداد متقاضیان: {backup.candidates.length}
+          {backup.createdAt && <> {' | '} تاریخ تهیه: {new Date(backup.createdAt).toLocaleString('fa-IR')}</>}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className={`p-4 border rounded-lg cursor-pointer ${mode === 'merge' ? 'border-[var(--color-primary-500)] bg-white' : 'border-gray-200'}`}>
+            <input type="radio" name="restore-mode" className="ml-2" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+            <span className="font-semibold">ادغام با داده‌های فعلی</span>
+            <p className="text-xs text-gray-500 mt-1">متقاضیان بر اساس شناسه، ایمیل یا تلفن تطبیق داده می‌شوند. تاریخچه و یادداشت‌ها ترکیب می‌شوند و تنظیمات فعلی حفظ می‌شود.</p>
+          </label>
+          <label className={`p-4 border rounded-lg cursor-pointer ${mode === 'replace' ? 'border-red-500 bg-white' : 'border-gray-200'}`}>
+            <input type="radio" name="restore-mode" className="ml-2" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+            <span className="font-semibold">جایگزینی کامل</span>
+            <p className="text-xs text-gray-500 mt-1">تمام متقاضیان، فایل‌ها و تنظیمات فعلی حذف و با محتوای فایل پشتیبان جایگزین می‌شوند.</p>
+          </label>
+        </div>
+
+        {mode === 'merge' && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center text-sm">
+              <div className="p-3 bg-green-50 rounded-lg"><div className="text-2xl font-bold text-green-700">{added.length}</div>جدید</div>
+              <div className="p-3 bg-blue-50 rounded-lg"><div className="text-2xl font-bold text-blue-700">{updated.length}</div>به‌روزرسانی</div>
+              <div className="p-3 bg-amber-50 rounded-lg"><div className="text-2xl font-bold text-amber-700">{conflicts.length}</div>تعارض</div>
+              <div className="p-3 bg-gray-100 rounded-lg"><div className="text-2xl font-bold text-gray-700">{unchanged.length}</div>بدون تغییر</div>
+            </div>
+
+            {(added.length > 0 || updated.length > 0) && (
+              <div className="text-sm text-gray-700 space-y-1">
+                {added.length > 0 && <p><span className="font-semibold">جدید:</span> {added.map(item => item.incoming.name).join('، ')}</p>}
+                {updated.length > 0 && <p><span className="font-semibold">به‌روزرسانی تاریخچه/یادداشت:</span> {updated.map(item => item.local?.name).join('، ')}</p>}
+              </div>
+            )}
+
+            {conflicts.length > 0 && (
+              <div className="space-y-3">
+                <div className="flex justify-between items-center">
+                  <h3 className="font-bold text-gray-800">تعارض‌ها</h3>
+                  <div className="flex gap-2 text-xs">
+                    <button onClick={() => setAllResolutions('local')} className="px-3 py-1 bg-gray-200 hover:bg-gray-300 rounded-md">همه: نسخه فعلی</button>
+                    <button onClick={() => setAllResolutions('incoming')} className="px-3 py-1 bg-gray-200 hover:bg-gray-300 rounded-md">همه: نسخه پشتیبان</button>
+                  </div>
+                </div>
+                <div className="max-h-80 overflow-y-auto space-y-3">
+                  {conflicts.map(item => {
+                    const choice = resolutions[item.incoming.id] || 'local';
+                    return (
+                      <div key={item.incoming.id} className="p-3 bg-white border rounded-lg">
+                        <div className="flex justify-between items-center mb-2">
+                          <span className="font-semibold">{item.local?.name}</span>
+                          <span className="text-xs text-gray-500">تطبیق بر اساس {item.matchedBy && MATCH_LABELS[item.matchedBy]}</span>
+                        </div>
+                        <table className="w-full text-xs mb-2">
+                          <thead>
+                            <tr className="text-gray-500">
+                              <th className="text-right p-1">فیلد</th>
+                              <th className="text-right p-1">نسخه فعلی</th>
+                              <th className="text-right p-1">نسخه پشتیبان</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {item.conflictingFields?.map(field => (
+                              <tr key={field} className="border-t">
+                                <td className="p-1 font-medium">{CANDIDATE_FIELD_LABELS[field] || field}</td>
+                                <td className={`p-1 ${choice === 'local' ? 'font-bold' : 'text-gray-400'}`}>{formatFieldValue(item.local?.[field])}</td>
+                                <td className={`p-1 ${choice === 'incoming' ? 'font-bold' : 'text-gray-400'}`}>{formatFieldValue(item.incoming[field])}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                        <div className="flex gap-4 text-sm">
+                          <label><input type="radio" className="ml-1" checked={choice === 'local'} onChange={() => setResolutions(prev => ({ ...prev, [item.incoming.id]: 'local' }))} />حفظ نسخه فعلی</label>
+                          <label><input type="radio" className="ml-1" checked={choice === 'incoming'} onChange={() => setResolutions(prev => ({ ...prev, [item.incoming.id]: 'incoming' }))} />استفاده از نسخه پشتیبان</label>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 border-t">
+          <button onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300">انصراف</button>
+          <button
+            onClick={handleConfirm}
+            disabled={isRestoring}
+            className={`px-4 py-2 text-white rounded-md disabled:bg-gray-400 ${mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-[var(--color-primary-600)] hover:bg-[var(--color-primary-700)]'}`}
+          >
+            {isRestoring ? 'در حال بازیابی...' : mode === 'replace' ? 'جایگزینی داده‌ها' : 'ادغام داده‌ها'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default RestoreModal;
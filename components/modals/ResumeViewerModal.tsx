@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import Modal from '../ui/Modal';
+import { getDocumentKind, docxToHtml } from '../../utils/documentUtils';
 
 interface ResumeViewerModalProps {
   isOpen: boolean;
@@ -7,8 +8,15 @@ interface ResumeViewerModalProps {
   file: File | null;
 }
 
+// Word documents are shown as converted HTML inside a sandboxed frame so that their content cannot run scripts.
+const wrapDocxHtml = (body: string) =>
+  `<!DOCTYPE html><html dir="rtl"><head><meta charset="utf-8"><style>body{font-family:Vazirmatn,Tahoma,sans-serif;line-height:1.8;padding:24px;color:#1f2937}img{max-width:100%}table{border-collapse:collapse}td,th{border:1px solid #d1d5db;padding:4px 8px}</style></head><body>${body}</body></html>`;
+
 const ResumeViewerModal: React.FC<ResumeViewerModalProps> = ({ isOpen, onClose, file }) => {
   const [fileUrl, setFileUrl] = useState<string | null>(null);
+  const [docxHtml, setDocxHtml] = useState<string | null>(null);
+  const [docxError, setDocxError] = useState(false);
+  const kind = file ? getDocumentKind(file) : undefined;
 
   useEffect(() => {
     let url: string | null = null;
@@ -25,6 +33,20 @@ const ResumeViewerModal: React.FC<ResumeViewerModalProps> = ({ isOpen, onClose,
     };
   }, [isOpen, file]);
 
+  useEffect(() => {
+    setDocxHtml(null);
+    setDocxError(false);
+    if (!isOpen || !file || kind !== 'docx') return;
+    let cancelled = false;
+    docxToHtml(file)
+      .then(html => { if (!cancelled) setDocxHtml(wrapDocxHtml(html)); })
+      .catch(error => {
+        console.error("DOCX preview error:", error);
+        if (!cancelled) setDocxError(true);
+      });
+    return () => { cancelled = true; };
+  }, [isOpen, file, kind]);
+
   const handleDownload = () => {
       if (fileUrl && file) {
           const link = document.createElement('a');
@@ -36,18 +58,27 @@ const ResumeViewerModal: React.FC<ResumeViewerModalProps> = ({ isOpen, onClose,
       }
   };
 
-  const isPdf = file?.type === 'application/pdf';
   const title = file ? `مشاهده رزومه: ${file.name}` : 'مشاهده رزومه';
 
   return (
     <Modal isOpen={isOpen} onClose={onClose} title={title} size="xl">
       <div className="space-y-4">
-        {isPdf && fileUrl ? (
+        {kind === 'pdf' && fileUrl ? (
           <iframe src={fileUrl} className="w-full h-[85vh] border rounded-md" title="Resume Preview"></iframe>
+        ) : kind === 'image' && fileUrl ? (
+          <div className="flex justify-center bg-gray-100 rounded-lg p-2">
+            <img src={fileUrl} alt={file?.name} className="max-w-full max-h-[85vh] object-contain" />
+          </div>
+        ) : kind === 'docx' && docxHtml ? (
+          <iframe srcDoc={docxHtml} sandbox="" className="w-full h-[85vh] border rounded-md bg-white" title="Resume Preview"></iframe>
+        ) : kind === 'docx' && !docxError ? (
+          <div className="p-8 text-center bg-gray-100 rounded-lg">
+            <p>در حال آماده‌سازی پیش‌نمایش فایل Word...</p>
+          </div>
         ) : file ? (
           <div className="p-8 text-center bg-gray-100 rounded-lg">
             <h3 className="text-lg font-bold text-gray-800">پیش‌نمایش برای این نوع فایل در دسترس نیست.</h3>
-            <p className="text-gray-600 mt-2">نوع فایل: {file.type}</p>
+            <p className="text-gray-600 mt-2">نوع فایل: {file.type || file.name.split('.').pop()}</p>
             <button
               onClick={handleDownload}
               className="mt-6 bg-[var(--color-primary-600)] text-white font-bold py-2 px-6 rounded-lg hover:bg-[var(--color-primary-700)] transition-colors"
@@ -1,17 +1,95 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import Modal from '../ui/Modal';
 import { useAuth } from '../../contexts/AuthContext';
 // FIX: Imported TestLibraryItem to resolve type error.
-import { JobPosition, KanbanStage, Template, UserWithPassword, TestLibraryItem } from '../../types';
+import { JobPosition, JobPositionStatus, KanbanStage, Template, UserWithPassword, TestLibraryItem, UserRole, Permission, PasswordPolicy, SessionPolicy, AuditAction, AuditEntry, RetentionPolicy, RetentionRule, ConsentType, TagDefinition, CustomFieldDefinition, CustomFieldType, ScorecardTemplate, ScorecardCompetency } from '../../types';
 import { useSettings } from '../../contexts/SettingsContext';
 import { useToast } from '../../contexts/ToastContext';
 import { useTemplates } from '../../contexts/TemplateContext';
 import { aiService } from '../../services/aiService';
 import { useCandidates } from '../../contexts/CandidatesContext';
 import { useTheme } from '../../contexts/ThemeContext';
+import KamaDatePicker from '../ui/KamaDatePicker';
+import { JOB_POSITION_STATUS_LABELS, USER_ROLE_LABELS, PERMISSION_LABELS, ROLE_PERMISSIONS, AUDIT_ACTION_LABELS, ARCHIVE_STAGE_ID, CUSTOM_FIELD_TYPE_LABELS, CONSENT_LABELS, CONSENT_SOURCES } from '../../constants';
+import { countHires } from '../../utils/applicationUtils';
+import { dbService } from '../../services/dbService';
+import { encryptionService } from '../../services/encryptionService';
+import { auditService } from '../../services/auditService';
+import { downloadBlob } from '../../utils/fileUtils';
+import { toLatinDigits } from '../../utils/candidateUtils';
+import { getTagColor } from '../../utils/colorUtils';
+import { getCustomFieldPlaceholder } from '../../utils/customFieldUtils';
+import { generateId } from '../../utils/idUtils';
+import { isLegacyConsentRecord } from '../../utils/consentUtils';
+
+// Let TypeScript know about the global persianDate object
+declare const persianDate: any;
+
+const MIN_DATA_PASSPHRASE_LENGTH = 12;
+
+const PasswordPolicyPanel: React.FC = () => {
+  const { passwordPolicy, updatePasswordPolicy } = useAuth();
+  const [policy, setPolicy] = useState<PasswordPolicy>(passwordPolicy);
+
+  const setNumber = (field: 'minLength' | 'maxFailedAttempts' | 'lockoutMinutes', value: string) => {
+    setPolicy(prev => ({ ...prev, [field]: Math.max(0, parseInt(value, 10) || 0) }));
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg space-y-4">
+      <h3 className="font-bold">سیاست رمز عبور</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">حداقل طول</label>
+          <input type="number" min={1} value={policy.minLength} onChange={e => setNumber('minLength', e.target.value)} className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3"/>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">تلاش ناموفق تا قفل شدن (۰ = غیرفعال)</label>
+          <input type="number" min={0} value={policy.maxFailedAttempts} onChange={e => setNumber('maxFailedAttempts', e.target.value)} className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3"/>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">مدت قفل (دقیقه)</label>
+          <input type="number" min={1} value={policy.lockoutMinutes} onChange={e => setNumber('lockoutMinutes', e.target.value)} className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3"/>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-6 text-sm">
+        <label><input type="checkbox" className="ml-1" checked={policy.requireLetter} onChange={e => setPolicy(prev => ({ ...prev, requireLetter: e.target.checked }))} />الزام حرف</label>
+        <label><input type="checkbox" className="ml-1" checked={policy.requireDigit} onChange={e => setPolicy(prev => ({ ...prev, requireDigit: e.target.checked }))} />الزام عدد</label>
+        <label><input type="checkbox" className="ml-1" checked={policy.requireSymbol} onChange={e => setPolicy(prev => ({ ...prev, requireSymbol: e.target.checked }))} />الزام نماد</label>
+      </div>
+      <div className="flex justify-end">
+        <button onClick={() => updatePasswordPolicy({ ...policy, minLength: Math.max(1, policy.minLength), lockoutMinutes: Math.max(1, policy.lockoutMinutes) })} className="bg-[var(--color-primary-600)] text-white py-2 px-4 rounded-lg">ذخیره سیاست</button>
+      </div>
+    </div>
+  );
+};
+
+const SessionPolicyPanel: React.FC = () => {
+  const { sessionPolicy, updateSessionPolicy } = useAuth();
+  const [policy, setPolicy] = useState<SessionPolicy>(sessionPolicy);
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg space-y-4">
+      <h3 className="font-bold">تنظیمات نشست</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">خروج خودکار پس از عدم فعالیت (دقیقه، ۰ = غیرفعال)</label>
+          <input type="number" min={0} value={policy.idleTimeoutMinutes} onChange={e => setPolicy(prev => ({ ...prev, idleTimeoutMinutes: Math.max(0, parseInt(e.target.value, 10) || 0) }))} className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3"/>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">حداکثر مدت اعتبار نشست (ساعت)</label>
+          <input type="number" min={1} value={policy.maxSessionHours} onChange={e => setPolicy(prev => ({ ...prev, maxSessionHours: Math.max(1, parseInt(e.target.value, 10) || 1) }))} className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3"/>
+        </div>
+      </div>
+      <div className="flex justify-end">
+        <button onClick={() => updateSessionPolicy(policy)} className="bg-[var(--color-primary-600)] text-white py-2 px-4 rounded-lg">ذخیره تنظیمات نشست</button>
+      </div>
+    </div>
+  );
+};
 
 const UserManagementPanel: React.FC = () => {
-  const { users, addUser, updateUser, deleteUser, changePassword, user: currentUser } = useAuth();
+  const { users, addUser, updateUser, deleteUser, changePassword, requireReauth, user: currentUser } = useAuth();
   const [editingUser, setEditingUser] = useState<UserWithPassword | null>(null);
   const [isAdding, setIsAdding] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
@@ -19,20 +97,20 @@ const UserManagementPanel: React.FC = () => {
   const [username, setUsername] = useState('');
   const [name, setName] = useState('');
   const [password, setPassword] = useState('');
-  const [isAdmin, setIsAdmin] = useState(false);
+  const [role, setRole] = useState<UserRole>('recruiter');
   const { addToast } = useToast();
 
   React.useEffect(() => {
     if (editingUser) {
         setUsername(editingUser.username);
         setName(editingUser.name);
-        setIsAdmin(editingUser.isAdmin);
+        setRole(editingUser.role);
         setPassword('');
     } else {
         setUsername('');
         setName('');
         setPassword('');
-        setIsAdmin(false);
+        setRole('recruiter');
     }
   }, [editingUser]);
 
@@ -47,7 +125,7 @@ const UserManagementPanel: React.FC = () => {
     setUsername('');
     setName('');
     setPassword('');
-    setIsAdmin(false);
+    setRole('recruiter');
   }
 
   const handleSave = async () => {
@@ -55,7 +133,7 @@ const UserManagementPanel: React.FC = () => {
         addToast('نام کاربری و نام کامل الزامی است.', 'error');
         return;
     }
-    const userData = { username: username.toLowerCase(), name, password, isAdmin };
+    const userData = { username: username.toLowerCase(), name, password, role, isAdmin: role === 'admin' };
     
     setIsSaving(true);
     try {
@@ -66,7 +144,7 @@ const UserManagementPanel: React.FC = () => {
             }
             await addUser(userData);
         } else if (editingUser) {
-            updateUser(editingUser.username, { name, isAdmin });
+            updateUser(editingUser.username, { name, role });
             if(password) {
                 // Admin is resetting the password, no oldPass needed.
                 await changePassword(editingUser.username, '', password, true);
@@ -81,12 +159,13 @@ const UserManagementPanel: React.FC = () => {
     }
   };
 
-  const handleDelete = (usernameToDelete: string) => {
+  const handleDelete = async (usernameToDelete: string) => {
     if (usernameToDelete === currentUser?.username) {
         addToast('شما نمی‌توانید حساب کاربری خود را حذف کنید.', 'error');
         return;
     }
     if (window.confirm(`آیا از حذف کاربر ${usernameToDelete} مطمئن هستید؟`)) {
+        if (!(await requireReauth(`حذف کاربر ${usernameToDelete}`))) return;
         deleteUser(usernameToDelete);
         if (editingUser?.username === usernameToDelete) {
           setEditingUser(null);
@@ -96,14 +175,23 @@ const UserManagementPanel: React.FC = () => {
   
   const activeUsers = Object.values(users);
 
+  const isLocked = (u: UserWithPassword) => !!u.lockedUntil && new Date(u.lockedUntil) > new Date();
+
   return (
+    <div className="space-y-8">
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <div className="md:col-span-1">
           <h3 className="font-bold mb-2">لیست کاربران</h3>
           <div className="space-y-2">
             {activeUsers.map(u => (
               <div key={u.username} className={`p-2 rounded-md cursor-pointer flex justify-between items-center ${editingUser?.username === u.username || (isAdding && !editingUser) ? 'bg-[var(--color-primary-100)]' : 'hover:bg-gray-100'}`} onClick={() => handleSelectUserForEdit(u)}>
-                <span>{u.name} ({u.isAdmin ? 'ادمین' : 'کارشناس'})</span>
+                <span>
+                  {u.name} ({USER_ROLE_LABELS[u.role]})
+                  {isLocked(u) && <span className="text-xs text-red-600 mr-1">قفل</span>}
+                </span>
+                {isLocked(u) && (
+                    <button onClick={(e) => { e.stopPropagation(); updateUser(u.username, { lockedUntil: undefined, failedLoginAttempts: 0 }); }} className="text-amber-600 hover:text-amber-800 text-xs px-1">رفع قفل</button>
+                )}
                 { u.username !== currentUser?.username &&
                     <button onClick={(e) => { e.stopPropagation(); handleDelete(u.username); }} className="text-red-500 hover:text-red-700 text-xs px-1">حذف</button>
                 }
@@ -129,10 +217,18 @@ const UserManagementPanel: React.FC = () => {
                      <div>
                         <label className="block text-sm font-medium text-gray-700">رمز عبور</label>
                         <input type="password" value={password} onChange={e => setPassword(e.target.value)} placeholder={isAdding ? 'ضروری' : 'برای عدم تغییر، خالی بگذارید'} className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3"/>
+                        <p className="mt-1 text-xs text-gray-500">رمز تعیین‌شده موقت است و کاربر باید در اولین ورود آن را تغییر دهد.</p>
                     </div>
-                     <div className="flex items-center">
-                        <input id="isAdmin" type="checkbox" checked={isAdmin} onChange={e => setIsAdmin(e.target.checked)} disabled={currentUser?.username === username} className="h-4 w-4 text-[var(--color-primary-600)] border-gray-300 rounded disabled:opacity-50"/>
-                        <label htmlFor="isAdmin" className="mr-2 block text-sm text-gray-900">دسترسی ادمین</label>
+                     <div>
+                        <label className="block text-sm font-medium text-gray-700">نقش</label>
+                        <select value={role} onChange={e => setRole(e.target.value as UserRole)} disabled={currentUser?.username === username} className="mt-1 block w-full border border-gray-300 bg-white rounded-md shadow-sm py-2 px-3 disabled:bg-gray-200">
+                            {(Object.keys(USER_ROLE_LABELS) as UserRole[]).map(r => <option key={r} value={r}>{USER_ROLE_LABELS[r]}</option>)}
+                        </select>
+                        <ul className="mt-2 text-xs text-gray-600 list-disc pr-5">
+                            {ROLE_PERMISSIONS[role].length > 0
+                                ? ROLE_PERMISSIONS[role].map(p => <li key={p}>{PERMISSION_LABELS[p]}</li>)
+                                : <li>فقط مشاهده اطلاعات</li>}
+                        </ul>
                     </div>
                     <div className="flex justify-end gap-2">
                          <button onClick={() => { setEditingUser(null); setIsAdding(false); }} className="bg-gray-200 text-gray-800 py-2 px-4 rounded-lg">انصراف</button>
@@ -145,6 +241,9 @@ const UserManagementPanel: React.FC = () => {
             )}
         </div>
       </div>
+      <PasswordPolicyPanel />
+      <SessionPolicyPanel />
+    </div>
   );
 };
 
@@ -182,38 +281,346 @@ const SourceManagementPanel: React.FC = () => {
     );
 };
 
+const TagManagementPanel: React.FC = () => {
+    const { tags, addTag, updateTag, deleteTag } = useSettings();
+    const { candidates } = useCandidates();
+    const [newTagName, setNewTagName] = useState('');
+    const [newTagColor, setNewTagColor] = useState('');
+    const [editingTag, setEditingTag] = useState<TagDefinition | null>(null);
+
+    const usage = (id: string) => candidates.filter(c => c.tags?.includes(id)).length;
+
+    const handleAddTag = () => {
+        addTag(newTagName, newTagColor);
+        setNewTagName('');
+        setNewTagColor('');
+    };
+
+    const handleDeleteTag = (tag: TagDefinition) => {
+        const count = usage(tag.id);
+        if (count > 0 && !window.confirm(`برچسب "${tag.name}" به ${count} متقاضی اختصاص دارد و از آن‌ها برداشته می‌شود. ادامه می‌دهید؟`)) return;
+        deleteTag(tag.id);
+    };
+
+    const handleSaveEdit = () => {
+        if (!editingTag) return;
+        updateTag(editingTag);
+        setEditingTag(null);
+    };
+
+    const inputClass = "flex-grow border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-[var(--color-primary-500)] focus:border-[var(--color-primary-500)] sm:text-sm";
+
+    return (
+        <div className="max-w-md mx-auto">
+            <h3 className="font-bold mb-1">برچسب‌های متقاضیان</h3>
+            <p className="text-sm text-gray-500 mb-4">بدون انتخاب رنگ، رنگ برچسب از روی نام آن ساخته می‌شود.</p>
+            <div className="space-y-2 mb-4">
+                {tags.map(tag => editingTag?.id === tag.id ? (
+                    <div key={tag.id} className="flex gap-2 items-center bg-gray-100 p-2 rounded-md">
+                        <input type="text" value={editingTag.name} onChange={e => setEditingTag({ ...editingTag, name: e.target.value })} className={inputClass} />
+                        <input type="color" value={editingTag.color || '#e5e7eb'} onChange={e => setEditingTag({ ...editingTag, color: e.target.value })} className="h-9 w-10 rounded" title="رنگ برچسب" />
+                        <button onClick={() => setEditingTag({ ...editingTag, color: undefined })} className="text-xs text-gray-500 hover:underline">رنگ خودکار</button>
+                        <button onClick={handleSaveEdit} className="text-green-600 hover:text-green-800 text-xs">ذخیره</button>
+                        <button onClick={() => setEditingTag(null)} className="text-gray-500 hover:text-gray-700 text-xs">انصراف</button>
+                    </div>
+                ) : (
+                    <div key={tag.id} className="flex justify-between items-center bg-gray-100 p-2 rounded-md">
+                        <span className="flex items-center gap-2">
+                            <span className="px-2 py-0.5 rounded-full text-sm text-gray-800" style={{ backgroundColor: getTagColor(tag) }}>{tag.name}</span>
+                            <span className="text-xs text-gray-500">{usage(tag.id)} متقاضی</span>
+                        </span>
+                        <span className="flex gap-3">
+                            <button onClick={() => setEditingTag(tag)} className="text-[var(--color-primary-600)] hover:text-[var(--color-primary-800)] text-xs">ویرایش</button>
+                            <button onClick={() => handleDeleteTag(tag)} className="text-red-500 hover:text-red-700 text-xs">حذف</button>
+                        </span>
+                    </div>
+                ))}
+            </div>
+            <div className="flex gap-2 items-center">
+                <input type="text" value={newTagName} onChange={e => setNewTagName(e.target.value)} placeholder="افزودن برچسب جدید..." className={inputClass} />
+                <input type="color" value={newTagColor || '#e5e7eb'} onChange={e => setNewTagColor(e.target.value)} className="h-9 w-10 rounded" title="رنگ برچسب (اختیاری)" />
+                <button onClick={handleAddTag} className="bg-[var(--color-primary-600)] text-white py-2 px-4 rounded-lg hover:bg-[var(--color-primary-700)]">افزودن</button>
+            </div>
+        </div>
+    );
+};
+
+const EMPTY_CUSTOM_FIELD: Omit<CustomFieldDefinition, 'id'> = { label: '', key: '', type: 'text' };
+
+const CustomFieldManagementPanel: React.FC = () => {
+    const { customFields, addCustomField, updateCustomField, deleteCustomField, moveCustomField } = useSettings();
+    const { candidates } = useCandidates();
+    const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+    const [form, setForm] = useState<Omit<CustomFieldDefinition, 'id'>>(EMPTY_CUSTOM_FIELD);
+    const [optionsText, setOptionsText] = useState('');
+
+    const usage = (id: string) => candidates.filter(c => c.customFields?.[id] !== undefined).length;
+
+    const startEdit = (field?: CustomFieldDefinition) => {
+        setEditingId(field?.id || 'new');
+        setForm(field || EMPTY_CUSTOM_FIELD);
+        setOptionsText((field?.options || []).join('\n'));
+    };
+
+    const handleSave = () => {
+        const field = { ...form, key: form.key.trim(), options: optionsText.split('\n') };
+        const saved = editingId === 'new' ? addCustomField(field) : updateCustomField({ ...field, id: editingId! });
+        if (saved) setEditingId(null);
+    };
+
+    const handleDelete = (field: CustomFieldDefinition) => {
+        const count = usage(field.id);
+        const message = count > 0
+            ? `فیلد "${field.label}" برای ${count} متقاضی مقدار دارد. با حذف آن، این مقادیر دیگر نمایش داده نمی‌شوند. ادامه می‌دهید؟`
+            : `آیا از حذف فیلد "${field.label}" اطمینان دارید؟`;
+        if (window.confirm(message)) deleteCustomField(field.id);
+    };
+
+    const inputClass = "mt-1 block w-full border border-gray-300 bg-white rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-[var(--color-primary-500)] focus:border-[var(--color-primary-500)] sm:text-sm";
+
+    return (
+        <div className="max-w-2xl mx-auto space-y-4">
+            <div>
+                <h3 className="font-bold mb-1">فیلدهای سفارشی متقاضیان</h3>
+                <p className="text-sm text-gray-500">این فیلدها در فرم متقاضی، فیلترها، خروجی اکسل و قالب‌های پیام (با متغیر {'{{field_کلید}}'}) در دسترس هستند.</p>
+            </div>
+            <div className="space-y-2">
+                {customFields.map((field, index) => (
+                    <div key={field.id} className="flex justify-between items-center bg-gray-100 p-2 rounded-md">
+                        <div>
+                            <span className="font-medium">{field.label}</span>
+                            <span className="text-xs text-gray-500 mr-2">{CUSTOM_FIELD_TYPE_LABELS[field.type]}</span>
+                            <span className="text-xs text-gray-400 font-mono mr-2" dir="ltr">{`{{${getCustomFieldPlaceholder(field)}}}`}</span>
+                            {field.isPersonal && <span className="text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 mr-2">اطلاعات شخصی</span>}
+                        </div>
+                        <div className="flex items-center gap-3 text-xs">
+                            <button onClick={() => moveCustomField(field.id, -1)} disabled={index === 0} className="text-gray-500 hover:text-gray-800 disabled:opacity-30" title="انتقال به بالا">▲</button>
+                            <button onClick={() => moveCustomField(field.id, 1)} disabled={index === customFields.length - 1} className="text-gray-500 hover:text-gray-800 disabled:opacity-30" title="انتقال به پایین">▼</button>
+                            <button onClick={() => startEdit(field)} className="text-[var(--color-primary-600)] hover:text-[var(--color-primary-800)]">ویرایش</button>
+                            <button onClick={() => handleDelete(field)} className="text-red-500 hover:text-red-700">حذف</button>
+                        </div>
+                    </div>
+                ))}
+                {customFields.length === 0 && <p className="text-sm text-gray-500">هنوز فیلدی تعریف نشده است.</p>}
+            </div>
+            {editingId ? (
+                <div className="bg-gray-50 rounded-lg p-4 border border-[var(--color-primary-200)] space-y-4">
+                    <h4 className="font-bold">{editingId === 'new' ? 'افزودن فیلد جدید' : 'ویرایش فیلد'}</h4>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">عنوان (مثلا: کد ملی)</label>
+                            <input type="text" value={form.label} onChange={e => setForm({ ...form, label: e.target.value })} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">کلید لاتین (مثلا: nationalId)</label>
+                            <input type="text" dir="ltr" value={form.key} onChange={e => setForm({ ...form, key: e.target.value })} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">نوع</label>
+                            {/* The type is fixed once created so that stored values keep matching it */}
+                            <select value={form.type} disabled={editingId !== 'new'} onChange={e => setForm({ ...form, type: e.target.value as CustomFieldType })} className={`${inputClass} disabled:bg-gray-100`}>
+                                {(Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]).map(type => <option key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</option>)}
+                            </select>
+                        </div>
+                    </div>
+                    {form.type === 'select' && (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">گزینه‌ها (هر گزینه در یک خط)</label>
+                            <textarea value={optionsText} onChange={e => setOptionsText(e.target.value)} rows={4} className={inputClass} />
+                        </div>
+                    )}
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input type="checkbox" checked={!!form.isPersonal} onChange={e => setForm({ ...form, isPersonal: e.target.checked })} className="rounded border-gray-300" />
+                        حاوی اطلاعات شخصی است (هنگام ناشناس‌سازی متقاضی حذف می‌شود)
+                    </label>
+                    <div className="flex justify-end gap-2">
+                        <button onClick={() => setEditingId(null)} className="bg-gray-200 text-gray-800 py-2 px-4 rounded-lg hover:bg-gray-300">انصراف</button>
+                        <button onClick={handleSave} className="bg-[var(--color-primary-600)] text-white py-2 px-4 rounded-lg hover:bg-[var(--color-primary-700)]">ذخیره</button>
+                    </div>
+                </div>
+            ) : (
+                <button onClick={() => startEdit()} className="bg-[var(--color-primary-600)] text-white py-2 px-4 rounded-lg hover:bg-[var(--color-primary-700)]">+ افزودن فیلد</button>
+            )}
+        </div>
+    );
+};
+
+const createCompetency = (): ScorecardCompetency => ({ id: generateId(), name: '' });
+
+const ScorecardTemplatePanel: React.FC = () => {
+    const { companyProfile, getStagesForPosition, saveScorecardTemplate, deleteScorecardTemplate } = useSettings();
+    const [jobPositionId, setJobPositionId] = useState(companyProfile.jobPositions[0]?.id || '');
+    const [editing, setEditing] = useState<ScorecardTemplate | null>(null);
+
+    const position = companyProfile.jobPositions.find(j => j.id === jobPositionId);
+    const positionStages = getStagesForPosition(jobPositionId).filter(s => s.id !== 'archived');
+    const stageTitle = (stageId?: string) => stageId ? positionStages.find(s => s.id === stageId)?.title || stageId : 'همه مراحل';
+
+    const updateCompetency = (id: string, changes: Partial<ScorecardCompetency>) => {
+        setEditing(prev => prev && { ...prev, competencies: prev.competencies.map(c => c.id === id ? { ...c, ...changes } : c) });
+    };
+
+    const handleSave = () => {
+        if (editing && saveScorecardTemplate(jobPositionId, editing)) setEditing(null);
+    };
+
+    const handleDelete = (template: ScorecardTemplate) => {
+        if (window.confirm(`آیا از حذف کارت ارزیابی "${template.name}" اطمینان دارید؟ ارزیابی‌های ثبت شده حفظ می‌شوند.`)) {
+            deleteScorecardTemplate(jobPositionId, template.id);
+        }
+    };
+
+    const inputClass = "block w-full border border-gray-300 bg-white rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-[var(--color-primary-500)] focus:border-[var(--color-primary-500)] sm:text-sm";
+
+    if (companyProfile.jobPositions.length === 0) {
+        return <p className="text-sm text-gray-500 text-center">ابتدا یک موقعیت شغلی تعریف کنید.</p>;
+    }
+
+    return (
+        <div className="max-w-2xl mx-auto space-y-4">
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">موقعیت شغلی</label>
+                <select value={jobPositionId} onChange={e => { setJobPositionId(e.target.value); setEditing(null); }} className={inputClass}>
+                    {companyProfile.jobPositions.map(job => <option key={job.id} value={job.id}>{job.title}</option>)}
+                </select>
+            </div>
+            <p className="text-sm text-gray-500">مصاحبه‌گران در مرحله انتخاب شده هر شایستگی را از ۱ تا ۵ امتیاز می‌دهند. امتیاز دیگران تا ثبت ارزیابی هر مصاحبه‌گر برای او پنهان می‌ماند.</p>
+            <div className="space-y-2">
+                {(position?.scorecards || []).map(template => (
+                    <div key={template.id} className="flex justify-between items-center bg-gray-100 p-2 rounded-md">
+                        <div>
+                            <span className="font-medium">{template.name}</span>
+                            <span className="text-xs text-gray-500 mr-2">{stageTitle(template.stageId)} - {template.competencies.length} شایستگی</span>
+                        </div>
+                        <div className="flex gap-3 text-xs">
+                            <button onClick={() => setEditing(template)} className="text-[var(--color-primary-600)] hover:text-[var(--color-primary-800)]">ویرایش</button>
+                            <button onClick={() => handleDelete(template)} className="text-red-500 hover:text-red-700">حذف</button>
+                        </div>
+                    </div>
+                ))}
+                {!position?.scorecards?.length && <p className="text-sm text-gray-500">برای این موقعیت کارت ارزیابی تعریف نشده است.</p>}
+            </div>
+            {editing ? (
+                <div className="bg-gray-50 rounded-lg p-4 border border-[var(--color-primary-200)] space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">نام کارت (مثلا: مصاحبه فنی)</label>
+                            <input type="text" value={editing.name} onChange={e => setEditing({ ...editing, name: e.target.value })} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">مرحله</label>
+                            <select value={editing.stageId || ''} onChange={e => setEditing({ ...editing, stageId: e.target.value || undefined })} className={inputClass}>
+                                <option value="">همه مراحل</option>
+                                {positionStages.map(stage => <option key={stage.id} value={stage.id}>{stage.title}</option>)}
+                            </select>
+                        </div>
+                    </div>
+                    <div className="space-y-3">
+                        <p className="text-sm font-medium text-gray-700">شایستگی‌ها</p>
+                        {editing.competencies.map(competency => (
+                            <div key={competency.id} className="bg-white p-3 rounded-md border border-gray-200 space-y-2">
+                                <div className="flex gap-2">
+                                    <input type="text" value={competency.name} onChange={e => updateCompetency(competency.id, { name: e.target.value })} placeholder="نام شایستگی (مثلا: حل مسئله)" className={inputClass} />
+                                    <button onClick={() => setEditing({ ...editing, competencies: editing.competencies.filter(c => c.id !== competency.id) })} className="text-red-500 hover:text-red-700 text-xs whitespace-nowrap">حذف</button>
+                                </div>
+                                <input type="text" value={competency.description || ''} onChange={e => updateCompetency(competency.id, { description: e.target.value })} placeholder="راهنمای امتیازدهی (اختیاری)" className={inputClass} />
+                                <label className="flex items-center gap-2 text-sm text-gray-700">
+                                    <input type="checkbox" checked={!!competency.requireNote} onChange={e => updateCompetency(competency.id, { requireNote: e.target.checked })} className="rounded border-gray-300" />
+                                    ثبت توضیح برای این شایستگی الزامی است
+                                </label>
+                            </div>
+                        ))}
+                        <button onClick={() => setEditing({ ...editing, competencies: [...editing.competencies, createCompetency()] })} className="text-sm text-[var(--color-primary-600)] hover:underline">+ افزودن شایستگی</button>
+                    </div>
+                    <div className="flex justify-end gap-2">
+                        <button onClick={() => setEditing(null)} className="bg-gray-200 text-gray-800 py-2 px-4 rounded-lg hover:bg-gray-300">انصراف</button>
+                        <button onClick={handleSave} className="bg-[var(--color-primary-600)] text-white py-2 px-4 rounded-lg hover:bg-[var(--color-primary-700)]">ذخیره</button>
+                    </div>
+                </div>
+            ) : (
+                <button onClick={() => setEditing({ id: `scorecard_tpl_${Date.now()}`, name: '', competencies: [createCompetency()] })} className="bg-[var(--color-primary-600)] text-white py-2 px-4 rounded-lg hover:bg-[var(--color-primary-700)]">+ افزودن کارت ارزیابی</button>
+            )}
+        </div>
+    );
+};
+
 const StageManagementPanel: React.FC = () => {
-    const { stages, addStage, updateStage, deleteStage } = useSettings();
+    const { stages, addStage, updateStage, deleteStage, companyProfile, getStagesForPosition, enablePositionPipeline, resetPositionPipeline } = useSettings();
     const { candidates } = useCandidates();
     const { addToast } = useToast();
     const [newStageTitle, setNewStageTitle] = useState('');
     const [editingStage, setEditingStage] = useState<KanbanStage | null>(null);
+    // Empty string edits the default pipeline shared by positions without their own
+    const [jobPositionId, setJobPositionId] = useState('');
+
+    const selectedPosition = companyProfile.jobPositions.find(j => j.id === jobPositionId);
+    const hasOwnPipeline = !!selectedPosition?.stages;
+    const isEditable = !jobPositionId || hasOwnPipeline;
+    const pipelineStages = jobPositionId ? getStagesForPosition(jobPositionId) : stages;
+
+    // Applications that follow the pipeline being edited
+    const pipelineApplications = candidates.flatMap(c => c.applications).filter(a => {
+        if (jobPositionId) return a.jobPositionId === jobPositionId;
+        return !companyProfile.jobPositions.find(j => j.id === a.jobPositionId)?.stages;
+    });
 
     const handleAddStage = () => {
-        addStage(newStageTitle);
+        addStage(newStageTitle, jobPositionId || undefined);
         setNewStageTitle('');
     };
 
     const handleSaveEdit = () => {
         if (editingStage) {
-            updateStage(editingStage.id, editingStage.title);
+            updateStage(editingStage.id, editingStage.title, jobPositionId || undefined);
             setEditingStage(null);
         }
     };
 
     const handleDelete = (id: string) => {
-        if (candidates.some(c => c.stage === id)) {
+        if (pipelineApplications.some(a => a.stage === id)) {
             addToast('نمی‌توان مرحله‌ای که دارای متقاضی است را حذف کرد.', 'error');
             return;
         }
-        deleteStage(id);
+        deleteStage(id, jobPositionId || undefined);
+    };
+
+    const handleResetPipeline = () => {
+        if (pipelineApplications.some(a => !stages.some(s => s.id === a.stage))) {
+            addToast('برخی متقاضیان این موقعیت در مراحلی هستند که در پایپ‌لاین پیش‌فرض وجود ندارد.', 'error');
+            return;
+        }
+        resetPositionPipeline(jobPositionId);
     };
 
     return (
       <div className="max-w-md mx-auto">
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">پایپ‌لاین</label>
+          <select value={jobPositionId} onChange={e => { setJobPositionId(e.target.value); setEditingStage(null); }} className="w-full border border-gray-300 bg-white rounded-md shadow-sm py-2 px-3 sm:text-sm">
+            <option value="">پیش‌فرض (همه موقعیت‌ها)</option>
+            {companyProfile.jobPositions.map(job => (
+              <option key={job.id} value={job.id}>{job.title}{job.stages ? ' (اختصاصی)' : ''}</option>
+            ))}
+          </select>
+        </div>
+        {jobPositionId && (
+          <div className="flex justify-between items-center bg-[var(--color-primary-50)] p-3 rounded-md mb-4 text-sm">
+            {hasOwnPipeline ? (
+              <>
+                <span>این موقعیت پایپ‌لاین اختصاصی دارد. مراحل اصلی از پیش‌فرض به ارث می‌رسند.</span>
+                <button onClick={handleResetPipeline} className="text-red-600 hover:text-red-800 text-xs whitespace-nowrap mr-2">بازگشت به پیش‌فرض</button>
+              </>
+            ) : (
+              <>
+                <span>این موقعیت از پایپ‌لاین پیش‌فرض استفاده می‌کند.</span>
+                <button onClick={() => enablePositionPipeline(jobPositionId)} className="text-[var(--color-primary-700)] font-bold text-xs whitespace-nowrap mr-2">تعریف پایپ‌لاین اختصاصی</button>
+              </>
+            )}
+          </div>
+        )}
         <h3 className="font-bold mb-4">لیست مراحل کانبان</h3>
         <div className="space-y-2 mb-4">
-          {stages.filter(s => s.id !== 'archived').map(stage => (
+          {pipelineStages.filter(s => s.id !== 'archived').map(stage => (
             <div key={stage.id} className="flex justify-between items-center bg-gray-100 p-2 rounded-md">
               {editingStage?.id === stage.id ? (
                 <input
@@ -225,36 +632,42 @@ const StageManagementPanel: React.FC = () => {
               ) : (
                 <span>{stage.title}</span>
               )}
-              <div className="flex gap-3">
-                {editingStage?.id === stage.id ? (
-                  <button onClick={handleSaveEdit} className="text-green-600 hover:text-green-800 text-xs">ذخیره</button>
-                ) : (
-                  <button onClick={() => setEditingStage(stage)} className="text-blue-600 hover:text-blue-800 text-xs">ویرایش</button>
-                )}
-                {!stage.isCore && (
-                  <button onClick={() => handleDelete(stage.id)} className="text-red-500 hover:text-red-700 text-xs">حذف</button>
-                )}
-              </div>
+              {/* Core stages of a position pipeline are inherited, so they are edited in the default pipeline */}
+              {isEditable && !(jobPositionId && stage.isCore) && (
+                <div className="flex gap-3">
+                  {editingStage?.id === stage.id ? (
+                    <button onClick={handleSaveEdit} className="text-green-600 hover:text-green-800 text-xs">ذخیره</button>
+                  ) : (
+                    <button onClick={() => setEditingStage(stage)} className="text-blue-600 hover:text-blue-800 text-xs">ویرایش</button>
+                  )}
+                  {!stage.isCore && (
+                    <button onClick={() => handleDelete(stage.id)} className="text-red-500 hover:text-red-700 text-xs">حذف</button>
+                  )}
+                </div>
+              )}
             </div>
           ))}
         </div>
-        <div className="flex gap-2">
-          <input
-            type="text"
-            value={newStageTitle}
-            onChange={e => setNewStageTitle(e.target.value)}
-            placeholder="افزودن مرحله جدید..."
-            className="flex-grow border border-gray-300 rounded-md shadow-sm py-2 px-3 sm:text-sm"
-          />
-          <button onClick={handleAddStage} className="bg-[var(--color-primary-600)] text-white py-2 px-4 rounded-lg hover:bg-[var(--color-primary-700)]">افزودن</button>
-        </div>
+        {isEditable && (
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={newStageTitle}
+              onChange={e => setNewStageTitle(e.target.value)}
+              placeholder="افزودن مرحله جدید..."
+              className="flex-grow border border-gray-300 rounded-md shadow-sm py-2 px-3 sm:text-sm"
+            />
+            <button onClick={handleAddStage} className="bg-[var(--color-primary-600)] text-white py-2 px-4 rounded-lg hover:bg-[var(--color-primary-700)]">افزودن</button>
+          </div>
+        )}
+        <p className="text-xs text-gray-500 mt-4">ترتیب مراحل را می‌توانید با کشیدن ستون‌ها در صفحه کانبان تغییر دهید.</p>
       </div>
     );
 };
 
 const TemplateManagementPanel: React.FC = () => {
   const { templates, addTemplate, updateTemplate, deleteTemplate } = useTemplates();
-  const { stages, geminiApiKey } = useSettings();
+  const { stages, geminiApiKey, customFields } = useSettings();
   const [editingId, setEditingId] = useState<string | null | 'new'>(null);
   
   // Form state
@@ -363,10 +776,12 @@ const TemplateManagementPanel: React.FC = () => {
     { name: '{{position}}', desc: 'موقعیت شغلی' },
     { name: '{{interviewDate}}', desc: 'تاریخ مصاحبه' },
     { name: '{{interviewTime}}', desc: 'ساعت مصاحبه' },
+    { name: '{{interviewLocation}}', desc: 'محل یا لینک جلسه مصاحبه' },
     { name: '{{stageName}}', desc: 'نام مرحله جدید (فقط برای اطلاع‌رسانی)' },
     { name: '{{companyName}}', desc: 'نام شرکت' },
     { name: '{{companyWebsite}}', desc: 'وب‌سایت شرکت' },
     { name: '{{companyAddress}}', desc: 'آدرس شرکت' },
+    ...customFields.map(field => ({ name: `{{${getCustomFieldPlaceholder(field)}}}`, desc: field.label })),
   ];
 
   const renderForm = () => (
@@ -478,6 +893,8 @@ const TemplateManagementPanel: React.FC = () => {
 
 const CompanyProfilePanel: React.FC = () => {
     const { companyProfile, updateCompanyDetails, addJobPosition, updateJobPosition, deleteJobPosition } = useSettings();
+    const { users } = useAuth();
+    const { candidates } = useCandidates();
     const [details, setDetails] = useState(companyProfile);
     const [newJobTitle, setNewJobTitle] = useState('');
     const [editingJob, setEditingJob] = useState<JobPosition | null>(null);
@@ -502,11 +919,14 @@ const CompanyProfilePanel: React.FC = () => {
 
     const handleSaveJobEdit = () => {
         if(editingJob) {
-            updateJobPosition(editingJob.id, editingJob.title);
+            const { id, stages, scorecards, ...changes } = editingJob;
+            updateJobPosition(id, changes);
             setEditingJob(null);
         }
     }
 
+    const parseOptionalNumber = (value: string) => value === '' ? undefined : Number(value);
+
     return (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
             {/* Company Details */}
@@ -530,23 +950,72 @@ const CompanyProfilePanel: React.FC = () => {
             <div>
                  <h3 className="text-lg font-bold text-gray-800 mb-4">موقعیت‌های شغلی</h3>
                  <div className="space-y-2 mb-4">
-                    {companyProfile.jobPositions.map(job => (
-                        <div key={job.id} className="flex justify-between items-center bg-gray-100 p-2 rounded-md">
+                    {companyProfile.jobPositions.map(job => {
+                        const hires = countHires(candidates, job.id);
+                        const isOverHeadcount = job.headcount !== undefined && hires > job.headcount;
+                        return (
+                        <div key={job.id} className="bg-gray-100 p-2 rounded-md">
                            {editingJob?.id === job.id ? (
-                               <input type="text" value={editingJob.title} onChange={e => setEditingJob({...editingJob, title: e.target.value})} className="flex-grow border-gray-300 rounded-md py-1 px-2 text-sm"/>
+                               <div className="grid grid-cols-2 gap-2 text-sm">
+                                   <label className="col-span-2">عنوان
+                                       <input type="text" value={editingJob.title} onChange={e => setEditingJob({...editingJob, title: e.target.value})} className="mt-1 block w-full border-gray-300 rounded-md py-1 px-2"/>
+                                   </label>
+                                   <label>وضعیت
+                                       <select value={editingJob.status || 'open'} onChange={e => setEditingJob({...editingJob, status: e.target.value as JobPositionStatus})} className="mt-1 block w-full border-gray-300 bg-white rounded-md py-1 px-2">
+                                           {Object.entries(JOB_POSITION_STATUS_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                                       </select>
+                                   </label>
+                                   <label>ظرفیت استخدام
+                                       <input type="number" min={0} value={editingJob.headcount ?? ''} onChange={e => setEditingJob({...editingJob, headcount: parseOptionalNumber(e.target.value)})} className="mt-1 block w-full border-gray-300 rounded-md py-1 px-2"/>
+                                   </label>
+                                   <label>مدیر استخدام
+                                       <select value={editingJob.hiringManager || ''} onChange={e => setEditingJob({...editingJob, hiringManager: e.target.value || undefined})} className="mt-1 block w-full border-gray-300 bg-white rounded-md py-1 px-2">
+                                           <option value="">انتخاب نشده</option>
+                                           {Object.values(users).map(u => <option key={u.username} value={u.username}>{u.name}</option>)}
+                                       </select>
+                                   </label>
+                                   <label>دپارتمان
+                                       <input type="text" value={editingJob.department || ''} onChange={e => setEditingJob({...editingJob, department: e.target.value})} className="mt-1 block w-full border-gray-300 rounded-md py-1 px-2"/>
+                                   </label>
+                                   <label>محل کار
+                                       <input type="text" value={editingJob.location || ''} onChange={e => setEditingJob({...editingJob, location: e.target.value})} className="mt-1 block w-full border-gray-300 rounded-md py-1 px-2"/>
+                                   </label>
+                                   <div>تاریخ هدف تکمیل
+                                       <KamaDatePicker value={editingJob.targetFillDate || ''} onChange={date => setEditingJob(prev => prev && {...prev, targetFillDate: date})} />
+                                   </div>
+                                   <label>حداقل حقوق (تومان)
+                                       <input type="number" min={0} value={editingJob.salaryMin ?? ''} onChange={e => setEditingJob({...editingJob, salaryMin: parseOptionalNumber(e.target.value)})} className="mt-1 block w-full border-gray-300 rounded-md py-1 px-2"/>
+                                   </label>
+                                   <label>حداکثر حقوق (تومان)
+                                       <input type="number" min={0} value={editingJob.salaryMax ?? ''} onChange={e => setEditingJob({...editingJob, salaryMax: parseOptionalNumber(e.target.value)})} className="mt-1 block w-full border-gray-300 rounded-md py-1 px-2"/>
+                                   </label>
+                                   <div className="col-span-2 flex justify-end gap-2">
+                                       <button onClick={() => setEditingJob(null)} className="text-gray-600 hover:text-gray-800">انصراف</button>
+                                       <button onClick={handleSaveJobEdit} className="text-green-600 hover:text-green-800">ذخیره</button>
+                                   </div>
+                               </div>
                            ) : (
-                               <span>{job.title}</span>
+                               <div className="flex justify-between items-center">
+                                   <div>
+                                       <span className={job.status === 'closed' ? 'text-gray-400 line-through' : ''}>{job.title}</span>
+                                       <span className="text-xs bg-gray-200 text-gray-700 rounded-full px-2 py-0.5 mr-2">{JOB_POSITION_STATUS_LABELS[job.status || 'open']}</span>
+                                       <p className="text-xs text-gray-500">
+                                           {[job.department, job.location, job.hiringManager && users[job.hiringManager]?.name].filter(Boolean).join(' | ')}
+                                       </p>
+                                       <p className={`text-xs ${isOverHeadcount ? 'text-red-600 font-bold' : 'text-gray-500'}`}>
+                                           استخدام شده: {hires}{job.headcount !== undefined && ` از ${job.headcount}`}
+                                           {isOverHeadcount && ' - تعداد استخدام‌ها از ظرفیت بیشتر است!'}
+                                       </p>
+                                   </div>
+                                   <div className="flex gap-2">
+                                      <button onClick={() => setEditingJob(job)} className="text-blue-600 hover:text-blue-800">ویرایش</button>
+                                      <button onClick={() => deleteJobPosition(job.id)} className="text-red-500 hover:text-red-700">حذف</button>
+                                   </div>
+                               </div>
                            )}
-                            <div className="flex gap-2">
-                               {editingJob?.id === job.id ? (
-                                  <button onClick={handleSaveJobEdit} className="text-green-600 hover:text-green-800">ذخیره</button>
-                               ) : (
-                                  <button onClick={() => setEditingJob(job)} className="text-blue-600 hover:text-blue-800">ویرایش</button>
-                               )}
-                                <button onClick={() => deleteJobPosition(job.id)} className="text-red-500 hover:text-red-700">حذف</button>
-                            </div>
                         </div>
-                    ))}
+                        );
+                    })}
                  </div>
                  <div className="flex gap-2">
                      <input type="text" value={newJobTitle} onChange={e => setNewJobTitle(e.target.value)} placeholder="افزودن موقعیت جدید..." className="flex-grow border border-gray-300 rounded-md shadow-sm py-2 px-3 sm:text-sm" />
@@ -603,13 +1072,241 @@ const ApiKeyPanel: React.FC = () => {
                 </div>
             </div>
             <div className="mt-6 p-3 bg-yellow-50 border border-yellow-200 text-yellow-800 text-sm rounded-md space-y-2">
-                <p><strong className="font-bold">مهم:</strong> این کلید فقط در حافظه مرورگر شما (localStorage) ذخیره می‌شود.</p>
+                <p><strong className="font-bold">مهم:</strong> این کلید فقط در حافظه مرورگر شما (localStorage) ذخیره می‌شود و در صورت فعال بودن رمزنگاری داده‌ها، به صورت رمزنگاری‌شده نگهداری می‌شود.</p>
                 <p>این روش برای استفاده در یک شبکه داخلی و امن مناسب است. هرگز این فایل را روی یک سرور عمومی قرار ندهید، زیرا کلید API شما ممکن است در معرض خطر قرار گیرد.</p>
             </div>
         </div>
     );
 }
 
+const EncryptionPanel: React.FC = () => {
+    const { requireReauth, logAudit } = useAuth();
+    const { addToast } = useToast();
+    const [isEnabled, setIsEnabled] = useState(() => encryptionService.isEnabled());
+    const [currentPassphrase, setCurrentPassphrase] = useState('');
+    const [newPassphrase, setNewPassphrase] = useState('');
+    const [confirmPassphrase, setConfirmPassphrase] = useState('');
+    const [isWorking, setIsWorking] = useState(false);
+
+    const resetForm = () => {
+        setCurrentPassphrase('');
+        setNewPassphrase('');
+        setConfirmPassphrase('');
+    };
+
+    const validateNewPassphrase = (): boolean => {
+        if (newPassphrase.length < MIN_DATA_PASSPHRASE_LENGTH) {
+            addToast(`عبارت رمز داده‌ها باید حداقل ${MIN_DATA_PASSPHRASE_LENGTH} کاراکتر باشد.`, 'error');
+            return false;
+        }
+        if (newPassphrase !== confirmPassphrase) {
+            addToast('عبارت رمز جدید و تکرار آن یکسان نیستند.', 'error');
+            return false;
+        }
+        return true;
+    };
+
+    // Runs an encryption change after re-authentication; the data is rewritten in place, so this may take a while.
+    const run = async (actionLabel: string, action: () => Promise<void>, successMessage: string) => {
+        if (!(await requireReauth(actionLabel))) return;
+        setIsWorking(true);
+        try {
+            await action();
+            setIsEnabled(encryptionService.isEnabled());
+            resetForm();
+            logAudit('data:encryption', successMessage);
+            addToast(successMessage, 'success');
+        } catch (e: any) {
+            addToast(e.message || 'خطا در تغییر رمزنگاری داده‌ها.', 'error');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleEnable = () => {
+        if (!validateNewPassphrase()) return;
+        if (!window.confirm('در صورت فراموش کردن عبارت رمز، داده‌ها به هیچ وجه قابل بازیابی نیستند. ادامه می‌دهید؟')) return;
+        run('فعال‌سازی رمزنگاری داده‌ها', () => dbService.enableEncryption(newPassphrase), 'رمزنگاری داده‌ها فعال شد.');
+    };
+
+    const handleChange = () => {
+        if (!validateNewPassphrase()) return;
+        run('تغییر عبارت رمز داده‌ها', () => dbService.changeEncryptionPassphrase(currentPassphrase, newPassphrase), 'عبارت رمز تغییر کرد و داده‌ها با کلید جدید رمزنگاری شدند.');
+    };
+
+    const handleDisable = () => {
+        if (!window.confirm('با غیرفعال کردن رمزنگاری، همه داده‌ها به صورت رمزنگاری‌نشده ذخیره می‌شوند. ادامه می‌دهید؟')) return;
+        run('غیرفعال‌سازی رمزنگاری داده‌ها', () => dbService.disableEncryption(currentPassphrase), 'رمزنگاری داده‌ها غیرفعال شد.');
+    };
+
+    const inputClass = "mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3";
+
+    return (
+        <div className="p-4 bg-gray-50 rounded-lg max-w-2xl mx-auto space-y-4">
+            <h3 className="text-lg font-bold text-gray-800">رمزنگاری داده‌ها</h3>
+            <div className="flex items-center gap-2">
+                <p className="font-medium">وضعیت:</p>
+                {isEnabled ? (
+                    <span className="px-3 py-1 text-sm font-semibold text-green-800 bg-green-200 rounded-full">فعال</span>
+                ) : (
+                    <span className="px-3 py-1 text-sm font-semibold text-gray-700 bg-gray-200 rounded-full">غیرفعال</span>
+                )}
+            </div>
+            <p className="text-sm text-gray-600">
+                اطلاعات متقاضیان، رزومه‌ها، فایل‌های آزمون، کلید API و تنظیمات با کلیدی که از عبارت رمز ساخته می‌شود رمزنگاری می‌شوند. این عبارت هنگام ورود از همه کاربران پرسیده می‌شود.
+            </p>
+            {isEnabled && (
+                <div>
+                    <label className="block text-sm font-medium text-gray-700">عبارت رمز فعلی</label>
+                    <input type="password" value={currentPassphrase} onChange={e => setCurrentPassphrase(e.target.value)} className={inputClass} autoComplete="off"/>
+                </div>
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                    <label className="block text-sm font-medium text-gray-700">{isEnabled ? 'عبارت رمز جدید' : 'عبارت رمز'}</label>
+                    <input type="password" value={newPassphrase} onChange={e => setNewPassphrase(e.target.value)} className={inputClass} autoComplete="new-password"/>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700">تکرار عبارت رمز</label>
+                    <input type="password" value={confirmPassphrase} onChange={e => setConfirmPassphrase(e.target.value)} className={inputClass} autoComplete="new-password"/>
+                </div>
+            </div>
+            <div className="flex justify-end gap-2">
+                {isEnabled ? (
+                    <>
+                        <button onClick={handleDisable} disabled={isWorking || !currentPassphrase} className="bg-red-500 text-white py-2 px-4 rounded-lg hover:bg-red-600 text-sm disabled:bg-gray-400">غیرفعال‌سازی</button>
+                        <button onClick={handleChange} disabled={isWorking || !currentPassphrase} className="bg-[var(--color-primary-600)] text-white py-2 px-4 rounded-lg hover:bg-[var(--color-primary-700)] text-sm disabled:bg-gray-400">تغییر عبارت رمز</button>
+                    </>
+                ) : (
+                    <button onClick={handleEnable} disabled={isWorking} className="bg-[var(--color-primary-600)] text-white py-2 px-4 rounded-lg hover:bg-[var(--color-primary-700)] text-sm disabled:bg-gray-400">فعال‌سازی رمزنگاری</button>
+                )}
+            </div>
+            {isWorking && <p className="text-sm text-gray-600">در حال رمزنگاری مجدد داده‌ها، لطفا صبر کنید...</p>}
+            <div className="p-3 bg-yellow-50 border border-yellow-200 text-yellow-800 text-sm rounded-md">
+                <p><strong className="font-bold">مهم:</strong> عبارت رمز در هیچ جا ذخیره نمی‌شود. در صورت فراموشی آن، داده‌های رمزنگاری‌شده از دست می‌روند.</p>
+            </div>
+        </div>
+    );
+};
+
+const RetentionPolicyPanel: React.FC = () => {
+    const { retentionPolicy, updateRetentionPolicy, getAllPipelineStages } = useSettings();
+    const { runRetentionSweep } = useCandidates();
+    const { requireReauth } = useAuth();
+    const { addToast } = useToast();
+    const [policy, setPolicy] = useState<RetentionPolicy>(retentionPolicy);
+    const [isRunning, setIsRunning] = useState(false);
+    const stageOptions = [{ id: ARCHIVE_STAGE_ID, title: 'آرشیو' }, ...getAllPipelineStages()];
+
+    const updateRule = (index: number, changes: Partial<RetentionRule>) => {
+        setPolicy(prev => ({ ...prev, rules: prev.rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule) }));
+    };
+
+    const handleSave = async () => {
+        if (policy.enabled && !retentionPolicy.enabled && !(await requireReauth('فعال‌سازی سیاست نگهداری داده‌ها'))) return;
+        updateRetentionPolicy(policy);
+    };
+
+    const handleRunNow = async () => {
+        if (!retentionPolicy.enabled) {
+            addToast('ابتدا سیاست نگهداری داده‌ها را فعال و ذخیره کنید.', 'error');
+            return;
+        }
+        if (!window.confirm('اطلاعات شخصی همه متقاضیانی که مهلت نگهداری آن‌ها گذشته است برای همیشه حذف می‌شود. ادامه می‌دهید؟')) return;
+        setIsRunning(true);
+        const count = await runRetentionSweep();
+        setIsRunning(false);
+        addToast(count > 0 ? `اطلاعات شخصی ${count} متقاضی حذف شد.` : 'هیچ متقاضی‌ای مشمول سیاست نگهداری نبود.', 'success');
+    };
+
+    return (
+        <div className="p-4 bg-gray-50 rounded-lg max-w-2xl mx-auto space-y-4">
+            <h3 className="text-lg font-bold text-gray-800">سیاست نگهداری داده‌ها</h3>
+            <p className="text-sm text-gray-600">
+                اطلاعات شخصی (نام، ایمیل، تلفن، یادداشت‌ها، رزومه و فایل‌های آزمون) متقاضیانی که همه درخواست‌هایشان در یکی از مراحل زیر است، پس از گذشت مدت تعیین‌شده از آخرین فعالیت حذف می‌شود. مرحله، امتیاز و تاریخ‌ها برای آمار باقی می‌مانند. بررسی در هر بار باز شدن برنامه انجام می‌شود.
+            </p>
+            <label className="flex items-center gap-2 text-sm font-medium">
+                <input type="checkbox" checked={policy.enabled} onChange={e => setPolicy(prev => ({ ...prev, enabled: e.target.checked }))} />
+                فعال‌سازی حذف خودکار اطلاعات شخصی
+            </label>
+            <div className="space-y-2">
+                {policy.rules.map((rule, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                        <select value={rule.stageId} onChange={e => updateRule(index, { stageId: e.target.value })} className="border border-gray-300 rounded-md py-2 px-3 text-sm flex-grow">
+                            {stageOptions.map(stage => <option key={stage.id} value={stage.id}>{stage.title}</option>)}
+                        </select>
+                        <input type="number" min={1} value={rule.months} onChange={e => updateRule(index, { months: Math.max(1, parseInt(e.target.value, 10) || 1) })} className="w-24 border border-gray-300 rounded-md py-2 px-3 text-sm"/>
+                        <span className="text-sm text-gray-600">ماه</span>
+                        <button onClick={() => setPolicy(prev => ({ ...prev, rules: prev.rules.filter((_, i) => i !== index) }))} className="text-red-500 hover:text-red-700 text-sm">حذف</button>
+                    </div>
+                ))}
+                <button onClick={() => setPolicy(prev => ({ ...prev, rules: [...prev.rules, { stageId: ARCHIVE_STAGE_ID, months: 12 }] }))} className="text-sm text-[var(--color-primary-600)] hover:underline">+ افزودن قانون</button>
+            </div>
+            <div className="flex justify-end gap-2">
+                <button onClick={handleRunNow} disabled={isRunning} className="bg-gray-200 text-gray-800 py-2 px-4 rounded-lg hover:bg-gray-300 text-sm disabled:bg-gray-100">{isRunning ? 'در حال اجرا...' : 'اجرای اکنون'}</button>
+                <button onClick={handleSave} className="bg-[var(--color-primary-600)] text-white py-2 px-4 rounded-lg hover:bg-[var(--color-primary-700)] text-sm">ذخیره سیاست</button>
+            </div>
+        </div>
+    );
+};
+
+// Candidates added before consents were tracked cannot be messaged until an admin confirms their consents,
+// e.g. after checking the original application forms.
+const LegacyConsentPanel: React.FC = () => {
+    const { candidates, confirmLegacyConsents } = useCandidates();
+    const { requireReauth } = useAuth();
+    const { addToast } = useToast();
+    const [types, setTypes] = useState<ConsentType[]>(['dataProcessing']);
+    const [source, setSource] = useState(CONSENT_SOURCES[0]);
+    const [isSaving, setIsSaving] = useState(false);
+    const legacyCount = candidates.filter(isLegacyConsentRecord).length;
+
+    if (legacyCount === 0) return null;
+
+    const toggleType = (type: ConsentType, checked: boolean) => {
+        setTypes(prev => checked ? [...prev, type] : prev.filter(t => t !== type));
+    };
+
+    const handleConfirm = async () => {
+        if (types.length === 0) {
+            addToast('حداقل یک نوع رضایت را انتخاب کنید.', 'error');
+            return;
+        }
+        if (!window.confirm(`رضایت‌های انتخاب‌شده با مبنای «${source}» و به نام شما برای ${legacyCount} متقاضی ثبت می‌شود. فقط در صورتی ادامه دهید که این رضایت واقعاً اخذ شده است. ادامه می‌دهید؟`)) return;
+        if (!(await requireReauth('تأیید رضایت متقاضیان قبلی'))) return;
+        setIsSaving(true);
+        const count = await confirmLegacyConsents(types, source);
+        setIsSaving(false);
+        if (count > 0) addToast(`رضایت برای ${count} متقاضی ثبت شد.`, 'success');
+    };
+
+    return (
+        <div className="p-4 bg-gray-50 rounded-lg max-w-2xl mx-auto space-y-4">
+            <h3 className="text-lg font-bold text-gray-800">رضایت متقاضیان قبلی</h3>
+            <p className="text-sm text-gray-600">
+                برای {legacyCount} متقاضی که پیش از ثبت رضایت‌ها اضافه شده‌اند هیچ رضایتی ثبت نشده است و ارسال پیام به آن‌ها ممکن نیست. اگر رضایت آن‌ها را در اختیار دارید، می‌توانید آن را یکجا ثبت کنید یا در پرونده هر متقاضی جداگانه وارد کنید.
+            </p>
+            <div className="space-y-1">
+                {(Object.keys(CONSENT_LABELS) as ConsentType[]).map(type => (
+                    <label key={type} className="flex items-center gap-2 text-sm">
+                        <input type="checkbox" checked={types.includes(type)} onChange={e => toggleType(type, e.target.checked)} />
+                        {CONSENT_LABELS[type]}
+                    </label>
+                ))}
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-gray-700">مبنای رضایت</label>
+                <select value={source} onChange={e => setSource(e.target.value)} className="mt-1 block w-full border border-gray-300 rounded-md py-2 px-3 text-sm">
+                    {CONSENT_SOURCES.map(s => <option key={s} value={s}>{s}</option>)}
+                </select>
+            </div>
+            <div className="flex justify-end">
+                <button onClick={handleConfirm} disabled={isSaving} className="bg-[var(--color-primary-600)] text-white py-2 px-4 rounded-lg hover:bg-[var(--color-primary-700)] text-sm disabled:bg-gray-400">{isSaving ? 'در حال ثبت...' : 'ثبت رضایت'}</button>
+            </div>
+        </div>
+    );
+};
+
 const TestLibraryPanel: React.FC = () => {
     const { testLibrary, addTest, updateTest, deleteTest } = useSettings();
     
@@ -797,14 +1494,186 @@ const AppearancePanel: React.FC = () => {
 };
 
 
+const AUDIT_PAGE_SIZE = 200;
+
+// Calendar day of an ISO timestamp as "YYYY/MM/DD" with Latin digits, comparable with KamaDatePicker values.
+const toJalaliDay = (timestamp: string): string => toLatinDigits(new persianDate(new Date(timestamp)).format('YYYY/MM/DD'));
+
+const AuditLogPanel: React.FC = () => {
+    const { addToast } = useToast();
+    const { candidates } = useCandidates();
+    const [entries, setEntries] = useState<AuditEntry[]>([]);
+    const [brokenAtSeq, setBrokenAtSeq] = useState<number | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [userFilter, setUserFilter] = useState('');
+    const [actionFilter, setActionFilter] = useState<AuditAction | ''>('');
+    const [fromDate, setFromDate] = useState('');
+    const [toDate, setToDate] = useState('');
+    const [visibleCount, setVisibleCount] = useState(AUDIT_PAGE_SIZE);
+
+    const loadEntries = async () => {
+        setIsLoading(true);
+        try {
+            const loaded = await auditService.getEntries();
+            setEntries(loaded);
+            setBrokenAtSeq(await auditService.verifyChain(loaded));
+        } catch (e) {
+            console.error('Failed to load audit log', e);
+            addToast('خطا در بارگذاری گزارش ممیزی.', 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadEntries();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    const usernames = useMemo(() => [...new Set(entries.map(e => e.username).filter(Boolean))].sort(), [entries]);
+
+    // Newest first
+    const filteredEntries = useMemo(() => {
+        const from = toLatinDigits(fromDate);
+        const to = toLatinDigits(toDate);
+        return entries.filter(entry => {
+            if (userFilter && entry.username !== userFilter) return false;
+            if (actionFilter && entry.action !== actionFilter) return false;
+            if (from || to) {
+                const day = toJalaliDay(entry.timestamp);
+                if (from && day < from) return false;
+                if (to && day > to) return false;
+            }
+            return true;
+        }).reverse();
+    }, [entries, userFilter, actionFilter, fromDate, toDate]);
+
+    const handleExport = () => {
+        if (filteredEntries.length === 0) {
+            addToast('هیچ رکوردی برای خروجی گرفتن وجود ندارد.', 'error');
+            return;
+        }
+        const csv = auditService.toCsv([...filteredEntries].reverse());
+        downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `audit_log_${new Date().toISOString().slice(0, 10)}.csv`);
+    };
+
+    const inputClass = "mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 text-sm";
+
+    // Entries only store ids, so candidate names are looked up from the current data and disappear once a record is anonymized or deleted
+    const targetLabel = (targetId?: string) => candidates.find(c => c.id === targetId)?.name || targetId || '—';
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                    <h3 className="text-lg font-bold text-gray-800">گزارش ممیزی</h3>
+                    {!isLoading && (brokenAtSeq === null ? (
+                        <span className="px-3 py-1 text-xs font-semibold text-green-800 bg-green-200 rounded-full">زنجیره سالم است ({entries.length} رکورد)</span>
+                    ) : (
+                        <span className="px-3 py-1 text-xs font-semibold text-red-800 bg-red-200 rounded-full">دستکاری از رکورد #{brokenAtSeq} به بعد</span>
+                    ))}
+                </div>
+                <div className="flex gap-2">
+                    <button onClick={loadEntries} className="bg-gray-200 text-gray-800 py-2 px-4 rounded-lg hover:bg-gray-300 text-sm">به‌روزرسانی</button>
+                    <button onClick={handleExport} className="bg-[var(--color-primary-600)] text-white py-2 px-4 rounded-lg hover:bg-[var(--color-primary-700)] text-sm">خروجی CSV</button>
+                </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 p-3 bg-gray-50 rounded-lg">
+                <div>
+                    <label className="block text-sm font-medium text-gray-700">کاربر</label>
+                    <select value={userFilter} onChange={e => setUserFilter(e.target.value)} className={inputClass}>
+                        <option value="">همه</option>
+                        {usernames.map(username => <option key={username} value={username}>{username}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700">عملیات</label>
+                    <select value={actionFilter} onChange={e => setActionFilter(e.target.value as AuditAction | '')} className={inputClass}>
+                        <option value="">همه</option>
+                        {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => <option key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700">از تاریخ</label>
+                    <KamaDatePicker value={fromDate} onChange={setFromDate} />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700">تا تاریخ</label>
+                    <KamaDatePicker value={toDate} onChange={setToDate} />
+                </div>
+            </div>
+            {isLoading ? (
+                <p className="text-sm text-gray-500">در حال بارگذاری...</p>
+            ) : filteredEntries.length === 0 ? (
+                <p className="text-sm text-gray-500">رکوردی یافت نشد.</p>
+            ) : (
+                <div className="overflow-x-auto border rounded-lg max-h-[50vh] overflow-y-auto">
+                    <table className="min-w-full text-sm">
+                        <thead className="bg-gray-100 sticky top-0">
+                            <tr>
+                                <th className="p-2 text-right">#</th>
+                                <th className="p-2 text-right">زمان</th>
+                                <th className="p-2 text-right">کاربر</th>
+                                <th className="p-2 text-right">عملیات</th>
+                                <th className="p-2 text-right">مورد</th>
+                                <th className="p-2 text-right">جزئیات</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {filteredEntries.slice(0, visibleCount).map(entry => (
+                                <tr key={entry.seq} className={`border-t ${brokenAtSeq !== null && entry.seq >= brokenAtSeq ? 'bg-red-50' : ''}`}>
+                                    <td className="p-2 text-gray-500">{entry.seq}</td>
+                                    <td className="p-2 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString('fa-IR')}</td>
+                                    <td className="p-2 whitespace-nowrap">{entry.userDisplayName || entry.username || '—'}</td>
+                                    <td className="p-2 whitespace-nowrap">{AUDIT_ACTION_LABELS[entry.action] || entry.action}</td>
+                                    <td className="p-2 whitespace-nowrap">{targetLabel(entry.targetId)}</td>
+                                    <td className="p-2 text-gray-600">{entry.details || '—'}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            {filteredEntries.length > visibleCount && (
+                <div className="flex justify-center">
+                    <button onClick={() => setVisibleCount(count => count + AUDIT_PAGE_SIZE)} className="text-sm text-[var(--color-primary-600)] hover:underline">
+                        نمایش رکوردهای بیشتر ({filteredEntries.length - visibleCount} مورد باقی‌مانده)
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
 const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
-    type Tab = 'appearance' | 'profile' | 'stages' | 'users' | 'sources' | 'templates' | 'apiKey' | 'tests';
-    const [activeTab, setActiveTab] = useState<Tab>('apiKey');
+    type Tab = 'appearance' | 'profile' | 'stages' | 'users' | 'sources' | 'tags' | 'fields' | 'scorecards' | 'templates' | 'apiKey' | 'tests' | 'security' | 'audit';
+    const { can } = useAuth();
+
+    const tabs: { id: Tab; label: string; permission: Permission }[] = [
+        { id: 'apiKey', label: 'کلید API', permission: 'settings:system' },
+        { id: 'security', label: 'امنیت داده‌ها', permission: 'settings:system' },
+        { id: 'appearance', label: 'ظاهر برنامه', permission: 'settings:system' },
+        { id: 'profile', label: 'پروفایل شرکت', permission: 'settings:company' },
+        { id: 'stages', label: 'مراحل کانبان', permission: 'settings:pipeline' },
+        { id: 'scorecards', label: 'کارت‌های ارزیابی', permission: 'settings:pipeline' },
+        { id: 'tests', label: 'کتابخانه آزمون', permission: 'settings:tests' },
+        { id: 'templates', label: 'مدیریت قالب‌ها', permission: 'settings:templates' },
+        { id: 'users', label: 'مدیریت کاربران', permission: 'settings:users' },
+        { id: 'sources', label: 'مدیریت منابع', permission: 'settings:company' },
+        { id: 'tags', label: 'برچسب‌ها', permission: 'settings:company' },
+        { id: 'fields', label: 'فیلدهای سفارشی', permission: 'settings:company' },
+        { id: 'audit', label: 'گزارش ممیزی', permission: 'audit:view' },
+    ];
+    const allowedTabs = tabs.filter(tab => can(tab.permission));
+    const [selectedTab, setActiveTab] = useState<Tab>(allowedTabs[0]?.id || 'apiKey');
+    // Falls back to the first allowed tab if the role changes while the modal is mounted
+    const activeTab = allowedTabs.some(tab => tab.id === selectedTab) ? selectedTab : allowedTabs[0]?.id;
 
     const tabClasses = (tabName: Tab) => 
         `whitespace-nowrap py-2 px-4 font-medium text-sm rounded-t-lg transition-colors cursor-pointer ${
@@ -818,25 +1687,31 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
             <div className="w-full">
                 <div className="border-b border-gray-200">
                     <nav className="flex flex-wrap space-x-2 space-x-reverse">
-                        <button onClick={() => setActiveTab('apiKey')} className={tabClasses('apiKey')}>کلید API</button>
-                        <button onClick={() => setActiveTab('appearance')} className={tabClasses('appearance')}>ظاهر برنامه</button>
-                        <button onClick={() => setActiveTab('profile')} className={tabClasses('profile')}>پروفایل شرکت</button>
-                        <button onClick={() => setActiveTab('stages')} className={tabClasses('stages')}>مراحل کانبان</button>
-                        <button onClick={() => setActiveTab('tests')} className={tabClasses('tests')}>کتابخانه آزمون</button>
-                        <button onClick={() => setActiveTab('templates')} className={tabClasses('templates')}>مدیریت قالب‌ها</button>
-                        <button onClick={() => setActiveTab('users')} className={tabClasses('users')}>مدیریت کاربران</button>
-                        <button onClick={() => setActiveTab('sources')} className={tabClasses('sources')}>مدیریت منابع</button>
+                        {allowedTabs.map(tab => (
+                            <button key={tab.id} onClick={() => setActiveTab(tab.id)} className={tabClasses(tab.id)}>{tab.label}</button>
+                        ))}
                     </nav>
                 </div>
                 <div className="pt-6 bg-white p-6 rounded-b-lg">
                     {activeTab === 'appearance' && <AppearancePanel />}
                     {activeTab === 'profile' && <CompanyProfilePanel />}
                     {activeTab === 'stages' && <StageManagementPanel />}
+                    {activeTab === 'scorecards' && <ScorecardTemplatePanel />}
                     {activeTab === 'users' && <UserManagementPanel />}
                     {activeTab === 'sources' && <SourceManagementPanel />}
+                    {activeTab === 'tags' && <TagManagementPanel />}
+                    {activeTab === 'fields' && <CustomFieldManagementPanel />}
                     {activeTab === 'templates' && <TemplateManagementPanel />}
                     {activeTab === 'apiKey' && <ApiKeyPanel />}
+                    {activeTab === 'security' && (
+                        <div className="space-y-6">
+                            <EncryptionPanel />
+                            <RetentionPolicyPanel />
+                            <LegacyConsentPanel />
+                        </div>
+                    )}
                     {activeTab === 'tests' && <TestLibraryPanel />}
+                    {activeTab === 'audit' && <AuditLogPanel />}
                 </div>
             </div>
         </Modal>
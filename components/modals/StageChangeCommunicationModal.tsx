@@ -6,6 +6,8 @@ import { templateService } from '../../services/templateService';
 import { useSettings } from '../../contexts/SettingsContext';
 import { useToast } from '../../contexts/ToastContext';
 import { EmailIcon, WhatsappIcon } from '../ui/Icons';
+import { normalizePhone } from '../../utils/candidateUtils';
+import { describeMissingConsents } from '../../utils/consentUtils';
 
 interface StageChangeCommunicationModalProps {
   isOpen: boolean;
@@ -21,7 +23,7 @@ const StageChangeCommunicationModal: React.FC<StageChangeCommunicationModalProps
   onConfirm,
 }) => {
   const { templates } = useTemplates();
-  const { companyProfile } = useSettings();
+  const { companyProfile, customFields } = useSettings();
   const { addToast } = useToast();
 
   const { candidate, newStage } = stageChangeInfo;
@@ -62,17 +64,23 @@ const StageChangeCommunicationModal: React.FC<StageChangeCommunicationModalProps
     let notificationsSent = false;
     // FIX: Destructure companyProfile to exclude 'jobPositions' which is not a string and causes a type error.
     const { jobPositions, ...companyDetails } = companyProfile;
+    const emailBlockedReason = describeMissingConsents(candidate, 'email');
+    const whatsappBlockedReason = describeMissingConsents(candidate, 'whatsapp');
     
     if (isInterviewStage) {
-      if (sendEmail && emailTemplate) {
-        const message = templateService.replacePlaceholders(emailTemplate.content, candidate, { stageName: newStage.title, ...companyDetails });
+      if (sendEmail && emailTemplate && emailBlockedReason) {
+        addToast(`ایمیل ارسال نشد. ${emailBlockedReason}`, 'error');
+      } else if (sendEmail && emailTemplate) {
+        const message = templateService.replacePlaceholders(emailTemplate.content, candidate, { stageName: newStage.title, ...companyDetails }, customFields);
         window.open(`mailto:${candidate.email}?subject=اطلاع رسانی فرآیند استخدام&body=${encodeURIComponent(message)}`, '_blank');
         notificationsSent = true;
       }
-      if (sendWhatsapp && whatsappTemplate) {
-        const whatsappNumber = candidate.phone ? candidate.phone.replace(/[^0-9]/g, '').replace(/^0/, '98') : '';
+      if (sendWhatsapp && whatsappTemplate && whatsappBlockedReason) {
+        addToast(`پیام واتسپ ارسال نشد. ${whatsappBlockedReason}`, 'error');
+      } else if (sendWhatsapp && whatsappTemplate) {
+        const whatsappNumber = normalizePhone(candidate.phone);
         if (whatsappNumber) {
-          const message = templateService.replacePlaceholders(whatsappTemplate.content, candidate, { stageName: newStage.title, ...companyDetails });
+          const message = templateService.replacePlaceholders(whatsappTemplate.content, candidate, { stageName: newStage.title, ...companyDetails }, customFields);
           window.open(`https://wa.me/${whatsappNumber}?text=${encodeURIComponent(message)}`, '_blank');
           notificationsSent = true;
         } else {
@@ -87,13 +95,17 @@ const StageChangeCommunicationModal: React.FC<StageChangeCommunicationModalProps
         addToast('قالب پیام یافت نشد.', 'error');
         return;
       }
-      const message = templateService.replacePlaceholders(template.content, candidate, { stageName: newStage.title, ...companyDetails });
+      const message = templateService.replacePlaceholders(template.content, candidate, { stageName: newStage.title, ...companyDetails }, customFields);
+      const blockedReason = communicationType === 'email' ? emailBlockedReason : whatsappBlockedReason;
 
-      if (communicationType === 'email') {
+      if (blockedReason) {
+        // The stage still changes, only the message is withheld
+        addToast(`پیام اطلاع‌رسانی ارسال نشد. ${blockedReason}`, 'error');
+      } else if (communicationType === 'email') {
         window.open(`mailto:${candidate.email}?subject=اطلاع رسانی فرآیند استخدام&body=${encodeURIComponent(message)}`, '_blank');
         addToast(`ایمیل اطلاع‌رسانی برای ${candidate.name} آماده ارسال شد.`, 'success');
       } else {
-        const whatsappNumber = candidate.phone ? candidate.phone.replace(/[^0-9]/g, '').replace(/^0/, '98') : '';
+        const whatsappNumber = normalizePhone(candidate.phone);
         if (whatsappNumber) {
           window.open(`https://wa.me/${whatsappNumber}?text=${encodeURIComponent(message)}`, '_blank');
           addToast(`پیام واتسپ برای ${candidate.name} آماده ارسال شد.`, 'success');
@@ -134,7 +146,7 @@ const StageChangeCommunicationModal: React.FC<StageChangeCommunicationModalProps
     const relevantTemplate = communicationType === 'email' ? emailTemplate : whatsappTemplate;
     // FIX: Destructure companyProfile to exclude 'jobPositions' which is not a string and causes a type error.
     const { jobPositions, ...companyDetails } = companyProfile;
-    const message = relevantTemplate ? templateService.replacePlaceholders(relevantTemplate.content, candidate, { stageName: newStage.title, ...companyDetails }) : '';
+    const message = relevantTemplate ? templateService.replacePlaceholders(relevantTemplate.content, candidate, { stageName: newStage.title, ...companyDetails }, customFields) : '';
     
     return hasAnyTemplate ? (
       <div className="space-y-4">
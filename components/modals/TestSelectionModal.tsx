@@ -1,9 +1,12 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import Modal from '../ui/Modal';
 import { useSettings } from '../../contexts/SettingsContext';
 import { useCandidates } from '../../contexts/CandidatesContext';
 import { useToast } from '../../contexts/ToastContext';
 import { EmailIcon, WhatsappIcon } from '../ui/Icons';
+import { normalizePhone } from '../../utils/candidateUtils';
+import { describeMissingConsents } from '../../utils/consentUtils';
+import { getPositionTitle } from '../../utils/applicationUtils';
 
 interface TestSelectionModalProps {
   isOpen: boolean;
@@ -12,15 +15,22 @@ interface TestSelectionModalProps {
 }
 
 const TestSelectionModal: React.FC<TestSelectionModalProps> = ({ isOpen, onClose, candidateId }) => {
-  const { testLibrary } = useSettings();
+  const { testLibrary, companyProfile } = useSettings();
   const { candidates, updateTestResult } = useCandidates();
   const { addToast } = useToast();
   
   const [selectedTestIds, setSelectedTestIds] = useState<Set<string>>(new Set());
   const [deadlineHours, setDeadlineHours] = useState('48');
+  const [applicationId, setApplicationId] = useState('');
 
   const candidate = candidates.find(c => c.id === candidateId);
 
+  // Tests are sent for one application; the primary one is preselected
+  useEffect(() => {
+    setApplicationId(candidate?.applications[0]?.id || '');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [candidateId]);
+
   const handleTestSelection = (testId: string) => {
     setSelectedTestIds(prev => {
       const newSet = new Set(prev);
@@ -34,11 +44,16 @@ const TestSelectionModal: React.FC<TestSelectionModalProps> = ({ isOpen, onClose
   };
 
   const handleSend = async (platform: 'email' | 'whatsapp') => {
-    if (!candidate) return;
+    if (!candidate || !applicationId) return;
     if (selectedTestIds.size === 0) {
       addToast('لطفا حداقل یک آزمون را انتخاب کنید.', 'error');
       return;
     }
+    const blockedReason = describeMissingConsents(candidate, platform);
+    if (blockedReason) {
+      addToast(blockedReason, 'error');
+      return;
+    }
 
     const selectedTests = testLibrary.filter(t => selectedTestIds.has(t.id));
     
@@ -50,7 +65,7 @@ const TestSelectionModal: React.FC<TestSelectionModalProps> = ({ isOpen, onClose
     if (platform === 'email') {
       window.location.href = `mailto:${candidate.email}?subject=آزمون‌های استخدامی&body=${encodeURIComponent(body)}`;
     } else if (platform === 'whatsapp') {
-      const whatsappNumber = candidate.phone ? candidate.phone.replace(/[^0-9]/g, '').replace(/^0/, '98') : '';
+      const whatsappNumber = normalizePhone(candidate.phone);
       if (whatsappNumber) {
         window.open(`https://wa.me/${whatsappNumber}?text=${encodeURIComponent(body)}`, '_blank');
       } else {
@@ -62,7 +77,7 @@ const TestSelectionModal: React.FC<TestSelectionModalProps> = ({ isOpen, onClose
     // Update candidate data sequentially to ensure each save completes
     const sentDate = new Date().toISOString();
     for (const testId of selectedTestIds) {
-      await updateTestResult(candidate.id, testId, {
+      await updateTestResult(candidate.id, applicationId, testId, {
         status: 'pending',
         sentDate,
         deadlineHours: deadlineHours ? parseInt(deadlineHours) : undefined,
@@ -78,6 +93,21 @@ const TestSelectionModal: React.FC<TestSelectionModalProps> = ({ isOpen, onClose
   return (
     <Modal isOpen={isOpen} onClose={onClose} title={`ارسال آزمون برای ${candidate.name}`}>
       <div className="space-y-6">
+        {candidate.applications.length > 1 && (
+          <div>
+            <label htmlFor="application" className="block text-sm font-medium text-gray-700">درخواست</label>
+            <select
+              id="application"
+              value={applicationId}
+              onChange={e => setApplicationId(e.target.value)}
+              className="mt-1 block w-full border border-gray-300 bg-white rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-[var(--color-primary-500)] focus:border-[var(--color-primary-500)] sm:text-sm"
+            >
+              {candidate.applications.map(application => (
+                <option key={application.id} value={application.id}>{getPositionTitle(application, companyProfile.jobPositions)}</option>
+              ))}
+            </select>
+          </div>
+        )}
         <div>
           <h4 className="font-bold mb-2">آزمون‌های موجود</h4>
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-60 overflow-y-auto p-2 bg-gray-50 rounded-md">
@@ -0,0 +1,209 @@
+import React, { useState, useEffect } from 'react';
+import { Candidate, CandidateProfile, EducationEntry, MilitaryServiceStatus } from '../../types';
+import { MILITARY_SERVICE_LABELS } from '../../constants';
+import { useCandidates } from '../../contexts/CandidatesContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { useToast } from '../../contexts/ToastContext';
+import { aiService } from '../../services/aiService';
+import { dbService } from '../../services/dbService';
+import { toLatinDigits } from '../../utils/candidateUtils';
+
+interface CandidateProfilePanelProps {
+  candidate: Candidate;
+  canEdit: boolean;
+}
+
+// Lists are edited as comma separated text; both Latin and Persian commas are accepted.
+const splitList = (text: string): string[] | undefined => {
+  const items = text.split(/[,،]/).map(s => s.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+};
+const joinList = (items?: string[]) => (items || []).join('، ');
+
+const EMPTY_EDUCATION: EducationEntry = { degree: '', field: '', institution: '' };
+
+const inputClass = 'w-full border border-gray-300 rounded-md shadow-sm py-1 px-2 text-sm';
+
+const Chips: React.FC<{ items?: string[] }> = ({ items }) => (
+  <div className="flex flex-wrap gap-1">
+    {(items || []).map(item => <span key={item} className="px-2 py-0.5 rounded-full bg-white border border-gray-200 text-xs">{item}</span>)}
+  </div>
+);
+
+const CandidateProfilePanel: React.FC<CandidateProfilePanelProps> = ({ candidate, canEdit }) => {
+  const { updateCandidate } = useCandidates();
+  const { geminiApiKey } = useSettings();
+  const { addToast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [education, setEducation] = useState<EducationEntry[]>([]);
+  const [yearsOfExperience, setYearsOfExperience] = useState('');
+  const [skills, setSkills] = useState('');
+  const [previousEmployers, setPreviousEmployers] = useState('');
+  const [languages, setLanguages] = useState('');
+  const [location, setLocation] = useState('');
+  const [militaryServiceStatus, setMilitaryServiceStatus] = useState<MilitaryServiceStatus | ''>('');
+  const [expectedSalary, setExpectedSalary] = useState('');
+
+  const profile = candidate.profile || {};
+
+  const loadForm = (source: CandidateProfile) => {
+    setEducation(source.education || []);
+    setYearsOfExperience(source.yearsOfExperience !== undefined ? String(source.yearsOfExperience) : '');
+    setSkills(joinList(source.skills));
+    setPreviousEmployers(joinList(source.previousEmployers));
+    setLanguages(joinList(source.languages));
+    setLocation(source.location || '');
+    setMilitaryServiceStatus(source.militaryServiceStatus || '');
+    setExpectedSalary(source.expectedSalary || '');
+  };
+
+  useEffect(() => {
+    setIsEditing(false);
+  }, [candidate.id]);
+
+  const handleStartEdit = () => {
+    loadForm(profile);
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    const years = Number(toLatinDigits(yearsOfExperience));
+    const entries: CandidateProfile = {
+      education: education.filter(e => e.degree.trim() || e.field.trim() || e.institution.trim()),
+      yearsOfExperience: yearsOfExperience.trim() && Number.isFinite(years) && years >= 0 ? years : undefined,
+      skills: splitList(skills),
+      previousEmployers: splitList(previousEmployers),
+      languages: splitList(languages),
+      location: location.trim() || undefined,
+      militaryServiceStatus: militaryServiceStatus || undefined,
+      expectedSalary: expectedSalary.trim() || undefined,
+    };
+    if (entries.education?.length === 0) entries.education = undefined;
+    const updated = Object.fromEntries(Object.entries(entries).filter(([, value]) => value !== undefined)) as CandidateProfile;
+    await updateCandidate({ ...candidate, profile: Object.keys(updated).length > 0 ? updated : undefined });
+    setIsEditing(false);
+  };
+
+  // Fills the form from the stored resume; the user reviews the values before saving.
+  const handleExtract = async () => {
+    if (!geminiApiKey) return;
+    setIsExtracting(true);
+    try {
+      const file = await dbService.getResume(candidate.id);
+      if (!file) {
+        addToast('فایل رزومه یافت نشد.', 'error');
+        return;
+      }
+      const parsed = await aiService.parseResume(geminiApiKey, file);
+      loadForm({ ...profile, ...parsed.profile });
+      setIsEditing(true);
+      addToast('اطلاعات از رزومه استخراج شد. پس از بررسی ذخیره کنید.', 'success');
+    } catch (error: any) {
+      addToast(error.message || 'خطا در تحلیل رزومه.', 'error');
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const updateEducation = (index: number, changes: Partial<EducationEntry>) => {
+    setEducation(prev => prev.map((e, i) => i === index ? { ...e, ...changes } : e));
+  };
+
+  const isEmpty = Object.keys(profile).length === 0;
+
+  return (
+    <div className="p-4 bg-gray-100 rounded-lg space-y-3">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h4 className="font-bold text-gray-800">پروفایل حرفه‌ای</h4>
+        {canEdit && !isEditing && (
+          <div className="flex gap-2">
+            {candidate.hasResume && (
+              <button onClick={handleExtract} disabled={!geminiApiKey || isExtracting} title={!geminiApiKey ? 'ویژگی هوش مصنوعی غیرفعال است. لطفاً کلید API را تنظیم کنید.' : undefined} className="text-sm px-3 py-1 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed">
+                {isExtracting ? 'در حال تحلیل...' : 'استخراج از رزومه ✨'}
+              </button>
+            )}
+            <button onClick={handleStartEdit} className="text-sm px-3 py-1 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">ویرایش</button>
+          </div>
+        )}
+      </div>
+
+      {isEditing ? (
+        <div className="space-y-3 text-sm">
+          <div>
+            <p className="font-medium text-gray-700 mb-1">تحصیلات</p>
+            {education.map((entry, index) => (
+              <div key={index} className="grid grid-cols-2 md:grid-cols-5 gap-2 mb-2">
+                <input value={entry.degree} onChange={e => updateEducation(index, { degree: e.target.value })} placeholder="مقطع" className={inputClass} />
+                <input value={entry.field} onChange={e => updateEducation(index, { field: e.target.value })} placeholder="رشته" className={inputClass} />
+                <input value={entry.institution} onChange={e => updateEducation(index, { institution: e.target.value })} placeholder="دانشگاه" className={inputClass} />
+                <input value={entry.graduationYear || ''} onChange={e => updateEducation(index, { graduationYear: e.target.value || undefined })} placeholder="سال فارغ‌التحصیلی" className={inputClass} />
+                <button onClick={() => setEducation(prev => prev.filter((_, i) => i !== index))} className="text-red-500 hover:text-red-700">حذف</button>
+              </div>
+            ))}
+            <button onClick={() => setEducation(prev => [...prev, { ...EMPTY_EDUCATION }])} className="text-[var(--color-primary-600)] hover:underline">+ افزودن مدرک</button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <label className="block">
+              <span className="text-gray-700">سال‌های سابقه کار</span>
+              <input type="number" min="0" value={yearsOfExperience} onChange={e => setYearsOfExperience(e.target.value)} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="text-gray-700">محل سکونت</span>
+              <input value={location} onChange={e => setLocation(e.target.value)} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="text-gray-700">وضعیت خدمت سربازی</span>
+              <select value={militaryServiceStatus} onChange={e => setMilitaryServiceStatus(e.target.value as MilitaryServiceStatus | '')} className={`${inputClass} bg-white`}>
+                <option value="">نامشخص</option>
+                {(Object.keys(MILITARY_SERVICE_LABELS) as MilitaryServiceStatus[]).map(status => <option key={status} value={status}>{MILITARY_SERVICE_LABELS[status]}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-gray-700">حقوق درخواستی</span>
+              <input value={expectedSalary} onChange={e => setExpectedSalary(e.target.value)} className={inputClass} />
+            </label>
+          </div>
+          <label className="block">
+            <span className="text-gray-700">مهارت‌ها (با ویرگول جدا کنید)</span>
+            <input value={skills} onChange={e => setSkills(e.target.value)} className={inputClass} />
+          </label>
+          <label className="block">
+            <span className="text-gray-700">کارفرمایان قبلی</span>
+            <input value={previousEmployers} onChange={e => setPreviousEmployers(e.target.value)} className={inputClass} />
+          </label>
+          <label className="block">
+            <span className="text-gray-700">زبان‌ها</span>
+            <input value={languages} onChange={e => setLanguages(e.target.value)} className={inputClass} />
+          </label>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setIsEditing(false)} className="bg-gray-200 text-gray-800 py-1 px-4 rounded-lg hover:bg-gray-300">انصراف</button>
+            <button onClick={handleSave} className="bg-[var(--color-primary-600)] text-white py-1 px-4 rounded-lg hover:bg-[var(--color-primary-700)]">ذخیره پروفایل</button>
+          </div>
+        </div>
+      ) : isEmpty ? (
+        <p className="text-sm text-gray-500">اطلاعات پروفایل ثبت نشده است.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+          {profile.education && (
+            <div className="md:col-span-2">
+              <p className="text-gray-500">تحصیلات</p>
+              {profile.education.map((e, i) => (
+                <p key={i} className="font-medium">{[e.degree, e.field, e.institution].filter(Boolean).join(' - ')}{e.graduationYear ? ` (${e.graduationYear})` : ''}</p>
+              ))}
+            </div>
+          )}
+          {profile.yearsOfExperience !== undefined && <div><p className="text-gray-500">سابقه کار</p><p className="font-medium">{profile.yearsOfExperience} سال</p></div>}
+          {profile.location && <div><p className="text-gray-500">محل سکونت</p><p className="font-medium">{profile.location}</p></div>}
+          {profile.militaryServiceStatus && <div><p className="text-gray-500">خدمت سربازی</p><p className="font-medium">{MILITARY_SERVICE_LABELS[profile.militaryServiceStatus]}</p></div>}
+          {profile.expectedSalary && <div><p className="text-gray-500">حقوق درخواستی</p><p className="font-medium">{profile.expectedSalary}</p></div>}
+          {profile.skills && <div className="md:col-span-2"><p className="text-gray-500 mb-1">مهارت‌ها</p><Chips items={profile.skills} /></div>}
+          {profile.previousEmployers && <div><p className="text-gray-500 mb-1">کارفرمایان قبلی</p><Chips items={profile.previousEmployers} /></div>}
+          {profile.languages && <div><p className="text-gray-500 mb-1">زبان‌ها</p><Chips items={profile.languages} /></div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CandidateProfilePanel;
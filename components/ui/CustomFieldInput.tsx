@@ -0,0 +1,45 @@
+import React from 'react';
+import { CustomFieldDefinition, CustomFieldValue } from '../../types';
+import { parseCustomFieldInput } from '../../utils/customFieldUtils';
+import KamaDatePicker from './KamaDatePicker';
+
+interface CustomFieldInputProps {
+  field: CustomFieldDefinition;
+  value?: CustomFieldValue;
+  onChange: (value: CustomFieldValue | undefined) => void;
+}
+
+const inputClass = "mt-1 block w-full border border-gray-300 bg-white rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-[var(--color-primary-500)] focus:border-[var(--color-primary-500)] sm:text-sm";
+
+// Renders the input matching the type of an admin-defined field; an empty input clears the value.
+const CustomFieldInput: React.FC<CustomFieldInputProps> = ({ field, value, onChange }) => {
+  const handleText = (raw: string) => onChange(parseCustomFieldInput(field, raw));
+
+  switch (field.type) {
+    case 'number':
+      return <input type="number" value={value === undefined ? '' : String(value)} onChange={e => handleText(e.target.value)} className={inputClass} />;
+    case 'date':
+      return <KamaDatePicker value={value === undefined ? '' : String(value)} onChange={handleText} />;
+    case 'select':
+      return (
+        <select value={value === undefined ? '' : String(value)} onChange={e => handleText(e.target.value)} className={inputClass}>
+          <option value="">انتخاب نشده</option>
+          {(field.options || []).map(option => <option key={option} value={option}>{option}</option>)}
+        </select>
+      );
+    case 'boolean':
+      return (
+        <select value={value === undefined ? '' : String(value)} onChange={e => handleText(e.target.value)} className={inputClass}>
+          <option value="">انتخاب نشده</option>
+          <option value="true">بله</option>
+          <option value="false">خیر</option>
+        </select>
+      );
+    case 'url':
+      return <input type="url" dir="ltr" placeholder="https://" value={value === undefined ? '' : String(value)} onChange={e => onChange(e.target.value || undefined)} className={inputClass} />;
+    case 'text':
+      return <input type="text" value={value === undefined ? '' : String(value)} onChange={e => onChange(e.target.value || undefined)} className={inputClass} />;
+  }
+};
+
+export default CustomFieldInput;
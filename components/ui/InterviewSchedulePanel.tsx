@@ -0,0 +1,277 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Application, Candidate, InterviewConflict, InterviewEvent } from '../../types';
+import { USER_ROLE_LABELS } from '../../constants';
+import { useAuth } from '../../contexts/AuthContext';
+import { useCandidates } from '../../contexts/CandidatesContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { useTemplates } from '../../contexts/TemplateContext';
+import { useToast } from '../../contexts/ToastContext';
+import { templateService } from '../../services/templateService';
+import { normalizePhone } from '../../utils/candidateUtils';
+import { describeMissingConsents } from '../../utils/consentUtils';
+import { isValidUrl } from '../../utils/customFieldUtils';
+import {
+  DEFAULT_INTERVIEW_DURATION, INTERVIEW_DURATIONS, findInterviewConflicts, flattenInterviews, getInterviewEnd, getInterviewStart, sortInterviews,
+} from '../../utils/interviewUtils';
+import KamaDatePicker from './KamaDatePicker';
+import { EmailIcon, WhatsappIcon } from './Icons';
+
+interface InterviewSchedulePanelProps {
+  candidate: Candidate;
+  application: Application;
+}
+
+type InterviewDraft = Omit<InterviewEvent, 'id'>;
+
+const inputClass = "w-full border rounded-lg shadow-sm p-2 text-gray-800 bg-white focus:ring-2 focus:ring-[var(--color-primary-500)] focus:border-[var(--color-primary-500)] border-gray-300 text-sm";
+
+const InterviewSchedulePanel: React.FC<InterviewSchedulePanelProps> = ({ candidate, application }) => {
+  const { users, can } = useAuth();
+  const { applications, scheduleInterview, cancelInterview, addCustomHistoryEntry } = useCandidates();
+  const { companyProfile, customFields, getStagesForPosition } = useSettings();
+  const { templates } = useTemplates();
+  const { addToast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null); // 'new' while adding an interview
+  const [draft, setDraft] = useState<InterviewDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setEditingId(null);
+  }, [application.id]);
+
+  const emailReminderTemplate = templates.find(t => t.id === 'tpl_email_invite_reminder');
+  const whatsappReminderTemplate = templates.find(t => t.id === 'tpl_whatsapp_invite_reminder');
+  const interviewerOptions = Object.values(users).filter(u => u.role !== 'viewer');
+  const stageOptions = getStagesForPosition(application.jobPositionId).filter(s => !['archived', 'rejected', 'hired'].includes(s.id));
+  const canSchedule = can('candidate:edit') && !candidate.anonymizedAt;
+  const interviews = sortInterviews(application.interviews || []);
+  const userName = (username: string) => users[username]?.name || username;
+
+  // Conflicts are only checked against interviews the current user can see
+  const conflicts = useMemo<InterviewConflict[]>(() => {
+    if (!draft || !editingId) return [];
+    return findInterviewConflicts({ ...draft, id: editingId }, flattenInterviews(applications));
+  }, [draft, editingId, applications]);
+
+  const describeConflict = (conflict: InterviewConflict) => {
+    const slot = `${conflict.interview.date} ساعت ${conflict.interview.time}`;
+    return conflict.reason === 'interviewer'
+      ? `${conflict.interviewers.map(userName).join('، ')} در ${slot} مصاحبه ${conflict.candidate.name} را دارند.`
+      : `«${conflict.interview.location}» در ${slot} برای مصاحبه ${conflict.candidate.name} رزرو شده است.`;
+  };
+
+  const startEditing = (interview?: InterviewEvent) => {
+    setEditingId(interview?.id || 'new');
+    setDraft(interview
+      ? { stageId: interview.stageId, date: interview.date, time: interview.time, durationMinutes: interview.durationMinutes, interviewers: interview.interviewers, location: interview.location, meetingUrl: interview.meetingUrl }
+      : { stageId: application.stage, date: '', time: '', durationMinutes: DEFAULT_INTERVIEW_DURATION, interviewers: application.interviewers || [] });
+  };
+
+  const updateDraft = (changes: Partial<InterviewDraft>) => setDraft(prev => prev && { ...prev, ...changes });
+
+  const toggleInterviewer = (username: string) => {
+    if (!draft) return;
+    const interviewers = draft.interviewers.includes(username) ? draft.interviewers.filter(u => u !== username) : [...draft.interviewers, username];
+    updateDraft({ interviewers });
+  };
+
+  const handleSave = async () => {
+    if (!draft || !editingId) return;
+    if (!draft.date || !draft.time) {
+      addToast('لطفا تاریخ و ساعت مصاحبه را مشخص کنید.', 'error');
+      return;
+    }
+    if (draft.interviewers.length === 0) {
+      addToast('حداقل یک مصاحبه‌گر انتخاب کنید.', 'error');
+      return;
+    }
+    const meetingUrl = draft.meetingUrl?.trim();
+    if (meetingUrl && !isValidUrl(meetingUrl)) {
+      addToast('لینک جلسه آنلاین معتبر نیست.', 'error');
+      return;
+    }
+    if (conflicts.length > 0 && !window.confirm(`این مصاحبه با ${conflicts.length} مصاحبه دیگر تداخل دارد. با این حال ذخیره شود؟`)) return;
+    setIsSaving(true);
+    await scheduleInterview(candidate.id, application.id, {
+      ...draft,
+      id: editingId === 'new' ? `interview_${Date.now()}` : editingId,
+      location: draft.location?.trim() || undefined,
+      meetingUrl: meetingUrl || undefined,
+    });
+    setIsSaving(false);
+    setEditingId(null);
+  };
+
+  const handleCancel = (interview: InterviewEvent) => {
+    if (!window.confirm(`مصاحبه ${interview.date} ${interview.time || ''} لغو شود؟`)) return;
+    cancelInterview(candidate.id, application.id, interview.id);
+  };
+
+  const handleAddToGoogleCalendar = (interview: InterviewEvent) => {
+    const start = getInterviewStart(interview);
+    const end = getInterviewEnd(interview);
+    if (!interview.time || !start || !end) {
+      addToast('خطا در ساخت لینک تقویم گوگل. از صحیح بودن فرمت تاریخ و ساعت اطمینان حاصل کنید.', 'error');
+      return;
+    }
+    const toGoogleISO = (date: Date) => date.toISOString().replace(/-|:|\.\d+/g, '');
+    const details = [
+      `مصاحبه با ${candidate.name} برای موقعیت شغلی ${application.positionTitle}.`,
+      `مصاحبه‌گران: ${interview.interviewers.map(userName).join('، ')}`,
+      interview.meetingUrl ? `لینک جلسه: ${interview.meetingUrl}` : '',
+      `ایمیل: ${candidate.email}\nتلفن: ${candidate.phone}`,
+    ].filter(Boolean).join('\n');
+
+    const calendarUrl = new URL('https://www.google.com/calendar/render');
+    calendarUrl.searchParams.append('action', 'TEMPLATE');
+    calendarUrl.searchParams.append('text', `مصاحبه: ${candidate.name} برای ${application.positionTitle}`);
+    calendarUrl.searchParams.append('dates', `${toGoogleISO(start)}/${toGoogleISO(end)}`);
+    calendarUrl.searchParams.append('details', details);
+    calendarUrl.searchParams.append('location', interview.location || interview.meetingUrl || companyProfile.address);
+    window.open(calendarUrl.toString(), '_blank');
+  };
+
+  const handleSendReminder = (interview: InterviewEvent, platform: 'email' | 'whatsapp') => {
+    const blockedReason = describeMissingConsents(candidate, platform);
+    if (blockedReason) {
+      addToast(blockedReason, 'error');
+      return;
+    }
+    // The reminder is about this interview, not the one mirrored on the candidate
+    const placeholders = {
+      position: application.positionTitle,
+      interviewDate: interview.date,
+      interviewTime: interview.time,
+      interviewLocation: interview.location || interview.meetingUrl || companyProfile.address,
+      companyName: companyProfile.name,
+      companyAddress: companyProfile.address,
+      companyWebsite: companyProfile.website,
+    };
+
+    if (platform === 'email') {
+      if (!emailReminderTemplate) {
+        addToast('قالب ایمیل یادآوری یافت نشد.', 'error');
+        return;
+      }
+      const emailMessage = templateService.replacePlaceholders(emailReminderTemplate.content, candidate, placeholders, customFields);
+      window.open(`mailto:${candidate.email}?subject=یادآوری مصاحبه&body=${encodeURIComponent(emailMessage)}`);
+      addToast('یادآور ایمیل آماده ارسال شد.', 'success');
+      addCustomHistoryEntry(candidate.id, 'یادآور مصاحبه (ایمیل) ارسال شد');
+    } else {
+      const whatsappNumber = normalizePhone(candidate.phone);
+      if (!whatsappReminderTemplate || !whatsappNumber) {
+        if (!whatsappReminderTemplate) addToast('قالب واتسپ یادآوری یافت نشد.', 'error');
+        if (!whatsappNumber) addToast('شماره واتسپ نامعتبر است.', 'error');
+        return;
+      }
+      const whatsappMessage = templateService.replacePlaceholders(whatsappReminderTemplate.content, candidate, placeholders, customFields);
+      window.open(`https://wa.me/${whatsappNumber}?text=${encodeURIComponent(whatsappMessage)}`, '_blank');
+      addToast('یادآور واتسپ آماده ارسال شد.', 'success');
+      addCustomHistoryEntry(candidate.id, 'یادآور مصاحبه (واتسپ) ارسال شد');
+    }
+  };
+
+  const renderForm = (current: InterviewDraft) => (
+    <div className="space-y-3 bg-white p-3 rounded-lg border border-[var(--color-primary-200)]">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">تاریخ مصاحبه</label>
+          <KamaDatePicker value={current.date} onChange={date => updateDraft({ date })} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">ساعت مصاحبه</label>
+          <input type="time" value={current.time || ''} onChange={e => updateDraft({ time: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">مدت</label>
+          <select value={current.durationMinutes} onChange={e => updateDraft({ durationMinutes: Number(e.target.value) })} className={inputClass}>
+            {[...new Set([...INTERVIEW_DURATIONS, current.durationMinutes])].sort((a, b) => a - b).map(minutes => (
+              <option key={minutes} value={minutes}>{minutes} دقیقه</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">مرحله</label>
+          <select value={current.stageId} onChange={e => updateDraft({ stageId: e.target.value })} className={inputClass}>
+            {!stageOptions.some(s => s.id === current.stageId) && <option value={current.stageId}>{current.stageId}</option>}
+            {stageOptions.map(s => <option key={s.id} value={s.id}>{s.title}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">محل (اتاق یا آدرس)</label>
+          <input type="text" value={current.location || ''} onChange={e => updateDraft({ location: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">لینک جلسه آنلاین</label>
+          <input type="url" dir="ltr" placeholder="https://" value={current.meetingUrl || ''} onChange={e => updateDraft({ meetingUrl: e.target.value })} className={inputClass} />
+        </div>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">پنل مصاحبه</label>
+        <div className="flex flex-wrap gap-3 text-sm">
+          {interviewerOptions.map(u => (
+            <label key={u.username} className="flex items-center gap-1">
+              <input type="checkbox" checked={current.interviewers.includes(u.username)} onChange={() => toggleInterviewer(u.username)} />
+              {u.name} <span className="text-xs text-gray-500">({USER_ROLE_LABELS[u.role]})</span>
+            </label>
+          ))}
+        </div>
+      </div>
+      {conflicts.length > 0 && (
+        <ul className="p-2 bg-amber-50 border border-amber-300 rounded-lg text-sm text-amber-800 space-y-1">
+          {conflicts.map(conflict => <li key={`${conflict.interview.id}_${conflict.reason}`}>تداخل: {describeConflict(conflict)}</li>)}
+        </ul>
+      )}
+      <div className="flex justify-end gap-2">
+        <button onClick={() => setEditingId(null)} className="text-sm bg-gray-200 text-gray-800 py-1 px-4 rounded-lg hover:bg-gray-300">انصراف</button>
+        <button onClick={handleSave} disabled={isSaving} className="text-sm bg-green-500 text-white py-1 px-4 rounded-lg hover:bg-green-600 disabled:bg-gray-400">ذخیره مصاحبه</button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      {interviews.length === 0 && editingId !== 'new' && <p className="text-sm text-gray-500">هنوز مصاحبه‌ای زمان‌بندی نشده است.</p>}
+      {interviews.map(interview => editingId === interview.id && draft ? (
+        <React.Fragment key={interview.id}>{renderForm(draft)}</React.Fragment>
+      ) : (
+        <div key={interview.id} className="bg-white p-3 rounded-lg border border-gray-200 space-y-2">
+          <div className="flex flex-wrap justify-between items-start gap-2">
+            <div className="text-sm text-gray-800 space-y-0.5">
+              <p className="font-semibold">
+                {interview.date} {interview.time ? `ساعت ${interview.time}` : '(ساعت تعیین نشده)'}
+                <span className="font-normal text-gray-500"> - {interview.durationMinutes} دقیقه، {stageOptions.find(s => s.id === interview.stageId)?.title || interview.stageId}</span>
+              </p>
+              <p>مصاحبه‌گران: {interview.interviewers.length > 0 ? interview.interviewers.map(userName).join('، ') : '-'}</p>
+              {interview.location && <p>محل: {interview.location}</p>}
+              {interview.meetingUrl && <a href={interview.meetingUrl} target="_blank" rel="noopener noreferrer" dir="ltr" className="text-[var(--color-primary-600)] hover:underline break-all">{interview.meetingUrl}</a>}
+            </div>
+            {canSchedule && (
+              <div className="flex gap-3 text-sm">
+                <button onClick={() => startEditing(interview)} className="text-[var(--color-primary-600)] hover:underline">ویرایش</button>
+                <button onClick={() => handleCancel(interview)} className="text-red-500 hover:text-red-700">لغو</button>
+              </div>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => handleSendReminder(interview, 'email')} disabled={!emailReminderTemplate} className="text-white bg-amber-500 hover:bg-amber-600 rounded-lg py-1 px-3 text-sm flex items-center gap-1 disabled:bg-gray-400 disabled:cursor-not-allowed">
+              <EmailIcon className="w-4 h-4"/>
+              <span>یادآور ایمیل</span>
+            </button>
+            <button onClick={() => handleSendReminder(interview, 'whatsapp')} disabled={!whatsappReminderTemplate || !candidate.phone} className="text-white bg-teal-500 hover:bg-teal-600 rounded-lg py-1 px-3 text-sm flex items-center gap-1 disabled:bg-gray-400 disabled:cursor-not-allowed">
+              <WhatsappIcon className="w-4 h-4"/>
+              <span>یادآور واتسپ</span>
+            </button>
+            <button onClick={() => handleAddToGoogleCalendar(interview)} disabled={!interview.time} className="text-white bg-sky-500 hover:bg-sky-600 rounded-lg py-1 px-3 text-sm disabled:bg-gray-400 disabled:cursor-not-allowed">افزودن به تقویم گوگل</button>
+          </div>
+        </div>
+      ))}
+      {editingId === 'new' && draft && renderForm(draft)}
+      {canSchedule && editingId === null && (
+        <button onClick={() => startEditing()} className="w-full text-white bg-green-500 hover:bg-green-600 rounded-lg py-2 text-sm">زمان‌بندی مصاحبه جدید</button>
+      )}
+    </div>
+  );
+};
+
+export default InterviewSchedulePanel;
@@ -0,0 +1,226 @@
+import React, { useState, useEffect } from 'react';
+import { Application, Candidate, ScorecardSubmission, ScorecardTemplate } from '../../types';
+import { useAuth } from '../../contexts/AuthContext';
+import { useCandidates } from '../../contexts/CandidatesContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { useToast } from '../../contexts/ToastContext';
+import {
+  SCORECARD_SCALE, averageRating, findOwnSubmission, getApplicableScorecards, getScorecardRows, getSubmissions, validateScorecard,
+} from '../../utils/scorecardUtils';
+
+interface ScorecardPanelProps {
+  candidate: Candidate;
+  application: Application;
+}
+
+type ScoreDraft = Record<string, { rating: number; note: string }>;
+
+// A scorecard shown in the panel: a current template, or only its name when submissions outlived the template.
+interface ScorecardSection {
+  templateId: string;
+  name: string;
+  template?: ScorecardTemplate;
+  canSubmit: boolean; // The template applies to the current stage
+}
+
+const ratingColor = (rating: number | null) => {
+  if (rating === null) return 'text-gray-400';
+  if (rating >= 4) return 'text-green-700';
+  if (rating >= 3) return 'text-amber-700';
+  return 'text-red-700';
+};
+
+const ScorecardPanel: React.FC<ScorecardPanelProps> = ({ candidate, application }) => {
+  const { user, can } = useAuth();
+  const { companyProfile } = useSettings();
+  const { submitScorecard } = useCandidates();
+  const { addToast } = useToast();
+  const [editingTemplateId, setEditingTemplateId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ScoreDraft>({});
+  const [summary, setSummary] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setEditingTemplateId(null);
+  }, [application.id]);
+
+  const position = companyProfile.jobPositions.find(j => j.id === application.jobPositionId);
+  const applicable = getApplicableScorecards(application, companyProfile.jobPositions);
+  const sections: ScorecardSection[] = applicable.map(template => ({ templateId: template.id, name: template.name, template, canSubmit: true }));
+  for (const submission of application.scorecards || []) {
+    if (sections.some(s => s.templateId === submission.templateId)) continue;
+    const template = position?.scorecards?.find(t => t.id === submission.templateId);
+    sections.push({ templateId: submission.templateId, name: template?.name || submission.templateName, template, canSubmit: false });
+  }
+
+  if (sections.length === 0) return null;
+
+  const startEditing = (template: ScorecardTemplate, own?: ScorecardSubmission) => {
+    setEditingTemplateId(template.id);
+    setDraft(Object.fromEntries((own?.scores || []).map(s => [s.competencyId, { rating: s.rating, note: s.note || '' }])));
+    setSummary(own?.summary || '');
+  };
+
+  const handleSubmit = async (template: ScorecardTemplate) => {
+    if (!user) return;
+    const scores = template.competencies.map(c => ({
+      competencyId: c.id,
+      competencyName: c.name,
+      rating: draft[c.id]?.rating || 0,
+      note: draft[c.id]?.note.trim() || undefined,
+    }));
+    const error = validateScorecard(template, scores);
+    if (error) {
+      addToast(error, 'error');
+      return;
+    }
+    setIsSaving(true);
+    await submitScorecard(candidate.id, application.id, {
+      id: `scorecard_${Date.now()}`,
+      templateId: template.id,
+      templateName: template.name,
+      stageId: application.stage,
+      interviewer: user.username,
+      interviewerName: user.name,
+      submittedAt: new Date().toISOString(),
+      scores,
+      summary: summary.trim() || undefined,
+    });
+    setIsSaving(false);
+    setEditingTemplateId(null);
+  };
+
+  const renderForm = (template: ScorecardTemplate) => (
+    <div className="space-y-3 bg-white p-3 rounded-lg border border-[var(--color-primary-200)]">
+      {template.competencies.map(competency => {
+        const current = draft[competency.id] || { rating: 0, note: '' };
+        const setCurrent = (changes: Partial<{ rating: number; note: string }>) => setDraft(prev => ({ ...prev, [competency.id]: { ...current, ...changes } }));
+        return (
+          <div key={competency.id}>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <p className="text-sm font-semibold text-gray-800">{competency.name}{competency.requireNote && <span className="text-red-500"> *</span>}</p>
+                {competency.description && <p className="text-xs text-gray-500">{competency.description}</p>}
+              </div>
+              <div className="flex gap-1">
+                {SCORECARD_SCALE.map(value => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => setCurrent({ rating: value })}
+                    className={`w-8 h-8 rounded-full text-sm font-bold border ${current.rating === value ? 'bg-[var(--color-primary-600)] text-white border-[var(--color-primary-600)]' : 'bg-white text-gray-700 border-gray-300 hover:border-[var(--color-primary-400)]'}`}
+                  >
+                    {value}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <textarea
+              value={current.note}
+              onChange={e => setCurrent({ note: e.target.value })}
+              rows={2}
+              placeholder={competency.requireNote ? 'توضیح (الزامی)' : 'توضیح (اختیاری)'}
+              className="mt-1 w-full border border-gray-300 rounded-md py-1 px-2 text-sm"
+            />
+          </div>
+        );
+      })}
+      <div>
+        <p className="text-sm font-semibold text-gray-800">جمع‌بندی</p>
+        <textarea value={summary} onChange={e => setSummary(e.target.value)} rows={2} className="mt-1 w-full border border-gray-300 rounded-md py-1 px-2 text-sm" />
+      </div>
+      <div className="flex justify-end gap-2">
+        <button onClick={() => setEditingTemplateId(null)} className="text-sm bg-gray-200 text-gray-800 py-1 px-4 rounded-lg hover:bg-gray-300">انصراف</button>
+        <button onClick={() => handleSubmit(template)} disabled={isSaving} className="text-sm bg-[var(--color-primary-600)] text-white py-1 px-4 rounded-lg hover:bg-[var(--color-primary-700)] disabled:bg-gray-400">ثبت ارزیابی</button>
+      </div>
+    </div>
+  );
+
+  const renderComparison = (section: ScorecardSection, submissions: ScorecardSubmission[]) => {
+    const rows = getScorecardRows(section.template, submissions);
+    const ratingOf = (submission: ScorecardSubmission, competencyId: string) => submission.scores.find(s => s.competencyId === competencyId);
+    return (
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm bg-white rounded-lg">
+          <thead>
+            <tr className="border-b border-gray-200 text-gray-600">
+              <th className="text-right p-2 font-medium">شایستگی</th>
+              {submissions.map(s => <th key={s.id} className="p-2 font-medium text-center">{s.interviewerName}</th>)}
+              <th className="p-2 font-medium text-center">میانگین</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => {
+              const average = averageRating(submissions.map(s => ratingOf(s, row.id)?.rating).filter((r): r is number => r !== undefined));
+              return (
+                <tr key={row.id} className="border-b border-gray-100 align-top">
+                  <td className="p-2 text-gray-800">{row.name}</td>
+                  {submissions.map(s => {
+                    const score = ratingOf(s, row.id);
+                    return (
+                      <td key={s.id} className="p-2 text-center">
+                        <span className={`font-bold ${ratingColor(score?.rating ?? null)}`}>{score?.rating ?? '-'}</span>
+                        {score?.note && <p className="text-xs text-gray-500 text-right mt-1">{score.note}</p>}
+                      </td>
+                    );
+                  })}
+                  <td className={`p-2 text-center font-bold ${ratingColor(average)}`}>{average ?? '-'}</td>
+                </tr>
+              );
+            })}
+            <tr className="bg-gray-50">
+              <td className="p-2 font-semibold text-gray-800">میانگین کل</td>
+              {submissions.map(s => {
+                const average = averageRating(s.scores.map(score => score.rating));
+                return <td key={s.id} className={`p-2 text-center font-bold ${ratingColor(average)}`}>{average ?? '-'}</td>;
+              })}
+              <td className={`p-2 text-center font-bold ${ratingColor(averageRating(submissions.flatMap(s => s.scores.map(score => score.rating))))}`}>
+                {averageRating(submissions.flatMap(s => s.scores.map(score => score.rating))) ?? '-'}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+        {submissions.some(s => s.summary) && (
+          <ul className="mt-2 space-y-1 text-sm text-gray-700">
+            {submissions.filter(s => s.summary).map(s => <li key={s.id}><span className="font-semibold">{s.interviewerName}:</span> {s.summary}</li>)}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-4 bg-gray-100 rounded-lg space-y-4">
+      <h4 className="font-bold text-gray-800">کارت‌های ارزیابی مصاحبه</h4>
+      {sections.map(section => {
+        const submissions = getSubmissions(application, section.templateId);
+        const own = user ? findOwnSubmission(application, section.templateId, user.username) : undefined;
+        // Other interviewers' ratings stay hidden until the user submitted their own, to avoid anchoring
+        const canSeeAll = !!own || can('scorecard:viewAll');
+        const canSubmit = section.canSubmit && !!section.template && can('scorecard:submit') && !candidate.anonymizedAt;
+        return (
+          <div key={section.templateId} className="space-y-2">
+            <div className="flex flex-wrap justify-between items-center gap-2">
+              <p className="font-semibold text-gray-700">
+                {section.name}
+                <span className="text-xs font-normal text-gray-500 mr-2">{submissions.length} ارزیابی ثبت شده</span>
+              </p>
+              {canSubmit && editingTemplateId !== section.templateId && (
+                <button onClick={() => startEditing(section.template!, own)} className="text-sm text-[var(--color-primary-600)] hover:underline">
+                  {own ? 'ویرایش ارزیابی من' : 'ثبت ارزیابی'}
+                </button>
+              )}
+            </div>
+            {editingTemplateId === section.templateId && section.template && renderForm(section.template)}
+            {submissions.length > 0 && (canSeeAll
+              ? renderComparison(section, submissions)
+              : <p className="text-sm text-gray-500">امتیازات مصاحبه‌گران دیگر پس از ثبت ارزیابی شما نمایش داده می‌شود.</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ScorecardPanel;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { useSettings } from '../../contexts/SettingsContext';
+import { getTagColor } from '../../utils/colorUtils';
+
+interface TagChipsProps {
+  tagIds?: string[];
+  onChange?: (tagIds: string[]) => void;
+  readOnly?: boolean;
+  size?: 'sm' | 'default';
+}
+
+// Read-only mode shows the assigned tags; otherwise every tag of the vocabulary is shown and clicking toggles it.
+const TagChips: React.FC<TagChipsProps> = ({ tagIds = [], onChange, readOnly = false, size = 'default' }) => {
+  const { tags } = useSettings();
+  const shown = readOnly ? tags.filter(tag => tagIds.includes(tag.id)) : tags;
+  const sizeClasses = size === 'sm' ? 'text-[10px] px-1.5 py-0.5' : 'text-xs px-2 py-1';
+
+  if (shown.length === 0) {
+    return readOnly ? null : <p className="text-sm text-gray-500">هیچ برچسبی تعریف نشده است.</p>;
+  }
+
+  const toggle = (id: string) => {
+    onChange?.(tagIds.includes(id) ? tagIds.filter(t => t !== id) : [...tagIds, id]);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {shown.map(tag => {
+        const isAssigned = tagIds.includes(tag.id);
+        const style = isAssigned ? { backgroundColor: getTagColor(tag), borderColor: getTagColor(tag) } : undefined;
+        return readOnly ? (
+          <span key={tag.id} style={style} className={`${sizeClasses} rounded-full border text-gray-800`}>{tag.name}</span>
+        ) : (
+          <button
+            key={tag.id}
+            type="button"
+            onClick={() => toggle(tag.id)}
+            style={style}
+            className={`${sizeClasses} rounded-full border transition-colors ${isAssigned ? 'text-gray-800' : 'border-gray-300 text-gray-500 hover:border-gray-400'}`}
+          >
+            {isAssigned ? '✓ ' : '+ '}{tag.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TagChips;
@@ -8,14 +8,18 @@ import SelectCandidateModal from '../modals/SelectCandidateModal';
 import TestSelectionModal from '../modals/TestSelectionModal';
 import { aiService } from '../../services/aiService';
 import { SparklesIcon } from '../ui/Icons';
+import { SUPPORTED_DOCUMENT_ACCEPT } from '../../utils/documentUtils';
+import { TEST_STATUS_LABELS } from '../../constants';
+import { getPositionTitle, getTestFileKey } from '../../utils/applicationUtils';
 
 interface TestResultGroupProps {
   test: TestLibraryItem;
   result: TestResult | undefined;
   candidateId: string;
+  applicationId: string;
 }
 
-const TestResultGroup: React.FC<TestResultGroupProps> = ({ test, result, candidateId }) => {
+const TestResultGroup: React.FC<TestResultGroupProps> = ({ test, result, candidateId, applicationId }) => {
     const { updateTestResult } = useCandidates();
     const { geminiApiKey } = useSettings();
     const { addToast } = useToast();
@@ -27,7 +31,7 @@ const TestResultGroup: React.FC<TestResultGroupProps> = ({ test, result, candida
     const [isAnalyzing, setIsAnalyzing] = useState(false);
     const apiKeySet = !!geminiApiKey;
 
-    const testFileId = `${candidateId}_${test.id}`;
+    const testFileId = getTestFileKey(candidateId, applicationId, test.id);
 
     useEffect(() => {
         const loadPreview = async () => {
@@ -67,7 +71,7 @@ const TestResultGroup: React.FC<TestResultGroupProps> = ({ test, result, candida
             notes,
             status: newStatus || status,
         };
-        updateTestResult(candidateId, test.id, resultData);
+        updateTestResult(candidateId, applicationId, test.id, resultData);
         // Toast is shown in context
     };
 
@@ -76,7 +80,7 @@ const TestResultGroup: React.FC<TestResultGroupProps> = ({ test, result, candida
         if (file) {
             try {
                 await dbService.saveTestFile(testFileId, file);
-                await updateTestResult(candidateId, test.id, {
+                await updateTestResult(candidateId, applicationId, test.id, {
                     file: { name: file.name, type: file.type },
                     status: 'review' // Automatically set status to review on upload
                 });
@@ -102,7 +106,7 @@ const TestResultGroup: React.FC<TestResultGroupProps> = ({ test, result, candida
             } else {
                 summary = await aiService.summarizeTestLink(geminiApiKey, test.name, test.url);
             }
-            await updateTestResult(candidateId, test.id, { aiSummary: summary });
+            await updateTestResult(candidateId, applicationId, test.id, { aiSummary: summary });
             addToast('تحلیل با موفقیت ایجاد و ذخیره شد.', 'success');
         } catch (error: any) {
             addToast(error.message || 'خطا در تحلیل.', 'error');
@@ -119,14 +123,6 @@ const TestResultGroup: React.FC<TestResultGroupProps> = ({ test, result, candida
         review: 'bg-blue-100 text-blue-800',
     };
 
-    const statusText: Record<string, string> = {
-        not_sent: 'ارسال نشده',
-        pending: 'در انتظار نتیجه',
-        passed: 'قبول',
-        failed: 'مردود',
-        review: 'نیاز به بررسی',
-    };
-
     return (
         <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
             <h3 className="font-bold text-lg mb-3">{test.name}</h3>
@@ -142,11 +138,11 @@ const TestResultGroup: React.FC<TestResultGroupProps> = ({ test, result, candida
                             handleSave(newStatus);
                         }}
                         className={`mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 sm:text-sm focus:outline-none focus:ring-[var(--color-primary-500)] focus:border-[var(--color-primary-500)] ${statusClasses[status]}`}>
-                        <option value="not_sent">{statusText.not_sent}</option>
-                        <option value="pending">{statusText.pending}</option>
-                        <option value="passed">{statusText.passed}</option>
-                        <option value="failed">{statusText.failed}</option>
-                        <option value="review">{statusText.review}</option>
+                        <option value="not_sent">{TEST_STATUS_LABELS.not_sent}</option>
+                        <option value="pending">{TEST_STATUS_LABELS.pending}</option>
+                        <option value="passed">{TEST_STATUS_LABELS.passed}</option>
+                        <option value="failed">{TEST_STATUS_LABELS.failed}</option>
+                        <option value="review">{TEST_STATUS_LABELS.review}</option>
                     </select>
                 </div>
 
@@ -158,7 +154,7 @@ const TestResultGroup: React.FC<TestResultGroupProps> = ({ test, result, candida
                 
                 {/* File Upload / Preview */}
                  <div>
-                    <label className="block text-sm font-medium text-gray-700">فایل نتیجه (PDF)</label>
+                    <label className="block text-sm font-medium text-gray-700">فایل نتیجه (PDF، Word یا تصویر)</label>
                     {filePreview ? (
                         <div className="mt-1">
                             <a href={filePreview} target="_blank" rel="noopener noreferrer" className="text-[var(--color-primary-600)] hover:underline truncate block">
@@ -166,7 +162,7 @@ const TestResultGroup: React.FC<TestResultGroupProps> = ({ test, result, candida
                             </a>
                         </div>
                     ) : (
-                        <input type="file" onChange={handleFileChange} accept=".pdf" className="mt-1 text-sm text-gray-500 w-full file:mr-4 file:py-1 file:px-3 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-[var(--color-primary-50)] file:text-[var(--color-primary-700)] hover:file:bg-[var(--color-primary-100)]"/>
+                        <input type="file" onChange={handleFileChange} accept={SUPPORTED_DOCUMENT_ACCEPT} className="mt-1 text-sm text-gray-500 w-full file:mr-4 file:py-1 file:px-3 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-[var(--color-primary-50)] file:text-[var(--color-primary-700)] hover:file:bg-[var(--color-primary-100)]"/>
                     )}
                 </div>
 
@@ -203,32 +199,34 @@ interface TestViewProps {
 }
 
 const TestView: React.FC<TestViewProps> = ({ initialExpandedCandidateId }) => {
-  const { candidates } = useCandidates();
-  const { testLibrary } = useSettings();
+  const { applications } = useCandidates();
+  const { testLibrary, companyProfile } = useSettings();
   
-  const [expandedCandidateId, setExpandedCandidateId] = useState<string | null>(initialExpandedCandidateId);
+  // A candidate id expands all of their applications, e.g. when opened from the details modal
+  const [expandedId, setExpandedId] = useState<string | null>(initialExpandedCandidateId);
   const [isSelectCandidateModalOpen, setSelectCandidateModalOpen] = useState(false);
   const [candidateToSendTest, setCandidateToSendTest] = useState<string | null>(null);
   
   useEffect(() => {
-    setExpandedCandidateId(initialExpandedCandidateId);
+    setExpandedId(initialExpandedCandidateId);
   }, [initialExpandedCandidateId]);
 
-  const candidatesWithSentTests = useMemo(() => {
+  // Test results belong to applications, so a candidate can appear once per position
+  const applicationsWithSentTests = useMemo(() => {
     const activeStages = ['hired', 'rejected', 'archived'];
-    return candidates.filter(c => {
-        const hasSentTest = c.testResults?.some(r => r.status !== 'not_sent');
-        return hasSentTest && !activeStages.includes(c.stage)
+    return applications.filter(({ application }) => {
+        const hasSentTest = application.testResults?.some(r => r.status !== 'not_sent');
+        return hasSentTest && !activeStages.includes(application.stage)
     });
-  }, [candidates]);
+  }, [applications]);
   
   const handleSelectCandidateForNewTest = (candidateId: string) => {
     setCandidateToSendTest(candidateId);
     setSelectCandidateModalOpen(false);
   };
   
-  const toggleExpand = (candidateId: string) => {
-    setExpandedCandidateId(prevId => prevId === candidateId ? null : candidateId);
+  const toggleExpand = (applicationId: string, candidateId: string) => {
+    setExpandedId(prevId => prevId === applicationId || prevId === candidateId ? null : applicationId);
   };
 
   return (
@@ -248,44 +246,45 @@ const TestView: React.FC<TestViewProps> = ({ initialExpandedCandidateId }) => {
         </div>
       </div>
 
-      {candidatesWithSentTests.length === 0 ? (
+      {applicationsWithSentTests.length === 0 ? (
         <div className="text-center p-10 bg-white rounded-lg shadow-sm">
           <h3 className="text-xl font-bold text-gray-700">هیچ آزمونی ارسال نشده است</h3>
           <p className="mt-2 text-gray-500">برای ارسال آزمون به یک متقاضی، از دکمه "ارسال آزمون به متقاضی" استفاده کنید.</p>
         </div>
       ) : (
         <div className="space-y-4">
-          {candidatesWithSentTests.map(candidate => {
-            const sentTests = candidate.testResults?.filter(r => r.status !== 'not_sent') || [];
+          {applicationsWithSentTests.map(({ candidate, application }) => {
+            const sentTests = application.testResults?.filter(r => r.status !== 'not_sent') || [];
+            const isExpanded = expandedId === application.id || expandedId === candidate.id;
             const pendingCount = sentTests.filter(r => r.status === 'pending').length;
             const totalSentCount = sentTests.length;
 
             return (
-              <div key={candidate.id} className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+              <div key={application.id} className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
                 <div 
-                  onClick={() => toggleExpand(candidate.id)} 
+                  onClick={() => toggleExpand(application.id, candidate.id)} 
                   className="p-4 cursor-pointer hover:bg-gray-50 flex justify-between items-center"
                 >
                   <div>
                     <p className="font-bold text-lg text-[var(--color-primary-700)]">{candidate.name}</p>
-                    <p className="text-sm text-gray-600">{candidate.position}</p>
+                    <p className="text-sm text-gray-600">{getPositionTitle(application, companyProfile.jobPositions)}</p>
                   </div>
                   <div className="flex items-center gap-4">
                     <span className="text-sm font-medium text-gray-700">
                       {totalSentCount} آزمون ارسال شده
                       {pendingCount > 0 && ` (${pendingCount} در انتظار)`}
                     </span>
-                    <svg xmlns="http://www.w3.org/2000/svg" className={`h-5 w-5 text-gray-500 transition-transform ${expandedCandidateId === candidate.id ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <svg xmlns="http://www.w3.org/2000/svg" className={`h-5 w-5 text-gray-500 transition-transform ${isExpanded ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
                     </svg>
                   </div>
                 </div>
                 
-                {expandedCandidateId === candidate.id && (
+                {isExpanded && (
                   <div className="p-4 border-t border-gray-200 bg-gray-50 space-y-4">
                     {testLibrary.length > 0 ? (
                         testLibrary.map(testItem => {
-                            const result = candidate.testResults?.find(r => r.testId === testItem.id);
+                            const result = application.testResults?.find(r => r.testId === testItem.id);
                             // Only show if test has been sent
                             if (result?.status !== 'not_sent') {
                                 return (
@@ -294,6 +293,7 @@ const TestView: React.FC<TestViewProps> = ({ initialExpandedCandidateId }) => {
                                         test={testItem}
                                         result={result}
                                         candidateId={candidate.id}
+                                        applicationId={application.id}
                                     />
                                 );
                             }
@@ -1,4 +1,4 @@
-import { KanbanStage, Template, CompanyProfile, TestLibraryItem } from './types';
+import { KanbanStage, Template, CompanyProfile, TestLibraryItem, JobPositionStatus, UserRole, Permission, PasswordPolicy, SessionPolicy, AuditAction, RetentionPolicy, ConsentType, MilitaryServiceStatus, SearchField, TestResult, FilterConditionType, TagDefinition, CustomFieldType } from './types';
 
 export const DEFAULT_STAGES: KanbanStage[] = [
   { id: 'inbox', title: 'صندوق ورودی', isCore: true },
@@ -12,13 +12,208 @@ export const DEFAULT_STAGES: KanbanStage[] = [
 
 export const ARCHIVE_STAGE_ID = 'archived';
 
+export const CONSENT_LABELS: Record<ConsentType, string> = {
+  dataProcessing: 'پردازش اطلاعات',
+  talentPool: 'بانک استعداد و اطلاع‌رسانی فرصت‌ها',
+  whatsapp: 'تماس از طریق واتس‌اپ',
+};
+
+export const CONSENT_SOURCES: string[] = ['فرم درخواست', 'ایمیل', 'تماس تلفنی', 'حضوری', 'سایر'];
+
 export const DEFAULT_SOURCES: string[] = ['لینکدین', 'جابینجا', 'ای-استخدام', 'سایت شرکت', 'معرفی‌شده', 'سایر'];
 
+export const DEFAULT_TAGS: TagDefinition[] = [
+  { id: 'tag-remote-only', name: 'فقط دورکاری' },
+  { id: 'tag-needs-visa', name: 'نیاز به ویزا' },
+  { id: 'tag-silver-medalist', name: 'گزینه ذخیره' },
+];
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'متن',
+  number: 'عدد',
+  date: 'تاریخ',
+  select: 'انتخاب از فهرست',
+  boolean: 'بله/خیر',
+  url: 'لینک',
+};
+
+// Persian labels for candidate fields, used when comparing or merging records.
+export const CANDIDATE_FIELD_LABELS: Record<string, string> = {
+  name: 'نام',
+  email: 'ایمیل',
+  phone: 'تلفن',
+  position: 'موقعیت شغلی',
+  stage: 'مرحله',
+  source: 'منبع',
+  rating: 'امتیاز',
+  interviewDate: 'تاریخ مصاحبه',
+  interviewTime: 'ساعت مصاحبه',
+  interviewTimeChanged: 'تغییر زمان مصاحبه',
+  profile: 'پروفایل',
+};
+
+export const MILITARY_SERVICE_LABELS: Record<MilitaryServiceStatus, string> = {
+  completed: 'پایان خدمت',
+  exempt: 'معافیت',
+  in_service: 'در حال خدمت',
+  pending: 'مشمول',
+  not_applicable: 'مشمول نمی‌شود',
+};
+
+export const TEST_STATUS_LABELS: Record<TestResult['status'], string> = {
+  not_sent: 'ارسال نشده',
+  pending: 'در انتظار نتیجه',
+  passed: 'قبول',
+  failed: 'مردود',
+  review: 'نیاز به بررسی',
+};
+
+export const FILTER_CONDITION_LABELS: Record<FilterConditionType, string> = {
+  rating: 'امتیاز',
+  createdAt: 'تاریخ ثبت',
+  interview: 'مصاحبه',
+  hasResume: 'رزومه',
+  testStatus: 'وضعیت آزمون',
+  tag: 'برچسب',
+  contact: 'ایمیل یا تلفن',
+  customField: 'فیلد سفارشی',
+};
+
+export const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  name: 'نام',
+  contact: 'اطلاعات تماس',
+  profile: 'پروفایل',
+  comment: 'یادداشت',
+  history: 'تاریخچه',
+  test: 'آزمون',
+  resume: 'رزومه',
+};
+
+export const DUPLICATE_REASON_LABELS: Record<'email' | 'phone' | 'name', string> = {
+  email: 'ایمیل یکسان',
+  phone: 'تلفن یکسان',
+  name: 'نام مشابه',
+};
+
+export const JOB_POSITION_STATUS_LABELS: Record<JobPositionStatus, string> = {
+  open: 'باز',
+  on_hold: 'متوقف',
+  filled: 'تکمیل شده',
+  closed: 'بسته',
+};
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'ادمین',
+  recruiter: 'کارشناس استخدام',
+  hiring_manager: 'مدیر استخدام',
+  interviewer: 'مصاحبه‌گر',
+  viewer: 'فقط مشاهده',
+};
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  'candidate:create': 'افزودن متقاضی',
+  'candidate:edit': 'ویرایش متقاضی و درخواست‌ها',
+  'candidate:delete': 'حذف و ادغام متقاضی',
+  'candidate:stage': 'تغییر مرحله و آرشیو',
+  'candidate:comment': 'ثبت یادداشت و رویداد',
+  'scorecard:submit': 'ثبت کارت ارزیابی مصاحبه',
+  'scorecard:viewAll': 'مشاهده ارزیابی‌ها پیش از ثبت ارزیابی خود',
+  'test:edit': 'ویرایش نتایج آزمون',
+  'message:bulk': 'ارسال پیام گروهی',
+  'data:backup': 'پشتیبان‌گیری',
+  'data:restore': 'بازیابی پشتیبان',
+  'data:export': 'خروجی اکسل فهرست متقاضیان',
+  'settings:system': 'تنظیمات سیستم و ظاهر',
+  'settings:company': 'پروفایل شرکت و منابع',
+  'settings:pipeline': 'مراحل کانبان',
+  'settings:templates': 'مدیریت قالب‌ها',
+  'settings:tests': 'کتابخانه آزمون',
+  'settings:users': 'مدیریت کاربران',
+  'audit:view': 'مشاهده گزارش ممیزی',
+};
+
+// Permission matrix for each role; admins get every permission.
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: Object.keys(PERMISSION_LABELS) as Permission[],
+  recruiter: [
+    'candidate:create', 'candidate:edit', 'candidate:delete', 'candidate:stage', 'candidate:comment', 'scorecard:submit', 'scorecard:viewAll',
+    'test:edit', 'message:bulk', 'data:backup', 'data:export', 'settings:pipeline', 'settings:templates', 'settings:tests',
+  ],
+  hiring_manager: ['candidate:stage', 'candidate:comment', 'scorecard:submit', 'test:edit', 'data:export', 'settings:pipeline'],
+  interviewer: ['candidate:comment', 'scorecard:submit', 'test:edit'],
+  viewer: [],
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'auth:login': 'ورود',
+  'auth:login_failed': 'ورود ناموفق',
+  'auth:logout': 'خروج',
+  'auth:session_ended': 'پایان نشست',
+  'user:create': 'افزودن کاربر',
+  'user:update': 'ویرایش کاربر',
+  'user:delete': 'حذف کاربر',
+  'user:password_change': 'تغییر رمز عبور',
+  'policy:update': 'تغییر سیاست امنیتی',
+  'candidate:create': 'افزودن متقاضی',
+  'candidate:update': 'ویرایش متقاضی',
+  'candidate:delete': 'حذف متقاضی',
+  'candidate:stage': 'تغییر مرحله',
+  'candidate:comment': 'ثبت یادداشت',
+  'candidate:merge': 'ادغام متقاضیان',
+  'candidate:anonymize': 'حذف اطلاعات شخصی',
+  'settings:update': 'تغییر تنظیمات',
+  'template:update': 'تغییر قالب‌ها',
+  'data:backup': 'تهیه پشتیبان',
+  'data:restore': 'بازیابی پشتیبان',
+  'data:import': 'ورود متقاضیان از فایل',
+  'data:export': 'خروجی فهرست متقاضیان',
+  'data:encryption': 'تغییر رمزنگاری داده‌ها',
+};
+
 export const SETTINGS_KEY_SOURCES = 'recruitment_sources_v1';
 export const STAGES_KEY = 'recruitment_stages_v1';
 export const TEMPLATES_KEY = 'recruitment_templates_v1';
 export const COMPANY_PROFILE_KEY = 'recruitment_company_profile_v1';
 export const TEST_LIBRARY_KEY = 'recruitment_test_library_v1';
+export const THEME_KEY = 'recruitment_theme_v1';
+export const BACKGROUND_KEY = 'recruitment_background_v1';
+export const USERS_KEY = 'recruitment_users';
+export const PASSWORD_POLICY_KEY = 'recruitment_password_policy_v1';
+export const SESSION_POLICY_KEY = 'recruitment_session_policy_v1';
+export const RETENTION_POLICY_KEY = 'recruitment_retention_policy_v1';
+export const GEMINI_API_KEY = 'gemini_api_key_v1';
+export const ENCRYPTION_CONFIG_KEY = 'recruitment_encryption_v1';
+export const SAVED_VIEWS_KEY = 'recruitment_saved_views_v1';
+export const TAGS_KEY = 'recruitment_tags_v1';
+export const CUSTOM_FIELDS_KEY = 'recruitment_custom_fields_v1';
+
+// localStorage keys whose values are encrypted when data encryption is enabled
+export const ENCRYPTED_STORAGE_KEYS = [
+  GEMINI_API_KEY, COMPANY_PROFILE_KEY, TEMPLATES_KEY, TEST_LIBRARY_KEY, SETTINGS_KEY_SOURCES, STAGES_KEY, SAVED_VIEWS_KEY, TAGS_KEY, CUSTOM_FIELDS_KEY,
+];
+
+// Disabled until an admin turns it on, since anonymization cannot be undone.
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  enabled: false,
+  rules: [
+    { stageId: ARCHIVE_STAGE_ID, months: 12 },
+    { stageId: 'rejected', months: 6 },
+  ],
+};
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireLetter: true,
+  requireDigit: true,
+  requireSymbol: false,
+  maxFailedAttempts: 5,
+  lockoutMinutes: 15,
+};
+
+export const DEFAULT_SESSION_POLICY: SessionPolicy = {
+  idleTimeoutMinutes: 30,
+  maxSessionHours: 8,
+};
 
 export const DEFAULT_COMPANY_PROFILE: CompanyProfile = {
   name: "شرکت شما",
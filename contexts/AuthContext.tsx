@@ -1,18 +1,38 @@
-import React, { createContext, useContext, useState, ReactNode, useEffect } from 'react';
-import { User, UserWithPassword } from '../types';
+import React, { createContext, useContext, useState, ReactNode, useEffect, useRef } from 'react';
+import { User, UserWithPassword, Permission, PasswordPolicy, SessionPolicy, AuditAction } from '../types';
 import { authService } from '../services/authService';
+import { encryptionService } from '../services/encryptionService';
+import { auditService } from '../services/auditService';
+import { USER_ROLE_LABELS } from '../constants';
 import { useToast } from './ToastContext';
+import { hasPermission, normalizeUser } from '../utils/permissionUtils';
+import ReauthModal from '../components/auth/ReauthModal';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'];
+const SESSION_CHECK_INTERVAL_MS = 15000;
+const IDLE_WARNING_MS = 60000;
+// A successful login or re-authentication covers further sensitive actions for this long.
+const REAUTH_GRACE_MS = 5 * 60000;
+const PERMISSION_DENIED_MESSAGE = 'شما دسترسی لازم برای انجام این عملیات را ندارید.';
 
 interface AuthContextType {
   user: User | null;
   users: Record<string, UserWithPassword>;
-  login: (username: string, pass: string) => Promise<void>;
+  login: (username: string, pass: string, dataPassphrase?: string) => Promise<void>;
   logout: () => void;
   addUser: (user: UserWithPassword) => Promise<void>;
   updateUser: (username: string, userData: Partial<UserWithPassword>) => void;
   deleteUser: (username: string) => void;
   changePassword: (username: string, oldPass: string, newPass: string, isAdminOverride?: boolean) => Promise<void>;
   isAuthLoading: boolean;
+  can: (permission: Permission) => boolean;
+  passwordPolicy: PasswordPolicy;
+  updatePasswordPolicy: (policy: PasswordPolicy) => void;
+  sessionPolicy: SessionPolicy;
+  updateSessionPolicy: (policy: SessionPolicy) => void;
+  requireReauth: (actionLabel: string) => Promise<boolean>;
+  // Records an action of the current user in the audit log.
+  logAudit: (action: AuditAction, details?: string, targetId?: string) => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -29,6 +49,12 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const [user, setUser] = useState<User | null>(null);
   const [users, setUsers] = useState<Record<string, UserWithPassword>>({});
   const [isAuthLoading, setAuthLoading] = useState(true);
+  const [passwordPolicy, setPasswordPolicy] = useState<PasswordPolicy>(() => authService.getPasswordPolicy());
+  const [sessionPolicy, setSessionPolicy] = useState<SessionPolicy>(() => authService.getSessionPolicy());
+  const [reauthRequest, setReauthRequest] = useState<{ actionLabel: string; resolve: (confirmed: boolean) => void } | null>(null);
+  // Bumped whenever encrypted data is unlocked or locked, so the data providers below remount and re-read it
+  const [dataEpoch, setDataEpoch] = useState(0);
+  const lastAuthenticatedAt = useRef(0);
   const { addToast } = useToast();
 
   useEffect(() => {
@@ -37,8 +63,11 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       try {
         await authService._ensureUsersLoaded();
         setUsers(authService.getLoadedUsers());
-        const loggedInUser = authService.getCurrentUser();
-        if (loggedInUser) {
+        const loggedInUser = await authService.getCurrentUser();
+        if (loggedInUser && encryptionService.isLocked()) {
+          // Data keys only live in memory, so a reloaded page needs the passphrase again
+          authService.logout();
+        } else if (loggedInUser) {
           setUser(loggedInUser);
         }
       } catch (e: any) {
@@ -51,10 +80,25 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     initializeAuth();
   }, []);
   
-  const login = async (username: string, pass: string) => {
+  const login = async (username: string, pass: string, dataPassphrase?: string) => {
      try {
-      const loggedInUser = await authService.login(username, pass);
+      if (encryptionService.isEnabled()) {
+        if (!dataPassphrase) throw new Error('لطفا عبارت رمز داده‌ها را وارد کنید.');
+        await encryptionService.unlock(dataPassphrase);
+      }
+      let loggedInUser: User;
+      try {
+        loggedInUser = await authService.login(username, pass);
+      } catch (e: any) {
+        encryptionService.lock();
+        auditService.record({ username: username.toLowerCase(), name: '' }, 'auth:login_failed', e.message);
+        throw e;
+      }
+      auditService.flushHeldEntries();
+      auditService.record(loggedInUser, 'auth:login');
+      setDataEpoch(epoch => epoch + 1);
       setUser(loggedInUser);
+      lastAuthenticatedAt.current = Date.now();
       setUsers(authService.getLoadedUsers()); // Refresh users just in case
       addToast(`خوش آمدید، ${loggedInUser.name}!`, 'success');
     } catch (e: any) {
@@ -64,16 +108,66 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  const logout = () => {
+  const endSession = async (message: string, type: 'success' | 'error', action: AuditAction = 'auth:session_ended') => {
+     // Written before locking, while encrypted data can still be appended to
+     await auditService.record(user, action, message);
      authService.logout();
+     encryptionService.lock();
+     setDataEpoch(epoch => epoch + 1);
      setUser(null);
-     addToast('با موفقیت خارج شدید.', 'success');
+     lastAuthenticatedAt.current = 0;
+     reauthRequest?.resolve(false);
+     setReauthRequest(null);
+     addToast(message, type);
   };
+
+  const logout = () => { endSession('با موفقیت خارج شدید.', 'success', 'auth:logout'); };
+
+  // The session timer below lives across renders, so it calls the latest endSession through this ref;
+  // an older copy would not see a pending re-auth request and leave its promise unsettled.
+  const endSessionRef = useRef(endSession);
+  useEffect(() => {
+    endSessionRef.current = endSession;
+  });
+
+  // Ends the session when it expires or after the configured idle time, warning a minute before the idle logout.
+  // Keyed on the username so that profile updates of the current user do not reset the idle time.
+  const sessionUsername = user?.username;
+  useEffect(() => {
+    if (!sessionUsername) return;
+    let lastActivity = Date.now();
+    let warned = false;
+    const markActive = () => {
+      lastActivity = Date.now();
+      warned = false;
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+
+    const idleTimeoutMs = sessionPolicy.idleTimeoutMinutes * 60000;
+    const interval = window.setInterval(async () => {
+      const idleFor = Date.now() - lastActivity;
+      if (idleTimeoutMs > 0 && idleFor >= idleTimeoutMs) {
+        endSessionRef.current('به دلیل عدم فعالیت، از حساب کاربری خارج شدید.', 'error');
+      } else if (idleTimeoutMs > 0 && !warned && idleFor >= idleTimeoutMs - IDLE_WARNING_MS) {
+        warned = true;
+        addToast('به دلیل عدم فعالیت، تا یک دقیقه دیگر از حساب کاربری خارج می‌شوید.', 'error');
+      } else if (!(await authService.getCurrentUser())) {
+        endSessionRef.current('نشست شما منقضی شده است. لطفا دوباره وارد شوید.', 'error');
+      }
+    }, SESSION_CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive));
+      window.clearInterval(interval);
+    };
+  }, [sessionUsername, sessionPolicy.idleTimeoutMinutes, addToast]);
   
   const addUser = async (userData: UserWithPassword) => {
+      if (!ensurePermission('settings:users')) throw new Error(PERMISSION_DENIED_MESSAGE);
       try {
         await authService.addUser(userData);
         setUsers(authService.getLoadedUsers());
+        logAudit('user:create', `${userData.name} با نقش ${USER_ROLE_LABELS[userData.role]}`, userData.username.toLowerCase());
         addToast('کاربر جدید با موفقیت اضافه شد.', 'success');
       } catch (e: any) {
         addToast(e.message, 'error');
@@ -82,14 +176,26 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   }
   
   const updateUser = (username: string, userData: Partial<UserWithPassword>) => {
+      if (!ensurePermission('settings:users')) return;
       const currentUsers = authService.getLoadedUsers();
-      const updatedUsers = {...currentUsers, [username]: { ...currentUsers[username], ...userData }};
+      const updatedUser = normalizeUser({ ...currentUsers[username], ...userData });
+      const remainingAdmins = Object.values(currentUsers).filter(u => u.username !== username && u.isAdmin);
+      if (currentUsers[username]?.isAdmin && !updatedUser.isAdmin && remainingAdmins.length === 0) {
+        addToast('حداقل یک کاربر باید نقش ادمین داشته باشد.', 'error');
+        return;
+      }
+      const updatedUsers = {...currentUsers, [username]: updatedUser };
       authService.saveUsers(updatedUsers);
       setUsers(updatedUsers);
+      logAudit('user:update', `${updatedUser.name} با نقش ${USER_ROLE_LABELS[updatedUser.role]}`, username);
+      if (user?.username === username) {
+        setUser(authService.getSessionUser(username));
+      }
       addToast('اطلاعات کاربر به‌روزرسانی شد.', 'success');
   }
   
   const deleteUser = (username: string) => {
+      if (!ensurePermission('settings:users')) return;
       if (username.toLowerCase() === 'admin') {
         addToast('شما نمی‌توانید کاربر پیش‌فرض سیستم را حذف کنید.', 'error');
         return;
@@ -99,13 +205,20 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       delete newUsers[username.toLowerCase()];
       authService.saveUsers(newUsers);
       setUsers(newUsers);
+      logAudit('user:delete', currentUsers[username.toLowerCase()]?.name, username.toLowerCase());
       addToast('کاربر حذف شد.', 'success');
   }
 
   const changePassword = async (username: string, oldPass: string, newPass: string, isAdminOverride: boolean = false) => {
+      if (isAdminOverride && !ensurePermission('settings:users')) throw new Error(PERMISSION_DENIED_MESSAGE);
       try {
           await authService.changePassword(username, oldPass, newPass, isAdminOverride);
           setUsers(authService.getLoadedUsers());
+          logAudit('user:password_change', isAdminOverride ? 'بازنشانی توسط ادمین' : undefined, username.toLowerCase());
+          if (user?.username === username.toLowerCase()) {
+            // Clears mustChangePassword for the current session
+            setUser(authService.getSessionUser(username));
+          }
           // Toast is shown by the modal upon successful completion
       } catch(e: any) {
           addToast(e.message, 'error');
@@ -113,7 +226,72 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       }
   }
 
-  const value = { user, users, login, logout, addUser, updateUser, deleteUser, changePassword, isAuthLoading };
+  const can = (permission: Permission) => hasPermission(user, permission);
+
+  // Shows an error and returns false when the current user's role does not grant the permission.
+  const ensurePermission = (permission: Permission): boolean => {
+      if (can(permission)) return true;
+      addToast(PERMISSION_DENIED_MESSAGE, 'error');
+      return false;
+  }
+
+  const logAudit = (action: AuditAction, details?: string, targetId?: string) => {
+      auditService.record(user, action, details, targetId);
+  }
+
+  const updatePasswordPolicy = (policy: PasswordPolicy) => {
+      if (!ensurePermission('settings:system')) return;
+      authService.savePasswordPolicy(policy);
+      setPasswordPolicy(policy);
+      logAudit('policy:update', 'سیاست رمز عبور');
+      addToast('سیاست رمز عبور ذخیره شد.', 'success');
+  }
+
+  const updateSessionPolicy = (policy: SessionPolicy) => {
+      if (!ensurePermission('settings:system')) return;
+      authService.saveSessionPolicy(policy);
+      setSessionPolicy(policy);
+      logAudit('policy:update', 'تنظیمات نشست');
+      addToast('تنظیمات نشست ذخیره شد. مدت اعتبار جدید از ورود بعدی اعمال می‌شود.', 'success');
+  }
+
+  // Resolves to true once the user has re-entered their password, or false if they cancel.
+  const requireReauth = (actionLabel: string): Promise<boolean> => {
+      if (!user) return Promise.resolve(false);
+      if (Date.now() - lastAuthenticatedAt.current < REAUTH_GRACE_MS) return Promise.resolve(true);
+      return new Promise(resolve => setReauthRequest({ actionLabel, resolve }));
+  }
+
+  const handleReauthConfirm = async (password: string): Promise<boolean> => {
+      if (!user || !reauthRequest) return false;
+      const confirmed = await authService.checkPassword(user.username, password);
+      if (confirmed) {
+        lastAuthenticatedAt.current = Date.now();
+        reauthRequest.resolve(true);
+        setReauthRequest(null);
+      }
+      return confirmed;
+  }
+
+  const handleReauthCancel = () => {
+      reauthRequest?.resolve(false);
+      setReauthRequest(null);
+  }
+
+  const value = {
+    user, users, login, logout, addUser, updateUser, deleteUser, changePassword, isAuthLoading, can,
+    passwordPolicy, updatePasswordPolicy, sessionPolicy, updateSessionPolicy, requireReauth, logAudit,
+  };
 
-  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+  return (
+    <AuthContext.Provider value={value}>
+      <React.Fragment key={dataEpoch}>{children}</React.Fragment>
+      <ReauthModal
+        isOpen={!!reauthRequest}
+        actionLabel={reauthRequest?.actionLabel || ''}
+        onConfirm={handleReauthConfirm}
+        onCancel={handleReauthCancel}
+      />
+    </AuthContext.Provider>
+  );
 };
\ No newline at end of file
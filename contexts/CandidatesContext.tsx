@@ -1,20 +1,53 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
-import { Candidate, StageId, Comment, HistoryEntry, TestResult } from '../types';
+import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback, useMemo } from 'react';
+import { Candidate, ConsentType, StageId, Comment, HistoryEntry, TestResult, Application, Permission, CandidateApplication, ScorecardSubmission, InterviewEvent } from '../types';
 import { dbService } from '../services/dbService';
+import { encryptionService } from '../services/encryptionService';
+import { auditService } from '../services/auditService';
 import { useToast } from './ToastContext';
 import { useAuth } from './AuthContext';
+import { useSettings } from './SettingsContext';
+import { CONSENT_LABELS } from '../constants';
+import { mergeCandidateRecords } from '../utils/candidateUtils';
+import {
+  normalizeApplications, applyLegacyFieldsToPrimary, updateApplicationInCandidate, createApplication, getPositionTitle, countHires,
+  flattenApplications, getTestFileKey, getLegacyTestFileKey,
+} from '../utils/applicationUtils';
+import { withInterviews } from '../utils/interviewUtils';
+import { isLegacyConsentRecord, updateConsents } from '../utils/consentUtils';
+import { isApplicationInScope, isCandidateInScope } from '../utils/permissionUtils';
+import { anonymizeCandidate as anonymizeRecord, findExpiredRule, getTestFileKeys } from '../utils/retentionUtils';
 
 interface CandidatesContextType {
-  candidates: Candidate[];
-  setCandidates: (candidates: Candidate[]) => void;
+  candidates: Candidate[]; // Only the candidates the current user may see
+  applications: CandidateApplication[]; // Only the applications the current user may see
+  reloadCandidates: () => Promise<void>;
   addCandidate: (candidate: Candidate, resumeFile?: File) => Promise<void>;
+  // Saves validated candidates from a bulk import and returns how many were saved.
+  // `sourceLabel` names the import file or intake in history and audit entries; resumes are keyed by candidate id.
+  importCandidates: (candidates: Candidate[], sourceLabel: string, resumeFiles?: Record<string, File>) => Promise<number>;
   updateCandidate: (candidate: Candidate, resumeFile?: File) => Promise<void>;
   deleteCandidate: (id: string) => Promise<void>;
-  updateCandidateStage: (id: string, newStage: StageId) => void;
-  unarchiveCandidate: (id: string) => void;
+  updateCandidateStage: (id: string, newStage: StageId, applicationId?: string) => void;
+  unarchiveCandidate: (id: string, applicationId?: string) => void;
   addComment: (id: string, comment: Comment) => void;
   addCustomHistoryEntry: (id: string, actionText: string) => void;
-  updateTestResult: (candidateId: string, testId: string, resultData: Partial<TestResult>) => Promise<void>;
+  updateTestResult: (candidateId: string, applicationId: string, testId: string, resultData: Partial<TestResult>) => Promise<void>;
+  addApplication: (candidateId: string, jobPositionId: string) => void;
+  updateApplication: (candidateId: string, applicationId: string, changes: Partial<Application>) => void;
+  removeApplication: (candidateId: string, applicationId: string) => void;
+  // Saves the current user's scorecard, replacing their earlier submission for the same template.
+  submitScorecard: (candidateId: string, applicationId: string, submission: ScorecardSubmission) => Promise<void>;
+  // Adds an interview to the application, or replaces the one with the same id.
+  scheduleInterview: (candidateId: string, applicationId: string, interview: InterviewEvent) => Promise<void>;
+  cancelInterview: (candidateId: string, applicationId: string, interviewId: string) => Promise<void>;
+  mergeDuplicateCandidates: (survivorId: string, duplicateId: string, fieldsFromDuplicate: (keyof Candidate)[]) => Promise<void>;
+  // Right to be forgotten: removes personal data and files but keeps the pipeline record.
+  anonymizeCandidate: (id: string) => Promise<void>;
+  // Applies the retention policy now and returns the number of anonymized candidates.
+  runRetentionSweep: () => Promise<number>;
+  // Records the given consents for every candidate added before consents were tracked, e.g. after checking the
+  // original application forms. `source` states the basis; returns the number of updated candidates.
+  confirmLegacyConsents: (types: ConsentType[], source: string) => Promise<number>;
 }
 
 const CandidatesContext = createContext<CandidatesContextType | undefined>(undefined);
@@ -50,25 +83,97 @@ const defaultCandidate: Candidate = {
     testResults: [
         { testId: 'test-1', status: 'passed', score: 95, notes: 'تحلیل روانشناسی مثبت بود', file: { name: 'archetype_result.pdf', type: 'application/pdf' } },
         { testId: 'test-2', status: 'pending', sentDate: new Date().toISOString() }
-    ]
+    ],
+    applications: [],
 };
 
+// Actor recorded for changes made by the automatic retention sweep.
+const SYSTEM_ACTOR = { username: 'system', name: 'سیستم' };
+
 
 export const CandidatesProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [candidates, setCandidatesState] = useState<Candidate[]>([]);
   const { addToast } = useToast();
-  const { user } = useAuth();
+  const { user, can, logAudit } = useAuth();
+  const { companyProfile, retentionPolicy, customFields } = useSettings();
+  const jobPositions = companyProfile.jobPositions;
+
+  // Brings stored records up to date with the application model and the current job positions.
+  // Only records that actually changed are written back.
+  const normalizeAndPersist = async (data: Candidate[]): Promise<Candidate[]> => {
+    const normalized: Candidate[] = [];
+    for (const candidate of data) {
+      const updated = normalizeApplications(candidate, jobPositions);
+      if (JSON.stringify(updated) !== JSON.stringify(candidate)) {
+        await dbService.saveCandidate(updated);
+      }
+      normalized.push(updated);
+    }
+    return normalized;
+  };
   
+  // Files saved before test results were stored per application are moved to the primary application's key.
+  const moveLegacyTestFiles = async (data: Candidate[]) => {
+    for (const candidate of data) {
+      const primary = candidate.applications[0];
+      for (const result of (primary?.testResults || []).filter(r => r.file)) {
+        const legacyKey = getLegacyTestFileKey(candidate.id, result.testId);
+        const file = await dbService.getTestFile(legacyKey);
+        if (!file) continue;
+        await dbService.saveTestFile(getTestFileKey(candidate.id, primary.id, result.testId), file);
+        await dbService.deleteTestFile(legacyKey);
+      }
+    }
+  };
+
+  // Anonymizes the record and deletes its resume and test result files. The audit log cannot be edited, so its
+  // entries only ever refer to candidates by id and nothing there has to be forgotten.
+  const purgePersonalData = async (candidate: Candidate, performedBy: string): Promise<Candidate> => {
+    const anonymized = anonymizeRecord(candidate, performedBy, customFields);
+    await dbService.saveCandidate(anonymized);
+    await dbService.deleteResume(candidate.id);
+    for (const key of getTestFileKeys(candidate)) {
+      await dbService.deleteTestFile(key);
+    }
+    return anonymized;
+  };
+
+  // Anonymizes every candidate whose retention period has passed. Audit entries only name the record id and the rule.
+  const sweepExpired = async (data: Candidate[], actor: { username: string; name: string }) => {
+    let count = 0;
+    const result: Candidate[] = [];
+    for (const candidate of data) {
+      const rule = findExpiredRule(candidate, retentionPolicy);
+      if (!rule) {
+        result.push(candidate);
+        continue;
+      }
+      result.push(await purgePersonalData(candidate, actor.name));
+      auditService.record(actor, 'candidate:anonymize', `سیاست نگهداری: مرحله ${rule.stageId}، ${rule.months} ماه پس از آخرین فعالیت`, candidate.id);
+      count++;
+    }
+    return { candidates: result, count };
+  };
+
   useEffect(() => {
     const loadData = async () => {
+      // Encrypted data is loaded once the passphrase was entered at login, which remounts this provider
+      if (encryptionService.isLocked()) return;
       try {
         const data = await dbService.getAllCandidates();
         if (data.length === 0) {
-          await dbService.saveCandidate(defaultCandidate);
-          setCandidatesState([defaultCandidate]);
+          const candidate = normalizeApplications(defaultCandidate, jobPositions);
+          await dbService.saveCandidate(candidate);
+          setCandidatesState([candidate]);
           addToast('متقاضی پیش‌فرض برای تست اضافه شد.', 'success');
         } else {
-          setCandidatesState(data);
+          const normalized = await normalizeAndPersist(data);
+          await moveLegacyTestFiles(normalized);
+          const swept = await sweepExpired(normalized, SYSTEM_ACTOR);
+          setCandidatesState(swept.candidates);
+          if (swept.count > 0) {
+            addToast(`اطلاعات شخصی ${swept.count} متقاضی طبق سیاست نگهداری داده‌ها حذف شد.`, 'success');
+          }
         }
       } catch (error) {
         console.error("Failed to load candidates from DB", error);
@@ -79,6 +184,19 @@ export const CandidatesProvider: React.FC<{ children: ReactNode }> = ({ children
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Keeps position titles in sync when job positions are renamed or deleted.
+  const isFirstJobPositionsRender = React.useRef(true);
+  useEffect(() => {
+    if (isFirstJobPositionsRender.current) {
+      isFirstJobPositionsRender.current = false;
+      return;
+    }
+    normalizeAndPersist(candidates)
+      .then(setCandidatesState)
+      .catch(error => console.error("Failed to sync job positions", error));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [jobPositions]);
+
   const addHistoryEntry = useCallback((candidate: Candidate, action: string, details?: string): Candidate => {
     if (!user) return candidate;
     const historyEntry: HistoryEntry = {
@@ -90,39 +208,71 @@ export const CandidatesProvider: React.FC<{ children: ReactNode }> = ({ children
     return { ...candidate, history: [historyEntry, ...candidate.history] };
   }, [user]);
 
-  const setCandidates = async (newCandidates: Candidate[]) => {
+  // Shows an error and returns false when the current user's role does not grant the permission.
+  const ensurePermission = (permission: Permission): boolean => {
+    if (can(permission)) return true;
+    addToast('شما دسترسی لازم برای انجام این عملیات را ندارید.', 'error');
+    return false;
+  };
+
+  // Re-reads candidates from the database, e.g. after a backup was merged into it.
+  const reloadCandidates = async () => {
     try {
-        await dbService.clearAllCandidates();
-        await dbService.clearAllResumes(); // Assuming resumes are tied to candidates
-        for(const candidate of newCandidates) {
-            await dbService.saveCandidate(candidate);
-        }
-        setCandidatesState(newCandidates);
-        addToast('داده‌ها با موفقیت جایگزین شدند.', 'success');
+      const normalized = await normalizeAndPersist(await dbService.getAllCandidates());
+      await moveLegacyTestFiles(normalized);
+      setCandidatesState(normalized);
     } catch (error) {
-        addToast('خطا در ذخیره سازی داده‌های جدید.', 'error');
+      console.error("Failed to reload candidates from DB", error);
+      addToast('خطا در بارگذاری داده‌ها از پایگاه داده.', 'error');
     }
-  }
+  };
 
   const addCandidate = async (candidate: Candidate, resumeFile?: File) => {
+    if (!ensurePermission('candidate:create')) return;
     const candidateWithHistory = addHistoryEntry(candidate, 'متقاضی ایجاد شد');
-    const candidateWithTests = { ...candidateWithHistory, testResults: [] };
+    const candidateWithTests = normalizeApplications({ ...candidateWithHistory, consents: candidate.consents || {}, testResults: [], applications: [] }, jobPositions);
     try {
       await dbService.saveCandidate(candidateWithTests);
       if(resumeFile) await dbService.saveResume(candidate.id, resumeFile);
       setCandidatesState(prev => [...prev, candidateWithTests]);
+      logAudit('candidate:create', undefined, candidate.id);
       addToast('متقاضی با موفقیت اضافه شد.', 'success');
     } catch (error) {
       addToast('خطا در افزودن متقاضی.', 'error');
     }
   };
 
+  const importCandidates = async (incoming: Candidate[], sourceLabel: string, resumeFiles: Record<string, File> = {}): Promise<number> => {
+    if (!ensurePermission('candidate:create')) return 0;
+    const imported: Candidate[] = [];
+    try {
+      for (const candidate of incoming) {
+        const resumeFile = resumeFiles[candidate.id];
+        const withResume = resumeFile ? { ...candidate, hasResume: true } : candidate;
+        const record = normalizeApplications(addHistoryEntry({ ...withResume, consents: withResume.consents || {} }, 'متقاضی به صورت گروهی وارد شد', sourceLabel), jobPositions);
+        await dbService.saveCandidate(record);
+        if (resumeFile) await dbService.saveResume(record.id, resumeFile);
+        imported.push(record);
+      }
+    } catch (error) {
+      console.error("Failed to import candidates", error);
+      addToast('خطا در ذخیره متقاضیان. ردیف‌های ذخیره‌شده تا این لحظه حفظ شدند.', 'error');
+    }
+    if (imported.length > 0) {
+      setCandidatesState(prev => [...prev, ...imported]);
+      logAudit('data:import', `${imported.length} متقاضی از ${sourceLabel}`);
+    }
+    return imported.length;
+  };
+
   const updateCandidate = async (candidate: Candidate, resumeFile?: File) => {
-    const candidateWithHistory = addHistoryEntry(candidate, 'اطلاعات ویرایش شد');
+    if (!ensurePermission('candidate:edit')) return;
+    const candidateWithHistory = applyLegacyFieldsToPrimary(addHistoryEntry(candidate, 'اطلاعات ویرایش شد'), jobPositions);
     try {
       await dbService.saveCandidate(candidateWithHistory);
       if(resumeFile) await dbService.saveResume(candidate.id, resumeFile);
       setCandidatesState(prev => prev.map(c => c.id === candidate.id ? candidateWithHistory : c));
+      logAudit('candidate:update', 'اطلاعات ویرایش شد', candidate.id);
       addToast('اطلاعات با موفقیت به‌روزرسانی شد.', 'success');
     } catch (error) {
       addToast('خطا در به‌روزرسانی اطلاعات.', 'error');
@@ -130,72 +280,94 @@ export const CandidatesProvider: React.FC<{ children: ReactNode }> = ({ children
   };
 
   const deleteCandidate = async (id: string) => {
+    if (!ensurePermission('candidate:delete')) return;
     try {
       await dbService.deleteCandidate(id);
       await dbService.deleteResume(id);
-      // Also delete all test files associated with this candidate
+      // Also delete the test files of every application
       const candidate = candidates.find(c => c.id === id);
-      if (candidate?.testResults) {
-        for (const result of candidate.testResults) {
-          if (result.file) {
-            await dbService.deleteTestFile(`${candidate.id}_${result.testId}`);
-          }
-        }
+      for (const key of candidate ? getTestFileKeys(candidate) : []) {
+        await dbService.deleteTestFile(key);
       }
       setCandidatesState(prev => prev.filter(c => c.id !== id));
+      logAudit('candidate:delete', undefined, id);
       addToast('متقاضی حذف شد.', 'success');
     } catch (error) {
       addToast('خطا در حذف متقاضی.', 'error');
     }
   };
 
-  const updateCandidateStage = (id: string, newStage: StageId) => {
+  const updateCandidateStage = (id: string, newStage: StageId, applicationId?: string) => {
+    if (!ensurePermission('candidate:stage')) return;
     const candidate = candidates.find(c => c.id === id);
     if (candidate) {
-      const updatedCandidate = { ...candidate, stage: newStage };
-      const candidateWithHistory = addHistoryEntry(updatedCandidate, `مرحله به "${newStage}" تغییر کرد`);
+      const application = candidate.applications.find(a => a.id === applicationId) || candidate.applications[0];
+      const updatedCandidate = updateApplicationInCandidate(candidate, application.id, { stage: newStage }, jobPositions);
+      const action = candidate.applications.length > 1
+        ? `مرحله درخواست "${getPositionTitle(application, jobPositions)}" به "${newStage}" تغییر کرد`
+        : `مرحله به "${newStage}" تغییر کرد`;
+      const candidateWithHistory = addHistoryEntry(updatedCandidate, action);
       dbService.saveCandidate(candidateWithHistory);
+      const updatedCandidates = candidates.map(c => c.id === id ? candidateWithHistory : c);
       setCandidatesState(prev => prev.map(c => c.id === id ? candidateWithHistory : c));
+      logAudit('candidate:stage', action, id);
       addToast(`مرحله به ${newStage} تغییر کرد.`, 'success');
+
+      const jobPosition = jobPositions.find(j => j.id === application.jobPositionId);
+      if (newStage === 'hired' && jobPosition?.headcount !== undefined && countHires(updatedCandidates, jobPosition.id) > jobPosition.headcount) {
+        addToast(`تعداد استخدام‌ها برای "${jobPosition.title}" از ظرفیت تعریف‌شده (${jobPosition.headcount}) بیشتر شد.`, 'error');
+      }
     }
   };
   
-  const unarchiveCandidate = (id: string) => {
+  const unarchiveCandidate = (id: string, applicationId?: string) => {
+    if (!ensurePermission('candidate:stage')) return;
     const candidate = candidates.find(c => c.id === id);
     if(candidate) {
-        const updatedCandidate = { ...candidate, stage: 'inbox' as StageId };
-        const candidateWithHistory = addHistoryEntry(updatedCandidate, 'از آرشیو خارج شد و به صندوق ورودی منتقل شد');
+        const application = candidate.applications.find(a => a.id === applicationId) || candidate.applications[0];
+        const updatedCandidate = updateApplicationInCandidate(candidate, application.id, { stage: 'inbox' as StageId }, jobPositions);
+        const action = candidate.applications.length > 1
+          ? `درخواست "${getPositionTitle(application, jobPositions)}" از آرشیو خارج شد و به صندوق ورودی منتقل شد`
+          : 'از آرشیو خارج شد و به صندوق ورودی منتقل شد';
+        const candidateWithHistory = addHistoryEntry(updatedCandidate, action);
         dbService.saveCandidate(candidateWithHistory);
         setCandidatesState(prev => prev.map(c => c.id === id ? candidateWithHistory : c));
+        logAudit('candidate:stage', 'از آرشیو خارج شد', id);
         addToast('متقاضی از آرشیو خارج شد.', 'success');
     }
   };
 
   const addComment = (id: string, comment: Comment) => {
+    if (!ensurePermission('candidate:comment')) return;
     const candidate = candidates.find(c => c.id === id);
     if (candidate) {
       const updatedCandidate = { ...candidate, comments: [...candidate.comments, comment] };
       dbService.saveCandidate(updatedCandidate);
       setCandidatesState(prev => prev.map(c => c.id === id ? updatedCandidate : c));
+      logAudit('candidate:comment', undefined, id);
       addToast('یادداشت اضافه شد.', 'success');
     }
   };
 
   const addCustomHistoryEntry = (id: string, actionText: string) => {
+    if (!ensurePermission('candidate:comment')) return;
     const candidate = candidates.find(c => c.id === id);
     if (candidate && user && actionText.trim()) {
       const candidateWithHistory = addHistoryEntry(candidate, actionText.trim());
       dbService.saveCandidate(candidateWithHistory);
       setCandidatesState(prev => prev.map(c => c.id === id ? candidateWithHistory : c));
+      logAudit('candidate:comment', 'رویداد دستی در تاریخچه ثبت شد', id);
       addToast('رویداد جدید در تاریخچه ثبت شد.', 'success');
     }
   };
 
-  const updateTestResult = async (candidateId: string, testId: string, resultData: Partial<TestResult>) => {
+  const updateTestResult = async (candidateId: string, applicationId: string, testId: string, resultData: Partial<TestResult>) => {
+    if (!ensurePermission('test:edit')) return;
     const candidate = candidates.find(c => c.id === candidateId);
-    if (!candidate) return;
+    const application = candidate?.applications.find(a => a.id === applicationId);
+    if (!candidate || !application) return;
 
-    const existingResults = candidate.testResults || [];
+    const existingResults = application.testResults || [];
     let resultExists = false;
 
     const updatedResults = existingResults.map(r => {
@@ -210,13 +382,232 @@ export const CandidatesProvider: React.FC<{ children: ReactNode }> = ({ children
       updatedResults.push({ testId, status: 'not_sent', ...resultData });
     }
     
-    const action = `نتیجه آزمون به‌روزرسانی شد: ${testId}`;
-    const updatedCandidate = addHistoryEntry({ ...candidate, testResults: updatedResults }, action);
-    
-    await updateCandidate(updatedCandidate);
+    const action = candidate.applications.length > 1
+      ? `نتیجه آزمون درخواست "${getPositionTitle(application, jobPositions)}" به‌روزرسانی شد: ${testId}`
+      : `نتیجه آزمون به‌روزرسانی شد: ${testId}`;
+    // Saved directly rather than through updateCandidate, so roles that may only edit tests can use it
+    const updatedCandidate = addHistoryEntry(updateApplicationInCandidate(candidate, applicationId, { testResults: updatedResults }, jobPositions), action);
+    try {
+      await dbService.saveCandidate(updatedCandidate);
+      setCandidatesState(prev => prev.map(c => c.id === candidateId ? updatedCandidate : c));
+      logAudit('candidate:update', action, candidateId);
+      addToast('اطلاعات با موفقیت به‌روزرسانی شد.', 'success');
+    } catch (error) {
+      addToast('خطا در به‌روزرسانی اطلاعات.', 'error');
+    }
+  };
+
+  const addApplication = (candidateId: string, jobPositionId: string) => {
+    if (!ensurePermission('candidate:edit')) return;
+    const candidate = candidates.find(c => c.id === candidateId);
+    const jobPosition = jobPositions.find(j => j.id === jobPositionId);
+    if (!candidate || !jobPosition) return;
+    if (candidate.applications.some(a => a.jobPositionId === jobPositionId)) {
+      addToast('این متقاضی قبلاً برای این موقعیت درخواست داده است.', 'error');
+      return;
+    }
+    const updatedCandidate = normalizeApplications({ ...candidate, applications: [...candidate.applications, createApplication(jobPosition)] }, jobPositions);
+    const candidateWithHistory = addHistoryEntry(updatedCandidate, `درخواست جدید برای موقعیت "${jobPosition.title}" ثبت شد`);
+    dbService.saveCandidate(candidateWithHistory);
+    setCandidatesState(prev => prev.map(c => c.id === candidateId ? candidateWithHistory : c));
+    logAudit('candidate:update', `درخواست جدید برای موقعیت "${jobPosition.title}"`, candidateId);
+    addToast('درخواست جدید اضافه شد.', 'success');
+  };
+
+  const updateApplication = (candidateId: string, applicationId: string, changes: Partial<Application>) => {
+    if (!ensurePermission('candidate:edit')) return;
+    const candidate = candidates.find(c => c.id === candidateId);
+    if (!candidate) return;
+    const updatedCandidate = updateApplicationInCandidate(candidate, applicationId, changes, jobPositions);
+    dbService.saveCandidate(updatedCandidate);
+    setCandidatesState(prev => prev.map(c => c.id === candidateId ? updatedCandidate : c));
+    logAudit('candidate:update', `ویرایش درخواست (${Object.keys(changes).join(', ')})`, candidateId);
   };
 
-  const value = { candidates, setCandidates, addCandidate, updateCandidate, deleteCandidate, updateCandidateStage, unarchiveCandidate, addComment, addCustomHistoryEntry, updateTestResult };
+  const submitScorecard = async (candidateId: string, applicationId: string, submission: ScorecardSubmission) => {
+    if (!ensurePermission('scorecard:submit')) return;
+    const candidate = candidates.find(c => c.id === candidateId);
+    const application = candidate?.applications.find(a => a.id === applicationId);
+    if (!candidate || !application) return;
+    const scorecards = [
+      ...(application.scorecards || []).filter(s => !(s.templateId === submission.templateId && s.interviewer === submission.interviewer)),
+      submission,
+    ];
+    // Ratings are left out of the history so that they are not visible before others submit theirs
+    const action = `کارت ارزیابی "${submission.templateName}" توسط ${submission.interviewerName} ثبت شد`;
+    // Saved directly rather than through updateApplication, so interviewers without edit rights can submit
+    const updatedCandidate = addHistoryEntry(updateApplicationInCandidate(candidate, applicationId, { scorecards }, jobPositions), action);
+    try {
+      await dbService.saveCandidate(updatedCandidate);
+      setCandidatesState(prev => prev.map(c => c.id === candidateId ? updatedCandidate : c));
+      logAudit('candidate:update', action, candidateId);
+      addToast('ارزیابی شما ثبت شد.', 'success');
+    } catch (error) {
+      addToast('خطا در ثبت ارزیابی.', 'error');
+    }
+  };
+
+  // Interviews are written through withInterviews, which keeps the single-slot fields and the interviewers in sync.
+  const saveInterviews = async (candidate: Candidate, application: Application, interviews: InterviewEvent[], changes: Partial<Application>, action: string, successMessage: string) => {
+    const { interviewDate, interviewTime, interviewers } = withInterviews(application, interviews);
+    const updated = updateApplicationInCandidate(candidate, application.id, { interviews, interviewDate, interviewTime, interviewers, ...changes }, jobPositions);
+    const updatedCandidate = addHistoryEntry(updated, action);
+    try {
+      await dbService.saveCandidate(updatedCandidate);
+      setCandidatesState(prev => prev.map(c => c.id === candidate.id ? updatedCandidate : c));
+      logAudit('candidate:update', action, candidate.id);
+      addToast(successMessage, 'success');
+    } catch (error) {
+      addToast('خطا در ذخیره مصاحبه.', 'error');
+    }
+  };
+
+  const scheduleInterview = async (candidateId: string, applicationId: string, interview: InterviewEvent) => {
+    if (!ensurePermission('candidate:edit')) return;
+    const candidate = candidates.find(c => c.id === candidateId);
+    const application = candidate?.applications.find(a => a.id === applicationId);
+    if (!candidate || !application) return;
+    const existing = (application.interviews || []).find(i => i.id === interview.id);
+    const interviews = existing
+      ? (application.interviews || []).map(i => i.id === interview.id ? interview : i)
+      : [...(application.interviews || []), interview];
+    const slot = `${interview.date}${interview.time ? ` ساعت ${interview.time}` : ''}`;
+    const isRescheduled = !!existing && (existing.date !== interview.date || existing.time !== interview.time);
+    const action = existing
+      ? (isRescheduled ? `مصاحبه از ${existing.date} ${existing.time || ''} به ${slot} تغییر کرد` : `جزئیات مصاحبه ${slot} ویرایش شد`)
+      : `مصاحبه برای ${slot} زمان‌بندی شد`;
+    await saveInterviews(candidate, application, interviews, isRescheduled ? { interviewTimeChanged: true } : {}, action, existing ? 'مصاحبه ویرایش شد.' : 'مصاحبه زمان‌بندی شد.');
+  };
+
+  const cancelInterview = async (candidateId: string, applicationId: string, interviewId: string) => {
+    if (!ensurePermission('candidate:edit')) return;
+    const candidate = candidates.find(c => c.id === candidateId);
+    const application = candidate?.applications.find(a => a.id === applicationId);
+    const interview = application?.interviews?.find(i => i.id === interviewId);
+    if (!candidate || !application || !interview) return;
+    const interviews = (application.interviews || []).filter(i => i.id !== interviewId);
+    const action = `مصاحبه ${interview.date}${interview.time ? ` ساعت ${interview.time}` : ''} لغو شد`;
+    await saveInterviews(candidate, application, interviews, interviews.length === 0 ? { interviewTimeChanged: false } : {}, action, 'مصاحبه لغو شد.');
+  };
+
+  const removeApplication = (candidateId: string, applicationId: string) => {
+    if (!ensurePermission('candidate:edit')) return;
+    const candidate = candidates.find(c => c.id === candidateId);
+    const application = candidate?.applications.find(a => a.id === applicationId);
+    if (!candidate || !application) return;
+    if (candidate.applications.length === 1) {
+      addToast('هر متقاضی باید حداقل یک درخواست داشته باشد.', 'error');
+      return;
+    }
+    const updatedCandidate = normalizeApplications({ ...candidate, applications: candidate.applications.filter(a => a.id !== applicationId) }, jobPositions);
+    const candidateWithHistory = addHistoryEntry(updatedCandidate, `درخواست موقعیت "${getPositionTitle(application, jobPositions)}" حذف شد`);
+    dbService.saveCandidate(candidateWithHistory);
+    setCandidatesState(prev => prev.map(c => c.id === candidateId ? candidateWithHistory : c));
+    logAudit('candidate:update', `درخواست موقعیت "${getPositionTitle(application, jobPositions)}" حذف شد`, candidateId);
+    addToast('درخواست حذف شد.', 'success');
+  };
+
+  // Folds a duplicate record into the survivor, moving its resume and test files, then deletes the duplicate.
+  const mergeDuplicateCandidates = async (survivorId: string, duplicateId: string, fieldsFromDuplicate: (keyof Candidate)[]) => {
+    if (!ensurePermission('candidate:delete')) return;
+    const survivor = candidates.find(c => c.id === survivorId);
+    const duplicate = candidates.find(c => c.id === duplicateId);
+    if (!survivor || !duplicate || survivorId === duplicateId) return;
+
+    let merged: Candidate = mergeCandidateRecords(survivor, duplicate);
+    for (const field of fieldsFromDuplicate) {
+      merged = { ...merged, [field]: duplicate[field] };
+    }
+    merged = normalizeApplications(merged, jobPositions);
+    const mergedWithHistory = addHistoryEntry(merged, 'پرونده تکراری ادغام شد', `${duplicate.name} (${duplicate.source})`);
+
+    try {
+      if (!survivor.hasResume && duplicate.hasResume) {
+        const resume = await dbService.getResume(duplicate.id);
+        if (resume) await dbService.saveResume(survivor.id, resume);
+      }
+      for (const application of duplicate.applications) {
+        for (const result of (application.testResults || []).filter(r => r.file)) {
+          const fileKey = getTestFileKey(duplicate.id, application.id, result.testId);
+          // Only files of test results that were taken from the duplicate need to be moved
+          const target = mergedWithHistory.applications.find(a => (a.testResults || []).includes(result));
+          if (target) {
+            const file = await dbService.getTestFile(fileKey);
+            if (file) await dbService.saveTestFile(getTestFileKey(survivor.id, target.id, result.testId), file);
+          }
+          await dbService.deleteTestFile(fileKey);
+        }
+      }
+      await dbService.saveCandidate(mergedWithHistory);
+      await dbService.deleteCandidate(duplicate.id);
+      await dbService.deleteResume(duplicate.id);
+      setCandidatesState(prev => prev.filter(c => c.id !== duplicate.id).map(c => c.id === survivor.id ? mergedWithHistory : c));
+      logAudit('candidate:merge', `پرونده ${duplicate.id} در این پرونده ادغام شد`, survivor.id);
+      addToast('پرونده‌ها با موفقیت ادغام شدند.', 'success');
+    } catch (error) {
+      console.error("Failed to merge candidates", error);
+      addToast('خطا در ادغام پرونده‌ها.', 'error');
+    }
+  };
+
+  const anonymizeCandidate = async (id: string) => {
+    if (!ensurePermission('candidate:delete')) return;
+    const candidate = candidates.find(c => c.id === id);
+    if (!candidate || !user) return;
+    try {
+      const anonymized = await purgePersonalData(candidate, user.name);
+      setCandidatesState(prev => prev.map(c => c.id === id ? anonymized : c));
+      logAudit('candidate:anonymize', 'درخواست حق فراموشی', id);
+      addToast('اطلاعات شخصی متقاضی حذف شد.', 'success');
+    } catch (error) {
+      console.error("Failed to anonymize candidate", error);
+      addToast('خطا در حذف اطلاعات شخصی.', 'error');
+    }
+  };
+
+  const runRetentionSweep = async (): Promise<number> => {
+    if (!ensurePermission('settings:system') || !user) return 0;
+    try {
+      const swept = await sweepExpired(candidates, user);
+      setCandidatesState(swept.candidates);
+      return swept.count;
+    } catch (error) {
+      console.error("Retention sweep failed", error);
+      addToast('خطا در اجرای سیاست نگهداری داده‌ها.', 'error');
+      return 0;
+    }
+  };
+
+  const confirmLegacyConsents = async (types: ConsentType[], source: string): Promise<number> => {
+    if (!ensurePermission('settings:system') || !user || types.length === 0) return 0;
+    const granted = { dataProcessing: false, talentPool: false, whatsapp: false, ...Object.fromEntries(types.map(type => [type, true])) };
+    const details = `${types.map(type => CONSENT_LABELS[type]).join('، ')} - مبنا: ${source}`;
+    const updated = new Map<string, Candidate>();
+    try {
+      for (const candidate of candidates.filter(isLegacyConsentRecord)) {
+        const withConsents = { ...candidate, consents: updateConsents(undefined, granted, source, user.name) };
+        const record = addHistoryEntry(withConsents, 'رضایت‌های ثبت‌نشده قبلی توسط مدیر تأیید شد', details);
+        await dbService.saveCandidate(record);
+        updated.set(record.id, record);
+        logAudit('candidate:update', `تأیید رضایت قبلی: ${details}`, record.id);
+      }
+    } catch (error) {
+      console.error("Failed to confirm legacy consents", error);
+      addToast('خطا در ثبت رضایت‌ها. پرونده‌های ذخیره‌شده تا این لحظه حفظ شدند.', 'error');
+    }
+    setCandidatesState(prev => prev.map(c => updated.get(c.id) || c));
+    return updated.size;
+  };
+
+  // Mutations work on the full list; consumers only receive the current user's scope.
+  const visibleCandidates = useMemo(() => {
+    return candidates.filter(c => isCandidateInScope(user, c, jobPositions));
+  }, [candidates, user, jobPositions]);
+  const visibleApplications = useMemo(() => {
+    return flattenApplications(visibleCandidates).filter(({ application }) => isApplicationInScope(user, application, jobPositions));
+  }, [visibleCandidates, user, jobPositions]);
+
+  const value = { candidates: visibleCandidates, applications: visibleApplications, reloadCandidates, addCandidate, importCandidates, updateCandidate, deleteCandidate, updateCandidateStage, unarchiveCandidate, addComment, addCustomHistoryEntry, updateTestResult, addApplication, updateApplication, removeApplication, submitScorecard, scheduleInterview, cancelInterview, mergeDuplicateCandidates, anonymizeCandidate, runRetentionSweep, confirmLegacyConsents };
 
   return <CandidatesContext.Provider value={value}>{children}</CandidatesContext.Provider>;
 };
\ No newline at end of file
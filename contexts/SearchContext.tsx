@@ -0,0 +1,112 @@
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { Candidate, SearchResult, SearchSnippetPart } from '../types';
+import { useCandidates } from './CandidatesContext';
+import { dbService } from '../services/dbService';
+import { extractDocumentText } from '../utils/documentUtils';
+import { createSearchIndex, indexCandidate, removeFromSearchIndex, searchCandidates, buildSearchSnippet } from '../utils/searchUtils';
+
+interface SearchContextType {
+  search: (query: string) => SearchResult[];
+  getSnippet: (result: SearchResult, query: string) => SearchSnippetPart[];
+  pendingResumes: number; // Resumes whose text is still being extracted
+}
+
+const SearchContext = createContext<SearchContextType | undefined>(undefined);
+
+export const useSearch = () => {
+  const context = useContext(SearchContext);
+  if (!context) throw new Error('useSearch must be used within a SearchProvider');
+  return context;
+};
+
+// Identifies a stored resume; decrypted files get a new lastModified on every read, so it is not used.
+const fileSignature = (file: File) => `${file.name}|${file.type}|${file.size}`;
+
+// Indexes only the candidates visible to the current user. Resume texts are kept in memory and never
+// written to the database, so encrypted data does not leak into a plain text store.
+export const SearchProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { candidates } = useCandidates();
+  const indexRef = useRef(createSearchIndex());
+  // Last indexed version of each candidate; records are replaced on every change, so a reference check finds the changed ones
+  const indexedRef = useRef(new Map<string, Candidate>());
+  const resumeTextsRef = useRef(new Map<string, { signature: string; text: string }>());
+  const pendingRef = useRef(new Set<string>());
+  const isExtractingRef = useRef(false);
+  const isMountedRef = useRef(true);
+  const [version, setVersion] = useState(0);
+  const [pendingResumes, setPendingResumes] = useState(0);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => { isMountedRef.current = false; };
+  }, []);
+
+  const extractPendingResumes = async () => {
+    if (isExtractingRef.current) return;
+    isExtractingRef.current = true;
+    while (pendingRef.current.size > 0 && isMountedRef.current) {
+      const id = pendingRef.current.values().next().value as string;
+      pendingRef.current.delete(id);
+      try {
+        const file = await dbService.getResume(id);
+        const cached = resumeTextsRef.current.get(id);
+        if (!file) {
+          resumeTextsRef.current.delete(id);
+        } else if (cached?.signature !== fileSignature(file)) {
+          resumeTextsRef.current.set(id, { signature: fileSignature(file), text: await extractDocumentText(file) });
+        } else {
+          continue;
+        }
+      } catch (error) {
+        console.error("Failed to extract resume text for search", error);
+        continue;
+      } finally {
+        if (isMountedRef.current) setPendingResumes(pendingRef.current.size);
+      }
+      const candidate = indexedRef.current.get(id);
+      if (candidate && isMountedRef.current) {
+        indexCandidate(indexRef.current, candidate, resumeTextsRef.current.get(id)?.text);
+        setVersion(v => v + 1);
+      }
+    }
+    isExtractingRef.current = false;
+  };
+
+  useEffect(() => {
+    const visibleIds = new Set(candidates.map(c => c.id));
+    for (const id of Array.from(indexedRef.current.keys())) {
+      if (visibleIds.has(id)) continue;
+      removeFromSearchIndex(indexRef.current, id);
+      indexedRef.current.delete(id);
+      resumeTextsRef.current.delete(id);
+      pendingRef.current.delete(id);
+    }
+    let changed = false;
+    for (const candidate of candidates) {
+      if (indexedRef.current.get(candidate.id) === candidate) continue;
+      // A changed record may come with a new resume; unchanged files are recognised by their signature
+      if (candidate.hasResume) {
+        pendingRef.current.add(candidate.id);
+      } else {
+        resumeTextsRef.current.delete(candidate.id);
+      }
+      indexedRef.current.set(candidate.id, candidate);
+      indexCandidate(indexRef.current, candidate, resumeTextsRef.current.get(candidate.id)?.text);
+      changed = true;
+    }
+    if (changed) setVersion(v => v + 1);
+    setPendingResumes(pendingRef.current.size);
+    extractPendingResumes();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [candidates]);
+
+  // `version` changes the function identities so that memoized results are recomputed after indexing
+  const search = useCallback((query: string) => searchCandidates(indexRef.current, query), [version]);
+  const getSnippet = useCallback((result: SearchResult, query: string) => buildSearchSnippet(indexRef.current, result, query), [version]);
+
+  return (
+    <SearchContext.Provider value={{ search, getSnippet, pendingResumes }}>
+      {children}
+    </SearchContext.Provider>
+  );
+};
@@ -1,30 +1,56 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { DEFAULT_SOURCES, SETTINGS_KEY_SOURCES, COMPANY_PROFILE_KEY, DEFAULT_COMPANY_PROFILE, STAGES_KEY, DEFAULT_STAGES, TEST_LIBRARY_KEY, DEFAULT_TEST_LIBRARY } from '../constants';
-import { CompanyProfile, JobPosition, KanbanStage, TestLibraryItem } from '../types';
+import { DEFAULT_SOURCES, SETTINGS_KEY_SOURCES, COMPANY_PROFILE_KEY, DEFAULT_COMPANY_PROFILE, STAGES_KEY, DEFAULT_STAGES, TEST_LIBRARY_KEY, DEFAULT_TEST_LIBRARY, GEMINI_API_KEY, RETENTION_POLICY_KEY, DEFAULT_RETENTION_POLICY, TAGS_KEY, DEFAULT_TAGS, CUSTOM_FIELDS_KEY } from '../constants';
+import { CompanyProfile, JobPosition, KanbanStage, ScorecardTemplate, TestLibraryItem, RetentionPolicy, TagDefinition, CustomFieldDefinition } from '../types';
+import { generateId } from '../utils/idUtils';
+import { CUSTOM_FIELD_KEY_PATTERN } from '../utils/customFieldUtils';
 import { useToast } from './ToastContext';
+import { useAuth } from './AuthContext';
+import { secureStorage } from '../services/encryptionService';
 
-const GEMINI_API_KEY = 'gemini_api_key_v1';
 
 interface SettingsContextType {
   sources: string[];
   addSource: (source: string) => void;
   deleteSource: (source: string) => void;
+  tags: TagDefinition[];
+  addTag: (name: string, color?: string) => void;
+  updateTag: (tag: TagDefinition) => void;
+  deleteTag: (id: string) => void;
+  // Adds tags from a merged backup that are not known locally; existing tags keep their local name and color.
+  importTags: (incoming: TagDefinition[]) => void;
+  customFields: CustomFieldDefinition[];
+  addCustomField: (field: Omit<CustomFieldDefinition, 'id'>) => boolean;
+  updateCustomField: (field: CustomFieldDefinition) => boolean;
+  deleteCustomField: (id: string) => void;
+  moveCustomField: (id: string, direction: -1 | 1) => void;
+  // Adds fields from a merged backup that are not known locally, like importTags.
+  importCustomFields: (incoming: CustomFieldDefinition[]) => void;
   stages: KanbanStage[];
-  setStageOrder: (orderedStages: KanbanStage[]) => void;
-  addStage: (title: string) => void;
-  updateStage: (id: string, title: string) => void;
-  deleteStage: (id: string) => void;
+  // Stage functions edit the global pipeline, or a position's own pipeline when jobPositionId is given.
+  setStageOrder: (orderedStages: KanbanStage[], jobPositionId?: string) => void;
+  addStage: (title: string, jobPositionId?: string) => void;
+  updateStage: (id: string, title: string, jobPositionId?: string) => void;
+  deleteStage: (id: string, jobPositionId?: string) => void;
+  getStagesForPosition: (jobPositionId?: string) => KanbanStage[];
+  getAllPipelineStages: () => KanbanStage[];
+  enablePositionPipeline: (jobPositionId: string) => void;
+  resetPositionPipeline: (jobPositionId: string) => void;
   companyProfile: CompanyProfile;
   updateCompanyDetails: (details: Partial<Omit<CompanyProfile, 'jobPositions'>>) => void;
   addJobPosition: (title: string) => void;
-  updateJobPosition: (id: string, title: string) => void;
+  updateJobPosition: (id: string, changes: Partial<Omit<JobPosition, 'id' | 'stages' | 'scorecards'>>) => void;
   deleteJobPosition: (id: string) => void;
+  // Adds the template to the position, or replaces the one with the same id.
+  saveScorecardTemplate: (jobPositionId: string, template: ScorecardTemplate) => boolean;
+  deleteScorecardTemplate: (jobPositionId: string, templateId: string) => void;
   testLibrary: TestLibraryItem[];
   addTest: (test: Omit<TestLibraryItem, 'id'>) => void;
   updateTest: (test: TestLibraryItem) => void;
   deleteTest: (id: string) => void;
   geminiApiKey: string | null;
   setGeminiApiKey: (key: string) => void;
+  retentionPolicy: RetentionPolicy;
+  updateRetentionPolicy: (policy: RetentionPolicy) => void;
 }
 
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
@@ -35,12 +61,31 @@ export const useSettings = () => {
   return context;
 };
 
+// Core stages always come from the global list (with their global titles). Any core stage a
+// position's pipeline lacks is added back: inbox first, the others at the end.
+const withCoreStages = (positionStages: KanbanStage[], globalStages: KanbanStage[]): KanbanStage[] => {
+  const coreStages = globalStages.filter(s => s.isCore);
+  const result = positionStages.map(stage => coreStages.find(core => core.id === stage.id) || stage);
+  for (const core of coreStages) {
+    if (result.some(s => s.id === core.id)) continue;
+    if (core.id === 'inbox') result.unshift(core); else result.push(core);
+  }
+  return result;
+};
+
 export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const { addToast } = useToast();
+  const { logAudit } = useAuth();
+
+  // Confirms a settings change to the user and records it in the audit log.
+  const notifyChange = (message: string, targetId?: string) => {
+    addToast(message, 'success');
+    logAudit('settings:update', message, targetId);
+  };
 
   const [sources, setSources] = useState<string[]>(() => {
     try {
-      const storedSources = localStorage.getItem(SETTINGS_KEY_SOURCES);
+      const storedSources = secureStorage.getItem(SETTINGS_KEY_SOURCES);
       return storedSources ? JSON.parse(storedSources) : DEFAULT_SOURCES;
     } catch (error) {
       console.error("Failed to load sources from localStorage", error);
@@ -48,9 +93,29 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     }
   });
 
+  const [tags, setTags] = useState<TagDefinition[]>(() => {
+    try {
+      const storedTags = secureStorage.getItem(TAGS_KEY);
+      return storedTags ? JSON.parse(storedTags) : DEFAULT_TAGS;
+    } catch (error) {
+      console.error("Failed to load tags from localStorage", error);
+      return DEFAULT_TAGS;
+    }
+  });
+
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>(() => {
+    try {
+      const storedFields = secureStorage.getItem(CUSTOM_FIELDS_KEY);
+      return storedFields ? JSON.parse(storedFields) : [];
+    } catch (error) {
+      console.error("Failed to load custom fields from localStorage", error);
+      return [];
+    }
+  });
+
   const [stages, setStages] = useState<KanbanStage[]>(() => {
     try {
-      const storedStages = localStorage.getItem(STAGES_KEY);
+      const storedStages = secureStorage.getItem(STAGES_KEY);
       return storedStages ? JSON.parse(storedStages) : DEFAULT_STAGES;
     } catch (error) {
       console.error("Failed to load stages from localStorage", error);
@@ -60,7 +125,7 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
 
   const [companyProfile, setCompanyProfile] = useState<CompanyProfile>(() => {
     try {
-      const storedProfile = localStorage.getItem(COMPANY_PROFILE_KEY);
+      const storedProfile = secureStorage.getItem(COMPANY_PROFILE_KEY);
       return storedProfile ? JSON.parse(storedProfile) : DEFAULT_COMPANY_PROFILE;
     } catch (error) {
       console.error("Failed to load company profile from localStorage", error);
@@ -70,7 +135,7 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
 
   const [testLibrary, setTestLibrary] = useState<TestLibraryItem[]>(() => {
     try {
-        const storedLibrary = localStorage.getItem(TEST_LIBRARY_KEY);
+        const storedLibrary = secureStorage.getItem(TEST_LIBRARY_KEY);
         return storedLibrary ? JSON.parse(storedLibrary) : DEFAULT_TEST_LIBRARY;
     } catch (error) {
         console.error("Failed to load test library from localStorage", error);
@@ -78,9 +143,19 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     }
   });
 
+  const [retentionPolicy, setRetentionPolicy] = useState<RetentionPolicy>(() => {
+    try {
+      const storedPolicy = secureStorage.getItem(RETENTION_POLICY_KEY);
+      return storedPolicy ? JSON.parse(storedPolicy) : DEFAULT_RETENTION_POLICY;
+    } catch (error) {
+      console.error("Failed to load retention policy from localStorage", error);
+      return DEFAULT_RETENTION_POLICY;
+    }
+  });
+
   const [geminiApiKey, setGeminiApiKey] = useState<string | null>(() => {
     try {
-      return localStorage.getItem(GEMINI_API_KEY);
+      return secureStorage.getItem(GEMINI_API_KEY);
     } catch (error) {
       console.error("Failed to load Gemini API key from localStorage", error);
       return null;
@@ -89,39 +164,57 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
 
 
   useEffect(() => {
-    localStorage.setItem(SETTINGS_KEY_SOURCES, JSON.stringify(sources));
+    secureStorage.setItem(SETTINGS_KEY_SOURCES, JSON.stringify(sources));
   }, [sources]);
 
   useEffect(() => {
-    localStorage.setItem(STAGES_KEY, JSON.stringify(stages));
+    secureStorage.setItem(TAGS_KEY, JSON.stringify(tags));
+  }, [tags]);
+
+  useEffect(() => {
+    secureStorage.setItem(CUSTOM_FIELDS_KEY, JSON.stringify(customFields));
+  }, [customFields]);
+
+  useEffect(() => {
+    secureStorage.setItem(STAGES_KEY, JSON.stringify(stages));
   }, [stages]);
 
   useEffect(() => {
-    localStorage.setItem(COMPANY_PROFILE_KEY, JSON.stringify(companyProfile));
+    secureStorage.setItem(COMPANY_PROFILE_KEY, JSON.stringify(companyProfile));
   }, [companyProfile]);
 
   useEffect(() => {
-    localStorage.setItem(TEST_LIBRARY_KEY, JSON.stringify(testLibrary));
+    secureStorage.setItem(TEST_LIBRARY_KEY, JSON.stringify(testLibrary));
   }, [testLibrary]);
+
+  useEffect(() => {
+    secureStorage.setItem(RETENTION_POLICY_KEY, JSON.stringify(retentionPolicy));
+  }, [retentionPolicy]);
   
   const handleSetGeminiApiKey = (key: string) => {
     const trimmedKey = key.trim();
     if (trimmedKey) {
         setGeminiApiKey(trimmedKey);
-        localStorage.setItem(GEMINI_API_KEY, trimmedKey);
-        addToast('کلید API ذخیره و فعال شد.', 'success');
+        secureStorage.setItem(GEMINI_API_KEY, trimmedKey);
+        notifyChange('کلید API ذخیره و فعال شد.');
     } else {
         setGeminiApiKey(null);
-        localStorage.removeItem(GEMINI_API_KEY);
-        addToast('کلید API حذف شد.', 'success');
+        secureStorage.removeItem(GEMINI_API_KEY);
+        notifyChange('کلید API حذف شد.');
     }
   };
 
+  const updateRetentionPolicy = (policy: RetentionPolicy) => {
+    const rules = policy.rules.filter(rule => rule.stageId && rule.months > 0);
+    setRetentionPolicy({ ...policy, rules });
+    notifyChange(`سیاست نگهداری داده‌ها ${policy.enabled ? 'فعال' : 'غیرفعال'} و ذخیره شد.`);
+  };
+
   const addSource = (source: string) => {
     const trimmedSource = source.trim();
     if (trimmedSource && !sources.find(s => s.toLowerCase() === trimmedSource.toLowerCase())) {
       setSources(prev => [...prev, trimmedSource]);
-      addToast(`منبع "${trimmedSource}" اضافه شد.`, 'success');
+      notifyChange(`منبع "${trimmedSource}" اضافه شد.`);
     } else {
       addToast('منبع تکراری یا خالی است.', 'error');
     }
@@ -129,77 +222,237 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
 
   const deleteSource = (sourceToDelete: string) => {
     setSources(prev => prev.filter(s => s !== sourceToDelete));
-    addToast(`منبع "${sourceToDelete}" حذف شد.`, 'success');
+    notifyChange(`منبع "${sourceToDelete}" حذف شد.`);
+  };
+
+  const isDuplicateTagName = (name: string, exceptId?: string) =>
+    tags.some(t => t.id !== exceptId && t.name.toLowerCase() === name.toLowerCase());
+
+  const addTag = (name: string, color?: string) => {
+    const trimmedName = name.trim();
+    if (!trimmedName || isDuplicateTagName(trimmedName)) {
+      addToast('برچسب تکراری یا خالی است.', 'error');
+      return;
+    }
+    setTags(prev => [...prev, { id: generateId(), name: trimmedName, color: color || undefined }]);
+    notifyChange(`برچسب "${trimmedName}" اضافه شد.`);
+  };
+
+  const updateTag = (tag: TagDefinition) => {
+    const trimmedName = tag.name.trim();
+    if (!trimmedName || isDuplicateTagName(trimmedName, tag.id)) {
+      addToast('برچسب تکراری یا خالی است.', 'error');
+      return;
+    }
+    setTags(prev => prev.map(t => t.id === tag.id ? { ...tag, name: trimmedName, color: tag.color || undefined } : t));
+    notifyChange(`برچسب "${trimmedName}" به‌روزرسانی شد.`, tag.id);
+  };
+
+  // Candidates keep the id of a deleted tag; it is ignored wherever tags are shown or filtered.
+  const deleteTag = (id: string) => {
+    const tag = tags.find(t => t.id === id);
+    setTags(prev => prev.filter(t => t.id !== id));
+    notifyChange(`برچسب "${tag?.name || id}" حذف شد.`, id);
+  };
+
+  const importTags = (incoming: TagDefinition[]) => {
+    setTags(prev => [...prev, ...incoming.filter(tag => tag.id && tag.name && !prev.some(t => t.id === tag.id))]);
+  };
+
+  // Returns an error message, or null when the definition can be saved.
+  const validateCustomField = (field: Omit<CustomFieldDefinition, 'id'>, exceptId?: string): string | null => {
+    if (!field.label.trim()) return 'عنوان فیلد نمی‌تواند خالی باشد.';
+    if (!CUSTOM_FIELD_KEY_PATTERN.test(field.key)) return 'کلید فیلد باید با حرف لاتین شروع شود و فقط شامل حروف لاتین، عدد و _ باشد.';
+    if (customFields.some(f => f.id !== exceptId && f.key.toLowerCase() === field.key.toLowerCase())) return 'کلید فیلد تکراری است.';
+    if (field.type === 'select' && !field.options?.length) return 'برای فیلد انتخابی حداقل یک گزینه وارد کنید.';
+    return null;
+  };
+
+  // Options are only kept for select fields, without blanks and duplicates.
+  const normalizeCustomField = <T extends Omit<CustomFieldDefinition, 'id'>>(field: T): T => ({
+    ...field,
+    label: field.label.trim(),
+    options: field.type === 'select' ? [...new Set((field.options || []).map(o => o.trim()).filter(Boolean))] : undefined,
+    isPersonal: field.isPersonal || undefined,
+  });
+
+  const addCustomField = (field: Omit<CustomFieldDefinition, 'id'>): boolean => {
+    const normalized = normalizeCustomField(field);
+    const error = validateCustomField(normalized);
+    if (error) {
+      addToast(error, 'error');
+      return false;
+    }
+    setCustomFields(prev => [...prev, { ...normalized, id: `field_${Date.now()}` }]);
+    notifyChange(`فیلد "${normalized.label}" اضافه شد.`);
+    return true;
+  };
+
+  const updateCustomField = (field: CustomFieldDefinition): boolean => {
+    const normalized = normalizeCustomField(field);
+    const error = validateCustomField(normalized, field.id);
+    if (error) {
+      addToast(error, 'error');
+      return false;
+    }
+    setCustomFields(prev => prev.map(f => f.id === field.id ? normalized : f));
+    notifyChange(`فیلد "${normalized.label}" به‌روزرسانی شد.`, field.id);
+    return true;
+  };
+
+  // Stored values of a deleted field stay on the candidates but are no longer shown, filtered or exported.
+  const deleteCustomField = (id: string) => {
+    const field = customFields.find(f => f.id === id);
+    setCustomFields(prev => prev.filter(f => f.id !== id));
+    notifyChange(`فیلد "${field?.label || id}" حذف شد.`, id);
+  };
+
+  const moveCustomField = (id: string, direction: -1 | 1) => {
+    setCustomFields(prev => {
+      const index = prev.findIndex(f => f.id === id);
+      const target = index + direction;
+      if (index < 0 || target < 0 || target >= prev.length) return prev;
+      const reordered = [...prev];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+
+  const importCustomFields = (incoming: CustomFieldDefinition[]) => {
+    setCustomFields(prev => [
+      ...prev,
+      ...incoming.filter(field => field.id && field.label && !prev.some(f => f.id === field.id || f.key === field.key)),
+    ]);
+  };
+
+  const getStagesForPosition = (jobPositionId?: string): KanbanStage[] => {
+    const position = companyProfile.jobPositions.find(j => j.id === jobPositionId);
+    return position?.stages ? withCoreStages(position.stages, stages) : stages;
+  };
+
+  // The global stages plus every position-specific stage, used when the board shows all positions.
+  // Extra stages are placed before "hired" so the terminal stages stay at the end.
+  const getAllPipelineStages = (): KanbanStage[] => {
+    const extraStages = companyProfile.jobPositions
+      .flatMap(j => j.stages || [])
+      .filter((stage, index, all) => !stages.some(s => s.id === stage.id) && all.findIndex(s => s.id === stage.id) === index);
+    const hiredIndex = stages.findIndex(s => s.id === 'hired');
+    const insertAt = hiredIndex >= 0 ? hiredIndex : stages.length;
+    return [...stages.slice(0, insertAt), ...extraStages, ...stages.slice(insertAt)];
+  };
+
+  const setPositionStages = (jobPositionId: string, updater: (current: KanbanStage[]) => KanbanStage[] | undefined) => {
+    setCompanyProfile(prev => ({
+      ...prev,
+      jobPositions: prev.jobPositions.map(j => j.id === jobPositionId ? { ...j, stages: updater(j.stages ? withCoreStages(j.stages, stages) : stages) } : j),
+    }));
+  };
+
+  const enablePositionPipeline = (jobPositionId: string) => {
+    setPositionStages(jobPositionId, () => [...stages]);
+    notifyChange('پایپ‌لاین اختصاصی برای این موقعیت ایجاد شد.', jobPositionId);
+  };
+
+  const resetPositionPipeline = (jobPositionId: string) => {
+    setPositionStages(jobPositionId, () => undefined);
+    notifyChange('موقعیت به پایپ‌لاین پیش‌فرض بازگشت.', jobPositionId);
   };
 
-  const setStageOrder = (orderedStages: KanbanStage[]) => {
-    setStages(orderedStages);
-    addToast("ترتیب مراحل ذخیره شد.", "success");
+  const setStageOrder = (orderedStages: KanbanStage[], jobPositionId?: string) => {
+    if (jobPositionId) {
+      setPositionStages(jobPositionId, () => orderedStages);
+    } else {
+      setStages(orderedStages);
+    }
+    notifyChange("ترتیب مراحل ذخیره شد.");
   };
 
-  const addStage = (title: string) => {
+  const addStage = (title: string, jobPositionId?: string) => {
     const trimmedTitle = title.trim();
-    if (trimmedTitle && !stages.find(s => s.title.toLowerCase() === trimmedTitle.toLowerCase())) {
+    const currentStages = jobPositionId ? getStagesForPosition(jobPositionId) : stages;
+    if (trimmedTitle && !currentStages.find(s => s.title.toLowerCase() === trimmedTitle.toLowerCase())) {
         const newStage: KanbanStage = {
             id: `stage_${Date.now()}`,
             title: trimmedTitle,
             isCore: false
         };
-        setStages(prev => [...prev, newStage]);
-        addToast(`مرحله "${trimmedTitle}" اضافه شد.`, 'success');
+        if (jobPositionId) {
+            setPositionStages(jobPositionId, current => [...current, newStage]);
+        } else {
+            setStages(prev => [...prev, newStage]);
+        }
+        notifyChange(`مرحله "${trimmedTitle}" اضافه شد.`);
     } else {
         addToast('عنوان مرحله تکراری یا خالی است.', 'error');
     }
   };
 
-  const updateStage = (id: string, title: string) => {
+  const updateStage = (id: string, title: string, jobPositionId?: string) => {
     const trimmedTitle = title.trim();
     if (!trimmedTitle) {
         addToast('عنوان مرحله نمی‌تواند خالی باشد.', 'error');
         return;
     }
-    setStages(prev => prev.map(s => s.id === id ? { ...s, title: trimmedTitle } : s));
-    addToast('مرحله به‌روزرسانی شد.', 'success');
+    if (jobPositionId) {
+        setPositionStages(jobPositionId, current => current.map(s => s.id === id ? { ...s, title: trimmedTitle } : s));
+    } else {
+        setStages(prev => prev.map(s => s.id === id ? { ...s, title: trimmedTitle } : s));
+    }
+    notifyChange('مرحله به‌روزرسانی شد.');
   };
 
-  const deleteStage = (id: string) => {
-      const stageToDelete = stages.find(s => s.id === id);
+  const deleteStage = (id: string, jobPositionId?: string) => {
+      const currentStages = jobPositionId ? getStagesForPosition(jobPositionId) : stages;
+      const stageToDelete = currentStages.find(s => s.id === id);
       if (!stageToDelete) return;
       if (stageToDelete.isCore) {
           addToast('نمی‌توان مراحل اصلی سیستم را حذف کرد.', 'error');
           return;
       }
-      setStages(prev => prev.filter(s => s.id !== id));
-      addToast(`مرحله "${stageToDelete.title}" حذف شد.`, 'success');
+      if (jobPositionId) {
+          setPositionStages(jobPositionId, current => current.filter(s => s.id !== id));
+      } else {
+          setStages(prev => prev.filter(s => s.id !== id));
+      }
+      notifyChange(`مرحله "${stageToDelete.title}" حذف شد.`);
   };
 
   const updateCompanyDetails = (details: Partial<Omit<CompanyProfile, 'jobPositions'>>) => {
     setCompanyProfile(prev => ({ ...prev, ...details }));
-    addToast('اطلاعات شرکت به‌روزرسانی شد.', 'success');
+    notifyChange('اطلاعات شرکت به‌روزرسانی شد.');
   };
 
   const addJobPosition = (title: string) => {
     const trimmedTitle = title.trim();
     if (trimmedTitle && !companyProfile.jobPositions.find(j => j.title.toLowerCase() === trimmedTitle.toLowerCase())) {
-      const newJob: JobPosition = { id: `job_${Date.now()}`, title: trimmedTitle };
+      const newJob: JobPosition = { id: `job_${Date.now()}`, title: trimmedTitle, status: 'open' };
       setCompanyProfile(prev => ({ ...prev, jobPositions: [...prev.jobPositions, newJob] }));
-      addToast(`موقعیت شغلی "${trimmedTitle}" اضافه شد.`, 'success');
+      notifyChange(`موقعیت شغلی "${trimmedTitle}" اضافه شد.`);
     } else {
       addToast('موقعیت شغلی تکراری یا خالی است.', 'error');
     }
   };
 
-  const updateJobPosition = (id: string, title: string) => {
-    const trimmedTitle = title.trim();
-    if (!trimmedTitle) {
+  const updateJobPosition = (id: string, changes: Partial<Omit<JobPosition, 'id' | 'stages' | 'scorecards'>>) => {
+    const trimmedTitle = changes.title?.trim();
+    if (changes.title !== undefined && !trimmedTitle) {
       addToast('عنوان نمی‌تواند خالی باشد.', 'error');
       return;
     }
+    if (trimmedTitle && companyProfile.jobPositions.some(j => j.id !== id && j.title.toLowerCase() === trimmedTitle.toLowerCase())) {
+      addToast('موقعیت شغلی تکراری است.', 'error');
+      return;
+    }
+    if (changes.salaryMin !== undefined && changes.salaryMax !== undefined && changes.salaryMin > changes.salaryMax) {
+      addToast('حداقل حقوق نمی‌تواند از حداکثر آن بیشتر باشد.', 'error');
+      return;
+    }
+    const finalChanges = trimmedTitle ? { ...changes, title: trimmedTitle } : changes;
     setCompanyProfile(prev => ({
       ...prev,
-      jobPositions: prev.jobPositions.map(j => j.id === id ? { ...j, title: trimmedTitle } : j),
+      jobPositions: prev.jobPositions.map(j => j.id === id ? { ...j, ...finalChanges } : j),
     }));
-    addToast('موقعیت شغلی به‌روزرسانی شد.', 'success');
+    notifyChange('موقعیت شغلی به‌روزرسانی شد.', id);
   };
 
   const deleteJobPosition = (id: string) => {
@@ -207,9 +460,41 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
       ...prev,
       jobPositions: prev.jobPositions.filter(j => j.id !== id),
     }));
-    addToast('موقعیت شغلی حذف شد.', 'success');
+    notifyChange('موقعیت شغلی حذف شد.', id);
   };
   
+  const saveScorecardTemplate = (jobPositionId: string, template: ScorecardTemplate): boolean => {
+    const name = template.name.trim();
+    const competencies = template.competencies
+      .map(c => ({ ...c, name: c.name.trim(), description: c.description?.trim() || undefined, requireNote: c.requireNote || undefined }))
+      .filter(c => c.name);
+    if (!name || competencies.length === 0) {
+      addToast('نام کارت ارزیابی و حداقل یک شایستگی لازم است.', 'error');
+      return false;
+    }
+    const saved: ScorecardTemplate = { ...template, name, stageId: template.stageId || undefined, competencies };
+    setCompanyProfile(prev => ({
+      ...prev,
+      jobPositions: prev.jobPositions.map(j => {
+        if (j.id !== jobPositionId) return j;
+        const scorecards = j.scorecards || [];
+        const exists = scorecards.some(t => t.id === saved.id);
+        return { ...j, scorecards: exists ? scorecards.map(t => t.id === saved.id ? saved : t) : [...scorecards, saved] };
+      }),
+    }));
+    notifyChange(`کارت ارزیابی "${name}" ذخیره شد.`, jobPositionId);
+    return true;
+  };
+
+  // Submissions made with a deleted template are kept on the applications and still shown.
+  const deleteScorecardTemplate = (jobPositionId: string, templateId: string) => {
+    setCompanyProfile(prev => ({
+      ...prev,
+      jobPositions: prev.jobPositions.map(j => j.id === jobPositionId ? { ...j, scorecards: (j.scorecards || []).filter(t => t.id !== templateId) } : j),
+    }));
+    notifyChange('کارت ارزیابی حذف شد.', jobPositionId);
+  };
+
   const addTest = (test: Omit<TestLibraryItem, 'id'>) => {
     if (!test.name.trim() || !test.url.trim()) {
         addToast("نام و لینک آزمون نمی‌تواند خالی باشد.", 'error');
@@ -217,7 +502,7 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     }
     const newTest = { ...test, id: `test_${Date.now()}` };
     setTestLibrary(prev => [...prev, newTest]);
-    addToast(`آزمون "${test.name}" اضافه شد.`, 'success');
+    notifyChange(`آزمون "${test.name}" اضافه شد.`);
   };
 
   const updateTest = (updatedTest: TestLibraryItem) => {
@@ -226,20 +511,25 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
         return;
     }
     setTestLibrary(prev => prev.map(t => t.id === updatedTest.id ? updatedTest : t));
-    addToast(`آزمون "${updatedTest.name}" به‌روزرسانی شد.`, 'success');
+    notifyChange(`آزمون "${updatedTest.name}" به‌روزرسانی شد.`);
   };
 
   const deleteTest = (id: string) => {
     setTestLibrary(prev => prev.filter(t => t.id !== id));
-    addToast("آزمون حذف شد.", 'success');
+    notifyChange("آزمون حذف شد.");
   };
 
   const value = { 
       sources, addSource, deleteSource, 
-      stages, setStageOrder, addStage, updateStage, deleteStage, 
+      tags, addTag, updateTag, deleteTag, importTags,
+      customFields, addCustomField, updateCustomField, deleteCustomField, moveCustomField, importCustomFields,
+      stages, setStageOrder, addStage, updateStage, deleteStage,
+      getStagesForPosition, getAllPipelineStages, enablePositionPipeline, resetPositionPipeline,
       companyProfile, updateCompanyDetails, addJobPosition, updateJobPosition, deleteJobPosition, 
+      saveScorecardTemplate, deleteScorecardTemplate,
       testLibrary, addTest, updateTest, deleteTest,
       geminiApiKey, setGeminiApiKey: handleSetGeminiApiKey,
+      retentionPolicy, updateRetentionPolicy,
   };
 
   return <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>;
@@ -2,6 +2,8 @@ import React, { createContext, useContext, useState, useEffect, ReactNode } from
 import { Template } from '../types';
 import { DEFAULT_TEMPLATES, TEMPLATES_KEY } from '../constants';
 import { useToast } from './ToastContext';
+import { useAuth } from './AuthContext';
+import { secureStorage } from '../services/encryptionService';
 
 interface TemplateContextType {
   templates: Template[];
@@ -21,7 +23,7 @@ export const useTemplates = () => {
 export const TemplateProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [templates, setTemplates] = useState<Template[]>(() => {
     try {
-      const storedTemplates = localStorage.getItem(TEMPLATES_KEY);
+      const storedTemplates = secureStorage.getItem(TEMPLATES_KEY);
       return storedTemplates ? JSON.parse(storedTemplates) : DEFAULT_TEMPLATES;
     } catch (error) {
       console.error("Failed to load templates from localStorage", error);
@@ -29,10 +31,16 @@ export const TemplateProvider: React.FC<{ children: ReactNode }> = ({ children }
     }
   });
   const { addToast } = useToast();
+  const { logAudit } = useAuth();
+
+  const notifyChange = (message: string) => {
+    addToast(message, 'success');
+    logAudit('template:update', message);
+  };
 
   useEffect(() => {
     try {
-      localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+      secureStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
     } catch (error) {
       console.error("Failed to save templates to localStorage", error);
     }
@@ -48,7 +56,7 @@ export const TemplateProvider: React.FC<{ children: ReactNode }> = ({ children }
       ...templateData,
     };
     setTemplates(prev => [...prev, newTemplate]);
-    addToast(`قالب "${newTemplate.name}" اضافه شد.`, 'success');
+    notifyChange(`قالب "${newTemplate.name}" اضافه شد.`);
   };
 
   const updateTemplate = (updatedTemplate: Template) => {
@@ -57,14 +65,14 @@ export const TemplateProvider: React.FC<{ children: ReactNode }> = ({ children }
       return;
     }
     setTemplates(prev => prev.map(t => t.id === updatedTemplate.id ? updatedTemplate : t));
-    addToast(`قالب "${updatedTemplate.name}" به‌روزرسانی شد.`, 'success');
+    notifyChange(`قالب "${updatedTemplate.name}" به‌روزرسانی شد.`);
   };
 
   const deleteTemplate = (id: string) => {
     const templateToDelete = templates.find(t => t.id === id);
     setTemplates(prev => prev.filter(t => t.id !== id));
     if (templateToDelete) {
-        addToast(`قالب "${templateToDelete.name}" حذف شد.`, 'success');
+        notifyChange(`قالب "${templateToDelete.name}" حذف شد.`);
     }
   };
   
@@ -1,4 +1,5 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
+import { THEME_KEY, BACKGROUND_KEY } from '../constants';
 
 type Theme = 'indigo' | 'blue' | 'teal' | 'rose';
 type Background = { type: 'default' } | { type: 'custom', url: string };
@@ -11,9 +12,6 @@ interface ThemeContextType {
   setDefaultBackground: () => void;
 }
 
-const THEME_KEY = 'recruitment_theme_v1';
-const BACKGROUND_KEY = 'recruitment_background_v1';
-
 const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
 
 export const useTheme = () => {
@@ -1,8 +1,9 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { Candidate } from "../types";
+import { Candidate, CandidateProfile, MilitaryServiceStatus, ParsedResume } from "../types";
+import { getDocumentKind, getImageMimeType, docxToText, SUPPORTED_DOCUMENT_LABEL } from "../utils/documentUtils";
 
 // Helper to convert a File object to the format Google AI API expects
-const fileToGenerativePart = (file: File) => {
+const fileToGenerativePart = (file: File, mimeType: string) => {
   return new Promise<{ inlineData: { mimeType: string, data: string } }>((resolve, reject) => {
     const reader = new FileReader();
     reader.onloadend = () => {
@@ -12,7 +13,7 @@ const fileToGenerativePart = (file: File) => {
       const base64Data = reader.result.split(',')[1];
       resolve({
         inlineData: {
-          mimeType: file.type,
+          mimeType,
           data: base64Data,
         },
       });
@@ -24,15 +25,56 @@ const fileToGenerativePart = (file: File) => {
   });
 };
 
+// PDFs and images are sent as they are; Word documents are converted to text locally since the API does not read DOCX.
+const fileToContentPart = async (file: File): Promise<{ inlineData: { mimeType: string, data: string } } | { text: string }> => {
+  const kind = getDocumentKind(file);
+  if (!kind) {
+    throw new Error(`فقط فایل‌های ${SUPPORTED_DOCUMENT_LABEL} پشتیبانی می‌شوند.`);
+  }
+  if (kind === 'docx') {
+    const text = await docxToText(file);
+    if (!text.trim()) {
+      throw new Error('متنی در فایل Word یافت نشد.');
+    }
+    return { text: `متن فایل:\n${text}` };
+  }
+  return fileToGenerativePart(file, kind === 'pdf' ? 'application/pdf' : getImageMimeType(file));
+};
+
+
+const MILITARY_STATUSES: MilitaryServiceStatus[] = ['completed', 'exempt', 'in_service', 'pending', 'not_applicable'];
+
+const cleanList = (values: unknown): string[] | undefined => {
+  const list = Array.isArray(values) ? values.map(v => String(v).trim()).filter(Boolean) : [];
+  return list.length > 0 ? list : undefined;
+};
+
+// The model may omit fields or return empty values; only meaningful values are kept.
+const toProfile = (raw: any): CandidateProfile => {
+  const education = Array.isArray(raw?.education)
+    ? raw.education
+        .map((e: any) => ({ degree: e?.degree || '', field: e?.field || '', institution: e?.institution || '', ...(e?.graduationYear ? { graduationYear: String(e.graduationYear) } : {}) }))
+        .filter((e: any) => e.degree || e.field || e.institution)
+    : [];
+  const years = Number(raw?.yearsOfExperience);
+  const profile: CandidateProfile = {
+    education: education.length > 0 ? education : undefined,
+    yearsOfExperience: Number.isFinite(years) && years > 0 ? Math.round(years) : undefined,
+    skills: cleanList(raw?.skills),
+    previousEmployers: cleanList(raw?.previousEmployers),
+    languages: cleanList(raw?.languages),
+    location: raw?.location?.trim() || undefined,
+    militaryServiceStatus: MILITARY_STATUSES.includes(raw?.militaryServiceStatus) ? raw.militaryServiceStatus : undefined,
+    expectedSalary: raw?.expectedSalary?.trim() || undefined,
+  };
+  return Object.fromEntries(Object.entries(profile).filter(([, value]) => value !== undefined)) as CandidateProfile;
+};
 
 export const aiService = {
-  async parseResume(apiKey: string, file: File): Promise<{name: string, email: string, phone: string}> {
-    if (file.type !== 'application/pdf') {
-        throw new Error('فقط فایل‌های PDF برای تحلیل رزومه پشتیبانی می‌شوند.');
-    }
-    
+  async parseResume(apiKey: string, file: File): Promise<ParsedResume> {
+    const filePart = await fileToContentPart(file);
+
     try {
-        const filePart = await fileToGenerativePart(file);
         const ai = new GoogleGenAI({ apiKey });
         
         const response = await ai.models.generateContent({
@@ -40,7 +82,7 @@ export const aiService = {
             contents: {
                 parts: [
                     filePart,
-                    { text: 'نام کامل، آدرس ایمیل و شماره تلفن را از این رزومه استخراج کن. خروجی را در قالب JSON ارائه بده.' }
+                    { text: 'اطلاعات زیر را از این رزومه استخراج کن: نام کامل، ایمیل، شماره تلفن، سوابق تحصیلی، سال‌های سابقه کار، مهارت‌ها، کارفرمایان قبلی، زبان‌ها، محل سکونت، وضعیت خدمت سربازی و حقوق درخواستی. اگر موردی در رزومه نیامده، آن را خالی بگذار و حدس نزن. خروجی را در قالب JSON ارائه بده.' }
                 ]
             },
             config: {
@@ -51,13 +93,37 @@ export const aiService = {
                         name: { type: Type.STRING, description: "نام کامل متقاضی" },
                         email: { type: Type.STRING, description: "آدرس ایمیل متقاضی" },
                         phone: { type: Type.STRING, description: "شماره تلفن متقاضی" },
+                        education: {
+                            type: Type.ARRAY,
+                            items: {
+                                type: Type.OBJECT,
+                                properties: {
+                                    degree: { type: Type.STRING, description: "مقطع تحصیلی، مثلا کارشناسی" },
+                                    field: { type: Type.STRING, description: "رشته تحصیلی" },
+                                    institution: { type: Type.STRING, description: "دانشگاه یا موسسه" },
+                                    graduationYear: { type: Type.STRING, description: "سال فارغ‌التحصیلی" },
+                                }
+                            }
+                        },
+                        yearsOfExperience: { type: Type.NUMBER, description: "مجموع سال‌های سابقه کار" },
+                        skills: { type: Type.ARRAY, items: { type: Type.STRING }, description: "مهارت‌های فنی و تخصصی" },
+                        previousEmployers: { type: Type.ARRAY, items: { type: Type.STRING }, description: "نام شرکت‌های قبلی" },
+                        languages: { type: Type.ARRAY, items: { type: Type.STRING }, description: "زبان‌هایی که متقاضی می‌داند" },
+                        location: { type: Type.STRING, description: "شهر محل سکونت" },
+                        militaryServiceStatus: { type: Type.STRING, enum: MILITARY_STATUSES, description: "وضعیت خدمت سربازی؛ برای خانم‌ها not_applicable" },
+                        expectedSalary: { type: Type.STRING, description: "حقوق درخواستی همان‌طور که در رزومه آمده" },
                     }
                 }
             }
         });
 
-        const jsonStr = response.text.trim();
-        return JSON.parse(jsonStr);
+        const parsed = JSON.parse(response.text.trim());
+        return {
+            name: parsed.name || '',
+            email: parsed.email || '',
+            phone: parsed.phone || '',
+            profile: toProfile(parsed),
+        };
 
     } catch(error) {
         console.error("Error parsing resume with AI:", error);
@@ -66,12 +132,9 @@ export const aiService = {
   },
 
   async summarizeTestResult(apiKey: string, file: File): Promise<string> {
-    if (file.type !== 'application/pdf') {
-        throw new Error('فقط فایل‌های PDF برای خلاصه‌سازی پشتیبانی می‌شوند.');
-    }
+    const filePart = await fileToContentPart(file);
 
     try {
-        const filePart = await fileToGenerativePart(file);
         const ai = new GoogleGenAI({ apiKey });
         
         const response = await ai.models.generateContent({
@@ -165,7 +228,7 @@ export const aiService = {
         model: 'gemini-2.5-flash',
         contents: prompt,
         config: {
-          systemInstruction: 'You are an expert HR assistant. Your task is to generate professional and friendly communication templates (emails or WhatsApp messages) for a recruitment process. The language must be Persian. Keep the tone appropriate for communicating with candidates. Use placeholders like {{candidateName}}, {{position}}, {{interviewDate}}, {{interviewTime}}, {{companyName}}, {{companyAddress}}, {{companyWebsite}}, {{stageName}} where appropriate.',
+          systemInstruction: 'You are an expert HR assistant. Your task is to generate professional and friendly communication templates (emails or WhatsApp messages) for a recruitment process. The language must be Persian. Keep the tone appropriate for communicating with candidates. Use placeholders like {{candidateName}}, {{position}}, {{interviewDate}}, {{interviewTime}}, {{interviewLocation}}, {{companyName}}, {{companyAddress}}, {{companyWebsite}}, {{stageName}} where appropriate.',
         }
       });
       
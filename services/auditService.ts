@@ -0,0 +1,99 @@
+import { AuditAction, AuditEntry, User } from '../types';
+import { dbService } from './dbService';
+import { encryptionService } from './encryptionService';
+import { getSubtleCrypto } from '../utils/cryptoUtils';
+import { AUDIT_ACTION_LABELS } from '../constants';
+import { buildCsv } from '../utils/fileUtils';
+
+const GENESIS_HASH = '0'.repeat(64);
+
+type PendingEntry = Pick<AuditEntry, 'timestamp' | 'username' | 'userDisplayName' | 'action' | 'targetId' | 'details'>;
+
+// Entries are appended one at a time so every entry sees the hash of the one before it.
+let writeQueue: Promise<void> = Promise.resolve();
+// Events that happen while encrypted data is locked (e.g. failed logins) are written after the next unlock.
+const heldEntries: PendingEntry[] = [];
+
+const computeHash = async (entry: Omit<AuditEntry, 'hash'>): Promise<string> => {
+  // Fixed field order so the hash does not depend on how the entry object was built
+  const content = JSON.stringify([
+    entry.seq, entry.timestamp, entry.username, entry.userDisplayName, entry.action,
+    entry.targetId ?? null, entry.details ?? null, entry.prevHash,
+  ]);
+  const digest = await getSubtleCrypto().digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const appendEntry = async (pending: PendingEntry): Promise<void> => {
+  if (encryptionService.isLocked()) {
+    heldEntries.push(pending);
+    return;
+  }
+  const last = await dbService.getLastAuditEntry();
+  const entry: Omit<AuditEntry, 'hash'> = {
+    ...pending,
+    seq: last ? last.seq + 1 : 1,
+    prevHash: last ? last.hash : GENESIS_HASH,
+  };
+  await dbService.addAuditEntry({ ...entry, hash: await computeHash(entry) });
+};
+
+const enqueue = (pending: PendingEntry) => {
+  writeQueue = writeQueue
+    .then(() => appendEntry(pending))
+    .catch(e => console.error('Failed to write audit log entry', e));
+  return writeQueue;
+};
+
+export const auditService = {
+  // Never throws: a failing audit write must not block the action that is being recorded.
+  record: (actor: Pick<User, 'username' | 'name'> | null, action: AuditAction, details?: string, targetId?: string): Promise<void> => {
+    const pending: PendingEntry = {
+      timestamp: new Date().toISOString(),
+      username: actor?.username || '',
+      userDisplayName: actor?.name || '',
+      action,
+      ...(targetId ? { targetId } : {}),
+      ...(details ? { details } : {}),
+    };
+    return enqueue(pending);
+  },
+
+  // Writes the entries that were recorded while encrypted data was locked.
+  flushHeldEntries: (): Promise<void> => {
+    const entries = heldEntries.splice(0);
+    entries.forEach(enqueue);
+    return writeQueue;
+  },
+
+  // Oldest first.
+  getEntries: async (): Promise<AuditEntry[]> => {
+    await writeQueue;
+    const entries = await dbService.getAllAuditEntries();
+    return entries.sort((a, b) => a.seq - b.seq);
+  },
+
+  // Returns the sequence number of the first entry that was changed, removed or inserted, or null when the chain is intact.
+  verifyChain: async (entries: AuditEntry[]): Promise<number | null> => {
+    let prevHash = GENESIS_HASH;
+    let expectedSeq = entries[0]?.seq ?? 1;
+    for (const entry of entries) {
+      const { hash, ...rest } = entry;
+      if (entry.seq !== expectedSeq || entry.prevHash !== prevHash || await computeHash(rest) !== hash) {
+        return entry.seq;
+      }
+      prevHash = hash;
+      expectedSeq++;
+    }
+    return null;
+  },
+
+  toCsv: (entries: AuditEntry[]): string => {
+    const header = ['seq', 'timestamp', 'username', 'name', 'action', 'action_label', 'target', 'details', 'hash'];
+    const rows = entries.map(e => [
+      String(e.seq), e.timestamp, e.username, e.userDisplayName, e.action, AUDIT_ACTION_LABELS[e.action] || e.action,
+      e.targetId || '', e.details || '', e.hash,
+    ]);
+    return buildCsv([header, ...rows]);
+  },
+};
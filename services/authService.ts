@@ -1,21 +1,95 @@
-import { User, UserWithPassword } from '../types';
+import { User, UserWithPassword, PasswordPolicy, SessionPolicy } from '../types';
+import {
+  USERS_KEY, PASSWORD_POLICY_KEY, DEFAULT_PASSWORD_POLICY, SESSION_POLICY_KEY, DEFAULT_SESSION_POLICY,
+} from '../constants';
+import { normalizeUser } from '../utils/permissionUtils';
+import { getSubtleCrypto, bytesToBase64, base64ToBytes, randomBytes, constantTimeEquals } from '../utils/cryptoUtils';
 
-const USERS_KEY = 'recruitment_users';
 const CURRENT_USER_KEY = 'recruitment_current_user';
+const SESSION_SECRET_KEY = 'recruitment_session_secret';
 
-// Let TypeScript know about the global CryptoJS object from the script tag
-declare const CryptoJS: any;
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
 
-// Helper to hash passwords using SHA-256 from CryptoJS library
+// Passwords of the accounts created on first start. Anyone still using them must pick a new one.
+const DEFAULT_PASSWORDS: Record<string, string> = {
+  admin: 'adminpassword',
+  hr: 'hrpassword',
+};
+
+const pbkdf2 = async (password: string, salt: BufferSource, iterations: number): Promise<Uint8Array> => {
+  const subtle = getSubtleCrypto();
+  const key = await subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return new Uint8Array(bits);
+};
+
+// Hashes with PBKDF2 and a random per-user salt. The parameters are stored with the hash so they can be raised later.
 const hashPassword = async (password: string): Promise<string> => {
-  // Use a promise to keep the async signature, even though CryptoJS is synchronous
-  return new Promise((resolve, reject) => {
-    if (typeof CryptoJS === 'undefined') {
-      return reject(new Error('CryptoJS library not loaded. Cannot hash password.'));
-    }
-    const hashedPassword = CryptoJS.SHA256(password).toString(CryptoJS.enc.Hex);
-    resolve(hashedPassword);
-  });
+  const salt = randomBytes(SALT_BYTES);
+  const hash = await pbkdf2(password, salt, PBKDF2_ITERATIONS);
+  return `pbkdf2$${PBKDF2_ITERATIONS}$${bytesToBase64(salt)}$${bytesToBase64(hash)}`;
+};
+
+// Unsalted SHA-256 hex digest used before PBKDF2; only needed to verify and upgrade old hashes.
+const legacySha256 = async (password: string): Promise<string> => {
+  const digest = await getSubtleCrypto().digest('SHA-256', new TextEncoder().encode(password));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const isLegacyHash = (stored: string) => !stored.startsWith('pbkdf2$');
+
+const verifyPassword = async (password: string, stored: string | undefined): Promise<boolean> => {
+  if (!stored) return false;
+  if (isLegacyHash(stored)) {
+    return constantTimeEquals(await legacySha256(password), stored);
+  }
+  const [, iterations, salt, hash] = stored.split('$');
+  const computed = await pbkdf2(password, base64ToBytes(salt), Number(iterations));
+  return constantTimeEquals(bytesToBase64(computed), hash);
+};
+
+// The session only keeps what the UI needs; hashes and lockout counters stay in the user store.
+const toSessionUser = (user: UserWithPassword): User => {
+  const { password, failedLoginAttempts, lockedUntil, ...sessionUser } = user;
+  return normalizeUser(sessionUser);
+};
+
+interface SessionPayload {
+  username: string;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+// Random per-browser secret used to sign session tokens, so the session entry cannot be edited by hand.
+const getSessionSigningKey = async (): Promise<CryptoKey> => {
+  let secret = localStorage.getItem(SESSION_SECRET_KEY);
+  if (!secret) {
+    secret = bytesToBase64(randomBytes(32));
+    localStorage.setItem(SESSION_SECRET_KEY, secret);
+  }
+  return getSubtleCrypto().importKey('raw', base64ToBytes(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+};
+
+const signSessionPayload = async (encodedPayload: string): Promise<string> => {
+  const signature = await getSubtleCrypto().sign('HMAC', await getSessionSigningKey(), new TextEncoder().encode(encodedPayload));
+  return bytesToBase64(new Uint8Array(signature));
+};
+
+const createSessionToken = async (username: string, maxSessionHours: number): Promise<string> => {
+  const issuedAt = Date.now();
+  const payload: SessionPayload = { username, issuedAt, expiresAt: issuedAt + maxSessionHours * 3600000 };
+  const encodedPayload = btoa(JSON.stringify(payload));
+  return `${encodedPayload}.${await signSessionPayload(encodedPayload)}`;
+};
+
+// Returns the payload only if the signature matches and the session has not expired.
+const readSessionToken = async (token: string): Promise<SessionPayload | null> => {
+  const [encodedPayload, signature] = token.split('.');
+  if (!encodedPayload || !signature) return null;
+  if (!constantTimeEquals(await signSessionPayload(encodedPayload), signature)) return null;
+  const payload: SessionPayload = JSON.parse(atob(encodedPayload));
+  return payload.expiresAt > Date.now() ? payload : null;
 };
 
 // This service is now designed to be initialized asynchronously.
@@ -27,23 +101,25 @@ const getUsers = async (): Promise<Record<string, UserWithPassword>> => {
   try {
     const storedUsers = localStorage.getItem(USERS_KEY);
     if (storedUsers) {
-      users = JSON.parse(storedUsers);
+      const parsed: Record<string, UserWithPassword> = JSON.parse(storedUsers);
+      // Users stored before roles existed get a role derived from their isAdmin flag
+      users = Object.fromEntries(Object.entries(parsed).map(([key, user]) => [key, normalizeUser(user)]));
       return users!;
     }
   } catch (e) {
     console.error('Failed to parse users from localStorage', e);
   }
 
-  // If no users in localStorage, create defaults with hashed passwords
+  // If no users in localStorage, create defaults that must change their password on first login
   console.log("Initializing default users with hashed passwords...");
-  const defaultAdminPass = await hashPassword('adminpassword');
-  const defaultHrPass = await hashPassword('hrpassword');
   users = {
     'admin': {
-      username: 'admin', name: 'ادمین سیستم', isAdmin: true, password: defaultAdminPass,
+      username: 'admin', name: 'ادمین سیستم', role: 'admin', isAdmin: true, mustChangePassword: true,
+      password: await hashPassword(DEFAULT_PASSWORDS.admin),
     },
     'hr': {
-      username: 'hr', name: 'کارشناس استخدام', isAdmin: false, password: defaultHrPass,
+      username: 'hr', name: 'کارشناس استخدام', role: 'recruiter', isAdmin: false, mustChangePassword: true,
+      password: await hashPassword(DEFAULT_PASSWORDS.hr),
     },
   };
   authService.saveUsers(users);
@@ -74,33 +150,125 @@ export const authService = {
     }
   },
 
-  getCurrentUser: (): User | null => {
+  getPasswordPolicy: (): PasswordPolicy => {
+    try {
+      const stored = localStorage.getItem(PASSWORD_POLICY_KEY);
+      return stored ? { ...DEFAULT_PASSWORD_POLICY, ...JSON.parse(stored) } : DEFAULT_PASSWORD_POLICY;
+    } catch (e) {
+      console.error('Failed to parse password policy from localStorage', e);
+      return DEFAULT_PASSWORD_POLICY;
+    }
+  },
+
+  savePasswordPolicy: (policy: PasswordPolicy) => {
+    localStorage.setItem(PASSWORD_POLICY_KEY, JSON.stringify(policy));
+  },
+
+  getSessionPolicy: (): SessionPolicy => {
     try {
-        const userJson = sessionStorage.getItem(CURRENT_USER_KEY);
-        return userJson ? JSON.parse(userJson) : null;
+      const stored = localStorage.getItem(SESSION_POLICY_KEY);
+      return stored ? { ...DEFAULT_SESSION_POLICY, ...JSON.parse(stored) } : DEFAULT_SESSION_POLICY;
     } catch (e) {
-        console.error('Failed to parse current user from sessionStorage', e);
+      console.error('Failed to parse session policy from localStorage', e);
+      return DEFAULT_SESSION_POLICY;
+    }
+  },
+
+  saveSessionPolicy: (policy: SessionPolicy) => {
+    localStorage.setItem(SESSION_POLICY_KEY, JSON.stringify(policy));
+  },
+
+  // Returns one message per unmet rule; an empty list means the password is acceptable.
+  validatePassword: (password: string, policy: PasswordPolicy = authService.getPasswordPolicy()): string[] => {
+    const errors: string[] = [];
+    if (password.length < policy.minLength) errors.push(`حداقل ${policy.minLength} کاراکتر`);
+    if (policy.requireLetter && !/\p{L}/u.test(password)) errors.push('حداقل یک حرف');
+    if (policy.requireDigit && !/[0-9۰-۹]/.test(password)) errors.push('حداقل یک عدد');
+    if (policy.requireSymbol && !/[^\p{L}0-9۰-۹\s]/u.test(password)) errors.push('حداقل یک نماد (مانند !@#)');
+    return errors;
+  },
+
+  // Validates the signed session token and rebuilds the user from the stored record, so roles and
+  // flags always reflect the user store. Invalid, expired or orphaned sessions are cleared.
+  getCurrentUser: async (): Promise<User | null> => {
+    try {
+        const token = sessionStorage.getItem(CURRENT_USER_KEY);
+        if (!token) return null;
+        const payload = await readSessionToken(token);
+        const stored = payload ? (await getUsers())[payload.username] : undefined;
+        const isLocked = !!stored?.lockedUntil && new Date(stored.lockedUntil) > new Date();
+        if (!stored || isLocked) {
+          sessionStorage.removeItem(CURRENT_USER_KEY);
+          return null;
+        }
+        return toSessionUser(stored);
+    } catch (e) {
+        console.error('Failed to read the current session', e);
+        sessionStorage.removeItem(CURRENT_USER_KEY);
         return null;
     }
   },
 
+  // The current state of a user as kept in the session, e.g. after their record changed.
+  getSessionUser: (username: string): User | null => {
+    const stored = users?.[username.toLowerCase()];
+    return stored ? toSessionUser(stored) : null;
+  },
+
+  // Confirms the password of an already logged-in user before a sensitive action.
+  checkPassword: async (username: string, pass: string): Promise<boolean> => {
+    const user = (await getUsers())[username.toLowerCase()];
+    return verifyPassword(pass, user?.password);
+  },
+
   login: async (username: string, pass: string): Promise<User> => {
     const allUsers = await getUsers();
-    const user = allUsers[username.toLowerCase()];
-    const hashedPass = await hashPassword(pass);
-    
-    if (user && user.password === hashedPass) {
-      const { password, ...userToStore } = user;
-      sessionStorage.setItem(CURRENT_USER_KEY, JSON.stringify(userToStore));
-      return userToStore;
+    const key = username.toLowerCase();
+    const user = allUsers[key];
+    const policy = authService.getPasswordPolicy();
+
+    if (user?.lockedUntil && new Date(user.lockedUntil) > new Date()) {
+      const minutesLeft = Math.ceil((new Date(user.lockedUntil).getTime() - Date.now()) / 60000);
+      throw new Error(`به دلیل تلاش‌های ناموفق متعدد، این حساب تا ${minutesLeft} دقیقه دیگر قفل است.`);
     }
-    throw new Error('نام کاربری یا رمز عبور اشتباه است.');
+
+    if (!user || !(await verifyPassword(pass, user.password))) {
+      if (user) {
+        const failedLoginAttempts = (user.failedLoginAttempts || 0) + 1;
+        const shouldLock = policy.maxFailedAttempts > 0 && failedLoginAttempts >= policy.maxFailedAttempts;
+        allUsers[key] = shouldLock
+          ? { ...user, failedLoginAttempts: 0, lockedUntil: new Date(Date.now() + policy.lockoutMinutes * 60000).toISOString() }
+          : { ...user, failedLoginAttempts };
+        authService.saveUsers(allUsers);
+        if (shouldLock) {
+          throw new Error(`به دلیل تلاش‌های ناموفق متعدد، این حساب به مدت ${policy.lockoutMinutes} دقیقه قفل شد.`);
+        }
+      }
+      throw new Error('نام کاربری یا رمز عبور اشتباه است.');
+    }
+
+    const updatedUser: UserWithPassword = {
+      ...user,
+      failedLoginAttempts: 0,
+      lockedUntil: undefined,
+      // Old unsalted hashes are upgraded now that the plain password is known
+      password: isLegacyHash(user.password!) ? await hashPassword(pass) : user.password,
+      // Accounts created before the forced change still carry their well-known default password
+      mustChangePassword: user.mustChangePassword || DEFAULT_PASSWORDS[key] === pass,
+    };
+    allUsers[key] = updatedUser;
+    authService.saveUsers(allUsers);
+
+    const token = await createSessionToken(key, authService.getSessionPolicy().maxSessionHours);
+    sessionStorage.setItem(CURRENT_USER_KEY, token);
+    return toSessionUser(updatedUser);
   },
 
   logout: () => {
     sessionStorage.removeItem(CURRENT_USER_KEY);
   },
-  
+
+  // Passwords set by an admin are temporary: the user has to replace them on first login.
   addUser: async (userData: UserWithPassword): Promise<void> => {
       const allUsers = await getUsers();
       if (allUsers[userData.username.toLowerCase()]) {
@@ -109,27 +277,44 @@ export const authService = {
       if (!userData.password) {
           throw new Error('رمز عبور برای کاربر جدید الزامی است.');
       }
+      const policyErrors = authService.validatePassword(userData.password);
+      if (policyErrors.length > 0) {
+          throw new Error(`رمز عبور با سیاست رمز عبور مطابقت ندارد: ${policyErrors.join('، ')}`);
+      }
       const hashedPassword = await hashPassword(userData.password);
-      const newUser = { ...userData, password: hashedPassword };
+      const newUser = normalizeUser({ ...userData, password: hashedPassword, mustChangePassword: true });
       const updatedUsers = { ...allUsers, [userData.username.toLowerCase()]: newUser };
       authService.saveUsers(updatedUsers);
   },
 
   changePassword: async (username: string, oldPass: string, newPass: string, isAdminOverride: boolean = false) => {
     const allUsers = await getUsers();
-    const userToChange = allUsers[username.toLowerCase()];
+    const key = username.toLowerCase();
+    const userToChange = allUsers[key];
     if (!userToChange) {
       throw new Error('کاربر یافت نشد.');
     }
-    
+
     if (!isAdminOverride) {
-        const hashedOldPass = await hashPassword(oldPass);
-        if (userToChange.password !== hashedOldPass) {
+        if (!(await verifyPassword(oldPass, userToChange.password))) {
             throw new Error('رمز عبور فعلی اشتباه است.');
         }
+        if (oldPass === newPass) {
+            throw new Error('رمز عبور جدید باید با رمز عبور فعلی متفاوت باشد.');
+        }
     }
-    
-    userToChange.password = await hashPassword(newPass);
+    const policyErrors = authService.validatePassword(newPass);
+    if (policyErrors.length > 0) {
+        throw new Error(`رمز عبور با سیاست رمز عبور مطابقت ندارد: ${policyErrors.join('، ')}`);
+    }
+
+    allUsers[key] = {
+      ...userToChange,
+      password: await hashPassword(newPass),
+      mustChangePassword: isAdminOverride,
+      failedLoginAttempts: 0,
+      lockedUntil: undefined,
+    };
     authService.saveUsers(allUsers);
   },
-};
\ No newline at end of file
+};
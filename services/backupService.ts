@@ -0,0 +1,250 @@
+import { BackupData, BackupFileEntry, Candidate, MergePreviewItem, MergeResolution } from '../types';
+import { dbService } from './dbService';
+import { migrationService } from './migrationService';
+import { encryptionService, secureStorage } from './encryptionService';
+import { blobToBase64, base64ToFile } from '../utils/fileUtils';
+import { getLegacyTestFileKey, getTestFileKey } from '../utils/applicationUtils';
+import {
+  normalizeEmail, normalizePhone, toLatinDigits, getConflictingFields, mergeCandidateRecords, historyKey, commentKey,
+} from '../utils/candidateUtils';
+import {
+  SETTINGS_KEY_SOURCES, STAGES_KEY, TEMPLATES_KEY, COMPANY_PROFILE_KEY, TEST_LIBRARY_KEY,
+  THEME_KEY, BACKGROUND_KEY, USERS_KEY, PASSWORD_POLICY_KEY, SESSION_POLICY_KEY, RETENTION_POLICY_KEY, SAVED_VIEWS_KEY, TAGS_KEY, CUSTOM_FIELDS_KEY,
+} from '../constants';
+
+// Every localStorage key that is part of a full backup.
+const BACKUP_STORAGE_KEYS = [
+  SETTINGS_KEY_SOURCES, STAGES_KEY, TEMPLATES_KEY, COMPANY_PROFILE_KEY, TEST_LIBRARY_KEY,
+  THEME_KEY, BACKGROUND_KEY, USERS_KEY, PASSWORD_POLICY_KEY, SESSION_POLICY_KEY, RETENTION_POLICY_KEY, SAVED_VIEWS_KEY, TAGS_KEY, CUSTOM_FIELDS_KEY,
+];
+
+const toFileEntries = async (entries: { key: string; value: File }[]): Promise<BackupFileEntry[]> => {
+  const result: BackupFileEntry[] = [];
+  for (const { key, value } of entries) {
+    result.push({
+      id: key,
+      name: value.name || key,
+      type: value.type || 'application/octet-stream',
+      data: await blobToBase64(value),
+    });
+  }
+  return result;
+};
+
+const readStorage = (keys: string[]): Record<string, unknown> => {
+  const storage: Record<string, unknown> = {};
+  for (const key of keys) {
+    const raw = secureStorage.getItem(key);
+    if (raw === null) continue;
+    try {
+      storage[key] = JSON.parse(raw);
+    } catch {
+      storage[key] = raw; // Plain string values such as the theme name
+    }
+  }
+  return storage;
+};
+
+const fromFileEntries = (entries: BackupFileEntry[]): { key: string; value: File }[] =>
+  entries.map(entry => ({ key: entry.id, value: base64ToFile(entry.data, entry.name, entry.type) }));
+
+// Everything a full restore replaces. Storage values are raw strings; null removes the key.
+interface DataSnapshot {
+  candidates: Candidate[];
+  resumes: { key: string; value: File }[];
+  testFiles: { key: string; value: File }[];
+  storage: Record<string, string | null>;
+}
+
+const writeSnapshot = async (snapshot: DataSnapshot): Promise<void> => {
+  await dbService.clearAllCandidates();
+  await dbService.clearAllResumes();
+  await dbService.clearAllTestFiles();
+  for (const candidate of snapshot.candidates) {
+    await dbService.saveCandidate(candidate);
+  }
+  for (const { key, value } of snapshot.resumes) {
+    await dbService.saveResume(key, value);
+  }
+  for (const { key, value } of snapshot.testFiles) {
+    await dbService.saveTestFile(key, value);
+  }
+  for (const [key, value] of Object.entries(snapshot.storage)) {
+    if (value === null) secureStorage.removeItem(key);
+    else secureStorage.setItem(key, value);
+  }
+  await secureStorage.flush();
+};
+
+// Returns true when merging would add history, comments, tests, applications or a resume that the local record lacks.
+const addsToLocal = (local: Candidate, incoming: Candidate): boolean => {
+  const localHistory = new Set(local.history.map(historyKey));
+  const localComments = new Set(local.comments.map(commentKey));
+  const localTests = new Set((local.testResults || []).map(r => r.testId));
+  return incoming.history.some(h => !localHistory.has(historyKey(h))) ||
+    incoming.comments.some(c => !localComments.has(commentKey(c))) ||
+    (incoming.testResults || []).some(r => !localTests.has(r.testId)) ||
+    (!!incoming.hasResume && !local.hasResume) ||
+    (incoming.applications || []).some(a => !(local.applications || []).some(l => (l.jobPositionId || l.positionTitle) === (a.jobPositionId || a.positionTitle)));
+};
+
+const findMatch = (candidate: Candidate, local: Candidate[]): { local: Candidate; matchedBy: 'id' | 'email' | 'phone' } | undefined => {
+  const byId = local.find(c => c.id === candidate.id);
+  if (byId) return { local: byId, matchedBy: 'id' };
+  const email = normalizeEmail(candidate.email);
+  const byEmail = email ? local.find(c => normalizeEmail(c.email) === email) : undefined;
+  if (byEmail) return { local: byEmail, matchedBy: 'email' };
+  const phone = normalizePhone(toLatinDigits(candidate.phone));
+  const byPhone = phone ? local.find(c => normalizePhone(toLatinDigits(c.phone)) === phone) : undefined;
+  if (byPhone) return { local: byPhone, matchedBy: 'phone' };
+  return undefined;
+};
+
+export const backupService = {
+  // When candidateIds is given, only those candidates and their files are exported and user accounts are left out.
+  // This is used for users who may only see part of the data.
+  createBackup: async (appVersion: string, candidateIds?: string[]): Promise<BackupData> => {
+    const [allCandidates, allResumes, allTestFiles] = await Promise.all([
+      dbService.getAllCandidates(),
+      dbService.getAllResumes(),
+      dbService.getAllTestFiles(),
+    ]);
+    const inScope = (id: string) => !candidateIds || candidateIds.includes(id);
+    const candidates = allCandidates.filter(c => inScope(c.id));
+    const resumes = allResumes.filter(entry => inScope(entry.key));
+    const testFiles = allTestFiles.filter(entry => !candidateIds || candidateIds.some(id => entry.key.startsWith(`${id}_`)));
+    // Accounts and the saved views of other users are left out of scoped backups
+    const storageKeys = candidateIds ? BACKUP_STORAGE_KEYS.filter(key => key !== USERS_KEY && key !== SAVED_VIEWS_KEY) : BACKUP_STORAGE_KEYS;
+    return {
+      version: appVersion,
+      createdAt: new Date().toISOString(),
+      candidates,
+      storage: readStorage(storageKeys),
+      files: {
+        resumes: await toFileEntries(resumes),
+        testFiles: await toFileEntries(testFiles),
+      },
+    };
+  },
+
+  // Normalizes any supported backup format and migrates every section to the current version.
+  parseBackup: (data: any): BackupData => {
+    let backup: BackupData;
+    if (Array.isArray(data)) {
+      // Old backup format: just an array of candidates
+      backup = { version: '1.0.0', createdAt: new Date().toISOString(), candidates: data };
+    } else if (data && Array.isArray(data.candidates) && data.version) {
+      backup = data;
+    } else {
+      throw new Error('فرمت فایل پشتیبان ناشناخته است.');
+    }
+
+    const candidates: Candidate[] = migrationService.migrate(backup.candidates, backup.version);
+    if (!migrationService.validateSection('candidates', candidates)) {
+      throw new Error('فایل پشتیبان پس از مهاجرت، معتبر نیست.');
+    }
+
+    let storage: Record<string, unknown> | undefined;
+    if (backup.storage) {
+      storage = {};
+      for (const [key, value] of Object.entries(backup.storage)) {
+        if (!BACKUP_STORAGE_KEYS.includes(key)) continue;
+        storage[key] = migrationService.migrateSection(key, value, backup.version);
+        if (!migrationService.validateSection(key, storage[key])) {
+          throw new Error(`بخش «${key}» فایل پشتیبان معتبر نیست.`);
+        }
+      }
+    }
+
+    return { ...backup, candidates, storage };
+  },
+
+  // Replaces all local data with the backup content. Sections missing from older backups are left untouched,
+  // except for resumes and test files which always belong to the replaced candidates.
+  // Everything is decoded before local data is cleared, and the previous data is written back if a write fails.
+  restoreBackup: async (backup: BackupData): Promise<void> => {
+    if (encryptionService.isEnabled() && !encryptionService.isUnlocked()) {
+      throw new Error('داده‌های رمزنگاری‌شده قفل است. ابتدا رمز عبور رمزنگاری را وارد کنید.');
+    }
+    let incoming: DataSnapshot;
+    try {
+      incoming = {
+        candidates: backup.candidates,
+        resumes: fromFileEntries(backup.files?.resumes || []),
+        testFiles: fromFileEntries(backup.files?.testFiles || []),
+        storage: Object.fromEntries(Object.entries(backup.storage || {})
+          .map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)])),
+      };
+    } catch (error) {
+      console.error('Failed to decode backup files', error);
+      throw new Error('فایل‌های داخل پشتیبان خراب هستند. هیچ داده‌ای تغییر نکرد.');
+    }
+
+    const [candidates, resumes, testFiles] = await Promise.all([
+      dbService.getAllCandidates(),
+      dbService.getAllResumes(),
+      dbService.getAllTestFiles(),
+    ]);
+    const previous: DataSnapshot = {
+      candidates, resumes, testFiles,
+      storage: Object.fromEntries(Object.keys(incoming.storage).map(key => [key, secureStorage.getItem(key)])),
+    };
+
+    try {
+      await writeSnapshot(incoming);
+    } catch (error) {
+      console.error('Restore failed, writing back the previous data', error);
+      await writeSnapshot(previous);
+      throw new Error('بازیابی ناموفق بود و داده‌های قبلی بازگردانده شدند.');
+    }
+  },
+  // Classifies every incoming candidate against the local data without changing anything.
+  planMerge: (local: Candidate[], incoming: Candidate[]): MergePreviewItem[] => {
+    return incoming.map(candidate => {
+      const match = findMatch(candidate, local);
+      if (!match) return { kind: 'added', incoming: candidate };
+      // Personal data removed locally must not come back from an older backup
+      if (match.local.anonymizedAt) return { kind: 'unchanged', incoming: candidate, local: match.local, matchedBy: match.matchedBy, conflictingFields: [] };
+      const conflictingFields = getConflictingFields(match.local, candidate);
+      const kind = conflictingFields.length > 0 ? 'conflict' : addsToLocal(match.local, candidate) ? 'updated' : 'unchanged';
+      return { kind, incoming: candidate, local: match.local, matchedBy: match.matchedBy, conflictingFields };
+    });
+  },
+
+  // Merges the backup into the local data. Conflicts use the chosen side (local by default);
+  // history and comments are always combined. Local settings are not touched in merge mode.
+  applyMerge: async (backup: BackupData, resolutions: Record<string, MergeResolution>): Promise<void> => {
+    const resumes = new Map((backup.files?.resumes || []).map(entry => [entry.id, entry]));
+    const testFiles = new Map((backup.files?.testFiles || []).map(entry => [entry.id, entry]));
+    // Work on a live copy so several incoming records matching the same local one build on each other
+    const local = await dbService.getAllCandidates();
+
+    for (const incoming of backup.candidates) {
+      const match = findMatch(incoming, local);
+      if (match?.local.anonymizedAt) continue;
+      const winner = resolutions[incoming.id] || 'local';
+      const merged = match ? mergeCandidateRecords(match.local, incoming, winner === 'incoming') : incoming;
+      const targetId = merged.id;
+
+      const resume = resumes.get(incoming.id);
+      if (resume && (!match || !match.local.hasResume || winner === 'incoming')) {
+        await dbService.saveResume(targetId, base64ToFile(resume.data, resume.name, resume.type));
+      }
+      for (const [index, application] of (incoming.applications || []).entries()) {
+        for (const result of (application.testResults || []).filter(r => r.file)) {
+          // Only files of test results taken from the backup are written; the application they ended up in owns them
+          const target = merged.applications.find(a => (a.testResults || []).includes(result));
+          const entry = testFiles.get(getTestFileKey(incoming.id, application.id, result.testId))
+            || (index === 0 ? testFiles.get(getLegacyTestFileKey(incoming.id, result.testId)) : undefined);
+          if (target && entry) {
+            await dbService.saveTestFile(getTestFileKey(targetId, target.id, result.testId), base64ToFile(entry.data, entry.name, entry.type));
+          }
+        }
+      }
+
+      await dbService.saveCandidate(merged);
+      const index = local.findIndex(c => c.id === targetId);
+      if (index >= 0) local[index] = merged; else local.push(merged);
+    }
+  },
+};
@@ -1,12 +1,14 @@
 
 
-import { Candidate } from '../types';
+import { AuditEntry, Candidate } from '../types';
+import { encryptionService, secureStorage } from './encryptionService';
 
 const DB_NAME = 'RecruitmentDB_React_V1';
 const CANDIDATES_STORE = 'candidates';
 const RESUMES_STORE = 'resumes';
 const TEST_FILES_STORE = 'test_files'; // New store for test result files
-const DB_VERSION = 2; // Incremented version for schema change
+const AUDIT_STORE = 'audit_log';
+const DB_VERSION = 3; // Version 3 adds the audit log store
 
 let db: IDBDatabase | null = null;
 
@@ -33,6 +35,9 @@ const openDB = (): Promise<IDBDatabase> => {
       if (!dbInstance.objectStoreNames.contains(TEST_FILES_STORE)) {
         dbInstance.createObjectStore(TEST_FILES_STORE);
       }
+      if (!dbInstance.objectStoreNames.contains(AUDIT_STORE)) {
+        dbInstance.createObjectStore(AUDIT_STORE, { keyPath: 'seq' });
+      }
     };
   });
 };
@@ -48,20 +53,151 @@ const dbOp = async <T,>(storeName: string, mode: IDBTransactionMode, operation:
   });
 };
 
+// Reads every value in a store together with its out-of-line key.
+const getAllEntries = async <T,>(storeName: string): Promise<{ key: string; value: T }[]> => {
+  const dbInstance = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = dbInstance.transaction(storeName, 'readonly');
+    const request = transaction.objectStore(storeName).openCursor();
+    const entries: { key: string; value: T }[] = [];
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        entries.push({ key: String(cursor.key), value: cursor.value });
+        cursor.continue();
+      } else {
+        resolve(entries);
+      }
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// While encryption is enabled, records are stored as { <keyPath>: key, ...EncryptedPayload } so the store's
+// keyPath still works, and files are stored as the encrypted payload itself. Plain records written before
+// encryption was enabled are still read as they are.
+const encodeRecord = async <T extends object,>(record: T, keyPath: keyof T, encrypt = encryptionService.isEnabled()) => {
+  return encrypt ? { [keyPath]: record[keyPath], ...(await encryptionService.encryptJson(record)) } : record;
+};
+
+const decodeRecord = async <T,>(value: any): Promise<T> => {
+  if (!encryptionService.isEncrypted(value)) return value;
+  return encryptionService.decryptJson<T>(value);
+};
+
+const encodeCandidate = (candidate: Candidate, encrypt?: boolean) => encodeRecord(candidate, 'id', encrypt);
+const decodeCandidate = (value: any) => decodeRecord<Candidate>(value);
+
+const encodeFile = async (file: File, encrypt = encryptionService.isEnabled()) => {
+  return encrypt ? encryptionService.encryptFile(file) : file;
+};
+
+const decodeFile = async (value: any): Promise<File> => {
+  if (!encryptionService.isEncrypted(value)) return value;
+  return encryptionService.decryptFile(value);
+};
+
+// Re-encrypts every record and file with the active data key, or stores them in plain form when encrypt is false.
+const rewriteAll = async (encrypt: boolean): Promise<void> => {
+  for (const { value } of await getAllEntries<any>(CANDIDATES_STORE)) {
+    const candidate = await encodeCandidate(await decodeCandidate(value), encrypt);
+    await dbOp(CANDIDATES_STORE, 'readwrite', store => store.put(candidate));
+  }
+  for (const { value } of await getAllEntries<any>(AUDIT_STORE)) {
+    const entry = await encodeRecord(await decodeRecord<AuditEntry>(value), 'seq', encrypt);
+    await dbOp(AUDIT_STORE, 'readwrite', store => store.put(entry));
+  }
+  for (const storeName of [RESUMES_STORE, TEST_FILES_STORE]) {
+    for (const { key, value } of await getAllEntries<any>(storeName)) {
+      const file = await encodeFile(await decodeFile(value), encrypt);
+      await dbOp(storeName, 'readwrite', store => store.put(file, key));
+    }
+  }
+  await secureStorage.rewriteAll(encrypt);
+};
+
 export const dbService = {
-  saveCandidate: (candidate: Candidate) => dbOp(CANDIDATES_STORE, 'readwrite', store => store.put(candidate)),
-  getAllCandidates: () => dbOp<Candidate[]>(CANDIDATES_STORE, 'readonly', store => store.getAll()),
-  getCandidate: (id: string) => dbOp<Candidate>(CANDIDATES_STORE, 'readonly', store => store.get(id)),
+  saveCandidate: async (candidate: Candidate) => {
+    const value = await encodeCandidate(candidate);
+    return dbOp(CANDIDATES_STORE, 'readwrite', store => store.put(value));
+  },
+  getAllCandidates: async () => {
+    const values = await dbOp<any[]>(CANDIDATES_STORE, 'readonly', store => store.getAll());
+    return Promise.all(values.map(decodeCandidate));
+  },
+  getCandidate: async (id: string) => {
+    const value = await dbOp<any>(CANDIDATES_STORE, 'readonly', store => store.get(id));
+    return value ? decodeCandidate(value) : value;
+  },
   deleteCandidate: (id: string) => dbOp(CANDIDATES_STORE, 'readwrite', store => store.delete(id)),
   clearAllCandidates: () => dbOp(CANDIDATES_STORE, 'readwrite', store => store.clear()),
   
-  saveResume: (id: string, file: File) => dbOp(RESUMES_STORE, 'readwrite', store => store.put(file, id)),
-  getResume: (id: string) => dbOp<File>(RESUMES_STORE, 'readonly', store => store.get(id)),
+  saveResume: async (id: string, file: File) => {
+    const value = await encodeFile(file);
+    return dbOp(RESUMES_STORE, 'readwrite', store => store.put(value, id));
+  },
+  getResume: async (id: string) => {
+    const value = await dbOp<any>(RESUMES_STORE, 'readonly', store => store.get(id));
+    return value ? decodeFile(value) : value;
+  },
   deleteResume: (id: string) => dbOp(RESUMES_STORE, 'readwrite', store => store.delete(id)),
   clearAllResumes: () => dbOp(RESUMES_STORE, 'readwrite', store => store.clear()),
+  getAllResumes: async () => {
+    const entries = await getAllEntries<any>(RESUMES_STORE);
+    return Promise.all(entries.map(async ({ key, value }) => ({ key, value: await decodeFile(value) })));
+  },
 
   // Methods for test files
-  saveTestFile: (id: string, file: File) => dbOp(TEST_FILES_STORE, 'readwrite', store => store.put(file, id)),
-  getTestFile: (id: string) => dbOp<File>(TEST_FILES_STORE, 'readonly', store => store.get(id)),
+  saveTestFile: async (id: string, file: File) => {
+    const value = await encodeFile(file);
+    return dbOp(TEST_FILES_STORE, 'readwrite', store => store.put(value, id));
+  },
+  getTestFile: async (id: string) => {
+    const value = await dbOp<any>(TEST_FILES_STORE, 'readonly', store => store.get(id));
+    return value ? decodeFile(value) : value;
+  },
   deleteTestFile: (id: string) => dbOp(TEST_FILES_STORE, 'readwrite', store => store.delete(id)),
+  clearAllTestFiles: () => dbOp(TEST_FILES_STORE, 'readwrite', store => store.clear()),
+  getAllTestFiles: async () => {
+    const entries = await getAllEntries<any>(TEST_FILES_STORE);
+    return Promise.all(entries.map(async ({ key, value }) => ({ key, value: await decodeFile(value) })));
+  },
+
+  // The audit log is append-only: `add` fails instead of overwriting when the sequence number is taken,
+  // and there are deliberately no update or delete methods.
+  addAuditEntry: async (entry: AuditEntry) => {
+    const value = await encodeRecord(entry, 'seq');
+    return dbOp(AUDIT_STORE, 'readwrite', store => store.add(value));
+  },
+  getAllAuditEntries: async () => {
+    const values = await dbOp<any[]>(AUDIT_STORE, 'readonly', store => store.getAll());
+    return Promise.all(values.map(value => decodeRecord<AuditEntry>(value)));
+  },
+  getLastAuditEntry: async (): Promise<AuditEntry | undefined> => {
+    const cursor = await dbOp<IDBCursorWithValue | null>(AUDIT_STORE, 'readonly', store => store.openCursor(null, 'prev'));
+    return cursor ? decodeRecord<AuditEntry>(cursor.value) : undefined;
+  },
+
+  // Encryption management. Data stays readable at every step: reads accept plain and encrypted values,
+  // and during a passphrase change both the old and the new data key stay available until the rewrite is done.
+  enableEncryption: async (passphrase: string) => {
+    if (encryptionService.isEnabled()) throw new Error('رمزنگاری داده‌ها از قبل فعال است.');
+    await encryptionService.createKeys(passphrase);
+    await rewriteAll(true);
+  },
+
+  changeEncryptionPassphrase: async (currentPassphrase: string, newPassphrase: string) => {
+    await encryptionService.verifyPassphrase(currentPassphrase);
+    if (!encryptionService.isUnlocked()) await encryptionService.unlock(currentPassphrase);
+    const retiredKeyIds = await encryptionService.beginRotation(newPassphrase);
+    await rewriteAll(true);
+    await encryptionService.finishRotation(newPassphrase, retiredKeyIds);
+  },
+
+  disableEncryption: async (passphrase: string) => {
+    await encryptionService.verifyPassphrase(passphrase);
+    if (!encryptionService.isUnlocked()) await encryptionService.unlock(passphrase);
+    await rewriteAll(false);
+    encryptionService.removeKeys();
+  },
 };
\ No newline at end of file
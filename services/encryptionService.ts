@@ -0,0 +1,280 @@
+import { ENCRYPTION_CONFIG_KEY, ENCRYPTED_STORAGE_KEYS } from '../constants';
+import { getSubtleCrypto, bytesToBase64, base64ToBytes, randomBytes } from '../utils/cryptoUtils';
+
+const KDF_ITERATIONS = 310000;
+const STORAGE_PREFIX = 'enc:v1:';
+
+// Encrypted form of an IndexedDB value. `keyId` names the data key that was used, so records written
+// before and after a key rotation can be told apart until the rotation has finished.
+export interface EncryptedPayload {
+  __encrypted: true;
+  keyId: string;
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+interface WrappedKey {
+  iv: string;
+  wrappedKey: string;
+}
+
+// Stored in localStorage. Data keys are random AES-GCM keys wrapped with a key derived from the passphrase.
+// During a rotation both the old and the new data key are listed.
+interface EncryptionConfig {
+  salt: string;
+  iterations: number;
+  activeKeyId: string;
+  keys: Record<string, WrappedKey>;
+}
+
+// Unwrapped data keys; only held in memory while unlocked.
+let dataKeys: Map<string, CryptoKey> | null = null;
+let activeKeyId = '';
+// Decrypted values of the encrypted localStorage keys, so settings can still be read synchronously.
+const storageCache = new Map<string, string | null>();
+const storageWriteVersions = new Map<string, number>();
+const pendingStorageWrites = new Set<Promise<void>>();
+
+const readConfig = (): EncryptionConfig | null => {
+  try {
+    const stored = localStorage.getItem(ENCRYPTION_CONFIG_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (e) {
+    console.error('Failed to parse encryption config from localStorage', e);
+    return null;
+  }
+};
+
+const deriveWrappingKey = async (passphrase: string, salt: BufferSource, iterations: number): Promise<CryptoKey> => {
+  const subtle = getSubtleCrypto();
+  const baseKey = await subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+};
+
+const unwrapKeys = async (config: EncryptionConfig, passphrase: string): Promise<Map<string, CryptoKey>> => {
+  const wrappingKey = await deriveWrappingKey(passphrase, base64ToBytes(config.salt), config.iterations);
+  const keys = new Map<string, CryptoKey>();
+  try {
+    for (const [keyId, wrapped] of Object.entries(config.keys)) {
+      const key = await getSubtleCrypto().unwrapKey(
+        'raw', base64ToBytes(wrapped.wrappedKey), wrappingKey, { name: 'AES-GCM', iv: base64ToBytes(wrapped.iv) },
+        { name: 'AES-GCM' }, true, ['encrypt', 'decrypt']
+      );
+      keys.set(keyId, key);
+    }
+  } catch {
+    // AES-GCM fails authentication when the wrapping key was derived from another passphrase
+    throw new Error('عبارت رمز داده‌ها اشتباه است.');
+  }
+  return keys;
+};
+
+const wrapKeys = async (keys: Map<string, CryptoKey>, passphrase: string, activeId: string): Promise<EncryptionConfig> => {
+  const salt = randomBytes(16);
+  const wrappingKey = await deriveWrappingKey(passphrase, salt, KDF_ITERATIONS);
+  const wrapped: Record<string, WrappedKey> = {};
+  for (const [keyId, key] of keys) {
+    const iv = randomBytes(12);
+    const wrappedKey = await getSubtleCrypto().wrapKey('raw', key, wrappingKey, { name: 'AES-GCM', iv });
+    wrapped[keyId] = { iv: bytesToBase64(iv), wrappedKey: bytesToBase64(new Uint8Array(wrappedKey)) };
+  }
+  return { salt: bytesToBase64(salt), iterations: KDF_ITERATIONS, activeKeyId: activeId, keys: wrapped };
+};
+
+const requireKey = (keyId: string = activeKeyId): CryptoKey => {
+  const key = dataKeys?.get(keyId);
+  if (!key) throw new Error('داده‌ها قفل هستند. لطفا دوباره وارد شوید.');
+  return key;
+};
+
+const encryptBytes = async (bytes: BufferSource, keyId: string = activeKeyId): Promise<EncryptedPayload> => {
+  const iv = randomBytes(12);
+  const data = await getSubtleCrypto().encrypt({ name: 'AES-GCM', iv }, requireKey(keyId), bytes);
+  return { __encrypted: true, keyId, iv, data };
+};
+
+const decryptBytes = async (payload: EncryptedPayload): Promise<ArrayBuffer> => {
+  return getSubtleCrypto().decrypt({ name: 'AES-GCM', iv: payload.iv as BufferSource }, requireKey(payload.keyId), payload.data);
+};
+
+const encryptString = async (value: string, keyId: string = activeKeyId): Promise<string> => {
+  const payload = await encryptBytes(new TextEncoder().encode(value), keyId);
+  return `${STORAGE_PREFIX}${payload.keyId}:${bytesToBase64(payload.iv)}:${bytesToBase64(new Uint8Array(payload.data))}`;
+};
+
+const decryptString = async (stored: string): Promise<string> => {
+  if (!stored.startsWith(STORAGE_PREFIX)) return stored; // Written before encryption was enabled
+  const [keyId, iv, data] = stored.slice(STORAGE_PREFIX.length).split(':');
+  const bytes = await decryptBytes({ __encrypted: true, keyId, iv: base64ToBytes(iv), data: base64ToBytes(data).buffer });
+  return new TextDecoder().decode(bytes);
+};
+
+const newKeyId = () => Array.from(randomBytes(8), b => b.toString(16).padStart(2, '0')).join('');
+
+const isEncryptedStorageKey = (key: string) => ENCRYPTED_STORAGE_KEYS.includes(key);
+
+export const encryptionService = {
+  isEnabled: (): boolean => readConfig() !== null,
+  isUnlocked: (): boolean => dataKeys !== null,
+  // Encrypted data exists but the passphrase has not been entered in this session
+  isLocked: (): boolean => readConfig() !== null && dataKeys === null,
+
+  unlock: async (passphrase: string): Promise<void> => {
+    const config = readConfig();
+    if (!config) return;
+    dataKeys = await unwrapKeys(config, passphrase);
+    activeKeyId = config.activeKeyId;
+    await secureStorage.loadCache();
+  },
+
+  lock: () => {
+    dataKeys = null;
+    activeKeyId = '';
+    storageCache.clear();
+  },
+
+  // Checks a passphrase without changing the unlocked state.
+  verifyPassphrase: async (passphrase: string): Promise<void> => {
+    const config = readConfig();
+    if (config) await unwrapKeys(config, passphrase);
+  },
+
+  getActiveKeyId: (): string => activeKeyId,
+
+  isEncrypted: (value: unknown): value is EncryptedPayload => {
+    return !!value && typeof value === 'object' && (value as EncryptedPayload).__encrypted === true;
+  },
+
+  encryptJson: async (value: unknown, keyId?: string): Promise<EncryptedPayload> => {
+    return encryptBytes(new TextEncoder().encode(JSON.stringify(value)), keyId);
+  },
+
+  decryptJson: async <T,>(payload: EncryptedPayload): Promise<T> => {
+    return JSON.parse(new TextDecoder().decode(await decryptBytes(payload)));
+  },
+
+  // File name and type are encrypted together with the content: a 4-byte header length, the header JSON, then the bytes.
+  encryptFile: async (file: File, keyId?: string): Promise<EncryptedPayload> => {
+    const header = new TextEncoder().encode(JSON.stringify({ name: file.name, type: file.type }));
+    const content = new Uint8Array(await file.arrayBuffer());
+    const packed = new Uint8Array(4 + header.length + content.length);
+    new DataView(packed.buffer).setUint32(0, header.length);
+    packed.set(header, 4);
+    packed.set(content, 4 + header.length);
+    return encryptBytes(packed, keyId);
+  },
+
+  decryptFile: async (payload: EncryptedPayload): Promise<File> => {
+    const packed = new Uint8Array(await decryptBytes(payload));
+    const headerLength = new DataView(packed.buffer).getUint32(0);
+    const { name, type } = JSON.parse(new TextDecoder().decode(packed.subarray(4, 4 + headerLength)));
+    return new File([packed.subarray(4 + headerLength)], name, { type });
+  },
+
+  // Key management. Callers re-encrypt the data between these steps; see dbService.
+
+  // Creates the first data key and stores it wrapped with the passphrase. Leaves the service unlocked.
+  createKeys: async (passphrase: string): Promise<void> => {
+    const keyId = newKeyId();
+    const key = await getSubtleCrypto().generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    const keys = new Map([[keyId, key]]);
+    localStorage.setItem(ENCRYPTION_CONFIG_KEY, JSON.stringify(await wrapKeys(keys, passphrase, keyId)));
+    dataKeys = keys;
+    activeKeyId = keyId;
+    await secureStorage.loadCache();
+  },
+
+  // Adds a new active data key next to the existing ones, all wrapped with the new passphrase.
+  // Returns the ids of the keys that are now retired.
+  beginRotation: async (newPassphrase: string): Promise<string[]> => {
+    if (!dataKeys) requireKey();
+    const retiredKeyIds = [...dataKeys!.keys()];
+    const keyId = newKeyId();
+    const key = await getSubtleCrypto().generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    const keys = new Map([...dataKeys!, [keyId, key]]);
+    localStorage.setItem(ENCRYPTION_CONFIG_KEY, JSON.stringify(await wrapKeys(keys, newPassphrase, keyId)));
+    dataKeys = keys;
+    activeKeyId = keyId;
+    return retiredKeyIds;
+  },
+
+  // Drops retired keys once nothing is encrypted with them anymore.
+  finishRotation: async (passphrase: string, retiredKeyIds: string[]): Promise<void> => {
+    const keys = new Map([...dataKeys!].filter(([keyId]) => !retiredKeyIds.includes(keyId)));
+    localStorage.setItem(ENCRYPTION_CONFIG_KEY, JSON.stringify(await wrapKeys(keys, passphrase, activeKeyId)));
+    dataKeys = keys;
+  },
+
+  removeKeys: () => {
+    localStorage.removeItem(ENCRYPTION_CONFIG_KEY);
+    encryptionService.lock();
+  },
+};
+
+// localStorage wrapper for the settings keys in ENCRYPTED_STORAGE_KEYS. Reads are served from a decrypted
+// in-memory cache; other keys pass straight through to localStorage.
+export const secureStorage = {
+  getItem: (key: string): string | null => {
+    if (!isEncryptedStorageKey(key) || !encryptionService.isEnabled()) return localStorage.getItem(key);
+    return storageCache.get(key) ?? null;
+  },
+
+  setItem: (key: string, value: string) => {
+    if (!isEncryptedStorageKey(key) || !encryptionService.isEnabled()) {
+      localStorage.setItem(key, value);
+      return;
+    }
+    if (!encryptionService.isUnlocked()) {
+      // Nothing may overwrite encrypted settings with defaults before the passphrase was entered
+      console.warn(`Skipped writing ${key} while encrypted data is locked.`);
+      return;
+    }
+    storageCache.set(key, value);
+    // Encryption is async; only the latest write for a key may reach localStorage
+    const version = (storageWriteVersions.get(key) || 0) + 1;
+    storageWriteVersions.set(key, version);
+    const write = encryptString(value)
+      .then(encrypted => {
+        if (storageWriteVersions.get(key) === version) localStorage.setItem(key, encrypted);
+      })
+      .catch(e => console.error(`Failed to encrypt ${key}`, e))
+      .finally(() => pendingStorageWrites.delete(write));
+    pendingStorageWrites.add(write);
+  },
+
+  // Resolves once every pending encrypted write has reached localStorage, e.g. before a page reload.
+  flush: async (): Promise<void> => {
+    await Promise.all([...pendingStorageWrites]);
+  },
+
+  removeItem: (key: string) => {
+    storageCache.delete(key);
+    storageWriteVersions.set(key, (storageWriteVersions.get(key) || 0) + 1);
+    localStorage.removeItem(key);
+  },
+
+  loadCache: async (): Promise<void> => {
+    storageCache.clear();
+    for (const key of ENCRYPTED_STORAGE_KEYS) {
+      const stored = localStorage.getItem(key);
+      storageCache.set(key, stored === null ? null : await decryptString(stored));
+    }
+  },
+
+  // Rewrites every encrypted settings key with the active data key, or as plain text when encrypt is false.
+  rewriteAll: async (encrypt: boolean): Promise<void> => {
+    for (const key of ENCRYPTED_STORAGE_KEYS) {
+      const stored = localStorage.getItem(key);
+      if (stored === null) continue;
+      const plain = await decryptString(stored);
+      storageCache.set(key, plain);
+      localStorage.setItem(key, encrypt ? await encryptString(plain) : plain);
+    }
+  },
+};
@@ -0,0 +1,106 @@
+import { CandidateApplication, CustomFieldDefinition, ExportColumn, ExportFormat, JobPosition, KanbanStage } from '../types';
+import { ARCHIVE_STAGE_ID } from '../constants';
+import { getPositionTitle } from '../utils/applicationUtils';
+import { toLatinDigits } from '../utils/candidateUtils';
+import { buildCsv } from '../utils/fileUtils';
+import { formatCustomFieldValue } from '../utils/customFieldUtils';
+
+// Loaded from CDN scripts in index.html
+declare const XLSX: any;
+declare const persianDate: any;
+
+export const EXPORT_COLUMN_LABELS: Record<ExportColumn, string> = {
+  name: 'نام',
+  email: 'ایمیل',
+  phone: 'تلفن',
+  position: 'موقعیت شغلی',
+  stage: 'مرحله',
+  source: 'منبع',
+  rating: 'امتیاز',
+  createdAt: 'تاریخ ثبت',
+  interviewDate: 'تاریخ مصاحبه',
+  interviewTime: 'ساعت مصاحبه',
+  averageTestScore: 'میانگین نمره آزمون‌ها',
+  latestComment: 'آخرین یادداشت',
+};
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = ['name', 'email', 'phone', 'position', 'stage', 'source', 'rating', 'interviewDate'];
+
+export interface ExportContext {
+  jobPositions: JobPosition[];
+  getStagesForPosition: (jobPositionId?: string) => KanbanStage[];
+  customFields?: CustomFieldDefinition[]; // Exported after the standard columns
+}
+
+const toJalaliDate = (iso: string): string => {
+  try {
+    return toLatinDigits(new persianDate(new Date(iso)).format('YYYY/MM/DD'));
+  } catch {
+    return iso.slice(0, 10);
+  }
+};
+
+const getCellValue = ({ candidate, application }: CandidateApplication, column: ExportColumn, context: ExportContext): string => {
+  switch (column) {
+    case 'name': return candidate.name;
+    case 'email': return candidate.email;
+    case 'phone': return toLatinDigits(candidate.phone);
+    case 'position': return getPositionTitle(application, context.jobPositions);
+    case 'stage':
+      if (application.stage === ARCHIVE_STAGE_ID) return 'آرشیو';
+      return context.getStagesForPosition(application.jobPositionId).find(s => s.id === application.stage)?.title || application.stage;
+    case 'source': return candidate.source;
+    case 'rating': return String(application.rating || 0);
+    case 'createdAt': return toJalaliDate(application.createdAt);
+    case 'interviewDate': return toLatinDigits(application.interviewDate || '');
+    case 'interviewTime': return application.interviewTime || '';
+    case 'averageTestScore': {
+      const scores = (application.testResults || []).map(r => r.score).filter((s): s is number => typeof s === 'number');
+      return scores.length > 0 ? String(Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length * 10) / 10) : '';
+    }
+    case 'latestComment': {
+      const latest = [...candidate.comments].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+      return latest ? `${latest.text} (${latest.user})` : '';
+    }
+  }
+};
+
+// Numbers stay numbers in the workbook so that Excel can sort and average them.
+const NUMERIC_COLUMNS: ExportColumn[] = ['rating', 'averageTestScore'];
+
+const buildWorkbook = (rows: string[][], numericColumns: boolean[]): Blob => {
+  if (typeof XLSX === 'undefined') {
+    throw new Error('کتابخانه ساخت فایل اکسل بارگذاری نشده است. اتصال اینترنت را بررسی کنید.');
+  }
+  const [header, ...data] = rows;
+  // Text is written as explicit string cells, so that values starting with = are never read as formulas
+  const typedData = data.map(row => row.map((cell, i) => numericColumns[i] && cell !== '' ? Number(cell) : { t: 's', v: cell }));
+  const sheet = XLSX.utils.aoa_to_sheet([header, ...typedData]);
+  sheet['!cols'] = header.map((_, i) => ({ wch: Math.min(50, Math.max(10, ...rows.map(row => row[i].length + 2))) }));
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'متقاضیان');
+  // Right-to-left sheet so that the first column appears on the right, as in the app
+  workbook.Workbook = { Views: [{ RTL: true }] };
+  const content = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+  return new Blob([content], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+export const exportService = {
+  buildRows: (items: CandidateApplication[], columns: ExportColumn[], context: ExportContext): string[][] => {
+    const customFields = context.customFields || [];
+    return [
+      [...columns.map(column => EXPORT_COLUMN_LABELS[column]), ...customFields.map(field => field.label)],
+      ...items.map(item => [
+        ...columns.map(column => getCellValue(item, column, context)),
+        ...customFields.map(field => formatCustomFieldValue(field, item.candidate.customFields?.[field.id])),
+      ]),
+    ];
+  },
+
+  createFile: (items: CandidateApplication[], columns: ExportColumn[], format: ExportFormat, context: ExportContext): Blob => {
+    const rows = exportService.buildRows(items, columns, context);
+    const numericColumns = [...columns.map(column => NUMERIC_COLUMNS.includes(column)), ...(context.customFields || []).map(field => field.type === 'number')];
+    if (format === 'xlsx') return buildWorkbook(rows, numericColumns);
+    return new Blob([buildCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  },
+};
@@ -0,0 +1,210 @@
+import { Candidate, ImportColumnMapping, ImportField, ImportRowResult, JobPosition, KanbanStage } from '../types';
+import { ARCHIVE_STAGE_ID } from '../constants';
+import { findDuplicates, normalizePersianName, toLatinDigits } from '../utils/candidateUtils';
+import { isPositionOpenForCandidates } from '../utils/applicationUtils';
+import { generateId } from '../utils/idUtils';
+
+// Loaded from the SheetJS CDN script in index.html
+declare const XLSX: any;
+
+export const IMPORT_FIELDS: ImportField[] = ['name', 'email', 'phone', 'position', 'source', 'stage', 'rating', 'interviewDate', 'interviewTime'];
+
+// Header names that are recognised automatically, compared after normalizePersianName.
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  name: ['name', 'full name', 'نام', 'نام کامل', 'نام و نام خانوادگی'],
+  email: ['email', 'e-mail', 'mail', 'ایمیل', 'پست الکترونیک'],
+  phone: ['phone', 'mobile', 'tel', 'تلفن', 'موبایل', 'شماره تلفن', 'شماره موبایل', 'تلفن همراه'],
+  position: ['position', 'job', 'job title', 'موقعیت', 'موقعیت شغلی', 'عنوان شغلی', 'شغل'],
+  source: ['source', 'منبع', 'منبع جذب'],
+  stage: ['stage', 'status', 'مرحله', 'وضعیت'],
+  rating: ['rating', 'score', 'امتیاز'],
+  interviewDate: ['interview date', 'تاریخ مصاحبه'],
+  interviewTime: ['interview time', 'ساعت مصاحبه', 'زمان مصاحبه'],
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const JALALI_DATE_PATTERN = /^(\d{4})[/\-.](\d{1,2})[/\-.](\d{1,2})$/;
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})$/;
+
+// Commas are the default; Excel in some locales writes semicolons, and TSV exports use tabs.
+const detectDelimiter = (firstLine: string): string => {
+  const counts = [',', ';', '\t'].map(d => ({ d, count: firstLine.split(d).length }));
+  return counts.reduce((best, c) => c.count > best.count ? c : best).d;
+};
+
+// RFC 4180 parser: quoted fields may contain delimiters, doubled quotes and line breaks.
+const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^﻿/, '');
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0]);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const readSpreadsheet = async (file: File): Promise<string[][]> => {
+  if (typeof XLSX === 'undefined') {
+    throw new Error('کتابخانه خواندن فایل‌های اکسل بارگذاری نشده است. اتصال اینترنت را بررسی کنید.');
+  }
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return [];
+  // raw: false returns cells as they are displayed, so numbers like phone numbers keep their formatting
+  return XLSX.utils.sheet_to_json(sheet, { header: 1, raw: false, defval: '' }).map((row: unknown[]) => row.map(cell => String(cell ?? '')));
+};
+
+const matchByTitle = <T extends { title: string }>(items: T[], value: string): T | undefined => {
+  const normalized = normalizePersianName(value);
+  return items.find(item => normalizePersianName(item.title) === normalized);
+};
+
+export interface ImportContext {
+  jobPositions: JobPosition[];
+  sources: string[];
+  getStagesForPosition: (jobPositionId?: string) => KanbanStage[];
+  existingCandidates: Candidate[];
+}
+
+// Validates a single row and builds the candidate. Errors are collected so the user sees every problem at once.
+const buildCandidate = (cells: string[], mapping: ImportColumnMapping, context: ImportContext, createdAt: string) => {
+  const value = (field: ImportField) => {
+    const index = mapping[field];
+    return index === undefined ? '' : toLatinDigits((cells[index] || '').trim());
+  };
+  const errors: string[] = [];
+
+  const name = value('name');
+  if (!name) errors.push('نام خالی است.');
+
+  const email = value('email').toLowerCase();
+  if (email && !EMAIL_PATTERN.test(email)) errors.push(`ایمیل «${email}» معتبر نیست.`);
+
+  const phone = value('phone');
+  if (phone && !/^\+?[\d\s\-()]{7,}$/.test(phone)) errors.push(`شماره تلفن «${phone}» معتبر نیست.`);
+  if (!email && !phone) errors.push('حداقل یکی از ایمیل یا تلفن باید وارد شود.');
+
+  const positionTitle = value('position');
+  const jobPosition = positionTitle ? matchByTitle(context.jobPositions, positionTitle) : undefined;
+  if (!positionTitle) {
+    errors.push('موقعیت شغلی خالی است.');
+  } else if (!jobPosition) {
+    errors.push(`موقعیت شغلی «${positionTitle}» در پروفایل شرکت تعریف نشده است.`);
+  } else if (!isPositionOpenForCandidates(jobPosition)) {
+    errors.push(`موقعیت شغلی «${jobPosition.title}» بسته شده است.`);
+  }
+
+  const sourceValue = value('source');
+  const source = sourceValue ? context.sources.find(s => normalizePersianName(s) === normalizePersianName(sourceValue)) : context.sources[0];
+  if (!source) errors.push(`منبع «${sourceValue}» در فهرست منابع وجود ندارد.`);
+
+  // Stages can be given by title or by id, e.g. when the file came from an export
+  const stageValue = value('stage');
+  const stages = context.getStagesForPosition(jobPosition?.id).filter(s => s.id !== ARCHIVE_STAGE_ID);
+  const stage = stageValue ? matchByTitle(stages, stageValue) || stages.find(s => s.id === stageValue) : stages.find(s => s.id === 'inbox');
+  if (!stage) errors.push(`مرحله «${stageValue}» برای این موقعیت وجود ندارد.`);
+
+  const ratingValue = value('rating');
+  const rating = ratingValue ? Number(ratingValue) : 0;
+  if (!Number.isInteger(rating) || rating < 0 || rating > 5) errors.push(`امتیاز «${ratingValue}» باید عددی بین ۰ تا ۵ باشد.`);
+
+  const dateValue = value('interviewDate');
+  const dateMatch = dateValue.match(JALALI_DATE_PATTERN);
+  let interviewDate: string | undefined;
+  if (dateMatch) {
+    const [year, month, day] = dateMatch.slice(1).map(Number);
+    if (year >= 1300 && year <= 1500 && month >= 1 && month <= 12 && day >= 1 && day <= (month <= 6 ? 31 : 30)) {
+      interviewDate = `${year}/${String(month).padStart(2, '0')}/${String(day).padStart(2, '0')}`;
+    }
+  }
+  if (dateValue && !interviewDate) errors.push(`تاریخ مصاحبه «${dateValue}» باید شمسی و به شکل 1403/05/20 باشد.`);
+
+  const timeValue = value('interviewTime');
+  const timeMatch = timeValue.match(TIME_PATTERN);
+  const interviewTime = timeMatch && Number(timeMatch[1]) < 24 && Number(timeMatch[2]) < 60
+    ? `${timeMatch[1].padStart(2, '0')}:${timeMatch[2]}`
+    : undefined;
+  if (timeValue && !interviewTime) errors.push(`ساعت مصاحبه «${timeValue}» باید به شکل 14:30 باشد.`);
+
+  if (errors.length > 0) return { errors };
+  const candidate: Candidate = {
+    id: `cand_${Date.now()}_${generateId()}`,
+    name, email, phone,
+    position: jobPosition!.title,
+    source: source!,
+    stage: stage!.id,
+    rating,
+    createdAt,
+    interviewDate,
+    interviewTime,
+    history: [],
+    comments: [],
+    applications: [],
+  };
+  return { candidate, errors };
+};
+
+export const importService = {
+  // Returns the rows of a CSV file or of the first sheet of an Excel workbook; the first row holds the headers.
+  readFile: async (file: File): Promise<string[][]> => {
+    const rows = /\.csv$|\.txt$/i.test(file.name) ? parseCsv(await file.text()) : await readSpreadsheet(file);
+    return rows.filter(row => row.some(cell => cell.trim() !== ''));
+  },
+
+  // Maps each field to the first header that matches one of its known names.
+  guessMapping: (headers: string[]): ImportColumnMapping => {
+    const normalizedHeaders = headers.map(h => normalizePersianName(h));
+    const mapping: ImportColumnMapping = {};
+    IMPORT_FIELDS.forEach(field => {
+      const aliases = HEADER_ALIASES[field].map(normalizePersianName);
+      const index = normalizedHeaders.findIndex(h => aliases.includes(h));
+      if (index !== -1) mapping[field] = index;
+    });
+    return mapping;
+  },
+
+  // Validates the data rows (without the header row). Valid rows are also checked against
+  // existing candidates and against the valid rows above them in the same file.
+  validateRows: (rows: string[][], mapping: ImportColumnMapping, context: ImportContext): ImportRowResult[] => {
+    const createdAt = new Date().toISOString();
+    const accepted: Candidate[] = [];
+    return rows.map((cells, index) => {
+      const { candidate, errors } = buildCandidate(cells, mapping, context, createdAt);
+      const rowNumber = index + 2;
+      if (!candidate) return { rowNumber, errors, duplicates: [] };
+      const duplicates = findDuplicates(candidate, [...context.existingCandidates, ...accepted]);
+      accepted.push(candidate);
+      return { rowNumber, candidate, errors, duplicates };
+    });
+  },
+};
@@ -1,4 +1,11 @@
-import { Candidate } from '../types';
+import { Candidate, UserWithPassword } from '../types';
+import {
+    SETTINGS_KEY_SOURCES, STAGES_KEY, TEMPLATES_KEY, COMPANY_PROFILE_KEY, TEST_LIBRARY_KEY, THEME_KEY, BACKGROUND_KEY, USERS_KEY,
+    PASSWORD_POLICY_KEY, SESSION_POLICY_KEY, RETENTION_POLICY_KEY, SAVED_VIEWS_KEY, TAGS_KEY, CUSTOM_FIELDS_KEY,
+} from '../constants';
+import { createApplicationFromLegacyFields } from '../utils/applicationUtils';
+import { createInterviewsFromLegacyFields } from '../utils/interviewUtils';
+import { normalizeUser } from '../utils/permissionUtils';
 
 // A simple semver compare function. Returns > 0 if v1 > v2, < 0 if v1 < v2, 0 if equal.
 const versionCompare = (v1: string, v2: string): number => {
@@ -35,25 +42,107 @@ const migrateTo_1_1_0 = (candidates: any[]): Candidate[] => {
             comments: c.comments || [],
             hasResume: c.hasResume || false,
             testResults: c.testResults || [],
+            applications: c.applications || [],
         };
         return migratedCandidate;
     });
 };
 
+// Version 1.3.0 introduced applications. Older records get one application built from their single position;
+// the job position id is resolved by title once the candidates are loaded.
+const migrateTo_1_3_0 = (candidates: Candidate[]): Candidate[] => {
+    return candidates.map(c => c.applications && c.applications.length > 0
+        ? c
+        : { ...c, applications: [createApplicationFromLegacyFields(c, [])] }
+    );
+};
+
+// Version 1.4.0 replaced the isAdmin flag with roles; admins keep full access and everyone else becomes a recruiter.
+const migrateUsersTo_1_4_0 = (users: Record<string, UserWithPassword>): Record<string, UserWithPassword> => {
+    return Object.fromEntries(Object.entries(users || {}).map(([key, user]) => [key, normalizeUser(user)]));
+};
+
+// Version 1.5.0 introduced the managed tag vocabulary; tags must be a list of distinct tag ids.
+const migrateTo_1_5_0 = (candidates: Candidate[]): Candidate[] => {
+    return candidates.map(c => {
+        const tags = Array.isArray(c.tags) ? [...new Set(c.tags.filter(tag => typeof tag === 'string' && tag))] : [];
+        return { ...c, tags: tags.length > 0 ? tags : undefined };
+    });
+};
+
+// Version 1.6.0 introduced interview events; an application's single interview slot becomes its first event.
+const migrateTo_1_6_0 = (candidates: Candidate[]): Candidate[] => {
+    return candidates.map(c => ({
+        ...c,
+        applications: (c.applications || []).map(app => app.interviews || !app.interviewDate
+            ? app
+            : { ...app, interviews: createInterviewsFromLegacyFields(app) }
+        ),
+    }));
+};
+
+interface Migration {
+    version: string; // Applied to data from backups older than this version
+    migrate: (data: any) => any;
+}
+
+// Migrations for each backup section, in ascending version order.
+// Sections are 'candidates' plus every localStorage key stored in the backup.
+const sectionMigrations: Record<string, Migration[]> = {
+    candidates: [
+        { version: '1.1.0', migrate: migrateTo_1_1_0 },
+        { version: '1.3.0', migrate: migrateTo_1_3_0 },
+        { version: '1.5.0', migrate: migrateTo_1_5_0 },
+        { version: '1.6.0', migrate: migrateTo_1_6_0 },
+    ],
+    [USERS_KEY]: [
+        { version: '1.4.0', migrate: migrateUsersTo_1_4_0 },
+    ],
+};
+
+const isList = (data: any): boolean => Array.isArray(data);
+const isRecord = (data: any): boolean => !!data && typeof data === 'object' && !Array.isArray(data);
+
+// Shape checks applied to every backup section after migration, so that a broken section is rejected
+// before any local data is replaced. Sections without a validator are rejected.
+const sectionValidators: Record<string, (data: any) => boolean> = {
+    candidates: data => isList(data) && data.every((c: any) => c && c.id && c.name && c.stage),
+    [SETTINGS_KEY_SOURCES]: data => isList(data) && data.every((s: any) => typeof s === 'string'),
+    [STAGES_KEY]: data => isList(data) && data.every((s: any) => s && s.id && typeof s.title === 'string'),
+    [TEMPLATES_KEY]: data => isList(data) && data.every((t: any) => t && t.id && typeof t.content === 'string'),
+    [COMPANY_PROFILE_KEY]: data => isRecord(data) && isList(data.jobPositions || []),
+    [TEST_LIBRARY_KEY]: isList,
+    [THEME_KEY]: data => typeof data === 'string',
+    [BACKGROUND_KEY]: data => isRecord(data) && typeof data.type === 'string',
+    [USERS_KEY]: data => isRecord(data) && Object.values(data).every((u: any) => u && u.username),
+    [PASSWORD_POLICY_KEY]: isRecord,
+    [SESSION_POLICY_KEY]: isRecord,
+    [RETENTION_POLICY_KEY]: isRecord,
+    [SAVED_VIEWS_KEY]: isList,
+    [TAGS_KEY]: data => isList(data) && data.every((t: any) => t && t.id),
+    [CUSTOM_FIELDS_KEY]: data => isList(data) && data.every((f: any) => f && f.id && f.key),
+};
+
 export const migrationService = {
-  migrate: (candidates: any[], fromVersion: string): Candidate[] => {
-    let migratedData = [...candidates];
-    
+  migrateSection: (section: string, data: any, fromVersion: string): any => {
+    let migratedData = data;
+
     // Apply migrations sequentially based on the backup's version.
-    if (versionCompare(fromVersion, '1.1.0') < 0) {
-        migratedData = migrateTo_1_1_0(migratedData);
+    for (const migration of sectionMigrations[section] || []) {
+        if (versionCompare(fromVersion, migration.version) < 0) {
+            migratedData = migration.migrate(migratedData);
+        }
     }
-    
-    // Future migrations would be added here, e.g.:
-    // if (versionCompare(fromVersion, '1.2.0') < 0) {
-    //     migratedData = migrateTo_1_2_0(migratedData);
-    // }
 
     return migratedData;
+  },
+
+  validateSection: (section: string, data: any): boolean => {
+    const validate = sectionValidators[section];
+    return !!validate && validate(data);
+  },
+
+  migrate: (candidates: any[], fromVersion: string): Candidate[] => {
+    return migrationService.migrateSection('candidates', [...candidates], fromVersion);
   }
 };
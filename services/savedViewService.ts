@@ -0,0 +1,28 @@
+import { SavedView } from '../types';
+import { SAVED_VIEWS_KEY } from '../constants';
+import { secureStorage } from './encryptionService';
+
+// Saved views of all users are stored under one key, grouped by username.
+const readAll = (): Record<string, SavedView[]> => {
+  try {
+    const stored = secureStorage.getItem(SAVED_VIEWS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error("Failed to load saved views", error);
+    return {};
+  }
+};
+
+export const savedViewService = {
+  getViews: (username: string): SavedView[] => readAll()[username] || [],
+
+  saveViews: (username: string, views: SavedView[]) => {
+    const all = readAll();
+    if (views.length > 0) {
+      all[username] = views;
+    } else {
+      delete all[username];
+    }
+    secureStorage.setItem(SAVED_VIEWS_KEY, JSON.stringify(all));
+  },
+};
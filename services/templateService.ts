@@ -1,18 +1,25 @@
-import { Candidate } from '../types';
+import { Candidate, CustomFieldDefinition } from '../types';
+import { getCustomFieldPlaceholders } from '../utils/customFieldUtils';
+import { getNextInterview } from '../utils/interviewUtils';
 
 export const templateService = {
   replacePlaceholders: (
     content: string,
     candidate: Candidate,
-    additionalData: { [key: string]: string | undefined } = {}
+    additionalData: { [key: string]: string | undefined } = {},
+    customFields: CustomFieldDefinition[] = []
   ): string => {
     let newContent = content;
+    // interviewDate and interviewTime mirror the next interview of the primary application
+    const nextInterview = getNextInterview(candidate.applications?.[0]?.interviews || []);
 
     const replacements: { [key: string]: string } = {
         candidateName: candidate.name || '',
         position: candidate.position || '',
         interviewDate: candidate.interviewDate || '[تاریخ مصاحبه تعیین نشده]',
         interviewTime: candidate.interviewTime || '[ساعت مصاحبه تعیین نشده]',
+        interviewLocation: nextInterview?.location || nextInterview?.meetingUrl || '[محل مصاحبه تعیین نشده]',
+        ...getCustomFieldPlaceholders(candidate, customFields),
         ...additionalData
     };
     
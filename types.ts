@@ -21,6 +21,28 @@ export interface Comment {
   timestamp: string;
 }
 
+// An entry of the managed tag vocabulary. Candidates reference tags by id so renaming a tag keeps assignments.
+export interface TagDefinition {
+  id: string;
+  name: string;
+  color?: string; // Chosen by an admin; derived from the name when empty
+}
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'boolean' | 'url';
+
+// A candidate field defined by an admin. Values are stored by field id, so the label and key can be renamed.
+export interface CustomFieldDefinition {
+  id: string;
+  label: string;
+  key: string; // Latin identifier used in template placeholders as {{field_<key>}}
+  type: CustomFieldType;
+  options?: string[]; // Choices of a select field
+  isPersonal?: boolean; // Identifies the person, so the value is removed on anonymization
+}
+
+// Dates are stored as "YYYY/MM/DD" like the other Jalali dates of a candidate.
+export type CustomFieldValue = string | number | boolean;
+
 export interface TestLibraryItem {
   id: string;
   name: string;
@@ -42,11 +64,130 @@ export interface TestResult {
 }
 
 
+export type MilitaryServiceStatus = 'completed' | 'exempt' | 'in_service' | 'pending' | 'not_applicable';
+
+export interface EducationEntry {
+  degree: string;       // e.g. کارشناسی
+  field: string;
+  institution: string;
+  graduationYear?: string;
+}
+
+// Structured details extracted from the resume or entered by hand. All fields are optional because resumes vary.
+export interface CandidateProfile {
+  education?: EducationEntry[];
+  yearsOfExperience?: number;
+  skills?: string[];
+  previousEmployers?: string[];
+  languages?: string[];
+  location?: string;
+  militaryServiceStatus?: MilitaryServiceStatus;
+  expectedSalary?: string; // Free text, resumes state it in different currencies and periods
+}
+
+export interface ParsedResume {
+  name: string;
+  email: string;
+  phone: string;
+  profile: CandidateProfile;
+}
+
+export type ConsentType = 'dataProcessing' | 'talentPool' | 'whatsapp';
+
+// The latest decision of the candidate for one kind of consent. Withdrawals are kept with granted: false.
+export interface ConsentRecord {
+  granted: boolean;
+  timestamp: string; // ISO date of the decision
+  source: string; // How it was obtained, e.g. application form or phone call
+  recordedBy: string; // User.name of the person who recorded it
+}
+
+export interface ScorecardCompetency {
+  id: string;
+  name: string;
+  description?: string; // What the interviewer should look for
+  requireNote?: boolean; // The interviewer must justify the rating
+}
+
+// The competencies interviewers rate for a job position, optionally only in one stage.
+export interface ScorecardTemplate {
+  id: string;
+  name: string;
+  stageId?: StageId; // Offered in every stage when not set
+  competencies: ScorecardCompetency[];
+}
+
+// Competency names are copied so that submissions stay readable after the template changes.
+export interface ScorecardScore {
+  competencyId: string;
+  competencyName: string;
+  rating: number; // 1-5
+  note?: string;
+}
+
+// One interviewer's ratings for a scorecard template; an interviewer has at most one per template.
+export interface ScorecardSubmission {
+  id: string;
+  templateId: string;
+  templateName: string;
+  stageId: StageId; // Stage of the application when it was submitted
+  interviewer: string; // User.username
+  interviewerName: string;
+  submittedAt: string;
+  scores: ScorecardScore[];
+  summary?: string;
+}
+
+// A scheduled interview of an application. The application's interviewDate and interviewTime mirror the next one.
+export interface InterviewEvent {
+  id: string;
+  stageId: StageId; // Stage the interview belongs to, e.g. the technical interview
+  date: string; // Format: YYYY/MM/DD
+  time?: string; // Format: HH:MM; missing only for interviews created before events existed
+  durationMinutes: number;
+  interviewers: string[]; // User.username
+  location?: string; // Room or address; interviews in the same room must not overlap
+  meetingUrl?: string; // Online meeting link
+}
+
+// An interview together with the candidate and application it belongs to, e.g. a calendar entry.
+export interface ScheduledInterview {
+  candidate: Candidate;
+  application: Application;
+  interview: InterviewEvent;
+}
+
+export type InterviewConflictReason = 'interviewer' | 'location';
+
+export interface InterviewConflict extends ScheduledInterview {
+  reason: InterviewConflictReason;
+  interviewers: string[]; // The interviewers booked in both interviews
+}
+
+// A candidate's application to a single job position, with its own pipeline state.
+export interface Application {
+  id: string;
+  jobPositionId: string; // From JobPosition.id, empty if it could not be resolved
+  positionTitle: string; // Last known title, shown if the job position was deleted
+  stage: StageId;
+  rating: number; // 0-5
+  createdAt: string;
+  interviewDate?: string; // Format: YYYY/MM/DD
+  interviewTime?: string; // Format: HH:MM
+  interviewTimeChanged?: boolean;
+  testResults?: TestResult[];
+  interviewers?: string[]; // User.username of the assigned interviewers
+  scorecards?: ScorecardSubmission[];
+  interviews?: InterviewEvent[];
+}
+
 export interface Candidate {
   id: string;
   name: string;
   email: string;
   phone: string;
+  // The fields below up to history mirror the primary application (applications[0])
+  // so that views working on a single position keep functioning.
   position: string; // New field for the job position
   stage: StageId;
   source: string;
@@ -59,21 +200,142 @@ export interface Candidate {
   comments: Comment[];
   hasResume?: boolean;
   testResults?: TestResult[]; // Comprehensive test results
+  applications: Application[];
+  anonymizedAt?: string; // Set once personal data was removed; pipeline data is kept for statistics
+  consents?: Partial<Record<ConsentType, ConsentRecord>>;
+  profile?: CandidateProfile;
+  tags?: string[]; // TagDefinition ids
+  customFields?: Record<string, CustomFieldValue>; // CustomFieldDefinition id -> value
+}
+
+// A Kanban card: one application together with the candidate it belongs to.
+export interface CandidateApplication {
+  candidate: Candidate;
+  application: Application;
+}
+
+// Parts of a candidate record covered by the local full-text search.
+export type SearchField = 'name' | 'contact' | 'profile' | 'comment' | 'history' | 'test' | 'resume';
+
+export interface SearchSnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchResult {
+  candidateId: string;
+  score: number;
+  field: SearchField; // The field that contributed most to the score; the snippet is taken from it
+}
+
+// Filters of the Kanban board. `position` holds a JobPosition id; the profile filters ignore empty values.
+export interface KanbanFilters {
+  search: string;
+  position: string;
+  source: string;
+  skill: string;
+  minExperience: string;
+  location: string;
+  militaryServiceStatus: MilitaryServiceStatus | '';
+  tag: string; // TagDefinition id
+}
+
+// One condition of the advanced filter builder. Dates are Jalali "YYYY/MM/DD" values from KamaDatePicker.
+export type FilterCondition =
+  | { id: string; type: 'rating'; min?: number; max?: number }
+  | { id: string; type: 'createdAt'; from?: string; to?: string }
+  | { id: string; type: 'interview'; scheduled: boolean }
+  | { id: string; type: 'hasResume'; value: boolean }
+  | { id: string; type: 'testStatus'; status: TestResult['status'] }
+  | { id: string; type: 'tag'; tag: string } // TagDefinition id
+  | { id: string; type: 'contact'; text: string } // Free text over email and phone
+  // Which of the optional values applies depends on the type of the field, see matchesAdvancedFilter
+  | { id: string; type: 'customField'; fieldId: string; text?: string; min?: number; max?: number; from?: string; to?: string; value?: boolean };
+
+export type FilterConditionType = FilterCondition['type'];
+
+export type FilterMatch = 'all' | 'any';
+
+export interface FilterGroup {
+  id: string;
+  match: FilterMatch; // How the conditions of the group are combined
+  conditions: FilterCondition[];
+}
+
+export interface AdvancedFilter {
+  match: FilterMatch; // How the groups are combined
+  groups: FilterGroup[];
+}
+
+// Everything that defines what the Kanban board shows; saved as a named view and encoded in the URL.
+export interface KanbanViewState {
+  filters: KanbanFilters;
+  advanced: AdvancedFilter;
+  sortBy: string;
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  state: KanbanViewState;
+  createdAt: string;
 }
 
 export interface StageChangeInfo {
   candidate: Candidate;
   newStage: KanbanStage;
+  applicationId?: string; // Defaults to the primary application
 }
 
+export type UserRole = 'admin' | 'recruiter' | 'hiring_manager' | 'interviewer' | 'viewer';
+
+export type Permission =
+  | 'candidate:create'
+  | 'candidate:edit'
+  | 'candidate:delete'
+  | 'candidate:stage'
+  | 'candidate:comment'
+  | 'scorecard:submit'
+  | 'scorecard:viewAll'
+  | 'test:edit'
+  | 'message:bulk'
+  | 'data:backup'
+  | 'data:restore'
+  | 'data:export'
+  | 'settings:system'
+  | 'settings:company'
+  | 'settings:pipeline'
+  | 'settings:templates'
+  | 'settings:tests'
+  | 'settings:users'
+  | 'audit:view';
+
 export interface User {
   username: string;
   name: string;
-  isAdmin: boolean;
+  role: UserRole;
+  isAdmin: boolean; // Kept in sync with role === 'admin' for older code and backups
+  mustChangePassword?: boolean; // Set for default accounts and after an admin reset
 }
 
 export interface UserWithPassword extends User {
-    password?: string;
+    password?: string; // "pbkdf2$<iterations>$<salt>$<hash>", or a legacy unsalted SHA-256 hex digest
+    failedLoginAttempts?: number;
+    lockedUntil?: string; // ISO date
+}
+
+export interface SessionPolicy {
+  idleTimeoutMinutes: number; // 0 disables the idle logout
+  maxSessionHours: number; // Sessions expire this long after login regardless of activity
+}
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireLetter: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  maxFailedAttempts: number; // 0 disables the lockout
+  lockoutMinutes: number;
 }
 
 export type View = 'dashboard' | 'calendar' | 'archive' | 'tests';
@@ -86,9 +348,22 @@ export interface Template {
   stageId?: StageId; // For stage change notifications
 }
 
+export type JobPositionStatus = 'open' | 'on_hold' | 'filled' | 'closed';
+
 export interface JobPosition {
   id: string;
   title: string;
+  stages?: KanbanStage[]; // Own ordered pipeline; the global stages are used when not set
+  // Requisition details
+  status?: JobPositionStatus; // Treated as 'open' when not set
+  headcount?: number;
+  hiringManager?: string; // User.username
+  department?: string;
+  location?: string;
+  salaryMin?: number;
+  salaryMax?: number;
+  targetFillDate?: string; // Format: YYYY/MM/DD
+  scorecards?: ScorecardTemplate[];
 }
 
 export interface CompanyProfile {
@@ -96,4 +371,108 @@ export interface CompanyProfile {
   website: string;
   address: string;
   jobPositions: JobPosition[];
-}
\ No newline at end of file
+}
+
+export interface BackupFileEntry {
+  id: string;     // IndexedDB key (candidate id, or `${candidateId}_${applicationId}_${testId}` for test files; older backups use `${candidateId}_${testId}`)
+  name: string;
+  type: string;
+  data: string;   // base64 encoded content
+}
+
+export type AuditAction =
+  | 'auth:login'
+  | 'auth:login_failed'
+  | 'auth:logout'
+  | 'auth:session_ended'
+  | 'user:create'
+  | 'user:update'
+  | 'user:delete'
+  | 'user:password_change'
+  | 'policy:update'
+  | 'candidate:create'
+  | 'candidate:update'
+  | 'candidate:delete'
+  | 'candidate:stage'
+  | 'candidate:comment'
+  | 'candidate:merge'
+  | 'candidate:anonymize'
+  | 'settings:update'
+  | 'template:update'
+  | 'data:backup'
+  | 'data:restore'
+  | 'data:import'
+  | 'data:export'
+  | 'data:encryption';
+
+// One entry of the append-only audit log. Each entry stores the hash of the previous one, so editing or
+// removing an entry breaks the chain from that point on.
+export interface AuditEntry {
+  seq: number;
+  timestamp: string; // ISO date
+  username: string; // Empty for events without a signed-in user, e.g. a failed login for an unknown name
+  userDisplayName: string;
+  action: AuditAction;
+  targetId?: string;
+  details?: string;
+  prevHash: string;
+  hash: string;
+}
+
+// Candidates whose applications have all been in one of the rule stages for at least `months` since
+// their last activity are anonymized by the retention sweep.
+export interface RetentionRule {
+  stageId: StageId;
+  months: number;
+}
+
+export interface RetentionPolicy {
+  enabled: boolean;
+  rules: RetentionRule[];
+}
+
+export interface BackupData {
+  version: string;
+  createdAt: string;
+  candidates: Candidate[];
+  storage?: Record<string, unknown>; // localStorage key -> stored value
+  files?: {
+    resumes: BackupFileEntry[];
+    testFiles: BackupFileEntry[];
+  };
+}
+
+export type MergeKind = 'added' | 'updated' | 'conflict' | 'unchanged';
+
+export interface MergePreviewItem {
+  kind: MergeKind;
+  incoming: Candidate;
+  local?: Candidate;              // Matched local record, if any
+  matchedBy?: 'id' | 'email' | 'phone';
+  conflictingFields?: (keyof Candidate)[]; // Fields whose values differ between both sides
+}
+
+export type MergeResolution = 'local' | 'incoming';
+
+export interface DuplicateMatch {
+  candidate: Candidate;
+  reasons: ('email' | 'phone' | 'name')[];
+}
+
+export type ImportField = 'name' | 'email' | 'phone' | 'position' | 'source' | 'stage' | 'rating' | 'interviewDate' | 'interviewTime';
+
+// Column index in the imported sheet for each mapped candidate field.
+export type ImportColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportRowResult {
+  rowNumber: number;              // Row number as shown in the spreadsheet, header included
+  candidate?: Candidate;          // Only set when the row is valid
+  errors: string[];
+  duplicates: DuplicateMatch[];   // Existing candidates and earlier rows of the same file
+}
+
+export type ExportColumn =
+  | 'name' | 'email' | 'phone' | 'position' | 'stage' | 'source' | 'rating' | 'createdAt'
+  | 'interviewDate' | 'interviewTime' | 'averageTestScore' | 'latestComment';
+
+export type ExportFormat = 'csv' | 'xlsx';
@@ -0,0 +1,107 @@
+import { Application, Candidate, CandidateApplication, JobPosition } from '../types';
+import { createInterviewsFromLegacyFields } from './interviewUtils';
+
+export const getPositionTitle = (application: Application, jobPositions: JobPosition[]): string => {
+  return jobPositions.find(j => j.id === application.jobPositionId)?.title || application.positionTitle || '';
+};
+
+// Builds an application from the single-position fields that candidates had before applications existed.
+export const createApplicationFromLegacyFields = (candidate: Candidate, jobPositions: JobPosition[]): Application => ({
+  id: `app_${candidate.id}`,
+  jobPositionId: jobPositions.find(j => j.title === candidate.position)?.id || '',
+  positionTitle: candidate.position || '',
+  stage: candidate.stage,
+  rating: candidate.rating || 0,
+  createdAt: candidate.createdAt,
+  interviewDate: candidate.interviewDate,
+  interviewTime: candidate.interviewTime,
+  interviewTimeChanged: candidate.interviewTimeChanged,
+  testResults: candidate.testResults || [],
+});
+
+// Test result files are stored per application, so the same test can hold a file for each position.
+export const getTestFileKey = (candidateId: string, applicationId: string, testId: string): string => `${candidateId}_${applicationId}_${testId}`;
+
+// Files saved before test results were stored per application; they belong to the primary application.
+export const getLegacyTestFileKey = (candidateId: string, testId: string): string => `${candidateId}_${testId}`;
+
+export const createApplication = (jobPosition: JobPosition): Application => ({
+  id: `app_${Date.now()}`,
+  jobPositionId: jobPosition.id,
+  positionTitle: jobPosition.title,
+  stage: 'inbox',
+  rating: 0,
+  createdAt: new Date().toISOString(),
+  testResults: [],
+});
+
+// Ensures the candidate has applications, resolves position ids and titles against the current
+// job positions, turns a legacy interview slot into an interview event, and copies the primary
+// application onto the legacy top-level fields.
+export const normalizeApplications = (candidate: Candidate, jobPositions: JobPosition[]): Candidate => {
+  const applications = (candidate.applications && candidate.applications.length > 0
+    ? candidate.applications
+    : [createApplicationFromLegacyFields(candidate, jobPositions)]
+  ).map(app => {
+    const jobPositionId = app.jobPositionId || jobPositions.find(j => j.title === app.positionTitle)?.id || '';
+    const resolved = app.interviews || !app.interviewDate
+      ? { ...app, jobPositionId }
+      : { ...app, jobPositionId, interviews: createInterviewsFromLegacyFields(app) };
+    return { ...resolved, positionTitle: getPositionTitle(resolved, jobPositions) };
+  });
+
+  const primary = applications[0];
+  return {
+    ...candidate,
+    applications,
+    position: primary.positionTitle,
+    stage: primary.stage,
+    rating: primary.rating,
+    interviewDate: primary.interviewDate,
+    interviewTime: primary.interviewTime,
+    interviewTimeChanged: primary.interviewTimeChanged,
+    testResults: primary.testResults,
+  };
+};
+
+// Copies edits made to the legacy top-level fields (e.g. by the edit form) into the primary application.
+export const applyLegacyFieldsToPrimary = (candidate: Candidate, jobPositions: JobPosition[]): Candidate => {
+  if (!candidate.applications || candidate.applications.length === 0) {
+    return normalizeApplications(candidate, jobPositions);
+  }
+  const [primary, ...rest] = candidate.applications;
+  const positionChanged = primary.positionTitle !== candidate.position;
+  const updatedPrimary: Application = {
+    ...primary,
+    jobPositionId: positionChanged ? jobPositions.find(j => j.title === candidate.position)?.id || '' : primary.jobPositionId,
+    positionTitle: candidate.position,
+    stage: candidate.stage,
+    rating: candidate.rating,
+    interviewDate: candidate.interviewDate,
+    interviewTime: candidate.interviewTime,
+    interviewTimeChanged: candidate.interviewTimeChanged,
+    testResults: candidate.testResults,
+  };
+  return normalizeApplications({ ...candidate, applications: [updatedPrimary, ...rest] }, jobPositions);
+};
+
+export const updateApplicationInCandidate = (
+  candidate: Candidate,
+  applicationId: string,
+  changes: Partial<Application>,
+  jobPositions: JobPosition[]
+): Candidate => {
+  const applications = candidate.applications.map(app => app.id === applicationId ? { ...app, ...changes } : app);
+  return normalizeApplications({ ...candidate, applications }, jobPositions);
+};
+
+export const flattenApplications = (candidates: Candidate[]): CandidateApplication[] => {
+  return candidates.flatMap(candidate => (candidate.applications || []).map(application => ({ candidate, application })));
+};
+
+export const countHires = (candidates: Candidate[], jobPositionId: string): number => {
+  return candidates.reduce((count, c) => count + (c.applications || []).filter(a => a.jobPositionId === jobPositionId && a.stage === 'hired').length, 0);
+};
+
+// Closed positions no longer accept candidates, but are kept for records that already use them.
+export const isPositionOpenForCandidates = (jobPosition: JobPosition): boolean => jobPosition.status !== 'closed';
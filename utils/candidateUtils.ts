@@ -0,0 +1,179 @@
+import { Application, Candidate, Comment, ConsentType, DuplicateMatch, HistoryEntry, TestResult } from '../types';
+import { mergeScorecardSubmissions } from './scorecardUtils';
+
+// Normalizes a phone number the same way WhatsApp links are built: digits only, leading 0 replaced by the 98 country code.
+export const normalizePhone = (phone: string | undefined): string => {
+  if (!phone) return '';
+  return phone.replace(/[^0-9]/g, '').replace(/^0/, '98');
+};
+
+export const normalizeEmail = (email: string | undefined): string => {
+  return (email || '').trim().toLowerCase();
+};
+
+// Helper function to convert Persian/Arabic numerals to Latin, making date and phone parsing reliable.
+export const toLatinDigits = (s: string) => {
+  if (!s) return '';
+  return s.replace(/[۰-۹]/g, d => '۰۱۲۳۴۵۶۷۸۹'.indexOf(d).toString())
+          .replace(/[٠-٩]/g, d => '٠١٢٣٤٥٦٧٨٩'.indexOf(d).toString());
+};
+
+// Unifies Arabic/Persian letter variants, strips diacritics and zero-width characters so that
+// "علي‌رضا" and "علیرضا" compare equal.
+export const normalizePersianName = (name: string | undefined): string => {
+  return (name || '')
+    .replace(/[يى]/g, 'ی')
+    .replace(/ك/g, 'ک')
+    .replace(/[ةۀ]/g, 'ه')
+    .replace(/[أإآ]/g, 'ا')
+    .replace(/[\u064B-\u065F\u0670]/g, '')
+    .replace(/[\u200C\u200D]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+};
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Similarity between 0 and 1. Word order is ignored so "سلطانیان حمیدرضا" still matches "حمیدرضا سلطانیان".
+export const nameSimilarity = (a: string, b: string): number => {
+  const sortWords = (s: string) => s.split(' ').sort().join(' ');
+  const first = sortWords(normalizePersianName(a));
+  const second = sortWords(normalizePersianName(b));
+  if (!first || !second) return 0;
+  const maxLength = Math.max(first.length, second.length);
+  return 1 - levenshtein(first, second) / maxLength;
+};
+
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+// Anonymized records share the same placeholder name and must never be merged into live ones, so they are skipped.
+export const findDuplicates = (
+  candidate: Pick<Candidate, 'name' | 'email' | 'phone'> & { id?: string; anonymizedAt?: string },
+  candidates: Candidate[]
+): DuplicateMatch[] => {
+  if (candidate.anonymizedAt) return [];
+  const email = normalizeEmail(candidate.email);
+  const phone = normalizePhone(toLatinDigits(candidate.phone));
+  const matches: DuplicateMatch[] = [];
+  for (const other of candidates) {
+    if (other.id === candidate.id || other.anonymizedAt) continue;
+    const reasons: DuplicateMatch['reasons'] = [];
+    if (email && normalizeEmail(other.email) === email) reasons.push('email');
+    if (phone && normalizePhone(toLatinDigits(other.phone)) === phone) reasons.push('phone');
+    if (nameSimilarity(candidate.name, other.name) >= NAME_SIMILARITY_THRESHOLD) reasons.push('name');
+    if (reasons.length > 0) matches.push({ candidate: other, reasons });
+  }
+  return matches;
+};
+
+// Fields that are combined from both records during a merge instead of being compared. Pipeline fields only
+// mirror the primary application, so they follow the merged applications.
+const MERGED_FIELDS: (keyof Candidate)[] = [
+  'id', 'createdAt', 'history', 'comments', 'testResults', 'hasResume', 'applications', 'consents', 'tags', 'customFields',
+  'position', 'stage', 'rating', 'interviewDate', 'interviewTime', 'interviewTimeChanged',
+];
+
+export const getConflictingFields = (a: Candidate, b: Candidate): (keyof Candidate)[] => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as (keyof Candidate)[]);
+  return [...keys].filter(key =>
+    !MERGED_FIELDS.includes(key) &&
+    JSON.stringify(a[key] ?? null) !== JSON.stringify(b[key] ?? null)
+  );
+};
+
+export const formatFieldValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+export const historyKey = (h: HistoryEntry) => `${h.timestamp}|${h.user}|${h.action}`;
+export const commentKey = (c: Comment) => `${c.id}|${c.timestamp}|${c.text}`;
+
+const mergeHistory = (a: HistoryEntry[], b: HistoryEntry[]): HistoryEntry[] => {
+  const map = new Map<string, HistoryEntry>();
+  [...a, ...b].forEach(h => map.set(historyKey(h), h));
+  // Newest first, matching how history entries are prepended
+  return [...map.values()].sort((x, y) => new Date(y.timestamp).getTime() - new Date(x.timestamp).getTime());
+};
+
+const mergeComments = (a: Comment[], b: Comment[]): Comment[] => {
+  const map = new Map<string, Comment>();
+  [...a, ...b].forEach(c => map.set(commentKey(c), c));
+  return [...map.values()].sort((x, y) => new Date(x.timestamp).getTime() - new Date(y.timestamp).getTime());
+};
+
+// Test results are keyed by test id; when both records have the same test, the preferred one is kept.
+const mergeTestResults = (a: TestResult[], b: TestResult[], preferOther: boolean): TestResult[] => {
+  const map = new Map<string, TestResult>();
+  const [first, second] = preferOther ? [a, b] : [b, a];
+  [...first, ...second].forEach(r => map.set(r.testId, r));
+  return [...map.values()];
+};
+
+// For each consent the most recent decision wins, whichever record it was made on.
+const mergeConsents = (a: Candidate['consents'], b: Candidate['consents']): Candidate['consents'] => {
+  const merged = { ...a };
+  (Object.keys(b || {}) as ConsentType[]).forEach(type => {
+    const other = b![type]!;
+    const current = merged[type];
+    if (!current || new Date(other.timestamp) > new Date(current.timestamp)) merged[type] = other;
+  });
+  return merged;
+};
+
+// Applications for the same job position are combined; the preferred side's pipeline state wins.
+const mergeApplications = (a: Application[], b: Application[], preferOther: boolean): Application[] => {
+  const key = (app: Application) => app.jobPositionId || app.positionTitle;
+  const [preferred, secondary] = preferOther ? [b, a] : [a, b];
+  const merged = preferred.map(app => {
+    const match = secondary.find(other => key(other) === key(app));
+    if (!match) return app;
+    const interviewers = [...new Set([...(app.interviewers || []), ...(match.interviewers || [])])];
+    const scorecards = mergeScorecardSubmissions(app.scorecards || [], match.scorecards || []);
+    const interviews = [...(app.interviews || []), ...(match.interviews || []).filter(i => !(app.interviews || []).some(own => own.id === i.id))];
+    return {
+      ...app,
+      testResults: mergeTestResults(match.testResults || [], app.testResults || [], true),
+      ...(interviewers.length > 0 ? { interviewers } : {}),
+      ...(scorecards.length > 0 ? { scorecards } : {}),
+      ...(interviews.length > 0 ? { interviews } : {}),
+    };
+  });
+  const extra = secondary.filter(other => !preferred.some(app => key(app) === key(other)));
+  return [...merged, ...extra];
+};
+
+// Combines two records of the same person into `target`. Scalar fields come from `target` unless
+// `preferOther` is set; history, comments and test results are combined from both.
+export const mergeCandidateRecords = (target: Candidate, other: Candidate, preferOther = false): Candidate => {
+  const base = preferOther ? other : target;
+  const applications = mergeApplications(target.applications || [], other.applications || [], preferOther);
+  return {
+    ...base,
+    id: target.id, // The target id is kept so existing files and references stay valid
+    createdAt: new Date(target.createdAt) <= new Date(other.createdAt) ? target.createdAt : other.createdAt,
+    history: mergeHistory(target.history, other.history),
+    comments: mergeComments(target.comments, other.comments),
+    testResults: applications.length > 0 ? applications[0].testResults : mergeTestResults(target.testResults || [], other.testResults || [], preferOther),
+    hasResume: target.hasResume || other.hasResume,
+    applications,
+    consents: mergeConsents(target.consents, other.consents),
+    tags: target.tags || other.tags ? [...new Set([...(target.tags || []), ...(other.tags || [])])] : undefined,
+    // Values missing on one side are filled in from the other; otherwise the preferred record wins
+    customFields: target.customFields || other.customFields
+      ? (preferOther ? { ...target.customFields, ...other.customFields } : { ...other.customFields, ...target.customFields })
+      : undefined,
+  };
+};
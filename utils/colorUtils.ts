@@ -1,3 +1,5 @@
+import { TagDefinition } from '../types';
+
 export const getJobColor = (jobTitle: string): string => {
   if (!jobTitle) {
     return 'hsl(0, 0%, 85%)'; // a neutral grey for empty job title
@@ -11,3 +13,5 @@ export const getJobColor = (jobTitle: string): string => {
   // Using HSL for pastel colors: 70% saturation, 85% lightness
   return `hsl(${hue}, 70%, 85%)`;
 };
+
+export const getTagColor = (tag: TagDefinition): string => tag.color || getJobColor(tag.name);
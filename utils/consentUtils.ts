@@ -0,0 +1,51 @@
+import { Candidate, ConsentRecord, ConsentType } from '../types';
+import { ARCHIVE_STAGE_ID, CONSENT_LABELS } from '../constants';
+
+export type MessageChannel = 'email' | 'whatsapp';
+
+export const hasConsent = (candidate: Candidate, type: ConsentType): boolean => !!candidate.consents?.[type]?.granted;
+
+// Candidates without an open application are only contacted as part of the talent pool.
+const isInTalentPool = (candidate: Candidate): boolean => {
+  const stages = candidate.applications?.length ? candidate.applications.map(a => a.stage) : [candidate.stage];
+  return stages.every(stage => stage === 'rejected' || stage === ARCHIVE_STAGE_ID);
+};
+
+// Consents that are needed to message the candidate over the channel but have not been granted.
+export const getMissingConsents = (candidate: Candidate, channel: MessageChannel): ConsentType[] => {
+  const required: ConsentType[] = ['dataProcessing'];
+  if (channel === 'whatsapp') required.push('whatsapp');
+  if (isInTalentPool(candidate)) required.push('talentPool');
+  return required.filter(type => !hasConsent(candidate, type));
+};
+
+export const canMessage = (candidate: Candidate, channel: MessageChannel): boolean => getMissingConsents(candidate, channel).length === 0;
+
+// Empty when the candidate may be messaged.
+export const describeMissingConsents = (candidate: Candidate, channel: MessageChannel): string => {
+  const missing = getMissingConsents(candidate, channel);
+  if (missing.length === 0) return '';
+  return `رضایت ثبت نشده: ${missing.map(type => CONSENT_LABELS[type]).join('، ')}`;
+};
+
+// Records a new decision only for the consents whose state changed, so existing timestamps stay accurate.
+export const updateConsents = (
+  current: Candidate['consents'],
+  granted: Record<ConsentType, boolean>,
+  source: string,
+  recordedBy: string,
+  timestamp: string = new Date().toISOString(),
+): Candidate['consents'] => {
+  const updated: Partial<Record<ConsentType, ConsentRecord>> = { ...current };
+  (Object.keys(granted) as ConsentType[]).forEach(type => {
+    const previous = current?.[type];
+    if (previous ? previous.granted !== granted[type] : granted[type]) {
+      updated[type] = { granted: granted[type], timestamp, source, recordedBy };
+    }
+  });
+  return updated;
+};
+
+// Records added before consents were tracked have no consents object; new records always get one, even if empty.
+// Nothing is granted for them until an admin confirms it.
+export const isLegacyConsentRecord = (candidate: Candidate): boolean => !candidate.consents && !candidate.anonymizedAt;
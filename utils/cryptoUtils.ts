@@ -0,0 +1,31 @@
+// Small helpers around the WebCrypto API shared by the auth and encryption services.
+
+export const getSubtleCrypto = (): SubtleCrypto => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('مرورگر از رمزنگاری امن پشتیبانی نمی‌کند. برنامه را از طریق HTTPS یا localhost باز کنید.');
+  }
+  return crypto.subtle;
+};
+
+// Converts in chunks so large files do not exceed the argument limit of String.fromCharCode.
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string) => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+export const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+// Compares without returning early so the time taken does not reveal how much of the value matched.
+export const constantTimeEquals = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
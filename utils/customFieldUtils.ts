@@ -0,0 +1,64 @@
+import { Candidate, CustomFieldDefinition, CustomFieldValue } from '../types';
+import { toLatinDigits } from './candidateUtils';
+
+// Template placeholders only support Latin identifiers, see templateService.replacePlaceholders.
+export const CUSTOM_FIELD_KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+export const getCustomFieldPlaceholder = (field: CustomFieldDefinition): string => `field_${field.key}`;
+
+export const isValidUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+// Converts the raw text of an input to a stored value; empty or invalid numbers become undefined.
+export const parseCustomFieldInput = (field: CustomFieldDefinition, raw: string): CustomFieldValue | undefined => {
+  const trimmed = raw.trim();
+  if (!trimmed) return undefined;
+  if (field.type === 'number') {
+    const number = Number(toLatinDigits(trimmed).replace(/[,٬]/g, ''));
+    return Number.isFinite(number) ? number : undefined;
+  }
+  if (field.type === 'boolean') return trimmed === 'true';
+  if (field.type === 'date') return toLatinDigits(trimmed);
+  return trimmed;
+};
+
+export const formatCustomFieldValue = (field: CustomFieldDefinition, value: CustomFieldValue | undefined): string => {
+  if (value === undefined || value === '') return '';
+  if (field.type === 'boolean') return value ? 'بله' : 'خیر';
+  return String(value);
+};
+
+// Values of the defined fields in definition order, skipping empty ones and fields that were deleted.
+export const getCustomFieldEntries = (candidate: Candidate, fields: CustomFieldDefinition[]): { field: CustomFieldDefinition; value: CustomFieldValue }[] =>
+  fields
+    .filter(field => candidate.customFields?.[field.id] !== undefined && candidate.customFields?.[field.id] !== '')
+    .map(field => ({ field, value: candidate.customFields![field.id] }));
+
+// Returns a message for the first value that does not fit its field, or null when all are valid.
+export const validateCustomFieldValues = (values: Record<string, CustomFieldValue>, fields: CustomFieldDefinition[]): string | null => {
+  for (const field of fields) {
+    const value = values[field.id];
+    if (value === undefined) continue;
+    if (field.type === 'url' && !isValidUrl(String(value))) return `مقدار «${field.label}» یک لینک معتبر نیست.`;
+    if (field.type === 'date' && !/^\d{4}\/\d{2}\/\d{2}$/.test(String(value))) return `تاریخ «${field.label}» معتبر نیست.`;
+  }
+  return null;
+};
+
+// Trims text and drops empty values so that candidates without custom data do not carry an empty object.
+export const cleanCustomFieldValues = (values: Record<string, CustomFieldValue | undefined>): Record<string, CustomFieldValue> | undefined => {
+  const entries = Object.entries(values)
+    .map(([id, value]): [string, CustomFieldValue | undefined] => [id, typeof value === 'string' ? value.trim() : value])
+    .filter((entry): entry is [string, CustomFieldValue] => entry[1] !== undefined && entry[1] !== '');
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+// Placeholder values for templates, e.g. { field_nationalId: '0012345678' }.
+export const getCustomFieldPlaceholders = (candidate: Candidate, fields: CustomFieldDefinition[]): Record<string, string> =>
+  Object.fromEntries(getCustomFieldEntries(candidate, fields).map(({ field, value }) => [getCustomFieldPlaceholder(field), formatCustomFieldValue(field, value)]));
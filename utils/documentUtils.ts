@@ -0,0 +1,74 @@
+// Loaded from the mammoth and pdf.js CDN scripts in index.html
+declare const mammoth: any;
+declare const pdfjsLib: any;
+
+const PDF_WORKER_SRC = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
+
+export type DocumentKind = 'pdf' | 'docx' | 'image';
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Value for the `accept` attribute of resume and test result inputs.
+export const SUPPORTED_DOCUMENT_ACCEPT = '.pdf,.docx,.jpg,.jpeg,.png';
+export const SUPPORTED_DOCUMENT_LABEL = 'PDF، Word (DOCX) یا تصویر JPG/PNG';
+
+// Some browsers and older stored files have no MIME type for Word documents, so the extension is checked too.
+export const getDocumentKind = (file: File): DocumentKind | undefined => {
+  const name = file.name.toLowerCase();
+  if (file.type === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  if (file.type === DOCX_MIME || name.endsWith('.docx')) return 'docx';
+  if (['image/jpeg', 'image/png'].includes(file.type) || /\.(jpe?g|png)$/.test(name)) return 'image';
+  return undefined;
+};
+
+// The MIME type to send to the AI service, derived from the extension when the browser left it empty.
+export const getImageMimeType = (file: File): string => {
+  if (file.type) return file.type;
+  return file.name.toLowerCase().endsWith('.png') ? 'image/png' : 'image/jpeg';
+};
+
+const ensureMammoth = () => {
+  if (typeof mammoth === 'undefined') {
+    throw new Error('کتابخانه خواندن فایل‌های Word بارگذاری نشده است. اتصال اینترنت را بررسی کنید.');
+  }
+};
+
+// Plain text of a DOCX file, converted locally so that only the text is sent to the AI service.
+export const docxToText = async (file: File): Promise<string> => {
+  ensureMammoth();
+  const result = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+  return result.value as string;
+};
+
+export const docxToHtml = async (file: File): Promise<string> => {
+  ensureMammoth();
+  const result = await mammoth.convertToHtml({ arrayBuffer: await file.arrayBuffer() });
+  return result.value as string;
+};
+
+export const pdfToText = async (file: File): Promise<string> => {
+  if (typeof pdfjsLib === 'undefined') {
+    throw new Error('کتابخانه خواندن فایل‌های PDF بارگذاری نشده است. اتصال اینترنت را بررسی کنید.');
+  }
+  pdfjsLib.GlobalWorkerOptions.workerSrc = PDF_WORKER_SRC;
+  const pdf = await pdfjsLib.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const content = await (await pdf.getPage(pageNumber)).getTextContent();
+      pages.push(content.items.map((item: any) => item.str).join(' '));
+    }
+    return pages.join('\n');
+  } finally {
+    pdf.destroy();
+  }
+};
+
+// Text of a stored document for local search. Images have no text layer and return an empty string.
+export const extractDocumentText = async (file: File): Promise<string> => {
+  switch (getDocumentKind(file)) {
+    case 'pdf': return pdfToText(file);
+    case 'docx': return docxToText(file);
+    default: return '';
+  }
+};
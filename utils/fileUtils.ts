@@ -0,0 +1,48 @@
+// Reads a Blob/File and returns its content as a plain base64 string (without the data URL prefix).
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      if (typeof reader.result !== 'string') {
+        return reject(new Error('Failed to read file as data URL.'));
+      }
+      resolve(reader.result.split(',')[1] || '');
+    };
+    reader.onerror = (err) => reject(err);
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const base64ToFile = (data: string, name: string, type: string): File => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new File([bytes], name, { type });
+};
+
+// Spreadsheet apps run cells starting with these characters as formulas. Names and comments can come from imported
+// files or parsed resumes, so such text is prefixed with a quote; plain numbers like -5 or +98 are left alone.
+const neutralizeFormula = (value: string) => /^[=+\-@\t\r]/.test(value) && isNaN(Number(value)) ? `'${value}` : value;
+
+const escapeCsv = (raw: string) => {
+  const value = neutralizeFormula(raw);
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// Builds CSV text with a BOM so that Excel opens the Persian text as UTF-8.
+export const buildCsv = (rows: string[][]): string => {
+  return '\uFEFF' + rows.map(row => row.map(escapeCsv).join(',')).join('\r\n');
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,126 @@
+import { AdvancedFilter, CandidateApplication, CustomFieldDefinition, FilterCondition, FilterConditionType, FilterGroup, KanbanViewState } from '../types';
+import { FILTER_CONDITION_LABELS } from '../constants';
+import { generateId } from './idUtils';
+import { toLatinDigits, normalizePhone } from './candidateUtils';
+import { bytesToBase64, base64ToBytes } from './cryptoUtils';
+
+declare const persianDate: any;
+
+export const EMPTY_ADVANCED_FILTER: AdvancedFilter = { match: 'all', groups: [] };
+
+export const DEFAULT_VIEW_STATE: KanbanViewState = {
+  filters: { search: '', position: '', source: '', skill: '', minExperience: '', location: '', militaryServiceStatus: '', tag: '' },
+  advanced: EMPTY_ADVANCED_FILTER,
+  sortBy: 'createdAt',
+};
+
+export const createFilterCondition = (type: FilterConditionType): FilterCondition => {
+  const id = generateId();
+  switch (type) {
+    case 'rating': return { id, type, min: 3 };
+    case 'createdAt': return { id, type };
+    case 'interview': return { id, type, scheduled: true };
+    case 'hasResume': return { id, type, value: true };
+    case 'testStatus': return { id, type, status: 'passed' };
+    case 'tag': return { id, type, tag: '' };
+    case 'contact': return { id, type, text: '' };
+    case 'customField': return { id, type, fieldId: '' };
+  }
+};
+
+export const createFilterGroup = (): FilterGroup => ({ id: generateId(), match: 'all', conditions: [createFilterCondition('rating')] });
+
+export const countFilterConditions = (advanced: AdvancedFilter) => advanced.groups.reduce((sum, g) => sum + g.conditions.length, 0);
+
+// Calendar day of an ISO timestamp as "YYYY/MM/DD" with Latin digits, comparable with KamaDatePicker values.
+const toJalaliDay = (timestamp: string): string => toLatinDigits(new persianDate(new Date(timestamp)).format('YYYY/MM/DD'));
+
+// Conditions with an empty value, e.g. a tag that was not chosen yet, match everything.
+const matchesCondition = ({ candidate, application }: CandidateApplication, condition: FilterCondition, customFields: CustomFieldDefinition[]): boolean => {
+  switch (condition.type) {
+    case 'rating':
+      return (condition.min === undefined || application.rating >= condition.min)
+        && (condition.max === undefined || application.rating <= condition.max);
+    case 'createdAt': {
+      if (!condition.from && !condition.to) return true;
+      const day = toJalaliDay(application.createdAt);
+      return (!condition.from || day >= toLatinDigits(condition.from)) && (!condition.to || day <= toLatinDigits(condition.to));
+    }
+    case 'interview':
+      return !!application.interviewDate === condition.scheduled;
+    case 'hasResume':
+      return !!candidate.hasResume === condition.value;
+    case 'testStatus':
+      return (application.testResults || []).some(r => r.status === condition.status);
+    case 'tag':
+      return !condition.tag || (candidate.tags || []).includes(condition.tag);
+    case 'contact': {
+      const text = toLatinDigits(condition.text).trim().toLowerCase();
+      if (!text) return true;
+      const phoneDigits = normalizePhone(text);
+      return candidate.email.toLowerCase().includes(text)
+        || (!!phoneDigits && normalizePhone(toLatinDigits(candidate.phone)).includes(phoneDigits));
+    }
+    case 'customField': {
+      // A condition on a deleted field matches everything, like an empty one
+      const field = customFields.find(f => f.id === condition.fieldId);
+      if (!field) return true;
+      const value = candidate.customFields?.[field.id];
+      switch (field.type) {
+        case 'number':
+          if (condition.min === undefined && condition.max === undefined) return true;
+          return typeof value === 'number' && (condition.min === undefined || value >= condition.min) && (condition.max === undefined || value <= condition.max);
+        case 'date':
+          if (!condition.from && !condition.to) return true;
+          return typeof value === 'string' && !!value
+            && (!condition.from || toLatinDigits(value) >= toLatinDigits(condition.from))
+            && (!condition.to || toLatinDigits(value) <= toLatinDigits(condition.to));
+        case 'boolean':
+          return condition.value === undefined || (value ?? false) === condition.value;
+        case 'select':
+          return !condition.text || value === condition.text;
+        case 'text':
+        case 'url': {
+          const text = toLatinDigits(condition.text || '').trim().toLowerCase();
+          return !text || (typeof value === 'string' && toLatinDigits(value).toLowerCase().includes(text));
+        }
+      }
+    }
+  }
+};
+
+const matchesGroup = (item: CandidateApplication, group: FilterGroup, customFields: CustomFieldDefinition[]): boolean => {
+  if (group.conditions.length === 0) return true;
+  return group.match === 'all'
+    ? group.conditions.every(c => matchesCondition(item, c, customFields))
+    : group.conditions.some(c => matchesCondition(item, c, customFields));
+};
+
+// customFields are the current definitions; conditions on custom fields are interpreted by the field type.
+export const matchesAdvancedFilter = (item: CandidateApplication, advanced: AdvancedFilter, customFields: CustomFieldDefinition[] = []): boolean => {
+  if (advanced.groups.length === 0) return true;
+  return advanced.match === 'all'
+    ? advanced.groups.every(g => matchesGroup(item, g, customFields))
+    : advanced.groups.some(g => matchesGroup(item, g, customFields));
+};
+
+// The view state is stored as base64 of its UTF-8 JSON so that Persian text survives in the URL.
+export const encodeViewState = (state: KanbanViewState): string => bytesToBase64(new TextEncoder().encode(JSON.stringify(state)));
+
+// Returns null for links that are malformed or were created by an incompatible version.
+export const decodeViewState = (encoded: string): KanbanViewState | null => {
+  try {
+    const parsed = JSON.parse(new TextDecoder().decode(base64ToBytes(encoded)));
+    if (typeof parsed !== 'object' || !parsed || !Array.isArray(parsed.advanced?.groups)) return null;
+    const groups: FilterGroup[] = parsed.advanced.groups
+      .filter((g: any) => Array.isArray(g?.conditions))
+      .map((g: any) => ({ ...g, conditions: g.conditions.filter((c: any) => c?.type in FILTER_CONDITION_LABELS) }));
+    return {
+      filters: { ...DEFAULT_VIEW_STATE.filters, ...parsed.filters },
+      advanced: { match: parsed.advanced.match === 'any' ? 'any' : 'all', groups },
+      sortBy: typeof parsed.sortBy === 'string' ? parsed.sortBy : DEFAULT_VIEW_STATE.sortBy,
+    };
+  } catch {
+    return null;
+  }
+};
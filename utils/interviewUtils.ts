@@ -0,0 +1,91 @@
+import { Application, CandidateApplication, InterviewConflict, InterviewEvent, ScheduledInterview } from '../types';
+import { toLatinDigits } from './candidateUtils';
+
+// Loaded from a CDN script in index.html
+declare const persianDate: any;
+
+export const DEFAULT_INTERVIEW_DURATION = 60;
+export const INTERVIEW_DURATIONS = [30, 45, 60, 90, 120];
+
+// Start of the interview, or null when the date cannot be read. Interviews without a time start at midnight.
+export const getInterviewStart = (interview: Pick<InterviewEvent, 'date' | 'time'>): Date | null => {
+  const [year, month, day] = toLatinDigits(interview.date).split('/').map(Number);
+  if (!year || !month || !day) return null;
+  const [hour, minute] = toLatinDigits(interview.time || '00:00').split(':').map(Number);
+  try {
+    return new persianDate([year, month, day]).hour(hour || 0).minute(minute || 0).toDate();
+  } catch {
+    return null;
+  }
+};
+
+export const getInterviewEnd = (interview: InterviewEvent): Date | null => {
+  const start = getInterviewStart(interview);
+  return start && new Date(start.getTime() + interview.durationMinutes * 60 * 1000);
+};
+
+// Interviews without a time cannot be placed on the day, so they never overlap.
+const overlaps = (a: InterviewEvent, b: InterviewEvent): boolean => {
+  if (!a.time || !b.time) return false;
+  const [aStart, aEnd, bStart, bEnd] = [getInterviewStart(a), getInterviewEnd(a), getInterviewStart(b), getInterviewEnd(b)];
+  if (!aStart || !aEnd || !bStart || !bEnd) return false;
+  return aStart < bEnd && bStart < aEnd;
+};
+
+const normalizeLocation = (location?: string): string => (location || '').trim().toLowerCase();
+
+export const sortInterviews = (interviews: InterviewEvent[]): InterviewEvent[] =>
+  [...interviews].sort((a, b) => `${toLatinDigits(a.date)} ${a.time || ''}`.localeCompare(`${toLatinDigits(b.date)} ${b.time || ''}`));
+
+export const flattenInterviews = (applications: CandidateApplication[]): ScheduledInterview[] =>
+  applications.flatMap(({ candidate, application }) => (application.interviews || []).map(interview => ({ candidate, application, interview })));
+
+// Other interviews overlapping `interview` that share an interviewer or the room. An interview with the same id,
+// i.e. the one being edited, is skipped.
+export const findInterviewConflicts = (interview: InterviewEvent, scheduled: ScheduledInterview[]): InterviewConflict[] => {
+  const conflicts: InterviewConflict[] = [];
+  const location = normalizeLocation(interview.location);
+  for (const other of scheduled) {
+    if (other.interview.id === interview.id || !overlaps(interview, other.interview)) continue;
+    const sharedInterviewers = interview.interviewers.filter(u => other.interview.interviewers.includes(u));
+    if (sharedInterviewers.length > 0) {
+      conflicts.push({ ...other, reason: 'interviewer', interviewers: sharedInterviewers });
+    } else if (location && location === normalizeLocation(other.interview.location)) {
+      conflicts.push({ ...other, reason: 'location', interviewers: [] });
+    }
+  }
+  return conflicts;
+};
+
+// The interview shown on cards and used by reminders: the first one that has not ended yet, or else the latest one.
+export const getNextInterview = (interviews: InterviewEvent[], now: Date = new Date()): InterviewEvent | undefined => {
+  const sorted = sortInterviews(interviews);
+  return sorted.find(interview => (getInterviewEnd(interview)?.getTime() ?? Infinity) > now.getTime()) || sorted[sorted.length - 1];
+};
+
+// Replaces the interviews of an application and mirrors the next one on the single-slot fields. Interviewers of
+// the events are added to the application's interviewers, so that they can see the candidate.
+export const withInterviews = (application: Application, interviews: InterviewEvent[]): Application => {
+  const next = getNextInterview(interviews);
+  const interviewers = [...new Set([...(application.interviewers || []), ...interviews.flatMap(i => i.interviewers)])];
+  return {
+    ...application,
+    interviews,
+    interviewDate: next?.date,
+    interviewTime: next?.time,
+    ...(interviewers.length > 0 ? { interviewers } : {}),
+  };
+};
+
+// Before interview events existed, an application only had a single date and time.
+export const createInterviewsFromLegacyFields = (application: Application): InterviewEvent[] =>
+  application.interviewDate
+    ? [{
+        id: `interview_${application.id}`,
+        stageId: application.stage,
+        date: application.interviewDate,
+        time: application.interviewTime,
+        durationMinutes: DEFAULT_INTERVIEW_DURATION,
+        interviewers: application.interviewers || [],
+      }]
+    : [];
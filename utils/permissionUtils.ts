@@ -0,0 +1,46 @@
+import { Application, Candidate, JobPosition, Permission, User, UserRole } from '../types';
+import { ROLE_PERMISSIONS } from '../constants';
+
+// Users saved before roles existed only have the isAdmin flag.
+export const resolveRole = (user: { role?: UserRole; isAdmin?: boolean }): UserRole => {
+  if (user.role && ROLE_PERMISSIONS[user.role]) return user.role;
+  return user.isAdmin ? 'admin' : 'recruiter';
+};
+
+// Fills in the role and keeps isAdmin consistent with it.
+export const normalizeUser = <T extends User>(user: T): T => {
+  const role = resolveRole(user);
+  return { ...user, role, isAdmin: role === 'admin' };
+};
+
+export const hasPermission = (user: User | null, permission: Permission): boolean => {
+  if (!user) return false;
+  return ROLE_PERMISSIONS[resolveRole(user)].includes(permission);
+};
+
+// Hiring managers and interviewers only work with part of the candidates; every other role sees all of them.
+export const hasFullScope = (user: User | null): boolean => {
+  if (!user) return false;
+  const role = resolveRole(user);
+  return role !== 'hiring_manager' && role !== 'interviewer';
+};
+
+// Hiring managers see applications for the job positions they own, interviewers the ones they are assigned to.
+export const isApplicationInScope = (user: User | null, application: Application, jobPositions: JobPosition[]): boolean => {
+  if (!user) return false;
+  if (hasFullScope(user)) return true;
+  if ((application.interviewers || []).includes(user.username)) return true;
+  if (resolveRole(user) !== 'hiring_manager') return false;
+  return jobPositions.find(j => j.id === application.jobPositionId)?.hiringManager === user.username;
+};
+
+export const isCandidateInScope = (user: User | null, candidate: Candidate, jobPositions: JobPosition[]): boolean => {
+  return (candidate.applications || []).some(application => isApplicationInScope(user, application, jobPositions));
+};
+
+export const SETTINGS_PERMISSIONS: Permission[] = [
+  'settings:system', 'settings:company', 'settings:pipeline', 'settings:templates', 'settings:tests', 'settings:users',
+  'audit:view',
+];
+
+export const canOpenSettings = (user: User | null): boolean => SETTINGS_PERMISSIONS.some(p => hasPermission(user, p));
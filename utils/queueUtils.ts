@@ -0,0 +1,30 @@
+export interface RateLimitOptions {
+  concurrency: number;   // Maximum number of tasks running at the same time
+  minIntervalMs: number; // Minimum time between the starts of two tasks
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Runs `task` for every item while respecting the rate limit, e.g. of an external API. Tasks are expected
+// to handle their own errors; `shouldStop` is checked before each task so that a closed dialog stops the queue.
+export const runRateLimited = async <T>(
+  items: T[],
+  task: (item: T) => Promise<void>,
+  { concurrency, minIntervalMs }: RateLimitOptions,
+  shouldStop: () => boolean = () => false,
+): Promise<void> => {
+  let nextIndex = 0;
+  let nextStartAt = 0;
+  const worker = async () => {
+    while (nextIndex < items.length && !shouldStop()) {
+      const item = items[nextIndex++];
+      // The start slot is reserved before waiting so that parallel workers do not pick the same one
+      const startAt = Math.max(Date.now(), nextStartAt);
+      nextStartAt = startAt + minIntervalMs;
+      await delay(startAt - Date.now());
+      if (shouldStop()) return;
+      await task(item);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+};
@@ -0,0 +1,78 @@
+import { Candidate, CustomFieldDefinition, CustomFieldValue, RetentionPolicy, RetentionRule, ScorecardSubmission, TestResult } from '../types';
+import { getLegacyTestFileKey, getTestFileKey } from './applicationUtils';
+
+export const ANONYMIZED_NAME = 'متقاضی ناشناس';
+
+// The latest moment anyone worked on the candidate: creation, a history entry or a comment.
+export const getLastActivity = (candidate: Candidate): Date => {
+  const timestamps = [
+    candidate.createdAt,
+    ...candidate.history.map(h => h.timestamp),
+    ...candidate.comments.map(c => c.timestamp),
+  ].map(t => new Date(t).getTime()).filter(t => !isNaN(t));
+  return new Date(Math.max(0, ...timestamps));
+};
+
+const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+};
+
+// Returns the rule that makes the candidate expire, or undefined if it must be kept. Every application
+// has to be in a stage with a rule; with several stages the longest retention period applies.
+export const findExpiredRule = (candidate: Candidate, policy: RetentionPolicy, now: Date = new Date()): RetentionRule | undefined => {
+  if (!policy.enabled || candidate.anonymizedAt) return undefined;
+  const stageIds = candidate.applications?.length ? candidate.applications.map(a => a.stage) : [candidate.stage];
+  const rules = stageIds.map(stageId => policy.rules.find(rule => rule.stageId === stageId));
+  if (rules.some(rule => !rule)) return undefined;
+  const rule = (rules as RetentionRule[]).reduce((longest, r) => r.months > longest.months ? r : longest);
+  return addMonths(getLastActivity(candidate), rule.months) <= now ? rule : undefined;
+};
+
+// Keys of every stored test result file, across all applications.
+export const getTestFileKeys = (candidate: Candidate): string[] => [
+  ...(candidate.applications || []).flatMap(a => (a.testResults || []).filter(r => r.file).map(r => getTestFileKey(candidate.id, a.id, r.testId))),
+  // Files that were not moved to their application's key yet
+  ...(candidate.testResults || []).filter(r => r.file).map(r => getLegacyTestFileKey(candidate.id, r.testId)),
+];
+
+// Notes, AI summaries and files may describe the person; status and score are kept for statistics.
+const stripTestResult = ({ testId, status, score, sentDate, deadlineHours }: TestResult): TestResult => ({
+  testId, status, score, sentDate, deadlineHours,
+});
+
+// Notes can describe the person; the ratings are kept like test scores.
+const stripScorecard = (submission: ScorecardSubmission): ScorecardSubmission => ({
+  ...submission,
+  scores: submission.scores.map(({ competencyId, competencyName, rating }) => ({ competencyId, competencyName, rating })),
+  summary: undefined,
+});
+
+// Keeps the values of custom fields not marked as personal. Values of deleted fields are removed,
+// since it is no longer known what they contained.
+const keepImpersonalFields = (values: Candidate['customFields'], fields: CustomFieldDefinition[]): Candidate['customFields'] => {
+  const kept = Object.entries(values || {}).filter(([id]) => fields.some(field => field.id === id && !field.isPersonal));
+  return kept.length > 0 ? Object.fromEntries(kept) as Record<string, CustomFieldValue> : undefined;
+};
+
+// Removes everything that identifies the person while keeping stages, ratings, dates, source and
+// positions, so reports and pipeline statistics stay correct. Files must be deleted separately.
+export const anonymizeCandidate = (candidate: Candidate, performedBy: string, customFields: CustomFieldDefinition[] = [], timestamp: string = new Date().toISOString()): Candidate => ({
+  ...candidate,
+  name: ANONYMIZED_NAME,
+  email: '',
+  phone: '',
+  hasResume: false,
+  comments: [],
+  profile: undefined, // Education, employers and location identify the person
+  customFields: keepImpersonalFields(candidate.customFields, customFields),
+  // History details can contain names, e.g. of merged records
+  history: [
+    { user: performedBy, action: 'اطلاعات شخصی حذف شد', timestamp },
+    ...candidate.history.map(({ user, action, timestamp }) => ({ user, action, timestamp })),
+  ],
+  testResults: candidate.testResults?.map(stripTestResult),
+  applications: candidate.applications.map(app => ({ ...app, testResults: app.testResults?.map(stripTestResult), scorecards: app.scorecards?.map(stripScorecard) })),
+  anonymizedAt: timestamp,
+});
@@ -0,0 +1,49 @@
+import { Application, JobPosition, ScorecardScore, ScorecardSubmission, ScorecardTemplate, StageId } from '../types';
+
+export const SCORECARD_SCALE = [1, 2, 3, 4, 5];
+
+// Templates of the application's position that apply to the given stage.
+export const getApplicableScorecards = (application: Application, jobPositions: JobPosition[], stageId: StageId = application.stage): ScorecardTemplate[] => {
+  const position = jobPositions.find(j => j.id === application.jobPositionId);
+  return (position?.scorecards || []).filter(template => !template.stageId || template.stageId === stageId);
+};
+
+export const getSubmissions = (application: Application, templateId: string): ScorecardSubmission[] =>
+  (application.scorecards || []).filter(s => s.templateId === templateId);
+
+export const findOwnSubmission = (application: Application, templateId: string, username: string): ScorecardSubmission | undefined =>
+  getSubmissions(application, templateId).find(s => s.interviewer === username);
+
+// Returns a message for the first missing rating or required note, or null when the scorecard is complete.
+export const validateScorecard = (template: ScorecardTemplate, scores: ScorecardScore[]): string | null => {
+  for (const competency of template.competencies) {
+    const score = scores.find(s => s.competencyId === competency.id);
+    if (!score || !SCORECARD_SCALE.includes(score.rating)) return `امتیاز «${competency.name}» را مشخص کنید.`;
+    if (competency.requireNote && !score.note?.trim()) return `برای «${competency.name}» توضیح لازم است.`;
+  }
+  return null;
+};
+
+// Average rating of a submission, or of one competency across submissions, rounded to one decimal.
+export const averageRating = (ratings: number[]): number | null =>
+  ratings.length > 0 ? Math.round(ratings.reduce((sum, r) => sum + r, 0) / ratings.length * 10) / 10 : null;
+
+// Competencies as they appear in the submissions, in template order first and then any that were removed since.
+export const getScorecardRows = (template: ScorecardTemplate | undefined, submissions: ScorecardSubmission[]): { id: string; name: string }[] => {
+  const rows = (template?.competencies || []).map(({ id, name }) => ({ id, name }));
+  for (const score of submissions.flatMap(s => s.scores)) {
+    if (!rows.some(row => row.id === score.competencyId)) rows.push({ id: score.competencyId, name: score.competencyName });
+  }
+  return rows;
+};
+
+// Combines the submissions of two application records; for the same interviewer and template the newer one wins.
+export const mergeScorecardSubmissions = (a: ScorecardSubmission[], b: ScorecardSubmission[]): ScorecardSubmission[] => {
+  const byKey = new Map<string, ScorecardSubmission>();
+  for (const submission of [...a, ...b]) {
+    const key = `${submission.templateId}|${submission.interviewer}`;
+    const existing = byKey.get(key);
+    if (!existing || new Date(submission.submittedAt) > new Date(existing.submittedAt)) byKey.set(key, submission);
+  }
+  return [...byKey.values()];
+};
@@ -0,0 +1,228 @@
+import { Candidate, SearchField, SearchResult, SearchSnippetPart } from '../types';
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 10,
+  contact: 6,
+  profile: 4,
+  comment: 3,
+  test: 3,
+  history: 2,
+  resume: 1,
+};
+
+// A token that only starts with the query term counts less than an exact match
+const PREFIX_MATCH_FACTOR = 0.6;
+const SNIPPET_RADIUS = 60;
+
+const CHAR_MAP: Record<string, string> = {
+  'ي': 'ی', 'ى': 'ی', 'ك': 'ک', 'ة': 'ه', 'ۀ': 'ه', 'أ': 'ا', 'إ': 'ا', 'آ': 'ا',
+  '\u200C': '', '\u200D': '', '\u0640': '', // half-space, zero-width joiner, tatweel
+};
+
+const normalizeChar = (c: string): string => {
+  if (c in CHAR_MAP) return CHAR_MAP[c];
+  if (c >= '۰' && c <= '۹') return String(c.charCodeAt(0) - '۰'.charCodeAt(0));
+  if (c >= '٠' && c <= '٩') return String(c.charCodeAt(0) - '٠'.charCodeAt(0));
+  if (/[\u064B-\u065F\u0670]/.test(c)) return '';
+  return c.toLowerCase();
+};
+
+// Same rules as normalizePersianName, plus digits, applied per character so that every normalized
+// character can be traced back to its position in the original text for highlighting.
+const normalizeWithPositions = (text: string): { normalized: string; positions: number[] } => {
+  let normalized = '';
+  const positions: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    for (const c of normalizeChar(text[i])) {
+      normalized += c;
+      positions.push(i);
+    }
+  }
+  return { normalized, positions };
+};
+
+const TOKEN_SEPARATOR = /[^\p{L}\p{N}\p{M}]+/u;
+
+export const tokenizeSearchText = (text: string): string[] =>
+  normalizeWithPositions(text).normalized.split(TOKEN_SEPARATOR).filter(Boolean);
+
+interface IndexedField {
+  field: SearchField;
+  text: string;
+}
+
+interface IndexedDocument {
+  fields: IndexedField[];
+  tokens: Set<string>;
+}
+
+// Inverted index over the visible candidates. Postings map a token to the candidates and fields it occurs in.
+export interface SearchIndex {
+  documents: Map<string, IndexedDocument>;
+  postings: Map<string, Map<string, Map<SearchField, number>>>;
+}
+
+export const createSearchIndex = (): SearchIndex => ({ documents: new Map(), postings: new Map() });
+
+const collectFields = (candidate: Candidate, resumeText?: string): IndexedField[] => {
+  const fields: IndexedField[] = [];
+  const add = (field: SearchField, text?: string) => {
+    if (text && text.trim()) fields.push({ field, text });
+  };
+  add('name', candidate.name);
+  // Phone numbers are also indexed without separators so that "0912 123 4567" is found by "09121234567"
+  add('contact', [candidate.email, candidate.phone, candidate.phone.replace(/\D/g, '')].join(' '));
+  const profile = candidate.profile;
+  if (profile) {
+    add('profile', [
+      ...(profile.skills || []),
+      ...(profile.previousEmployers || []),
+      ...(profile.languages || []),
+      ...(profile.education || []).map(e => [e.degree, e.field, e.institution].join(' ')),
+      profile.location,
+    ].filter(Boolean).join('، '));
+  }
+  candidate.comments.forEach(comment => add('comment', comment.text));
+  candidate.history.forEach(entry => add('history', [entry.action, entry.details].filter(Boolean).join(' - ')));
+  // candidate.testResults mirrors the primary application, so identical texts are indexed once
+  const testTexts = new Set<string>();
+  for (const result of [...(candidate.testResults || []), ...candidate.applications.flatMap(a => a.testResults || [])]) {
+    if (result.notes) testTexts.add(result.notes);
+    if (result.aiSummary) testTexts.add(result.aiSummary);
+  }
+  testTexts.forEach(text => add('test', text));
+  add('resume', resumeText);
+  return fields;
+};
+
+export const removeFromSearchIndex = (index: SearchIndex, candidateId: string) => {
+  const document = index.documents.get(candidateId);
+  if (!document) return;
+  for (const token of document.tokens) {
+    const posting = index.postings.get(token);
+    posting?.delete(candidateId);
+    if (posting?.size === 0) index.postings.delete(token);
+  }
+  index.documents.delete(candidateId);
+};
+
+// Replaces the indexed content of one candidate; called for every candidate that changed.
+export const indexCandidate = (index: SearchIndex, candidate: Candidate, resumeText?: string) => {
+  removeFromSearchIndex(index, candidate.id);
+  const fields = collectFields(candidate, resumeText);
+  const tokens = new Set<string>();
+  for (const { field, text } of fields) {
+    for (const token of tokenizeSearchText(text)) {
+      tokens.add(token);
+      let posting = index.postings.get(token);
+      if (!posting) {
+        posting = new Map();
+        index.postings.set(token, posting);
+      }
+      let counts = posting.get(candidate.id);
+      if (!counts) {
+        counts = new Map();
+        posting.set(candidate.id, counts);
+      }
+      counts.set(field, (counts.get(field) || 0) + 1);
+    }
+  }
+  index.documents.set(candidate.id, { fields, tokens });
+};
+
+// Start offsets of the terms in `normalized`, counted only at the beginning of a token.
+const findTermStarts = (normalized: string, term: string): number[] => {
+  const starts: number[] = [];
+  let from = normalized.indexOf(term);
+  while (from !== -1) {
+    if (from === 0 || TOKEN_SEPARATOR.test(normalized[from - 1])) starts.push(from);
+    from = normalized.indexOf(term, from + 1);
+  }
+  return starts;
+};
+
+// Excerpt of the result's best field around the first match. Built only for the results that are shown,
+// since normalizing long resume texts for every match would slow down typing.
+export const buildSearchSnippet = (index: SearchIndex, result: SearchResult, query: string): SearchSnippetPart[] => {
+  const terms = Array.from(new Set(tokenizeSearchText(query)));
+  const entries = (index.documents.get(result.candidateId)?.fields || []).filter(f => f.field === result.field);
+  let best: { text: string; ranges: [number, number][] } | undefined;
+  for (const { text } of entries) {
+    const { normalized, positions } = normalizeWithPositions(text);
+    const ranges: [number, number][] = [];
+    for (const term of terms) {
+      for (const start of findTermStarts(normalized, term)) {
+        ranges.push([positions[start], positions[start + term.length - 1] + 1]);
+      }
+    }
+    // Prefers the entry that contains the most matches, e.g. the most relevant of several comments
+    if (ranges.length > 0 && (!best || ranges.length > best.ranges.length)) best = { text, ranges };
+  }
+  if (!best) return [{ text: entries[0]?.text.slice(0, SNIPPET_RADIUS * 2) || '', highlight: false }];
+
+  const ranges = best.ranges.sort((a, b) => a[0] - b[0]);
+  const windowStart = Math.max(0, ranges[0][0] - SNIPPET_RADIUS);
+  const windowEnd = Math.min(best.text.length, ranges[0][1] + SNIPPET_RADIUS);
+  const parts: SearchSnippetPart[] = [];
+  const push = (text: string, highlight: boolean) => {
+    if (text) parts.push({ text: text.replace(/\s+/g, ' '), highlight });
+  };
+  if (windowStart > 0) push('…', false);
+  let cursor = windowStart;
+  for (const [start, end] of ranges) {
+    if (start < cursor || end > windowEnd) continue;
+    push(best.text.slice(cursor, start), false);
+    push(best.text.slice(start, end), true);
+    cursor = end;
+  }
+  push(best.text.slice(cursor, windowEnd), false);
+  if (windowEnd < best.text.length) push('…', false);
+  return parts;
+};
+
+// Ranks candidates that contain every query term, either as a whole token or as the start of one.
+export const searchCandidates = (index: SearchIndex, query: string): SearchResult[] => {
+  const terms = Array.from(new Set(tokenizeSearchText(query)));
+  if (terms.length === 0) return [];
+
+  let scores: Map<string, Map<SearchField, number>> | undefined;
+  for (const term of terms) {
+    const termScores = new Map<string, Map<SearchField, number>>();
+    for (const [token, posting] of index.postings) {
+      if (!token.startsWith(term)) continue;
+      const factor = token === term ? 1 : PREFIX_MATCH_FACTOR;
+      for (const [candidateId, counts] of posting) {
+        if (scores && !scores.has(candidateId)) continue;
+        const fieldScores = termScores.get(candidateId) || new Map<SearchField, number>();
+        for (const [field, count] of counts) {
+          fieldScores.set(field, (fieldScores.get(field) || 0) + FIELD_WEIGHTS[field] * factor * (1 + Math.log(count)));
+        }
+        termScores.set(candidateId, fieldScores);
+      }
+    }
+    if (scores) {
+      for (const [candidateId, fieldScores] of termScores) {
+        for (const [field, score] of scores.get(candidateId)!) {
+          fieldScores.set(field, (fieldScores.get(field) || 0) + score);
+        }
+      }
+    }
+    scores = termScores;
+  }
+
+  const results: SearchResult[] = [];
+  for (const [candidateId, fieldScores] of scores || []) {
+    let score = 0;
+    let bestField: SearchField = 'name';
+    let bestFieldScore = -1;
+    for (const [field, fieldScore] of fieldScores) {
+      score += fieldScore;
+      if (fieldScore > bestFieldScore) {
+        bestField = field;
+        bestFieldScore = fieldScore;
+      }
+    }
+    results.push({ candidateId, score, field: bestField });
+  }
+  return results.sort((a, b) => b.score - a.score);
+};